@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getArtifactStore } from "../../../artifacts/store";
+import { isArtifactId } from "../../../artifacts/upload";
+import { accountError, withAccount } from "../../session";
+
+type Context = { params: { id: string } };
+
+// the owner or an admin deletes a shared artifact
+export const DELETE = withAccount(async (req, user, { params }: Context) => {
+  if (!isArtifactId(params.id)) {
+    return accountError("artifact not found", 404);
+  }
+  const store = getArtifactStore();
+  const artifact = await store.get(params.id);
+  if (!artifact) {
+    return accountError("artifact not found", 404);
+  }
+  if (artifact.owner !== user.id && user.role !== "admin") {
+    return accountError("you are not allowed to do this", 403);
+  }
+  await store.delete(params.id);
+  return NextResponse.json({ id: params.id });
+});
+
+export const runtime = "nodejs";
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getArtifactStore } from "../../artifacts/store";
+import { withAccount } from "../session";
+
+// the artifacts shared by the caller
+export const GET = withAccount(async (req, user) =>
+  NextResponse.json(await getArtifactStore().list(user.id)),
+);
+
+export const runtime = "nodejs";
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSideConfig } from "@/app/config/server";
+import { verifyPassword } from "../password";
+import { accountError, issueSession } from "../session";
+import { getUserStore } from "../store";
+
+async function handle(req: NextRequest) {
+  if (!getServerSideConfig().enableAccounts) {
+    return accountError("accounts are disabled", 404);
+  }
+  try {
+    const { username, password } = await req.json();
+    const user = await (await getUserStore()).getByUsername(`${username}`);
+    if (!user || !(await verifyPassword(`${password}`, user.passwordHash))) {
+      return accountError("wrong username or password", 401);
+    }
+    console.log("[Account] login", user.username);
+    return NextResponse.json(await issueSession(user));
+  } catch (e) {
+    console.error("[Account] ", e);
+    return accountError((e as Error).message, 500);
+  }
+}
+
+export const POST = handle;
+
+export const runtime = "nodejs";
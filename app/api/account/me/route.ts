@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { issueSession, withAccount } from "../session";
+
+// hands out a fresh token with the current role and model allowlist
+export const GET = withAccount(async (req, user) =>
+  NextResponse.json(await issueSession(user)),
+);
+
+export const runtime = "nodejs";
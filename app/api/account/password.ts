@@ -0,0 +1,26 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+const KEY_LENGTH = 64;
+
+function derive(password: string, salt: string) {
+  return new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key),
+    ),
+  );
+}
+
+// stored as `scrypt$<salt>$<hash>` so the algorithm can change later
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const key = await derive(password, salt);
+  return ["scrypt", salt, key.toString("hex")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [algorithm, salt, hash] = stored.split("$");
+  if (algorithm !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const key = await derive(password, salt);
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSideConfig } from "@/app/config/server";
+import { USER_TOKEN_PREFIX } from "@/app/constant";
+import { getUserStore, toPublicUser, User } from "./store";
+import { signSessionToken, UserRole, verifySessionToken } from "./token";
+
+export function getUserToken(req: NextRequest) {
+  const token = (req.headers.get("Authorization") ?? "")
+    .replace("Bearer ", "")
+    .trim();
+  return token.startsWith(USER_TOKEN_PREFIX)
+    ? token.slice(USER_TOKEN_PREFIX.length)
+    : "";
+}
+
+export async function issueSession(user: User) {
+  const token = await signSessionToken(
+    {
+      sub: user.id,
+      name: user.username,
+      role: user.role,
+      models: user.models,
+      ver: user.tokenVersion,
+    },
+    getServerSideConfig().authSecret,
+  );
+  return { token, user: toPublicUser(user) };
+}
+
+// checks the token and its version against the user store
+export async function getSessionUser(req: NextRequest) {
+  const claims = await verifySessionToken(
+    getUserToken(req),
+    getServerSideConfig().authSecret,
+  );
+  if (!claims) return;
+  const user = await (await getUserStore()).get(claims.sub);
+  return user?.tokenVersion === claims.ver ? user : undefined;
+}
+
+export function accountError(msg: string, status: number) {
+  return NextResponse.json({ error: true, msg }, { status });
+}
+
+// wraps an account route, answers 404 when accounts are disabled and 401/403
+// when the caller is not logged in or misses the role
+export function withAccount(
+  handler: (req: NextRequest, user: User, context: any) => Promise<Response>,
+  role?: UserRole,
+) {
+  return async (req: NextRequest, context: any) => {
+    if (!getServerSideConfig().enableAccounts) {
+      return accountError("accounts are disabled", 404);
+    }
+    try {
+      const user = await getSessionUser(req);
+      if (!user) {
+        return accountError("invalid or expired session", 401);
+      }
+      if (role && user.role !== role) {
+        return accountError("you are not allowed to do this", 403);
+      }
+      return await handler(req, user, context);
+    } catch (e) {
+      console.error("[Account] ", e);
+      return accountError((e as Error).message, 500);
+    }
+  };
+}
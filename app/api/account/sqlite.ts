@@ -0,0 +1,99 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { User, UserStore } from "./store";
+
+type UserRow = Omit<User, "models" | "tokenVersion" | "passwordHash"> & {
+  models: string;
+  password_hash: string;
+  token_version: number;
+  created_at: number;
+};
+
+const COLUMNS: Record<string, string> = {
+  username: "username",
+  role: "role",
+  models: "models",
+  passwordHash: "password_hash",
+  tokenVersion: "token_version",
+  createdAt: "created_at",
+};
+
+function toUser(row?: UserRow): User | undefined {
+  if (!row) return;
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    models: JSON.parse(row.models),
+    passwordHash: row.password_hash,
+    tokenVersion: row.token_version,
+    createdAt: row.created_at,
+  };
+}
+
+function toColumnValue(key: string, value: any) {
+  return key === "models" ? JSON.stringify(value) : value;
+}
+
+export function createSqliteUserStore(path: string): UserStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL,
+    models TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    token_version INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+  )`);
+
+  return {
+    async list() {
+      const rows = db
+        .prepare("SELECT * FROM users ORDER BY created_at")
+        .all() as UserRow[];
+      return rows.map((row) => toUser(row)!);
+    },
+    async get(id) {
+      return toUser(
+        db.prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow,
+      );
+    },
+    async getByUsername(username) {
+      return toUser(
+        db
+          .prepare("SELECT * FROM users WHERE username = ?")
+          .get(username) as UserRow,
+      );
+    },
+    async create(user) {
+      db.prepare(
+        `INSERT INTO users (id, username, role, models, password_hash, token_version, created_at)
+        VALUES (@id, @username, @role, @models, @passwordHash, @tokenVersion, @createdAt)`,
+      ).run({ ...user, models: JSON.stringify(user.models) });
+    },
+    async update(id, patch) {
+      const keys = Object.keys(patch).filter((key) => key in COLUMNS);
+      if (keys.length === 0) return;
+      db.prepare(
+        `UPDATE users SET ${keys
+          .map((key) => `${COLUMNS[key]} = @${key}`)
+          .join(", ")} WHERE id = @id`,
+      ).run({
+        id,
+        ...Object.fromEntries(
+          keys.map((key) => [
+            key,
+            toColumnValue(key, patch[key as keyof typeof patch]),
+          ]),
+        ),
+      });
+    },
+    async delete(id) {
+      db.prepare("DELETE FROM users WHERE id = ?").run(id);
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { nanoid } from "nanoid";
+import { getServerSideConfig } from "@/app/config/server";
+import { hashPassword } from "./password";
+import { createSqliteUserStore } from "./sqlite";
+import type { UserRole } from "./token";
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  models: string[];
+  passwordHash: string;
+  tokenVersion: number;
+  createdAt: number;
+}
+
+// what the admin api sends back, never includes the password hash
+export type PublicUser = Omit<User, "passwordHash" | "tokenVersion">;
+
+export interface UserStore {
+  list(): Promise<User[]>;
+  get(id: string): Promise<User | undefined>;
+  getByUsername(username: string): Promise<User | undefined>;
+  create(user: User): Promise<void>;
+  update(id: string, patch: Partial<Omit<User, "id">>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export function toPublicUser({
+  passwordHash,
+  tokenVersion,
+  ...user
+}: User): PublicUser {
+  return user;
+}
+
+export const USER_ROLES: UserRole[] = ["admin", "user"];
+
+// accepts the allowlist as an array or a comma separated string
+export function parseModels(models: unknown) {
+  const list = Array.isArray(models) ? models : `${models ?? ""}`.split(",");
+  return list.map((m) => `${m}`.trim()).filter((m) => m.length > 0);
+}
+
+export async function createUser(
+  store: UserStore,
+  user: Pick<User, "username" | "role" | "models"> & { password: string },
+) {
+  const created: User = {
+    id: nanoid(),
+    username: user.username,
+    role: user.role,
+    models: user.models,
+    passwordHash: await hashPassword(user.password),
+    tokenVersion: 0,
+    createdAt: Date.now(),
+  };
+  await store.create(created);
+  return created;
+}
+
+let userStore: Promise<UserStore> | undefined;
+
+// the backend is picked by USER_STORE, add new ones here
+export function getUserStore() {
+  if (!userStore) {
+    const serverConfig = getServerSideConfig();
+    userStore = (async () => {
+      let store: UserStore;
+      switch (serverConfig.userStore) {
+        case "sqlite":
+          store = createSqliteUserStore(serverConfig.userStorePath);
+          break;
+        default:
+          throw Error(
+            `[User Store] unsupported user store ${serverConfig.userStore}`,
+          );
+      }
+
+      // create the first admin from the env on an empty store
+      const { adminUsername, adminPassword } = serverConfig;
+      if (adminUsername && adminPassword) {
+        const users = await store.list();
+        if (users.length === 0) {
+          console.log("[User Store] create admin", adminUsername);
+          await createUser(store, {
+            username: adminUsername,
+            password: adminPassword,
+            role: "admin",
+            models: [],
+          });
+        }
+      }
+      return store;
+    })();
+    userStore.catch(() => (userStore = undefined));
+  }
+  return userStore;
+}
@@ -0,0 +1,99 @@
+import { getModelProvider } from "@/app/utils/model";
+
+export type UserRole = "admin" | "user";
+
+export interface SessionClaims {
+  sub: string; // user id
+  name: string;
+  role: UserRole;
+  // allowed models, empty means every model
+  models: string[];
+  // bumped when the password, the role or the allowlist changes
+  ver: number;
+  exp: number;
+}
+
+// tokens are short lived, the client refreshes them through /api/account/me
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function getKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+// the token is `<payload>.<signature>`, both base64url encoded
+export async function signSessionToken(
+  claims: Omit<SessionClaims, "exp">,
+  secret: string,
+  ttl = SESSION_TTL_MS,
+) {
+  const payload = toBase64Url(
+    encoder.encode(JSON.stringify({ ...claims, exp: Date.now() + ttl })),
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getKey(secret),
+    encoder.encode(payload),
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(
+  token: string,
+  secret: string,
+): Promise<SessionClaims | null> {
+  const [payload, signature] = token.split(".");
+  if (!secret || !payload || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) return null;
+    const claims = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(payload)),
+    ) as SessionClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// allowlist entries use the CUSTOM_MODELS syntax, `name` or `name@provider`,
+// the provider part is only used by the client to filter the model list.
+// A request whose model is unknown is denied once there is an allowlist.
+export function isModelAllowed(models: string[], model?: string) {
+  if (models.length === 0) return true;
+  if (!model) return false;
+  return models.some((m) => getModelProvider(m)[0] === model);
+}
+
+// `-all,+m1,+m2` hides everything but the allowed models in the client
+export function getAllowlistCustomModels(models: string[]) {
+  return models.length > 0
+    ? ["-all", ...models.map((m) => `+${m}`)].join(",")
+    : "";
+}
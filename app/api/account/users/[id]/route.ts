@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { hashPassword } from "../../password";
+import { accountError, withAccount } from "../../session";
+import {
+  getUserStore,
+  parseModels,
+  toPublicUser,
+  User,
+  USER_ROLES,
+} from "../../store";
+
+type Context = { params: { id: string } };
+
+export const PUT = withAccount(async (req, admin, { params }: Context) => {
+  const body = await req.json();
+  const store = await getUserStore();
+  const user = await store.get(params.id);
+  if (!user) {
+    return accountError("user not found", 404);
+  }
+
+  const patch: Partial<User> = {};
+  if (body.role !== undefined) {
+    if (!USER_ROLES.includes(body.role)) {
+      return accountError("unknown role " + body.role, 400);
+    }
+    if (user.id === admin.id && body.role !== "admin") {
+      return accountError("you can not remove your own admin role", 400);
+    }
+    patch.role = body.role;
+  }
+  if (body.models !== undefined) {
+    patch.models = parseModels(body.models);
+  }
+  if (body.password) {
+    patch.passwordHash = await hashPassword(`${body.password}`);
+  }
+  // a new password, role or allowlist logs out every session of the user,
+  // so no token keeps the old claims
+  if (
+    patch.passwordHash ||
+    (patch.role && patch.role !== user.role) ||
+    (patch.models && patch.models.join(",") !== user.models.join(","))
+  ) {
+    patch.tokenVersion = user.tokenVersion + 1;
+  }
+  await store.update(user.id, patch);
+  return NextResponse.json(toPublicUser({ ...user, ...patch }));
+}, "admin");
+
+export const DELETE = withAccount(async (req, admin, { params }: Context) => {
+  if (params.id === admin.id) {
+    return accountError("you can not delete your own account", 400);
+  }
+  await (await getUserStore()).delete(params.id);
+  return NextResponse.json({ id: params.id });
+}, "admin");
+
+export const runtime = "nodejs";
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { accountError, withAccount } from "../session";
+import {
+  createUser,
+  getUserStore,
+  parseModels,
+  toPublicUser,
+  USER_ROLES,
+} from "../store";
+
+export const GET = withAccount(async () => {
+  const users = await (await getUserStore()).list();
+  return NextResponse.json(users.map(toPublicUser));
+}, "admin");
+
+export const POST = withAccount(async (req) => {
+  const body = await req.json();
+  const username = `${body.username ?? ""}`.trim();
+  const password = `${body.password ?? ""}`;
+  const role = body.role ?? "user";
+  if (!username || !password) {
+    return accountError("username and password are required", 400);
+  }
+  if (!USER_ROLES.includes(role)) {
+    return accountError("unknown role " + role, 400);
+  }
+
+  const store = await getUserStore();
+  if (await store.getByUsername(username)) {
+    return accountError("user already exists", 409);
+  }
+  const user = await createUser(store, {
+    username,
+    password,
+    role,
+    models: parseModels(body.models),
+  });
+  return NextResponse.json(toPublicUser(user));
+}, "admin");
+
+export const runtime = "nodejs";
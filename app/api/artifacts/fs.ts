@@ -0,0 +1,54 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ArtifactInfo, ArtifactStore } from "./store";
+import { isArtifactId } from "./upload";
+
+// one content file and one json file with the details per artifact
+export function createFsArtifactStore(dir: string): ArtifactStore {
+  // the id is part of the path, so it must not leave the dir
+  const file = (id: string, ext: string) => {
+    if (!isArtifactId(id)) throw new Error(`invalid artifact id ${id}`);
+    return join(dir, `${id}.${ext}`);
+  };
+  const contentFile = (id: string) => file(id, "html");
+  const infoFile = (id: string) => file(id, "json");
+  const ready = mkdir(dir, { recursive: true });
+
+  const readInfo = async (id: string) => {
+    try {
+      return JSON.parse(await readFile(infoFile(id), "utf-8")) as ArtifactInfo;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+  };
+
+  return {
+    async get(id) {
+      await ready;
+      const info = await readInfo(id);
+      if (!info) return;
+      return { ...info, content: await readFile(contentFile(id), "utf-8") };
+    },
+    async put({ content, ...info }) {
+      await ready;
+      await writeFile(contentFile(info.id), content);
+      await writeFile(infoFile(info.id), JSON.stringify(info));
+    },
+    async list(owner) {
+      await ready;
+      const ids = (await readdir(dir))
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => name.slice(0, -".json".length));
+      const infos = await Promise.all(ids.map(readInfo));
+      return infos
+        .filter((info): info is ArtifactInfo => info?.owner === owner)
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+    async delete(id) {
+      await ready;
+      await rm(infoFile(id), { force: true });
+      await rm(contentFile(id), { force: true });
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import type { ArtifactInfo, ArtifactStore } from "./store";
+
+/**
+ * Cloudflare KV over its REST api. The content is the value and the details
+ * are the metadata of a key, artifacts shared before have no metadata.
+ */
+export function createKVArtifactStore(config: {
+  accountId: string;
+  namespaceId: string;
+  apiKey: string;
+}): ArtifactStore {
+  const storeUrl = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/storage/kv/namespaces/${config.namespaceId}`;
+  const headers = { Authorization: `Bearer ${config.apiKey}` };
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const res = await fetch(`${storeUrl}${path}`, {
+      ...init,
+      headers: { ...headers, ...init.headers },
+    });
+    if (!res.ok && res.status !== 404) {
+      throw Error(`[Artifact Store] kv failed: ${res.status}`);
+    }
+    return res;
+  };
+
+  return {
+    async get(id) {
+      const res = await request(`/values/${encodeURIComponent(id)}`);
+      if (res.status === 404) return;
+      const content = await res.text();
+      const metadata = await request(`/metadata/${encodeURIComponent(id)}`)
+        .then((res) => res.json())
+        .then((json) => json?.result as Partial<ArtifactInfo> | null)
+        .catch(() => undefined);
+      return {
+        contentType: "text/html",
+        size: new TextEncoder().encode(content).length,
+        createdAt: 0,
+        ...metadata,
+        id,
+        content,
+      };
+    },
+    async put({ content, ...info }) {
+      const body = {
+        key: info.id,
+        value: content,
+        metadata: info,
+        ...(info.expiresAt
+          ? { expiration: Math.ceil(info.expiresAt / 1000) }
+          : {}),
+      };
+      const res = await request("/bulk", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify([body]),
+      });
+      if (!(await res.json())?.success) {
+        throw Error(`[Artifact Store] failed to save ${info.id}`);
+      }
+    },
+    async list(owner) {
+      const infos: ArtifactInfo[] = [];
+      let cursor = "";
+      do {
+        const res = await request(
+          `/keys?limit=1000${cursor ? `&cursor=${cursor}` : ""}`,
+        );
+        const json = await res.json();
+        (json?.result ?? []).forEach((key: any) => {
+          if (key.metadata?.owner === owner) infos.push(key.metadata);
+        });
+        cursor = json?.result_info?.cursor ?? "";
+      } while (cursor);
+      return infos.sort((a, b) => b.createdAt - a.createdAt);
+    },
+    async delete(id) {
+      await request(`/values/${encodeURIComponent(id)}`, { method: "DELETE" });
+    },
+  };
+}
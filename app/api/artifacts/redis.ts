@@ -0,0 +1,79 @@
+import type { ArtifactInfo, ArtifactStore } from "./store";
+
+/**
+ * Any store with the Upstash REST api, e.g. Upstash itself or a Redis server
+ * behind serverless-redis-http. Every artifact has a content key and a info
+ * key, and each owner a set of ids.
+ */
+export function createRedisArtifactStore(config: {
+  url: string;
+  token: string;
+}): ArtifactStore {
+  const url = config.url.endsWith("/") ? config.url.slice(0, -1) : config.url;
+  const contentKey = (id: string) => `artifact:${id}`;
+  const infoKey = (id: string) => `artifact-info:${id}`;
+  const ownerKey = (owner: string) => `artifact-owner:${owner}`;
+
+  const pipeline = async (commands: (string | number)[][]) => {
+    const res = await fetch(`${url}/pipeline`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!res.ok) {
+      throw Error(`[Artifact Store] redis failed: ${res.status}`);
+    }
+    const results = (await res.json()) as { result?: any; error?: string }[];
+    const error = results.find((r) => r.error);
+    if (error) throw Error(`[Artifact Store] redis failed: ${error.error}`);
+    return results.map((r) => r.result);
+  };
+
+  return {
+    async get(id) {
+      const [content, info] = await pipeline([
+        ["GET", contentKey(id)],
+        ["GET", infoKey(id)],
+      ]);
+      if (content === null || info === null) return;
+      return { ...(JSON.parse(info) as ArtifactInfo), content };
+    },
+    async put({ content, ...info }) {
+      const expiry = info.expiresAt ? ["PXAT", info.expiresAt] : [];
+      await pipeline([
+        ["SET", contentKey(info.id), content, ...expiry],
+        ["SET", infoKey(info.id), JSON.stringify(info), ...expiry],
+        ...(info.owner ? [["SADD", ownerKey(info.owner), info.id]] : []),
+      ]);
+    },
+    async list(owner) {
+      const [ids] = (await pipeline([["SMEMBERS", ownerKey(owner)]])) as [
+        string[],
+      ];
+      if (ids.length === 0) return [];
+      const [infos] = (await pipeline([["MGET", ...ids.map(infoKey)]])) as [
+        (string | null)[],
+      ];
+      // expired artifacts leave their ids behind
+      const gone = ids.filter((_, i) => infos[i] === null);
+      if (gone.length > 0) {
+        await pipeline([["SREM", ownerKey(owner), ...gone]]);
+      }
+      return infos
+        .filter((info): info is string => info !== null)
+        .map((info) => JSON.parse(info) as ArtifactInfo)
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+    async delete(id) {
+      const [info] = await pipeline([["GET", infoKey(id)]]);
+      const owner = info ? (JSON.parse(info) as ArtifactInfo).owner : undefined;
+      await pipeline([
+        ["DEL", contentKey(id), infoKey(id)],
+        ...(owner ? [["SREM", ownerKey(owner), id]] : []),
+      ]);
+    },
+  };
+}
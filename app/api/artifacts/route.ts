@@ -1,73 +1,85 @@
-import md5 from "spark-md5";
 import { NextRequest, NextResponse } from "next/server";
+import { nanoid } from "nanoid";
 import { getServerSideConfig } from "@/app/config/server";
+import { ModelProvider } from "@/app/constant";
+import { auth } from "../auth";
+import { getSessionUser, getUserToken } from "../account/session";
+import { getArtifactStore, isArtifactExpired } from "./store";
+import {
+  ArtifactUploadError,
+  checkArtifactUpload,
+  isArtifactId,
+} from "./upload";
+
+function artifactError(msg: string, status: number) {
+  return NextResponse.json({ error: true, msg }, { status });
+}
+
+export async function POST(req: NextRequest) {
+  const authResult = await auth(req, ModelProvider.GPT, { checkModel: false });
+  if (authResult.error) {
+    return NextResponse.json(authResult, {
+      status: 401,
+    });
+  }
 
-async function handle(req: NextRequest, res: NextResponse) {
   const serverConfig = getServerSideConfig();
-  const storeUrl = () =>
-    `https://api.cloudflare.com/client/v4/accounts/${serverConfig.cloudflareAccountId}/storage/kv/namespaces/${serverConfig.cloudflareKVNamespaceId}`;
-  const storeHeaders = () => ({
-    Authorization: `Bearer ${serverConfig.cloudflareKVApiKey}`,
-  });
-  if (req.method === "POST") {
-    const clonedBody = await req.text();
-    const hashedCode = md5.hash(clonedBody).trim();
-    const body: {
-      key: string;
-      value: string;
-      expiration_ttl?: number;
-    } = {
-      key: hashedCode,
-      value: clonedBody,
-    };
-    try {
-      const ttl = parseInt(serverConfig.cloudflareKVTTL as string);
-      if (ttl > 60) {
-        body["expiration_ttl"] = ttl;
-      }
-    } catch (e) {
-      console.error(e);
+  try {
+    const content = await req.text();
+    const size = new TextEncoder().encode(content).length;
+    checkArtifactUpload(
+      req.headers.get("Content-Type"),
+      size,
+      serverConfig.artifactMaxSize,
+    );
+
+    // artifacts of a logged in user can be listed and deleted by them
+    const user =
+      serverConfig.enableAccounts && getUserToken(req)
+        ? await getSessionUser(req)
+        : undefined;
+    const createdAt = Date.now();
+    const ttl = serverConfig.artifactTTL;
+    const id = nanoid();
+    await getArtifactStore().put({
+      id,
+      content,
+      contentType: "text/html",
+      size,
+      owner: user?.id,
+      createdAt,
+      expiresAt: ttl > 0 ? createdAt + ttl * 1000 : undefined,
+    });
+    return NextResponse.json({ code: 0, id });
+  } catch (e) {
+    console.error("[Artifacts] ", e);
+    return e instanceof ArtifactUploadError
+      ? artifactError(e.message, e.status)
+      : artifactError("Save data error", 500);
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  if (!isArtifactId(id)) return artifactError("Invalid request", 400);
+  try {
+    const artifact = await getArtifactStore().get(id);
+    if (!artifact || isArtifactExpired(artifact)) {
+      return artifactError("artifact not found", 404);
     }
-    const res = await fetch(`${storeUrl()}/bulk`, {
+    // the page is rendered in a sandboxed iframe by the client, it must
+    // never run on this origin
+    return new Response(artifact.content, {
       headers: {
-        ...storeHeaders(),
-        "Content-Type": "application/json",
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Security-Policy": "sandbox",
+        "X-Content-Type-Options": "nosniff",
       },
-      method: "PUT",
-      body: JSON.stringify([body]),
-    });
-    const result = await res.json();
-    console.log("save data", result);
-    if (result?.success) {
-      return NextResponse.json(
-        { code: 0, id: hashedCode, result },
-        { status: res.status },
-      );
-    }
-    return NextResponse.json(
-      { error: true, msg: "Save data error" },
-      { status: 400 },
-    );
-  }
-  if (req.method === "GET") {
-    const id = req?.nextUrl?.searchParams?.get("id");
-    const res = await fetch(`${storeUrl()}/values/${id}`, {
-      headers: storeHeaders(),
-      method: "GET",
-    });
-    return new Response(res.body, {
-      status: res.status,
-      statusText: res.statusText,
-      headers: res.headers,
     });
+  } catch (e) {
+    console.error("[Artifacts] ", e);
+    return artifactError((e as Error).message, 500);
   }
-  return NextResponse.json(
-    { error: true, msg: "Invalid request" },
-    { status: 400 },
-  );
 }
 
-export const POST = handle;
-export const GET = handle;
-
-export const runtime = "edge";
+export const runtime = "nodejs";
@@ -0,0 +1,76 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ArtifactInfo, ArtifactStore, StoredArtifact } from "./store";
+
+type ArtifactRow = {
+  id: string;
+  content?: string;
+  content_type: string;
+  size: number;
+  owner: string | null;
+  created_at: number;
+  expires_at: number | null;
+};
+
+const INFO_COLUMNS = "id, content_type, size, owner, created_at, expires_at";
+
+function toInfo(row: ArtifactRow): ArtifactInfo {
+  return {
+    id: row.id,
+    contentType: row.content_type,
+    size: row.size,
+    owner: row.owner ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+  };
+}
+
+export function createSqliteArtifactStore(path: string): ArtifactStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`CREATE TABLE IF NOT EXISTS artifacts (
+    id TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    owner TEXT,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS artifacts_owner ON artifacts (owner)`);
+
+  return {
+    async get(id) {
+      const row = db
+        .prepare("SELECT * FROM artifacts WHERE id = ?")
+        .get(id) as ArtifactRow;
+      if (!row) return;
+      return { ...toInfo(row), content: row.content! } as StoredArtifact;
+    },
+    async put(artifact) {
+      // expired artifacts are only dropped when new ones come in
+      db.prepare("DELETE FROM artifacts WHERE expires_at <= ?").run(Date.now());
+      db.prepare(
+        `INSERT OR REPLACE INTO artifacts (id, content, content_type, size, owner, created_at, expires_at)
+        VALUES (@id, @content, @contentType, @size, @owner, @createdAt, @expiresAt)`,
+      ).run({
+        ...artifact,
+        owner: artifact.owner ?? null,
+        expiresAt: artifact.expiresAt ?? null,
+      });
+    },
+    async list(owner) {
+      const rows = db
+        .prepare(
+          `SELECT ${INFO_COLUMNS} FROM artifacts WHERE owner = ? ORDER BY created_at DESC`,
+        )
+        .all(owner) as ArtifactRow[];
+      return rows.map(toInfo);
+    },
+    async delete(id) {
+      db.prepare("DELETE FROM artifacts WHERE id = ?").run(id);
+    },
+  };
+}
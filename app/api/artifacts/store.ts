@@ -0,0 +1,72 @@
+import { getServerSideConfig } from "@/app/config/server";
+import { createFsArtifactStore } from "./fs";
+import { createKVArtifactStore } from "./kv";
+import { createRedisArtifactStore } from "./redis";
+import { createSqliteArtifactStore } from "./sqlite";
+
+export interface StoredArtifact {
+  id: string;
+  content: string;
+  contentType: string;
+  // bytes of the content
+  size: number;
+  // the user account that shared it, missing without accounts
+  owner?: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export type ArtifactInfo = Omit<StoredArtifact, "content">;
+
+export interface ArtifactStore {
+  get(id: string): Promise<StoredArtifact | undefined>;
+  put(artifact: StoredArtifact): Promise<void>;
+  list(owner: string): Promise<ArtifactInfo[]>;
+  delete(id: string): Promise<void>;
+}
+
+export function isArtifactExpired(
+  artifact: Pick<StoredArtifact, "expiresAt">,
+  now = Date.now(),
+) {
+  return !!artifact.expiresAt && artifact.expiresAt <= now;
+}
+
+let artifactStore: ArtifactStore | undefined;
+
+// the backend is picked by ARTIFACT_STORE, add new ones here
+export function getArtifactStore() {
+  if (!artifactStore) {
+    const serverConfig = getServerSideConfig();
+    switch (serverConfig.artifactStore) {
+      case "kv":
+        artifactStore = createKVArtifactStore({
+          accountId: serverConfig.cloudflareAccountId ?? "",
+          namespaceId: serverConfig.cloudflareKVNamespaceId ?? "",
+          apiKey: serverConfig.cloudflareKVApiKey,
+        });
+        break;
+      case "fs":
+        artifactStore = createFsArtifactStore(
+          serverConfig.artifactStorePath || "./data/artifacts",
+        );
+        break;
+      case "sqlite":
+        artifactStore = createSqliteArtifactStore(
+          serverConfig.artifactStorePath || "./data/artifacts.db",
+        );
+        break;
+      case "redis":
+        artifactStore = createRedisArtifactStore({
+          url: serverConfig.artifactRedisUrl,
+          token: serverConfig.artifactRedisToken,
+        });
+        break;
+      default:
+        throw Error(
+          `[Artifact Store] unsupported artifact store ${serverConfig.artifactStore}`,
+        );
+    }
+  }
+  return artifactStore;
+}
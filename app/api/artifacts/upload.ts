@@ -0,0 +1,37 @@
+// artifacts are html pages, plain text is what older clients send
+export const ARTIFACT_CONTENT_TYPES = ["text/html", "text/plain"];
+
+// ids are made by nanoid, anything else never reaches a store
+export function isArtifactId(id: string | null): id is string {
+  return !!id && /^[\w-]+$/.test(id);
+}
+
+export class ArtifactUploadError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+// checks the content type header and the size in bytes of an upload
+export function checkArtifactUpload(
+  contentType: string | null,
+  size: number,
+  maxSize: number,
+) {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (!ARTIFACT_CONTENT_TYPES.includes(type)) {
+    throw new ArtifactUploadError(`unsupported content type ${type}`, 415);
+  }
+  if (size === 0) {
+    throw new ArtifactUploadError("empty artifact", 400);
+  }
+  if (maxSize > 0 && size > maxSize) {
+    throw new ArtifactUploadError(
+      `artifact is larger than ${maxSize} bytes`,
+      413,
+    );
+  }
+}
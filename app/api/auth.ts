@@ -1,7 +1,15 @@
 import { NextRequest } from "next/server";
 import { getServerSideConfig } from "../config/server";
 import md5 from "spark-md5";
-import { ACCESS_CODE_PREFIX, ModelProvider } from "../constant";
+import {
+  ACCESS_CODE_PREFIX,
+  Baidu,
+  DEFAULT_MODELS,
+  ModelProvider,
+  USER_TOKEN_PREFIX,
+} from "../constant";
+import { isModelAllowed } from "./account/token";
+import { getSessionUser } from "./account/session";
 
 function getIP(req: NextRequest) {
   let ip = req.ip ?? req.headers.get("x-real-ip");
@@ -16,30 +24,108 @@ function getIP(req: NextRequest) {
 
 function parseApiKey(bearToken: string) {
   const token = bearToken.trim().replaceAll("Bearer ", "").trim();
-  const isApiKey = !token.startsWith(ACCESS_CODE_PREFIX);
+  const isUserToken = token.startsWith(USER_TOKEN_PREFIX);
+  const isApiKey = !isUserToken && !token.startsWith(ACCESS_CODE_PREFIX);
 
   return {
-    accessCode: isApiKey ? "" : token.slice(ACCESS_CODE_PREFIX.length),
+    accessCode:
+      isApiKey || isUserToken ? "" : token.slice(ACCESS_CODE_PREFIX.length),
+    userToken: isUserToken ? token.slice(USER_TOKEN_PREFIX.length) : "",
     apiKey: isApiKey ? token : "",
   };
 }
 
-export function auth(req: NextRequest, modelProvider: ModelProvider) {
+// baidu picks the model by the endpoint, e.g. wenxinworkshop/chat/completions_pro
+function getBaiduModel(endpoint: string) {
+  return (
+    DEFAULT_MODELS.find(
+      (m) =>
+        m.provider.providerType === "baidu" &&
+        Baidu.ChatPath(m.name).endsWith(`/${endpoint}`),
+    )?.name ?? endpoint
+  );
+}
+
+// the model the upstream will use, taken from the path where the provider
+// routes by url so the body can not name another model
+async function getRequestModel(req: NextRequest): Promise<string | undefined> {
+  const path = req.nextUrl.pathname;
+  // gemini keeps the model in the path, e.g. v1beta/models/gemini-pro:generateContent
+  const modelInPath = path.match(/models\/([^/:]+)/)?.[1];
+  if (modelInPath) return modelInPath;
+  // the azure deployment is named after the model
+  const deployment = path.match(/deployments\/([^/]+)/)?.[1];
+  if (deployment) return deployment;
+  const baiduEndpoint = path.match(/wenxinworkshop\/chat\/([^/]+)/)?.[1];
+  if (baiduEndpoint) return getBaiduModel(baiduEndpoint);
+  // stability posts a form to generate/<ultra|core|sd3>, sd3 names its variant
+  const sdModel = path.match(/stable-image\/generate\/([^/]+)/)?.[1];
+  if (sdModel) {
+    const form = await req
+      .clone()
+      .formData()
+      .catch(() => undefined);
+    const variant = form?.get("model");
+    return typeof variant === "string" && variant ? variant : sdModel;
+  }
+  try {
+    const body = await req.clone().json();
+    const model = body?.model ?? body?.Model;
+    return typeof model === "string" ? model : undefined;
+  } catch (e) {
+    return;
+  }
+}
+
+export async function auth(
+  req: NextRequest,
+  modelProvider: ModelProvider,
+  // off for the routes that do not call a model, e.g. sharing a chat
+  { checkModel = true } = {},
+) {
   const authToken = req.headers.get("Authorization") ?? "";
 
-  // check if it is openai api key or user token
-  const { accessCode, apiKey } = parseApiKey(authToken);
+  // check if it is openai api key, access code or user token
+  const { accessCode, userToken, apiKey } = parseApiKey(authToken);
 
   const hashedCode = md5.hash(accessCode ?? "").trim();
 
   const serverConfig = getServerSideConfig();
-  console.log("[Auth] allowed hashed codes: ", [...serverConfig.codes]);
-  console.log("[Auth] got access code:", accessCode);
-  console.log("[Auth] hashed access code:", hashedCode);
   console.log("[User IP] ", getIP(req));
   console.log("[Time] ", new Date().toLocaleString());
 
-  if (serverConfig.needCode && !serverConfig.codes.has(hashedCode) && !apiKey) {
+  if (userToken) {
+    // checked against the user store, which catches removed users, revoked
+    // tokens and the current allowlist instead of the one in the token
+    const user = serverConfig.enableAccounts
+      ? await getSessionUser(req).catch((e) => {
+          console.error("[Auth] failed to check the session", e);
+          return undefined;
+        })
+      : undefined;
+    if (!user) {
+      return {
+        error: true,
+        msg: "invalid or expired session, please log in again",
+      };
+    }
+    if (checkModel) {
+      const model = await getRequestModel(req);
+      if (!isModelAllowed(user.models, model)) {
+        return {
+          error: true,
+          msg: model
+            ? `you are not allowed to use the model ${model}`
+            : "you are not allowed to use an unknown model",
+        };
+      }
+    }
+    console.log("[Auth] user", user.username);
+  } else if (
+    (serverConfig.needCode || serverConfig.enableAccounts) &&
+    !serverConfig.codes.has(hashedCode) &&
+    !apiKey
+  ) {
     return {
       error: true,
       msg: !accessCode ? "empty access code" : "wrong access code",
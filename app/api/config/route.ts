@@ -1,6 +1,8 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 
 import { getServerSideConfig } from "../../config/server";
+import { USER_TOKEN_PREFIX } from "../../constant";
+import { getAllowlistCustomModels, verifySessionToken } from "../account/token";
 
 const serverConfig = getServerSideConfig();
 
@@ -14,14 +16,36 @@ const DANGER_CONFIG = {
   disableFastLink: serverConfig.disableFastLink,
   customModels: serverConfig.customModels,
   defaultModel: serverConfig.defaultModel,
+  enableAccounts: serverConfig.enableAccounts,
 };
 
 declare global {
   type DangerConfig = typeof DANGER_CONFIG;
 }
 
-async function handle() {
-  return NextResponse.json(DANGER_CONFIG);
+async function handle(req: NextRequest) {
+  const token = (req.headers.get("Authorization") ?? "")
+    .replace("Bearer ", "")
+    .trim();
+  if (!serverConfig.enableAccounts || !token.startsWith(USER_TOKEN_PREFIX)) {
+    return NextResponse.json(DANGER_CONFIG);
+  }
+
+  const user = await verifySessionToken(
+    token.slice(USER_TOKEN_PREFIX.length),
+    serverConfig.authSecret,
+  );
+  if (!user) {
+    return NextResponse.json(DANGER_CONFIG);
+  }
+  // the allowlist of the user goes after the server models
+  const customModels = [
+    serverConfig.customModels,
+    getAllowlistCustomModels(user.models),
+  ]
+    .filter((v) => !!v)
+    .join(",");
+  return NextResponse.json({ ...DANGER_CONFIG, customModels });
 }
 
 export const GET = handle;
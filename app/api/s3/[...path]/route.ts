@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { internalAllowedS3Hosts } from "../../../constant";
+import { getServerSideConfig } from "@/app/config/server";
+
+const config = getServerSideConfig();
+
+const allowedS3Endpoints = config.allowedS3Endpoints.filter((endpoint) =>
+  Boolean(endpoint.trim()),
+);
+
+// backup.json, manifest.json and session-<id>.json
+const syncFile = /\/[\w-]+\.json$/;
+
+// the signed request headers the object store needs
+const forwardHeaders = [
+  "authorization",
+  "content-type",
+  "x-amz-content-sha256",
+  "x-amz-date",
+];
+
+const normalizeUrl = (url: string) => {
+  try {
+    return new URL(url);
+  } catch (err) {
+    return null;
+  }
+};
+
+function isAllowedEndpoint(endpoint: string) {
+  const url = normalizeUrl(endpoint);
+  if (!url) return false;
+  if (
+    url.protocol === "https:" &&
+    internalAllowedS3Hosts.some((host) => host.test(url.hostname))
+  ) {
+    return true;
+  }
+  return allowedS3Endpoints.some(
+    (allowed) => normalizeUrl(allowed.trim())?.origin === url.origin,
+  );
+}
+
+async function handle(
+  req: NextRequest,
+  { params }: { params: { path: string[] } },
+) {
+  if (req.method === "OPTIONS") {
+    return NextResponse.json({ body: "OK" }, { status: 200 });
+  }
+
+  const requestUrl = new URL(req.url);
+  const endpoint = requestUrl.searchParams.get("endpoint");
+
+  // Validate the endpoint to prevent potential SSRF attacks
+  if (!endpoint || !isAllowedEndpoint(endpoint)) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "Invalid endpoint",
+      },
+      {
+        status: 400,
+      },
+    );
+  }
+
+  const targetPath = `/${params.path.map(encodeURIComponent).join("/")}`;
+
+  // only allow GET, PUT and DELETE of the sync files
+  if (
+    !["GET", "PUT", "DELETE"].includes(req.method) ||
+    !syncFile.test(targetPath)
+  ) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "you are not allowed to request " + targetPath,
+      },
+      {
+        status: 403,
+      },
+    );
+  }
+
+  const targetUrl = `${new URL(endpoint).origin}${targetPath}`;
+  const headers = new Headers();
+  forwardHeaders.forEach((name) => {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  const fetchOptions: RequestInit = {
+    headers,
+    body: req.method === "PUT" ? req.body : null,
+    redirect: "manual",
+    method: req.method,
+    // @ts-ignore
+    duplex: "half",
+  };
+
+  let fetchResult;
+
+  try {
+    fetchResult = await fetch(targetUrl, fetchOptions);
+  } finally {
+    console.log(
+      "[S3 Proxy]",
+      targetUrl,
+      {
+        method: req.method,
+      },
+      {
+        status: fetchResult?.status,
+        statusText: fetchResult?.statusText,
+      },
+    );
+  }
+
+  return fetchResult;
+}
+
+export const PUT = handle;
+export const GET = handle;
+export const DELETE = handle;
+export const OPTIONS = handle;
+
+export const runtime = "edge";
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hash } from "@/app/utils/hmac";
+import { isShareExpired } from "@/app/utils/share";
+import { getShareStore } from "../store";
+
+type Context = { params: { id: string } };
+
+const notFound = () =>
+  NextResponse.json({ error: true, msg: "share not found" }, { status: 404 });
+
+async function getShare(id: string) {
+  const share = await getShareStore().get(id);
+  return share && !isShareExpired(share) ? share : undefined;
+}
+
+export async function GET(req: NextRequest, { params }: Context) {
+  try {
+    const share = await getShare(params.id);
+    if (!share) return notFound();
+    const { tokenHash, ...sharedChat } = share;
+    return NextResponse.json(sharedChat);
+  } catch (e) {
+    console.error("[Share] ", e);
+    return NextResponse.json(
+      { error: true, msg: (e as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+// revokes a share with the token handed out when it was published
+export async function DELETE(req: NextRequest, { params }: Context) {
+  try {
+    const share = await getShare(params.id);
+    if (!share) return notFound();
+    const token = (req.headers.get("Authorization") ?? "")
+      .replace("Bearer ", "")
+      .trim();
+    if (hash(token) !== share.tokenHash) {
+      return NextResponse.json(
+        { error: true, msg: "wrong share token" },
+        { status: 403 },
+      );
+    }
+    await getShareStore().delete(share.id);
+    return NextResponse.json({ id: share.id });
+  } catch (e) {
+    console.error("[Share] ", e);
+    return NextResponse.json(
+      { error: true, msg: (e as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+export const runtime = "nodejs";
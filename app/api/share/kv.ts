@@ -0,0 +1,47 @@
+import type { StoredSharedChat } from "@/app/utils/share";
+import type { ShareStore } from "./store";
+
+// Cloudflare KV over its REST api, expired keys are dropped by KV itself
+export function createKVShareStore(config: {
+  accountId: string;
+  namespaceId: string;
+  apiKey: string;
+}): ShareStore {
+  const storeUrl = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/storage/kv/namespaces/${config.namespaceId}`;
+  const headers = { Authorization: `Bearer ${config.apiKey}` };
+  const key = (id: string) => `share-${id}`;
+
+  return {
+    async get(id) {
+      const res = await fetch(`${storeUrl}/values/${key(id)}`, { headers });
+      if (res.status === 404) return;
+      if (!res.ok) {
+        throw Error(`[Share Store] failed to get ${id}: ${res.status}`);
+      }
+      return (await res.json()) as StoredSharedChat;
+    },
+    async create(share) {
+      const body: { key: string; value: string; expiration?: number } = {
+        key: key(share.id),
+        value: JSON.stringify(share),
+      };
+      if (share.expiresAt) {
+        body.expiration = Math.ceil(share.expiresAt / 1000);
+      }
+      const res = await fetch(`${storeUrl}/bulk`, {
+        headers: { ...headers, "Content-Type": "application/json" },
+        method: "PUT",
+        body: JSON.stringify([body]),
+      });
+      if (!(await res.json())?.success) {
+        throw Error(`[Share Store] failed to save ${share.id}`);
+      }
+    },
+    async delete(id) {
+      await fetch(`${storeUrl}/values/${key(id)}`, {
+        headers,
+        method: "DELETE",
+      });
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+import { getServerSideConfig } from "@/app/config/server";
+import { ModelProvider } from "@/app/constant";
+import { hash } from "@/app/utils/hmac";
+import { parseShareRequest, ShareRequestError } from "@/app/utils/share";
+import { auth } from "../auth";
+import { getShareStore } from "./store";
+
+// publishes a chat, the token in the answer is the only way to revoke it
+export async function POST(req: NextRequest) {
+  const authResult = await auth(req, ModelProvider.GPT, { checkModel: false });
+  if (authResult.error) {
+    return NextResponse.json(authResult, {
+      status: 401,
+    });
+  }
+
+  try {
+    const { ttl, ...share } = parseShareRequest(
+      await req.text(),
+      getServerSideConfig().shareMaxTTL,
+    );
+    const id = nanoid();
+    const token = nanoid(32);
+    const createdAt = Date.now();
+    const expiresAt = ttl > 0 ? createdAt + ttl * 1000 : undefined;
+    await getShareStore().create({
+      ...share,
+      id,
+      tokenHash: hash(token),
+      createdAt,
+      expiresAt,
+    });
+    return NextResponse.json({ id, token, createdAt, expiresAt });
+  } catch (e) {
+    console.error("[Share] ", e);
+    return NextResponse.json(
+      { error: true, msg: (e as Error).message },
+      { status: e instanceof ShareRequestError ? 400 : 500 },
+    );
+  }
+}
+
+export const runtime = "nodejs";
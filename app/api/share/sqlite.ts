@@ -0,0 +1,52 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ShareStore } from "./store";
+
+type ShareRow = {
+  id: string;
+  data: string;
+  token_hash: string;
+  created_at: number;
+  expires_at: number | null;
+};
+
+export function createSqliteShareStore(path: string): ShareStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`CREATE TABLE IF NOT EXISTS shares (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    token_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER
+  )`);
+
+  return {
+    async get(id) {
+      const row = db
+        .prepare("SELECT * FROM shares WHERE id = ?")
+        .get(id) as ShareRow;
+      if (!row) return;
+      return {
+        ...JSON.parse(row.data),
+        id: row.id,
+        tokenHash: row.token_hash,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at ?? undefined,
+      };
+    },
+    async create({ id, tokenHash, createdAt, expiresAt, ...data }) {
+      // expired shares are only dropped when new ones come in
+      db.prepare("DELETE FROM shares WHERE expires_at <= ?").run(Date.now());
+      db.prepare(
+        `INSERT INTO shares (id, data, token_hash, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?)`,
+      ).run(id, JSON.stringify(data), tokenHash, createdAt, expiresAt ?? null);
+    },
+    async delete(id) {
+      db.prepare("DELETE FROM shares WHERE id = ?").run(id);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { getServerSideConfig } from "@/app/config/server";
+import type { StoredSharedChat } from "@/app/utils/share";
+import { createKVShareStore } from "./kv";
+import { createSqliteShareStore } from "./sqlite";
+
+export interface ShareStore {
+  get(id: string): Promise<StoredSharedChat | undefined>;
+  create(share: StoredSharedChat): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+let shareStore: ShareStore | undefined;
+
+// the backend is picked by SHARE_STORE, add new ones here
+export function getShareStore() {
+  if (!shareStore) {
+    const serverConfig = getServerSideConfig();
+    switch (serverConfig.shareStore) {
+      case "sqlite":
+        shareStore = createSqliteShareStore(serverConfig.shareStorePath);
+        break;
+      case "kv":
+        shareStore = createKVShareStore({
+          accountId: serverConfig.cloudflareAccountId ?? "",
+          namespaceId: serverConfig.cloudflareKVNamespaceId ?? "",
+          apiKey: serverConfig.cloudflareKVApiKey,
+        });
+        break;
+      default:
+        throw Error(
+          `[Share Store] unsupported share store ${serverConfig.shareStore}`,
+        );
+    }
+  }
+  return shareStore;
+}
@@ -17,7 +17,7 @@ async function handle(
     return NextResponse.json({ body: "OK" }, { status: 200 });
   }
 
-  const authResult = auth(req, ModelProvider.Hunyuan);
+  const authResult = await auth(req, ModelProvider.Hunyuan);
   if (authResult.error) {
     return NextResponse.json(authResult, {
       status: 401,
@@ -36,7 +36,7 @@ async function handle(
 export const GET = handle;
 export const POST = handle;
 
-export const runtime = "edge";
+export const runtime = "nodejs";
 export const preferredRegion = [
   "arn1",
   "bom1",
@@ -24,8 +24,8 @@ async function handle(
     );
   }
 
-  // only allow upstash get and set method
-  if (params.action !== "get" && params.action !== "set") {
+  // only allow upstash get, set and del method
+  if (!["get", "set", "del"].includes(params.action)) {
     console.log("[Upstash Route] forbidden action ", params.action);
     return NextResponse.json(
       {
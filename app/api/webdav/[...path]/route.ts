@@ -25,7 +25,8 @@ async function handle(
     return NextResponse.json({ body: "OK" }, { status: 200 });
   }
   const folder = STORAGE_KEY;
-  const fileName = `${folder}/backup.json`;
+  // backup.json, manifest.json and session-<id>.json
+  const syncFile = new RegExp(`/${folder}/[\\w-]+\\.json$`);
 
   const requestUrl = new URL(req.url);
   let endpoint = requestUrl.searchParams.get("endpoint");
@@ -65,11 +66,12 @@ async function handle(
   const endpointPath = params.path.join("/");
   const targetPath = `${endpoint}${endpointPath}`;
 
-  // only allow MKCOL, GET, PUT
+  // only allow MKCOL, GET, PUT, DELETE
   if (
     proxy_method !== "MKCOL" &&
     proxy_method !== "GET" &&
-    proxy_method !== "PUT"
+    proxy_method !== "PUT" &&
+    proxy_method !== "DELETE"
   ) {
     return NextResponse.json(
       {
@@ -95,21 +97,8 @@ async function handle(
     );
   }
 
-  // for GET request, only allow request ending with fileName
-  if (proxy_method === "GET" && !targetPath.endsWith(fileName)) {
-    return NextResponse.json(
-      {
-        error: true,
-        msg: "you are not allowed to request " + targetPath,
-      },
-      {
-        status: 403,
-      },
-    );
-  }
-
-  //   for PUT request, only allow request ending with fileName
-  if (proxy_method === "PUT" && !targetPath.endsWith(fileName)) {
+  // for GET, PUT and DELETE request, only allow the sync files in ${folder}
+  if (proxy_method !== "MKCOL" && !syncFile.test(targetPath)) {
     return NextResponse.json(
       {
         error: true,
@@ -1,6 +1,8 @@
 import { getClientConfig } from "../config/client";
 import {
   ACCESS_CODE_PREFIX,
+  USER_TOKEN_PREFIX,
+  ModelCapabilities,
   ModelProvider,
   ServiceProvider,
 } from "../constant";
@@ -11,6 +13,7 @@ import {
   useAccessStore,
   useChatStore,
 } from "../store";
+import type { ToolApproval } from "./controller";
 import { ChatGPTApi, DalleRequestPayload } from "./platforms/openai";
 import { GeminiProApi } from "./platforms/google";
 import { ClaudeApi } from "./platforms/anthropic";
@@ -54,6 +57,9 @@ export interface LLMConfig {
   size?: DalleRequestPayload["size"];
   quality?: DalleRequestPayload["quality"];
   style?: DalleRequestPayload["style"];
+  maxToolSteps?: number;
+  toolTimeout?: number;
+  parallelToolCalls?: boolean;
 }
 
 export interface SpeechOptions {
@@ -75,6 +81,11 @@ export interface ChatOptions {
   onController?: (controller: AbortController) => void;
   onBeforeTool?: (tool: ChatMessageTool) => void;
   onAfterTool?: (tool: ChatMessageTool) => void;
+  // decide whether a tool call may run, tools run right away without it
+  onToolApproval?: (
+    tool: ChatMessageTool,
+    signal: AbortSignal,
+  ) => Promise<ToolApproval>;
 }
 
 export interface LLMUsage {
@@ -88,6 +99,10 @@ export interface LLMModel {
   available: boolean;
   provider: LLMModelProvider;
   sorted: number;
+  // total tokens of input and output the model accepts
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  capabilities?: ModelCapabilities;
 }
 
 export interface LLMModelProvider {
@@ -317,6 +332,10 @@ export function getHeaders(ignoreHeaders: boolean = false) {
 
   if (bearerToken) {
     headers[authHeader] = bearerToken;
+  } else if (validString(accessStore.userToken)) {
+    headers["Authorization"] = getBearerToken(
+      USER_TOKEN_PREFIX + accessStore.userToken,
+    );
   } else if (isEnabledAccessControl && validString(accessStore.accessCode)) {
     headers["Authorization"] = getBearerToken(
       ACCESS_CODE_PREFIX + accessStore.accessCode,
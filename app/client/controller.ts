@@ -35,3 +35,40 @@ export const ChatControllerPool = {
     return `${sessionId},${messageIndex}`;
   },
 };
+
+export type ToolApproval = {
+  approved: boolean;
+  // edited arguments, as a JSON string like the model sends them
+  arguments?: string;
+  reason?: string;
+};
+
+// To store tool calls waiting for the user to approve them
+export const ToolApprovalPool = {
+  pending: {} as Record<string, (approval: ToolApproval) => void>,
+
+  wait(toolId: string, signal?: AbortSignal) {
+    return new Promise<ToolApproval>((resolve) => {
+      // an aborted signal fires no more abort events
+      if (signal?.aborted) {
+        return resolve({ approved: false, reason: "aborted" });
+      }
+      const onAbort = () =>
+        this.resolve(toolId, { approved: false, reason: "aborted" });
+      this.pending[toolId] = (approval) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(approval);
+      };
+      signal?.addEventListener("abort", onAbort);
+    });
+  },
+
+  resolve(toolId: string, approval: ToolApproval) {
+    this.pending[toolId]?.(approval);
+    delete this.pending[toolId];
+  },
+
+  has(toolId: string) {
+    return !!this.pending[toolId];
+  },
+};
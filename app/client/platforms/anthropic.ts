@@ -9,7 +9,7 @@ import {
 } from "@/app/store";
 import { getClientConfig } from "@/app/config/client";
 import { ANTHROPIC_BASE_URL } from "@/app/constant";
-import { getMessageTextContent, isVisionModel } from "@/app/utils";
+import { getMessageTextContent, getModelCapabilities } from "@/app/utils";
 import { preProcessImageContent, stream } from "@/app/utils/chat";
 import { cloudflareAIGatewayUrl } from "@/app/utils/cloudflare";
 import { RequestPayload } from "./openai";
@@ -84,7 +84,10 @@ export class ClaudeApi implements LLMApi {
     return res?.content?.[0]?.text;
   }
   async chat(options: ChatOptions): Promise<void> {
-    const visionModel = isVisionModel(options.config.model);
+    const visionModel = getModelCapabilities(
+      options.config.model,
+      options.config.providerName,
+    ).vision;
 
     const accessStore = useAccessStore.getState();
 
@@ -5,7 +5,14 @@ import {
   BAIDU_BASE_URL,
   REQUEST_TIMEOUT_MS,
 } from "@/app/constant";
-import { useAccessStore, useAppConfig, useChatStore } from "@/app/store";
+import {
+  useAccessStore,
+  useAppConfig,
+  useChatStore,
+  ChatMessageTool,
+  usePluginStore,
+  FunctionToolItem,
+} from "@/app/store";
 import { getAccessToken } from "@/app/utils/baidu";
 
 import {
@@ -16,15 +23,11 @@ import {
   MultimodalContent,
   SpeechOptions,
 } from "../api";
-import Locale from "../../locales";
-import {
-  EventStreamContentType,
-  fetchEventSource,
-} from "@fortaine/fetch-event-source";
-import { prettyObject } from "@/app/utils/format";
+import { stream } from "@/app/utils/chat";
 import { getClientConfig } from "@/app/config/client";
 import { getMessageTextContent } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
+import { nanoid } from "nanoid";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -37,8 +40,13 @@ export interface OpenAIListModelResponse {
 
 interface RequestPayload {
   messages: {
-    role: "system" | "user" | "assistant";
+    role: "system" | "user" | "assistant" | "function";
     content: string | MultimodalContent[];
+    name?: string;
+    function_call?: {
+      name?: string;
+      arguments?: string;
+    };
   }[];
   stream?: boolean;
   model: string;
@@ -47,6 +55,7 @@ interface RequestPayload {
   frequency_penalty: number;
   top_p: number;
   max_tokens?: number;
+  functions?: FunctionToolItem["function"][];
 }
 
 export class ErnieApi implements LLMApi {
@@ -145,124 +154,83 @@ export class ErnieApi implements LLMApi {
           }
         }
       }
-      const chatPayload = {
-        method: "POST",
-        body: JSON.stringify(requestPayload),
-        signal: controller.signal,
-        headers: getHeaders(),
-      };
-
-      // make a fetch request
-      const requestTimeoutId = setTimeout(
-        () => controller.abort(),
-        REQUEST_TIMEOUT_MS,
-      );
-
       if (shouldStream) {
-        let responseText = "";
-        let remainText = "";
-        let finished = false;
-        let responseRes: Response;
-
-        // animate response to make it looks smooth
-        function animateResponseText() {
-          if (finished || controller.signal.aborted) {
-            responseText += remainText;
-            console.log("[Response Animation] finished");
-            if (responseText?.length === 0) {
-              options.onError?.(new Error("empty response from server"));
-            }
-            return;
-          }
-
-          if (remainText.length > 0) {
-            const fetchCount = Math.max(1, Math.round(remainText.length / 60));
-            const fetchText = remainText.slice(0, fetchCount);
-            responseText += fetchText;
-            remainText = remainText.slice(fetchCount);
-            options.onUpdate?.(responseText, fetchText);
-          }
-
-          requestAnimationFrame(animateResponseText);
+        const [tools, funcs] = usePluginStore
+          .getState()
+          .getAsTools(
+            useChatStore.getState().currentSession().mask?.plugin || [],
+          );
+        // ernie takes the functions of the legacy openai api
+        if ((tools as FunctionToolItem[]).length > 0) {
+          requestPayload.functions = (tools as FunctionToolItem[]).map(
+            (t) => t.function,
+          );
         }
-
-        // start animaion
-        animateResponseText();
-
-        const finish = () => {
-          if (!finished) {
-            finished = true;
-            options.onFinish(responseText + remainText, responseRes);
-          }
-        };
-
-        controller.signal.onabort = finish;
-
-        fetchEventSource(chatPath, {
-          fetch: fetch as any,
-          ...chatPayload,
-          async onopen(res) {
-            clearTimeout(requestTimeoutId);
-            const contentType = res.headers.get("content-type");
-            console.log("[Baidu] request response content type: ", contentType);
-            responseRes = res;
-            if (contentType?.startsWith("text/plain")) {
-              responseText = await res.clone().text();
-              return finish();
-            }
-
-            if (
-              !res.ok ||
-              !res.headers
-                .get("content-type")
-                ?.startsWith(EventStreamContentType) ||
-              res.status !== 200
-            ) {
-              const responseTexts = [responseText];
-              let extraInfo = await res.clone().text();
-              try {
-                const resJson = await res.clone().json();
-                extraInfo = prettyObject(resJson);
-              } catch {}
-
-              if (res.status === 401) {
-                responseTexts.push(Locale.Error.Unauthorized);
-              }
-
-              if (extraInfo) {
-                responseTexts.push(extraInfo);
-              }
-
-              responseText = responseTexts.join("\n\n");
-
-              return finish();
-            }
-          },
-          onmessage(msg) {
-            if (msg.data === "[DONE]" || finished) {
-              return finish();
-            }
-            const text = msg.data;
-            try {
-              const json = JSON.parse(text);
-              const delta = json?.result;
-              if (delta) {
-                remainText += delta;
-              }
-            } catch (e) {
-              console.error("[Request] parse error", text, msg);
+        return stream(
+          chatPath,
+          requestPayload,
+          getHeaders(),
+          [],
+          funcs,
+          controller,
+          // parseSSE
+          (text: string, runTools: ChatMessageTool[]) => {
+            const json = JSON.parse(text);
+            const functionCall = json?.function_call;
+            if (functionCall) {
+              runTools.push({
+                id: nanoid(),
+                type: "function",
+                function: {
+                  name: functionCall.name,
+                  arguments: functionCall.arguments,
+                },
+              });
             }
+            return json?.result;
           },
-          onclose() {
-            finish();
-          },
-          onerror(e) {
-            options.onError?.(e);
-            throw e;
+          // processToolMessage, every call is answered by a function message
+          (
+            requestPayload: RequestPayload,
+            toolCallMessage: any,
+            toolCallResult: any[],
+          ) => {
+            toolCallMessage.tool_calls.forEach(
+              (tool: ChatMessageTool, i: number) => {
+                requestPayload.messages.push(
+                  {
+                    role: "assistant",
+                    content: "",
+                    function_call: {
+                      name: tool.function?.name,
+                      arguments: tool.function?.arguments,
+                    },
+                  },
+                  {
+                    role: "function",
+                    name: toolCallResult[i].name,
+                    content: toolCallResult[i].content,
+                  },
+                );
+              },
+            );
           },
-          openWhenHidden: true,
-        });
+          options,
+        );
       } else {
+        const chatPayload = {
+          method: "POST",
+          body: JSON.stringify(requestPayload),
+          signal: controller.signal,
+          headers: getHeaders(),
+        };
+
+        // make a fetch request
+        const requestTimeoutId = setTimeout(
+          () => controller.abort(),
+          REQUEST_TIMEOUT_MS,
+        );
+
         const res = await fetch(chatPath, chatPayload);
         clearTimeout(requestTimeoutId);
 
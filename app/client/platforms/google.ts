@@ -21,7 +21,7 @@ import { GEMINI_BASE_URL } from "@/app/constant";
 import {
   getMessageTextContent,
   getMessageImages,
-  isVisionModel,
+  getModelCapabilities,
 } from "@/app/utils";
 import { preProcessImageContent } from "@/app/utils/chat";
 import { nanoid } from "nanoid";
@@ -83,7 +83,10 @@ export class GeminiProApi implements LLMApi {
     }
     const messages = _messages.map((v) => {
       let parts: any[] = [{ text: getMessageTextContent(v) }];
-      if (isVisionModel(options.config.model)) {
+      if (
+        getModelCapabilities(options.config.model, options.config.providerName)
+          .vision
+      ) {
         const images = getMessageImages(v);
         if (images.length > 0) {
           multimodal = true;
@@ -1,6 +1,13 @@
 "use client";
 import { ApiPath, TENCENT_BASE_URL, REQUEST_TIMEOUT_MS } from "@/app/constant";
-import { useAccessStore, useAppConfig, useChatStore } from "@/app/store";
+import {
+  useAccessStore,
+  useAppConfig,
+  useChatStore,
+  ChatMessageTool,
+  usePluginStore,
+  FunctionToolItem,
+} from "@/app/store";
 
 import {
   ChatOptions,
@@ -10,14 +17,9 @@ import {
   MultimodalContent,
   SpeechOptions,
 } from "../api";
-import Locale from "../../locales";
-import {
-  EventStreamContentType,
-  fetchEventSource,
-} from "@fortaine/fetch-event-source";
-import { prettyObject } from "@/app/utils/format";
+import { stream } from "@/app/utils/chat";
 import { getClientConfig } from "@/app/config/client";
-import { getMessageTextContent, isVisionModel } from "@/app/utils";
+import { getMessageTextContent, getModelCapabilities } from "@/app/utils";
 import mapKeys from "lodash-es/mapKeys";
 import mapValues from "lodash-es/mapValues";
 import isArray from "lodash-es/isArray";
@@ -33,15 +35,35 @@ export interface OpenAIListModelResponse {
   }>;
 }
 
+interface HunyuanToolCall {
+  Id: string;
+  Index?: number;
+  Type: string;
+  Function: {
+    Name: string;
+    Arguments?: string;
+  };
+}
+
 interface RequestPayload {
   Messages: {
-    Role: "system" | "user" | "assistant";
+    Role: "system" | "user" | "assistant" | "tool";
     Content: string | MultimodalContent[];
+    ToolCalls?: HunyuanToolCall[];
+    ToolCallId?: string;
   }[];
   Stream?: boolean;
   Model: string;
   Temperature: number;
   TopP: number;
+  Tools?: {
+    Type: string;
+    Function: {
+      Name: string;
+      Description?: string;
+      Parameters: string;
+    };
+  }[];
 }
 
 function capitalizeKeys(obj: any): any {
@@ -94,7 +116,10 @@ export class HunyuanApi implements LLMApi {
   }
 
   async chat(options: ChatOptions) {
-    const visionModel = isVisionModel(options.config.model);
+    const visionModel = getModelCapabilities(
+      options.config.model,
+      options.config.providerName,
+    ).vision;
     const messages = options.messages.map((v, index) => ({
       // "Messages 中 system 角色必须位于列表的最开始"
       role: index !== 0 && v.role === "system" ? "user" : v.role,
@@ -125,130 +150,105 @@ export class HunyuanApi implements LLMApi {
 
     try {
       const chatPath = this.path();
-      const chatPayload = {
-        method: "POST",
-        body: JSON.stringify(requestPayload),
-        signal: controller.signal,
-        headers: getHeaders(),
-      };
-
-      // make a fetch request
-      const requestTimeoutId = setTimeout(
-        () => controller.abort(),
-        REQUEST_TIMEOUT_MS,
-      );
-
       if (shouldStream) {
-        let responseText = "";
-        let remainText = "";
-        let finished = false;
-        let responseRes: Response;
-
-        // animate response to make it looks smooth
-        function animateResponseText() {
-          if (finished || controller.signal.aborted) {
-            responseText += remainText;
-            console.log("[Response Animation] finished");
-            if (responseText?.length === 0) {
-              options.onError?.(new Error("empty response from server"));
-            }
-            return;
-          }
-
-          if (remainText.length > 0) {
-            const fetchCount = Math.max(1, Math.round(remainText.length / 60));
-            const fetchText = remainText.slice(0, fetchCount);
-            responseText += fetchText;
-            remainText = remainText.slice(fetchCount);
-            options.onUpdate?.(responseText, fetchText);
-          }
-
-          requestAnimationFrame(animateResponseText);
+        const [tools, funcs] = usePluginStore
+          .getState()
+          .getAsTools(
+            useChatStore.getState().currentSession().mask?.plugin || [],
+          );
+        // hunyuan takes capitalized tools with the parameters as a json string
+        if ((tools as FunctionToolItem[]).length > 0) {
+          requestPayload.Tools = (tools as FunctionToolItem[]).map((t) => ({
+            Type: "function",
+            Function: {
+              Name: t.function.name,
+              Description: t.function.description,
+              Parameters: JSON.stringify(t.function.parameters),
+            },
+          }));
         }
-
-        // start animaion
-        animateResponseText();
-
-        const finish = () => {
-          if (!finished) {
-            finished = true;
-            options.onFinish(responseText + remainText, responseRes);
-          }
-        };
-
-        controller.signal.onabort = finish;
-
-        fetchEventSource(chatPath, {
-          fetch: fetch as any,
-          ...chatPayload,
-          async onopen(res) {
-            clearTimeout(requestTimeoutId);
-            const contentType = res.headers.get("content-type");
-            console.log(
-              "[Tencent] request response content type: ",
-              contentType,
-            );
-            responseRes = res;
-            if (contentType?.startsWith("text/plain")) {
-              responseText = await res.clone().text();
-              return finish();
-            }
-
-            if (
-              !res.ok ||
-              !res.headers
-                .get("content-type")
-                ?.startsWith(EventStreamContentType) ||
-              res.status !== 200
-            ) {
-              const responseTexts = [responseText];
-              let extraInfo = await res.clone().text();
-              try {
-                const resJson = await res.clone().json();
-                extraInfo = prettyObject(resJson);
-              } catch {}
-
-              if (res.status === 401) {
-                responseTexts.push(Locale.Error.Unauthorized);
+        return stream(
+          chatPath,
+          requestPayload,
+          getHeaders(),
+          [],
+          funcs,
+          controller,
+          // parseSSE
+          (text: string, runTools: ChatMessageTool[]) => {
+            const json = JSON.parse(text);
+            const choices = json.Choices as Array<{
+              Delta: {
+                Content: string;
+                ToolCalls?: HunyuanToolCall[];
+              };
+            }>;
+            const tool_calls = choices[0]?.Delta?.ToolCalls;
+            if (tool_calls && tool_calls.length > 0) {
+              const index = tool_calls[0]?.Index;
+              const id = tool_calls[0]?.Id;
+              const args = tool_calls[0]?.Function?.Arguments;
+              if (id) {
+                runTools.push({
+                  id,
+                  index,
+                  type: tool_calls[0]?.Type,
+                  function: {
+                    name: tool_calls[0]?.Function?.Name,
+                    arguments: args,
+                  },
+                });
+              } else {
+                // @ts-ignore
+                runTools[index]["function"]["arguments"] += args;
               }
-
-              if (extraInfo) {
-                responseTexts.push(extraInfo);
-              }
-
-              responseText = responseTexts.join("\n\n");
-
-              return finish();
             }
+            return choices[0]?.Delta?.Content;
           },
-          onmessage(msg) {
-            if (msg.data === "[DONE]" || finished) {
-              return finish();
-            }
-            const text = msg.data;
-            try {
-              const json = JSON.parse(text);
-              const choices = json.Choices as Array<{
-                Delta: { Content: string };
-              }>;
-              const delta = choices[0]?.Delta?.Content;
-              if (delta) {
-                remainText += delta;
-              }
-            } catch (e) {
-              console.error("[Request] parse error", text, msg);
-            }
-          },
-          onclose() {
-            finish();
-          },
-          onerror(e) {
-            options.onError?.(e);
-            throw e;
+          // processToolMessage, include tool_calls message and tool call results
+          (
+            requestPayload: RequestPayload,
+            toolCallMessage: any,
+            toolCallResult: any[],
+          ) => {
+            requestPayload.Messages.push(
+              {
+                Role: "assistant",
+                Content: "",
+                ToolCalls: toolCallMessage.tool_calls.map(
+                  (tool: ChatMessageTool) => ({
+                    Id: tool.id,
+                    Type: "function",
+                    Function: {
+                      Name: tool.function?.name,
+                      Arguments: tool.function?.arguments,
+                    },
+                  }),
+                ),
+              },
+              ...toolCallResult.map((result) => ({
+                Role: "tool" as const,
+                Content: result.content,
+                ToolCallId: result.tool_call_id,
+              })),
+            );
           },
-          openWhenHidden: true,
-        });
+          options,
+        );
       } else {
+        const chatPayload = {
+          method: "POST",
+          body: JSON.stringify(requestPayload),
+          signal: controller.signal,
+          headers: getHeaders(),
+        };
+
+        // make a fetch request
+        const requestTimeoutId = setTimeout(
+          () => controller.abort(),
+          REQUEST_TIMEOUT_MS,
+        );
+
         const res = await fetch(chatPath, chatPayload);
         clearTimeout(requestTimeoutId);
 
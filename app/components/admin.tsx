@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import clsx from "clsx";
+import { IconButton } from "./button";
+import { ErrorBoundary } from "./error";
+
+import styles from "./mask.module.scss";
+
+import EditIcon from "../icons/edit.svg";
+import AddIcon from "../icons/add.svg";
+import CloseIcon from "../icons/close.svg";
+import DeleteIcon from "../icons/delete.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+
+import {
+  List,
+  ListItem,
+  Modal,
+  PasswordInput,
+  Select,
+  showConfirm,
+  showToast,
+} from "./ui-lib";
+import Locale from "../locales";
+import { useAccessStore } from "../store";
+import {
+  AccountRole,
+  AccountUser,
+  createUser,
+  deleteUser,
+  listUsers,
+  updateUser,
+} from "../utils/account";
+
+type EditingUser = Partial<AccountUser> & { password: string };
+
+function UserModal(props: {
+  user: EditingUser;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const token = useAccessStore((state) => state.userToken);
+  const [user, setUser] = useState(props.user);
+  const [models, setModels] = useState((props.user.models ?? []).join(","));
+  const isNew = !user.id;
+
+  const save = () => {
+    const patch = {
+      role: user.role ?? "user",
+      models: models.split(","),
+      password: user.password || undefined,
+    };
+    (isNew
+      ? createUser(token, {
+          ...patch,
+          username: user.username ?? "",
+          password: user.password,
+        })
+      : updateUser(token, user.id!, patch)
+    )
+      .then(() => {
+        showToast(Locale.Admin.Saved);
+        props.onSaved();
+      })
+      .catch((e) => showToast(e.message));
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={isNew ? Locale.Admin.Create : user.username ?? ""}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            icon={<ConfirmIcon />}
+            text={Locale.Admin.Save}
+            key="save"
+            bordered
+            onClick={save}
+          />,
+        ]}
+      >
+        <List>
+          {isNew && (
+            <ListItem title={Locale.Admin.Username}>
+              <input
+                type="text"
+                value={user.username ?? ""}
+                onChange={(e) =>
+                  setUser({ ...user, username: e.currentTarget.value })
+                }
+              />
+            </ListItem>
+          )}
+          <ListItem
+            title={isNew ? Locale.Admin.Password : Locale.Admin.NewPassword}
+            subTitle={isNew ? undefined : Locale.Admin.NewPasswordPlaceholder}
+          >
+            <PasswordInput
+              value={user.password}
+              type="text"
+              autoComplete="new-password"
+              onChange={(e) =>
+                setUser({ ...user, password: e.currentTarget.value })
+              }
+            />
+          </ListItem>
+          <ListItem title={Locale.Admin.Role}>
+            <Select
+              value={user.role ?? "user"}
+              onChange={(e) =>
+                setUser({
+                  ...user,
+                  role: e.currentTarget.value as AccountRole,
+                })
+              }
+            >
+              {Object.entries(Locale.Admin.Roles).map(([role, name]) => (
+                <option value={role} key={role}>
+                  {name}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
+          <ListItem
+            title={Locale.Admin.Models}
+            subTitle={Locale.Admin.ModelsPlaceholder}
+            vertical
+          >
+            <input
+              type="text"
+              style={{ width: "100%", maxWidth: "unset", textAlign: "left" }}
+              value={models}
+              onChange={(e) => setModels(e.currentTarget.value)}
+            />
+          </ListItem>
+        </List>
+      </Modal>
+    </div>
+  );
+}
+
+export function AdminPage() {
+  const navigate = useNavigate();
+  const accessStore = useAccessStore();
+  const [users, setUsers] = useState<AccountUser[]>([]);
+  const [editingUser, setEditingUser] = useState<EditingUser | undefined>();
+
+  const refresh = () =>
+    listUsers(accessStore.userToken)
+      .then(setUsers)
+      .catch((e) => showToast(e.message));
+
+  useEffect(() => {
+    if (accessStore.isAdmin()) {
+      refresh();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accessStore.userToken]);
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["mask-page"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">{Locale.Admin.Title}</div>
+            <div className="window-header-submai-title">
+              {Locale.Admin.SubTitle(users.length)}
+            </div>
+          </div>
+
+          <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={styles["mask-page-body"]}>
+          {!accessStore.isAdmin() ? (
+            <div style={{ margin: "60px auto", textAlign: "center" }}>
+              {Locale.Admin.Forbidden}
+            </div>
+          ) : (
+            <>
+              <div className={styles["mask-filter"]}>
+                <IconButton
+                  className={styles["mask-create"]}
+                  icon={<AddIcon />}
+                  text={Locale.Admin.Create}
+                  bordered
+                  onClick={() =>
+                    setEditingUser({ role: "user", models: [], password: "" })
+                  }
+                />
+              </div>
+
+              <div>
+                {users.map((u) => (
+                  <div className={styles["mask-item"]} key={u.id}>
+                    <div className={styles["mask-header"]}>
+                      <div className={styles["mask-title"]}>
+                        <div className={styles["mask-name"]}>
+                          {u.username}{" "}
+                          <small>{Locale.Admin.Roles[u.role]}</small>
+                        </div>
+                        <div className={clsx(styles["mask-info"], "one-line")}>
+                          {u.models.length > 0
+                            ? u.models.join(", ")
+                            : Locale.Admin.AllModels}
+                        </div>
+                      </div>
+                    </div>
+                    <div className={styles["mask-actions"]}>
+                      <IconButton
+                        icon={<EditIcon />}
+                        text={Locale.UI.Edit}
+                        onClick={() => setEditingUser({ ...u, password: "" })}
+                      />
+                      {u.username !== accessStore.user?.username && (
+                        <IconButton
+                          icon={<DeleteIcon />}
+                          text={Locale.Admin.Delete}
+                          onClick={async () => {
+                            if (
+                              await showConfirm(
+                                Locale.Admin.DeleteConfirm(u.username),
+                              )
+                            ) {
+                              deleteUser(accessStore.userToken, u.id)
+                                .then(refresh)
+                                .catch((e) => showToast(e.message));
+                            }
+                          }}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {editingUser && (
+        <UserModal
+          user={editingUser}
+          onClose={() => setEditingUser(undefined)}
+          onSaved={() => {
+            setEditingUser(undefined);
+            refresh();
+          }}
+        />
+      )}
+    </ErrorBoundary>
+  );
+}
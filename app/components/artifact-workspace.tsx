@@ -0,0 +1,397 @@
+import { createContext, useEffect, useMemo, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import clsx from "clsx";
+
+import styles from "./artifact-workspace.module.scss";
+import ReloadIcon from "../icons/reload.svg";
+import DownloadIcon from "../icons/download.svg";
+import ClearIcon from "../icons/clear.svg";
+import ChatIcon from "../icons/chat.svg";
+
+import { IconButton } from "./button";
+import { Modal, Select, showToast } from "./ui-lib";
+import { InputRange } from "./input-range";
+import { HTMLPreview } from "./artifacts";
+import Locale from "../locales";
+import { ChatSession, useChatStore } from "../store";
+import { useAppConfig } from "../store/config";
+import { getMessageTextContent } from "../utils";
+import {
+  ArtifactFile,
+  ArtifactRevision,
+  ArtifactVersion,
+  bundleArtifactProject,
+  getArtifactVersions,
+} from "../utils/artifact-workspace";
+import { diffLines } from "../utils/diff";
+import { createZip } from "../utils/zip";
+
+interface ConsoleEntry {
+  level: string;
+  text: string;
+}
+
+const PREVIEW_TAB = "";
+
+// the versions of the shown chat, the chat provides them to its code blocks
+export const ArtifactVersionsContext = createContext<ArtifactVersion[]>([]);
+
+/**
+ * The projects built by the code blocks of the replies of a session. They
+ * are only parsed again when a finished message changes, not for every
+ * streamed chunk.
+ */
+export function useArtifactVersions(session: ChatSession) {
+  const config = useAppConfig();
+  const enableArtifacts =
+    session.mask?.enableArtifacts !== false && config.enableArtifacts;
+  const cache = useRef<{
+    messages: { id: string; role: string; content: string }[];
+    versions: ArtifactVersion[];
+  }>();
+  return useMemo(() => {
+    if (!enableArtifacts) return [];
+    const messages = session.messages
+      .filter((m) => !m.streaming)
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: getMessageTextContent(m),
+      }));
+    const cached = cache.current;
+    if (
+      cached?.messages.length === messages.length &&
+      cached.messages.every(
+        (m, i) => m.id === messages[i].id && m.content === messages[i].content,
+      )
+    ) {
+      return cached.versions;
+    }
+    const versions = getArtifactVersions(messages);
+    cache.current = { messages, versions };
+    return versions;
+  }, [enableArtifacts, session.messages]);
+}
+
+// asks the model to go on from the given files instead of its last reply
+function continueFrom(version: number, files: ArtifactFile[]) {
+  const code = files
+    .map(
+      (f) =>
+        `${f.name}\n\n\`\`\`${f.name.split(".").pop()}\n${f.content}\n\`\`\``,
+    )
+    .join("\n\n");
+  useChatStore
+    .getState()
+    .onUserInput(Locale.Workspace.ContinuePrompt(version, code));
+}
+
+function VersionSlider(props: {
+  versions: number[];
+  index: number;
+  onChange: (index: number) => void;
+}) {
+  const Workspace = Locale.Workspace;
+  return (
+    <InputRange
+      aria={Workspace.Versions}
+      title={Workspace.Version(props.versions[props.index])}
+      value={props.index}
+      min="0"
+      max={`${props.versions.length - 1}`}
+      step="1"
+      onChange={(e) => props.onChange(parseInt(e.currentTarget.value))}
+    />
+  );
+}
+
+async function downloadZip(data: Uint8Array, fileName: string) {
+  if (window.__TAURI__) {
+    const result = await window.__TAURI__.dialog.save({
+      defaultPath: fileName,
+      filters: [{ name: "Zip Files", extensions: ["zip"] }],
+    });
+    if (result === null) return;
+    try {
+      await window.__TAURI__.fs.writeBinaryFile(result, data);
+      showToast(Locale.Download.Success);
+    } catch (e) {
+      showToast(Locale.Download.Failed);
+    }
+    return;
+  }
+  const url = URL.createObjectURL(
+    new Blob([data], { type: "application/zip" }),
+  );
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// the files of a project built by several replies, with a sandboxed preview
+// and the console of the page
+export function ArtifactWorkspace(props: {
+  versions: ArtifactVersion[];
+  messageId: string;
+  onClose: () => void;
+}) {
+  const Workspace = Locale.Workspace;
+  const [index, setIndex] = useState(() =>
+    Math.max(
+      0,
+      props.versions.findIndex((v) => v.messageId === props.messageId),
+    ),
+  );
+  const [tab, setTab] = useState(PREVIEW_TAB);
+  const [frameId, setFrameId] = useState(nanoid());
+  const [logs, setLogs] = useState<ConsoleEntry[]>([]);
+
+  const version = props.versions[index] ?? props.versions[0];
+  const files = version.project.files;
+  const file = files.find((f) => f.name === tab);
+  const srcDoc = useMemo(
+    () => bundleArtifactProject(version.project, frameId),
+    [version, frameId],
+  );
+
+  useEffect(() => {
+    setLogs([]);
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.frameId !== frameId || e.data?.type !== "console") return;
+      const { level, args } = e.data as { level: string; args: string[] };
+      setLogs((logs) => [...logs, { level, text: args.join(" ") }]);
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }, [frameId, version]);
+
+  const download = () =>
+    downloadZip(
+      createZip(files.map((f) => ({ name: f.name, content: f.content }))),
+      `artifact-v${version.version}.zip`,
+    );
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Workspace.Title}
+        onClose={props.onClose}
+        defaultMax
+        actions={[
+          <IconButton
+            key="reload"
+            icon={<ReloadIcon />}
+            bordered
+            text={Workspace.Reload}
+            onClick={() => setFrameId(nanoid())}
+          />,
+          <IconButton
+            key="download"
+            icon={<DownloadIcon />}
+            bordered
+            text={Workspace.Download}
+            onClick={download}
+          />,
+          <IconButton
+            key="continue"
+            icon={<ChatIcon />}
+            bordered
+            text={Workspace.Continue}
+            onClick={() => {
+              continueFrom(version.version, files);
+              props.onClose();
+            }}
+          />,
+        ]}
+      >
+        <div className={styles["workspace"]}>
+          <div className={styles["workspace-toolbar"]}>
+            <div className={styles["workspace-tabs"]}>
+              {[PREVIEW_TAB, ...files.map((f) => f.name)].map((name) => (
+                <div
+                  key={name}
+                  className={clsx(styles["workspace-tab"], {
+                    [styles["workspace-tab-active"]]: tab === name,
+                  })}
+                  onClick={() => setTab(name)}
+                >
+                  {name || Workspace.Preview}
+                </div>
+              ))}
+            </div>
+            {props.versions.length > 1 && (
+              <VersionSlider
+                versions={props.versions.map((v) => v.version)}
+                index={index}
+                onChange={setIndex}
+              />
+            )}
+          </div>
+          <div className={styles["workspace-body"]}>
+            {/* the preview stays mounted so switching tabs keeps its state */}
+            <iframe
+              key={frameId}
+              className={clsx(styles["workspace-preview"], {
+                [styles["workspace-hidden"]]: !!file,
+              })}
+              sandbox="allow-forms allow-modals allow-scripts"
+              srcDoc={srcDoc}
+            />
+            {file && (
+              <pre className={styles["workspace-code"]}>
+                <code>{file.content}</code>
+              </pre>
+            )}
+          </div>
+          <div className={styles["workspace-console"]}>
+            <div className={styles["workspace-console-header"]}>
+              <span>{Workspace.Console}</span>
+              <IconButton
+                icon={<ClearIcon />}
+                title={Workspace.ClearConsole}
+                onClick={() => setLogs([])}
+              />
+            </div>
+            {logs.length === 0 && (
+              <div className={styles["workspace-console-empty"]}>
+                {Workspace.EmptyConsole}
+              </div>
+            )}
+            {logs.map((log, i) => (
+              <div
+                key={i}
+                className={clsx(
+                  styles["workspace-console-line"],
+                  styles[`workspace-console-${log.level}`],
+                )}
+              >
+                {log.text}
+              </div>
+            ))}
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+function DiffView(props: { before: string; after: string }) {
+  const rows = useMemo(
+    () => diffLines(props.before, props.after),
+    [props.before, props.after],
+  );
+  if (rows.every((row) => row.type === "same")) {
+    return (
+      <div className={styles["workspace-console-empty"]}>
+        {Locale.Workspace.NoChanges}
+      </div>
+    );
+  }
+  return (
+    <div className={styles["diff"]}>
+      {rows.map((row, i) => (
+        <div key={i} className={clsx(styles["diff-row"], styles[row.type])}>
+          {[row.left, row.right].map((line, side) => (
+            <div
+              key={side}
+              className={clsx(styles["diff-cell"], {
+                [styles["diff-empty"]]: !line,
+              })}
+            >
+              <span className={styles["diff-number"]}>{line?.number}</span>
+              <span className={styles["diff-text"]}>{line?.text}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// the versions of an html artifact across the replies of a session
+export function ArtifactHistoryModal(props: {
+  revisions: ArtifactRevision[];
+  index: number;
+  onClose: () => void;
+}) {
+  const Workspace = Locale.Workspace;
+  const [index, setIndex] = useState(props.index);
+  const [showDiff, setShowDiff] = useState(false);
+  const [baseIndex, setBaseIndex] = useState<number>();
+
+  const revision = props.revisions[index];
+  // compared with the version before it unless another one is picked
+  const base =
+    props.revisions[baseIndex ?? index - 1] ??
+    props.revisions[index === 0 ? 1 : 0];
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={`${Workspace.History} · ${revision.file.name}`}
+        onClose={props.onClose}
+        defaultMax
+        actions={[
+          <IconButton
+            key="diff"
+            bordered
+            text={showDiff ? Workspace.Preview : Workspace.Diff}
+            onClick={() => setShowDiff(!showDiff)}
+          />,
+          <IconButton
+            key="continue"
+            icon={<ChatIcon />}
+            bordered
+            text={Workspace.Continue}
+            onClick={() => {
+              continueFrom(revision.version, [revision.file]);
+              props.onClose();
+            }}
+          />,
+        ]}
+      >
+        <div className={styles["workspace"]}>
+          <div className={styles["workspace-toolbar"]}>
+            <VersionSlider
+              versions={props.revisions.map((r) => r.version)}
+              index={index}
+              onChange={(index) => {
+                setIndex(index);
+                setBaseIndex(undefined);
+              }}
+            />
+            {showDiff && (
+              <Select
+                aria-label={Workspace.CompareWith}
+                value={props.revisions.indexOf(base)}
+                onChange={(e) => setBaseIndex(parseInt(e.currentTarget.value))}
+              >
+                {props.revisions.map((r, i) => (
+                  <option key={r.messageId} value={i} disabled={i === index}>
+                    {Workspace.CompareWith} {Workspace.Version(r.version)}
+                  </option>
+                ))}
+              </Select>
+            )}
+          </div>
+          <div className={styles["workspace-body"]}>
+            {showDiff ? (
+              <DiffView
+                before={base.file.content}
+                after={revision.file.content}
+              />
+            ) : (
+              <HTMLPreview
+                code={revision.file.content}
+                autoHeight={false}
+                height="100%"
+              />
+            )}
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -16,9 +16,18 @@ import GithubIcon from "../icons/github.svg";
 import LoadingButtonIcon from "../icons/loading.svg";
 import ReloadButtonIcon from "../icons/reload.svg";
 import Locale from "../locales";
-import { Modal, showToast } from "./ui-lib";
+import CloseIcon from "../icons/close.svg";
+import { List, ListItem, Modal, showConfirm, showToast } from "./ui-lib";
 import { copyToClipboard, downloadAs } from "../utils";
-import { Path, ApiPath, REPO_URL } from "@/app/constant";
+import { Path, ApiPath, REPO_URL, USER_TOKEN_PREFIX } from "@/app/constant";
+import { getHeaders } from "../client/api";
+import { useAccessStore } from "../store";
+import {
+  AccountArtifact,
+  deleteArtifact,
+  listArtifacts,
+} from "../utils/account";
+import { prettyObject } from "../utils/format";
 import { Loading } from "./home";
 import styles from "./artifacts.module.scss";
 
@@ -106,6 +115,22 @@ export const HTMLPreview = forwardRef<HTMLPreviewHander, HTMLPreviewProps>(
   },
 );
 
+function getArtifactUrl(id: string) {
+  return [location.origin, "#", Path.Artifacts, "/", id].join("");
+}
+
+// a logged in user owns the artifacts they upload, even with their own api key
+function getUploadHeaders() {
+  const userToken = useAccessStore.getState().userToken;
+  return {
+    ...getHeaders(),
+    "Content-Type": "text/html",
+    ...(userToken
+      ? { Authorization: `Bearer ${USER_TOKEN_PREFIX}${userToken}` }
+      : {}),
+  };
+}
+
 export function ArtifactsShareButton({
   getCode,
   id,
@@ -120,15 +145,13 @@ export function ArtifactsShareButton({
   const [loading, setLoading] = useState(false);
   const [name, setName] = useState(id);
   const [show, setShow] = useState(false);
-  const shareUrl = useMemo(
-    () => [location.origin, "#", Path.Artifacts, "/", name].join(""),
-    [name],
-  );
+  const shareUrl = useMemo(() => getArtifactUrl(name ?? ""), [name]);
   const upload = (code: string) =>
     id
       ? Promise.resolve({ id })
       : fetch(ApiPath.Artifacts, {
           method: "POST",
+          headers: getUploadHeaders(),
           body: code,
         })
           .then((res) => res.json())
@@ -202,6 +225,86 @@ export function ArtifactsShareButton({
   );
 }
 
+// the artifacts shared by the logged in user
+export function ArtifactsListModal(props: { onClose: () => void }) {
+  const ArtifactList = Locale.Export.Artifacts.List;
+  const userToken = useAccessStore((state) => state.userToken);
+  const [artifacts, setArtifacts] = useState<AccountArtifact[]>();
+
+  useEffect(() => {
+    listArtifacts(userToken)
+      .then(setArtifacts)
+      .catch((e) => {
+        console.error("[Artifacts]", e);
+        showToast(prettyObject(e));
+        setArtifacts([]);
+      });
+  }, [userToken]);
+
+  const remove = async (id: string) => {
+    if (!(await showConfirm(ArtifactList.DeleteConfirm))) return;
+    try {
+      await deleteArtifact(userToken, id);
+      setArtifacts((artifacts) => artifacts?.filter((a) => a.id !== id));
+      showToast(ArtifactList.Deleted);
+    } catch (e) {
+      console.error("[Artifacts]", e);
+      showToast(prettyObject(e));
+    }
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal title={ArtifactList.Title} onClose={props.onClose}>
+        {!artifacts ? (
+          <Loading />
+        ) : (
+          <List>
+            {artifacts.length === 0 && <ListItem title={ArtifactList.Empty} />}
+            {artifacts.map((artifact) => {
+              const url = getArtifactUrl(artifact.id);
+              return (
+                <ListItem
+                  key={artifact.id}
+                  title={url}
+                  subTitle={[
+                    new Date(artifact.createdAt).toLocaleString(),
+                    ArtifactList.Size(`${Math.ceil(artifact.size / 1024)} KB`),
+                    artifact.expiresAt &&
+                      ArtifactList.ExpiresAt(
+                        new Date(artifact.expiresAt).toLocaleString(),
+                      ),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                >
+                  <div style={{ display: "flex" }}>
+                    <IconButton
+                      icon={<CopyIcon />}
+                      title={Locale.Chat.Actions.Copy}
+                      onClick={() => copyToClipboard(url)}
+                    />
+                    <IconButton
+                      icon={<ExportIcon />}
+                      title={Locale.Export.ShareLink.Open}
+                      onClick={() => window.open(url, "_blank")}
+                    />
+                    <IconButton
+                      icon={<CloseIcon />}
+                      title={ArtifactList.Delete}
+                      onClick={() => remove(artifact.id)}
+                    />
+                  </div>
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
 export function Artifacts() {
   const { id } = useParams();
   const [code, setCode] = useState("");
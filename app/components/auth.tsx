@@ -11,7 +11,7 @@ import Logo from "../icons/logo.svg";
 import { useMobileScreen } from "@/app/utils";
 import BotIcon from "../icons/bot.svg";
 import { getClientConfig } from "../config/client";
-import { PasswordInput } from "./ui-lib";
+import { PasswordInput, showToast } from "./ui-lib";
 import LeftIcon from "@/app/icons/left.svg";
 import { safeLocalStorage } from "@/app/utils";
 import {
@@ -19,6 +19,7 @@ import {
   trackAuthorizationPageButtonToCPaymentClick,
 } from "../utils/auth-settings-events";
 import clsx from "clsx";
+import { login } from "../utils/account";
 
 const storage = safeLocalStorage();
 
@@ -39,6 +40,20 @@ export function AuthPage() {
     });
   }; // Reset access code to empty string
 
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [loggingIn, setLoggingIn] = useState(false);
+  const doLogin = () => {
+    setLoggingIn(true);
+    login(username, password)
+      .then((session) => {
+        accessStore.login(session);
+        goChat();
+      })
+      .catch((e) => showToast(`${Locale.Auth.LoginFailed}: ${e.message}`))
+      .finally(() => setLoggingIn(false));
+  };
+
   useEffect(() => {
     if (getClientConfig()?.isApp) {
       navigate(Path.Settings);
@@ -61,21 +76,63 @@ export function AuthPage() {
       </div>
 
       <div className={styles["auth-title"]}>{Locale.Auth.Title}</div>
-      <div className={styles["auth-tips"]}>{Locale.Auth.Tips}</div>
-
-      <PasswordInput
-        style={{ marginTop: "3vh", marginBottom: "3vh" }}
-        aria={Locale.Settings.ShowPassword}
-        aria-label={Locale.Auth.Input}
-        value={accessStore.accessCode}
-        type="text"
-        placeholder={Locale.Auth.Input}
-        onChange={(e) => {
-          accessStore.update(
-            (access) => (access.accessCode = e.currentTarget.value),
-          );
-        }}
-      />
+
+      {accessStore.enableAccounts && (
+        <>
+          <div className={styles["auth-tips"]}>{Locale.Auth.AccountTips}</div>
+          <input
+            className={styles["auth-input"]}
+            aria-label={Locale.Auth.Username}
+            value={username}
+            type="text"
+            autoComplete="username"
+            placeholder={Locale.Auth.Username}
+            onChange={(e) => setUsername(e.currentTarget.value)}
+          />
+          <PasswordInput
+            style={{ marginBottom: "3vh" }}
+            aria={Locale.Settings.ShowPassword}
+            aria-label={Locale.Auth.Password}
+            value={password}
+            type="password"
+            autoComplete="current-password"
+            placeholder={Locale.Auth.Password}
+            onChange={(e) => setPassword(e.currentTarget.value)}
+            onKeyDown={(e) => e.key === "Enter" && doLogin()}
+          />
+          <IconButton
+            text={Locale.Auth.Login}
+            type="primary"
+            disabled={loggingIn || !username || !password}
+            onClick={doLogin}
+          />
+        </>
+      )}
+
+      {(!accessStore.enableAccounts || accessStore.needCode) && (
+        <>
+          <div
+            className={styles["auth-tips"]}
+            style={accessStore.enableAccounts ? { marginTop: "3vh" } : {}}
+          >
+            {Locale.Auth.Tips}
+          </div>
+
+          <PasswordInput
+            style={{ marginTop: "3vh", marginBottom: "3vh" }}
+            aria={Locale.Settings.ShowPassword}
+            aria-label={Locale.Auth.Input}
+            value={accessStore.accessCode}
+            type="text"
+            placeholder={Locale.Auth.Input}
+            onChange={(e) => {
+              accessStore.update(
+                (access) => (access.accessCode = e.currentTarget.value),
+              );
+            }}
+          />
+        </>
+      )}
 
       {!accessStore.hideUserApiKey ? (
         <>
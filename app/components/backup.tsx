@@ -0,0 +1,227 @@
+import { useMemo, useState } from "react";
+
+import ConfirmIcon from "../icons/confirm.svg";
+import { IconButton } from "./button";
+import { List, ListItem, Modal, showConfirm, showToast } from "./ui-lib";
+import Locale from "../locales";
+import { StoreKey } from "../constant";
+import { DEFAULT_TOPIC } from "../store";
+import { useSyncStore } from "../store/sync";
+import { readFromFile } from "../utils";
+import { getLocalAppState } from "../utils/sync";
+import {
+  BackupMode,
+  BackupState,
+  BackupStore,
+  BackupStoreDiff,
+  DEFAULT_BACKUP_STORES,
+  diffBackupState,
+  getBackupStores,
+  pickBackupState,
+} from "../utils/backup";
+
+// names of the records listed in the preview of a store
+const PREVIEW_NAMES = 5;
+
+function getStoreName(store: BackupStore) {
+  const Stores = Locale.Settings.Sync.Backup.Stores;
+  return {
+    [StoreKey.Chat]: Stores.Chat,
+    [StoreKey.Mask]: Stores.Mask,
+    [StoreKey.Prompt]: Stores.Prompt,
+    [StoreKey.Config]: Stores.Config,
+    [StoreKey.Access]: Stores.Access,
+  }[store];
+}
+
+// reads a backup file, a file without any store is shown as a toast
+export async function readBackup() {
+  try {
+    const backup = JSON.parse(await readFromFile()) as BackupState;
+    if (getBackupStores(backup).length > 0) return backup;
+  } catch (e) {
+    console.error("[Import]", e);
+  }
+  showToast(Locale.Settings.Sync.ImportFailed);
+}
+
+function describeDiff(diff: BackupStoreDiff) {
+  const Preview = Locale.Settings.Sync.Backup.Preview;
+  const counts = [
+    diff.added.length > 0 && Preview.Added(diff.added.length),
+    diff.changed.length > 0 && Preview.Changed(diff.changed.length),
+    diff.removed.length > 0 && Preview.Removed(diff.removed.length),
+    diff.unchanged > 0 && Preview.Unchanged(diff.unchanged),
+  ].filter((part): part is string => !!part);
+  const names = [
+    ...diff.added.map((name) => `+ ${name}`),
+    ...diff.changed.map((name) => `~ ${name}`),
+    ...diff.removed.map((name) => `- ${name}`),
+  ];
+  const more = names.length > PREVIEW_NAMES ? " …" : "";
+  return (
+    <>
+      <div>{counts.join(" · ")}</div>
+      {names.length > 0 && (
+        <div>{names.slice(0, PREVIEW_NAMES).join(", ") + more}</div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Exports the chosen stores and sessions, or imports them from `backup`
+ * after a preview of the changes.
+ */
+export function BackupModal(props: {
+  backup?: BackupState;
+  onClose: () => void;
+}) {
+  const Backup = Locale.Settings.Sync.Backup;
+  const syncStore = useSyncStore();
+  const isImport = !!props.backup;
+  // the local state when the modal opened, it is exported or compared with
+  // the backup
+  const [localState] = useState(getLocalAppState);
+  const source = props.backup ?? localState;
+
+  const availableStores = useMemo(() => getBackupStores(source), [source]);
+  const [stores, setStores] = useState(() =>
+    availableStores.filter((store) => DEFAULT_BACKUP_STORES.includes(store)),
+  );
+  const sessions = source[StoreKey.Chat]?.sessions ?? [];
+  const [sessionIds, setSessionIds] = useState(() => sessions.map((s) => s.id));
+  const [mode, setMode] = useState<BackupMode>("merge");
+
+  const options = useMemo(() => ({ stores, sessionIds }), [stores, sessionIds]);
+  const diffs = useMemo(
+    () =>
+      isImport
+        ? diffBackupState(localState, pickBackupState(source, options), mode)
+        : {},
+    [isImport, localState, source, options, mode],
+  );
+
+  const toggleStore = (store: BackupStore) => {
+    setStores(
+      stores.includes(store)
+        ? stores.filter((s) => s !== store)
+        : availableStores.filter((s) => s === store || stores.includes(s)),
+    );
+  };
+  const toggleSession = (id: string) => {
+    setSessionIds(
+      sessionIds.includes(id)
+        ? sessionIds.filter((s) => s !== id)
+        : sessions
+            .filter((s) => s.id === id || sessionIds.includes(s.id))
+            .map((s) => s.id),
+    );
+  };
+  const allSessions = sessionIds.length === sessions.length;
+
+  const confirm = async () => {
+    if (!isImport) {
+      syncStore.export(options);
+      props.onClose();
+      return;
+    }
+    if (mode === "replace" && !(await showConfirm(Backup.ReplaceConfirm))) {
+      return;
+    }
+    syncStore.importBackup(props.backup!, options, mode);
+    showToast(Backup.Done);
+    props.onClose();
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={isImport ? Backup.ImportTitle : Backup.ExportTitle}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="confirm"
+            icon={<ConfirmIcon />}
+            type="primary"
+            bordered
+            disabled={stores.length === 0}
+            text={isImport ? Locale.UI.Import : Locale.UI.Export}
+            onClick={confirm}
+          />,
+        ]}
+      >
+        <List>
+          {availableStores.map((store) => (
+            <ListItem
+              key={store}
+              title={getStoreName(store)}
+              subTitle={
+                store === StoreKey.Access
+                  ? Backup.Stores.AccessWarning
+                  : undefined
+              }
+            >
+              <input
+                type="checkbox"
+                checked={stores.includes(store)}
+                onChange={() => toggleStore(store)}
+              ></input>
+            </ListItem>
+          ))}
+        </List>
+
+        {isImport && (
+          <List>
+            <ListItem title={Backup.Mode.Title} subTitle={Backup.Mode.SubTitle}>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as BackupMode)}
+              >
+                <option value="merge">{Backup.Mode.merge}</option>
+                <option value="replace">{Backup.Mode.replace}</option>
+              </select>
+            </ListItem>
+            {stores.map((store) => (
+              <ListItem
+                key={store}
+                title={`${Backup.Preview.Title}: ${getStoreName(store)}`}
+                subTitle={describeDiff(diffs[store]!)}
+              />
+            ))}
+          </List>
+        )}
+
+        {stores.includes(StoreKey.Chat) && sessions.length > 0 && (
+          <List>
+            <ListItem
+              title={Backup.Stores.Chat}
+              subTitle={Backup.Sessions(sessionIds.length, sessions.length)}
+            >
+              <IconButton
+                bordered
+                text={allSessions ? Backup.SelectNone : Backup.SelectAll}
+                onClick={() =>
+                  setSessionIds(allSessions ? [] : sessions.map((s) => s.id))
+                }
+              />
+            </ListItem>
+            {sessions.map((session) => (
+              <ListItem
+                key={session.id}
+                title={session.topic || DEFAULT_TOPIC}
+                subTitle={new Date(session.lastUpdate).toLocaleString()}
+              >
+                <input
+                  type="checkbox"
+                  checked={sessionIds.includes(session.id)}
+                  onChange={() => toggleSession(session.id)}
+                ></input>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Modal>
+    </div>
+  );
+}
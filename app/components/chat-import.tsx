@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+
+import ConfirmIcon from "../icons/confirm.svg";
+import { IconButton } from "./button";
+import { List, ListItem, Modal, showToast } from "./ui-lib";
+import Locale from "../locales";
+import { DEFAULT_TOPIC, useChatStore } from "../store";
+import {
+  findImportedSession,
+  getImportId,
+  ImportedChat,
+  parseChatExport,
+} from "../utils/chat-import";
+import { readFromFile } from "../utils";
+
+// reads an export file, an empty list or a parse error is shown as a toast
+export async function readChatExport() {
+  const Import = Locale.Settings.Sync.ImportChats;
+  try {
+    const chats = parseChatExport(await readFromFile());
+    if (chats.length === 0) {
+      showToast(Import.Empty);
+      return;
+    }
+    return chats;
+  } catch (e) {
+    console.error("[Import] failed to read chats", e);
+    showToast(Locale.Settings.Sync.ImportFailed);
+  }
+}
+
+export function ChatImportModal(props: {
+  chats: ImportedChat[];
+  onClose: () => void;
+}) {
+  const Import = Locale.Settings.Sync.ImportChats;
+  const chatStore = useChatStore();
+  const imported = useMemo(
+    () =>
+      new Set(
+        props.chats
+          .filter((chat) => findImportedSession(chatStore.sessions, chat))
+          .map(getImportId),
+      ),
+    // only the sessions at the time the file was opened count
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [props.chats],
+  );
+  // chats that were imported before are not selected by default
+  const [selected, setSelected] = useState(
+    () =>
+      new Set(props.chats.map(getImportId).filter((id) => !imported.has(id))),
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    next.has(id) ? next.delete(id) : next.add(id);
+    setSelected(next);
+  };
+  const allSelected = selected.size === props.chats.length;
+
+  const importChats = () => {
+    const chats = props.chats.filter((chat) => selected.has(getImportId(chat)));
+    chatStore.importSessions(chats);
+    showToast(Import.Done(chats.length));
+    props.onClose();
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Import.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="select"
+            bordered
+            text={allSelected ? Import.SelectNone : Import.SelectAll}
+            onClick={() =>
+              setSelected(
+                new Set(allSelected ? [] : props.chats.map(getImportId)),
+              )
+            }
+          />,
+          <IconButton
+            key="import"
+            icon={<ConfirmIcon />}
+            type="primary"
+            bordered
+            disabled={selected.size === 0}
+            text={Import.Confirm(selected.size)}
+            onClick={importChats}
+          />,
+        ]}
+      >
+        <List>
+          {props.chats.map((chat) => {
+            const id = getImportId(chat);
+            const subTitle = [
+              Import.Sources[chat.source],
+              Import.Messages(chat.messages.length),
+              new Date(chat.updatedAt).toLocaleString(),
+              imported.has(id) ? Import.Imported : "",
+            ]
+              .filter((part) => part.length > 0)
+              .join(" · ");
+            return (
+              <ListItem
+                key={id}
+                title={chat.title || DEFAULT_TOPIC}
+                subTitle={subTitle}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(id)}
+                  onChange={() => toggle(id)}
+                ></input>
+              </ListItem>
+            );
+          })}
+        </List>
+      </Modal>
+    </div>
+  );
+}
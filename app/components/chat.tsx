@@ -47,8 +47,13 @@ import PluginIcon from "../icons/plugin.svg";
 import ShortcutkeyIcon from "../icons/shortcutkey.svg";
 import ReloadIcon from "../icons/reload.svg";
 import HeadphoneIcon from "../icons/headphone.svg";
+import LeftIcon from "../icons/left.svg";
+import UploadIcon from "../icons/upload.svg";
+import WorkspaceIcon from "../icons/eye.svg";
 import {
   ChatMessage,
+  ChatMessageTool,
+  ChatSession,
   SubmitKey,
   useChatStore,
   BOT_HELLO,
@@ -68,9 +73,7 @@ import {
   useMobileScreen,
   getMessageTextContent,
   getMessageImages,
-  isVisionModel,
-  isDalle3,
-  showPlugins,
+  getModelCapabilities,
   safeLocalStorage,
 } from "../utils";
 
@@ -78,7 +81,7 @@ import { uploadImage as uploadImageRemote } from "@/app/utils/chat";
 
 import dynamic from "next/dynamic";
 
-import { ChatControllerPool } from "../client/controller";
+import { ChatControllerPool, ToolApprovalPool } from "../client/controller";
 import { DalleSize, DalleQuality, DalleStyle } from "../typing";
 import { Prompt, usePromptStore } from "../store/prompt";
 import Locale from "../locales";
@@ -92,10 +95,11 @@ import {
   Modal,
   Selector,
   showConfirm,
+  showImageModal,
   showPrompt,
   showToast,
 } from "./ui-lib";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import {
   CHAT_PAGE_SIZE,
   DEFAULT_TTS_ENGINE,
@@ -111,6 +115,20 @@ import { useMaskStore } from "../store/mask";
 import { ChatCommandPrefix, useChatCommand, useCommand } from "../command";
 import { prettyObject } from "../utils/format";
 import { ExportMessageModal } from "./exporter";
+import { SandboxFilesModal } from "./code-interpreter";
+import { MaskVariablesForm } from "./mask-variables";
+import {
+  getDefaultVariableValues,
+  getValidVariables,
+  validateVariableValues,
+} from "../utils/mask-variables";
+import { CODE_INTERPRETER_PLUGIN_ID } from "../store/plugin";
+import {
+  ArtifactVersionsContext,
+  ArtifactWorkspace,
+  useArtifactVersions,
+} from "./artifact-workspace";
+import { getProjectVersions } from "../utils/artifact-workspace";
 import { getClientConfig } from "../config/client";
 import { useAllModels } from "../utils/hooks";
 import { MultimodalContent } from "../client/api";
@@ -121,6 +139,8 @@ import { MsEdgeTTS, OUTPUT_FORMAT } from "../utils/ms_edge_tts";
 
 import { isEmpty } from "lodash-es";
 import { getModelProvider } from "../utils/model";
+import { getSiblingMap } from "../utils/message-tree";
+import type { ContextBudget, ContextPartName } from "../utils/context-budget";
 import { RealtimeChat } from "@/app/components/realtime-chat";
 import clsx from "clsx";
 
@@ -132,11 +152,53 @@ const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
   loading: () => <LoadingIcon />,
 });
 
+function ContextBudgetItems(props: { session: ChatSession }) {
+  const chatStore = useChatStore();
+  const [budget, setBudget] = useState<ContextBudget>();
+
+  useEffect(() => {
+    chatStore.getContextBudget().then(setBudget);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.session.messages, props.session.mask]);
+
+  if (!budget) return null;
+
+  return (
+    <>
+      <ListItem
+        title={Locale.ContextBudget.Title}
+        subTitle={Locale.ContextBudget.SubTitle(
+          budget.usedTokens,
+          budget.inputBudget,
+          budget.contextWindow,
+          budget.reservedOutput,
+        )}
+      ></ListItem>
+      {Object.entries(budget.parts)
+        .filter(([, part]) => part.included + part.dropped > 0)
+        .map(([name, part]) => (
+          <ListItem
+            key={name}
+            title={Locale.ContextBudget.Part[name as ContextPartName]}
+            subTitle={Locale.ContextBudget.Detail(
+              part.included,
+              part.tokens,
+              part.dropped,
+            )}
+          ></ListItem>
+        ))}
+    </>
+  );
+}
+
 export function SessionConfigModel(props: { onClose: () => void }) {
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
   const maskStore = useMaskStore();
   const navigate = useNavigate();
+  const variables = getValidVariables(session.mask.variables);
+  const variableValues =
+    session.variables ?? getDefaultVariableValues(variables);
 
   return (
     <div className="modal-mask">
@@ -172,6 +234,24 @@ export function SessionConfigModel(props: { onClose: () => void }) {
           />,
         ]}
       >
+        {variables.length > 0 && (
+          <>
+            <List>
+              <ListItem title={Locale.Mask.Variables.Form.Edit} />
+            </List>
+            <MaskVariablesForm
+              variables={variables}
+              values={variableValues}
+              errors={validateVariableValues(variables, variableValues)}
+              onChange={(values) =>
+                chatStore.updateTargetSession(
+                  session,
+                  (session) => (session.variables = values),
+                )
+              }
+            />
+          </>
+        )}
         <MaskConfig
           mask={session.mask}
           updateMask={(updater) => {
@@ -184,15 +264,18 @@ export function SessionConfigModel(props: { onClose: () => void }) {
           }}
           shouldSyncFromGlobal
           extraListItems={
-            session.mask.modelConfig.sendMemory ? (
-              <ListItem
-                className="copyable"
-                title={`${Locale.Memory.Title} (${session.lastSummarizeIndex} of ${session.messages.length})`}
-                subTitle={session.memoryPrompt || Locale.Memory.EmptyContent}
-              ></ListItem>
-            ) : (
-              <></>
-            )
+            <>
+              {session.mask.modelConfig.sendMemory ? (
+                <ListItem
+                  className="copyable"
+                  title={`${Locale.Memory.Title} (${session.lastSummarizeIndex} of ${session.messages.length})`}
+                  subTitle={session.memoryPrompt || Locale.Memory.EmptyContent}
+                ></ListItem>
+              ) : (
+                <></>
+              )}
+              <ContextBudgetItems session={session} />
+            </>
           }
         ></MaskConfig>
       </Modal>
@@ -420,6 +503,205 @@ export function ChatAction(props: {
   );
 }
 
+export function MessageBranchSwitch(props: {
+  siblings: ChatMessage[];
+  index: number;
+  onSwitch: (message: ChatMessage) => void;
+}) {
+  const { siblings, index } = props;
+
+  return (
+    <div className={styles["chat-message-branch"]}>
+      <div
+        className={clsx(styles["chat-message-branch-button"], "clickable", {
+          [styles["disabled"]]: index <= 0,
+        })}
+        title={Locale.Chat.Actions.PrevBranch}
+        onClick={() => index > 0 && props.onSwitch(siblings[index - 1])}
+      >
+        <LeftIcon />
+      </div>
+      <span>
+        {index + 1} / {siblings.length}
+      </span>
+      <div
+        className={clsx(
+          styles["chat-message-branch-button"],
+          styles["next"],
+          "clickable",
+          { [styles["disabled"]]: index >= siblings.length - 1 },
+        )}
+        title={Locale.Chat.Actions.NextBranch}
+        onClick={() =>
+          index < siblings.length - 1 && props.onSwitch(siblings[index + 1])
+        }
+      >
+        <LeftIcon />
+      </div>
+    </div>
+  );
+}
+
+function formatToolArguments(args?: string) {
+  try {
+    return JSON.stringify(JSON.parse(args || "{}"), null, 2);
+  } catch {
+    return args ?? "";
+  }
+}
+
+function ToolApprovalCard(props: { tool: ChatMessageTool }) {
+  const { tool } = props;
+  const [args, setArgs] = useState(() =>
+    formatToolArguments(tool.function?.arguments),
+  );
+  const [reason, setReason] = useState("");
+
+  const approve = () => {
+    try {
+      ToolApprovalPool.resolve(tool.id, {
+        approved: true,
+        arguments: JSON.stringify(JSON.parse(args || "{}")),
+      });
+    } catch {
+      showToast(Locale.Chat.ToolApproval.InvalidArguments);
+    }
+  };
+
+  return (
+    <div className={styles["chat-message-tool-approval"]}>
+      <div className={styles["chat-message-tool-approval-title"]}>
+        {Locale.Chat.ToolApproval.Title(tool.function?.name ?? "")}
+      </div>
+      <textarea
+        rows={Math.min(10, args.split("\n").length)}
+        aria-label={Locale.Chat.ToolApproval.Arguments}
+        title={Locale.Chat.ToolApproval.Arguments}
+        value={args}
+        onChange={(e) => setArgs(e.currentTarget.value)}
+      ></textarea>
+      <input
+        type="text"
+        placeholder={Locale.Chat.ToolApproval.Reason}
+        value={reason}
+        onChange={(e) => setReason(e.currentTarget.value)}
+      ></input>
+      <div className={styles["chat-message-tool-approval-actions"]}>
+        <IconButton
+          icon={<CancelIcon />}
+          text={Locale.Chat.ToolApproval.Reject}
+          bordered
+          onClick={() =>
+            ToolApprovalPool.resolve(tool.id, {
+              approved: false,
+              reason: reason.trim() || undefined,
+            })
+          }
+        />
+        <IconButton
+          icon={<ConfirmIcon />}
+          text={Locale.Chat.ToolApproval.Approve}
+          type="primary"
+          onClick={approve}
+        />
+      </div>
+    </div>
+  );
+}
+
+function ToolStatusIcon(props: { tool: ChatMessageTool }) {
+  return props.tool.isError === false ? (
+    <ConfirmIcon />
+  ) : props.tool.isError === true ? (
+    <CloseIcon />
+  ) : (
+    <LoadingButtonIcon />
+  );
+}
+
+// tool calls of a message grouped by the step of the agent loop they ran in
+function ToolTimeline(props: { tools: ChatMessageTool[] }) {
+  const steps = props.tools.reduce(
+    (steps, tool) => {
+      const step = tool.step ?? 1;
+      (steps[step] = steps[step] ?? []).push(tool);
+      return steps;
+    },
+    {} as Record<number, ChatMessageTool[]>,
+  );
+  const pending = props.tools.filter(
+    (tool) => tool.approval === "pending" && ToolApprovalPool.has(tool.id),
+  );
+
+  return (
+    <div className={styles["chat-message-tools"]}>
+      <details className={styles["chat-message-tool-timeline"]}>
+        <summary title={Locale.Chat.ToolTimeline.Title}>
+          {props.tools.map((tool) => (
+            <div
+              key={tool.id}
+              title={tool?.errorMsg}
+              className={styles["chat-message-tool"]}
+            >
+              <ToolStatusIcon tool={tool} />
+              <span>{tool?.function?.name}</span>
+            </div>
+          ))}
+        </summary>
+        {Object.entries(steps).map(([step, tools]) => (
+          <div key={step} className={styles["chat-message-tool-step"]}>
+            <div className={styles["chat-message-tool-step-title"]}>
+              {Locale.Chat.ToolTimeline.Step(Number(step))}
+            </div>
+            {tools.map((tool) => (
+              <div key={tool.id} className={styles["chat-message-tool-detail"]}>
+                <div className={styles["chat-message-tool"]}>
+                  <ToolStatusIcon tool={tool} />
+                  <span>{tool?.function?.name}</span>
+                  {tool.duration !== undefined && (
+                    <span className={styles["chat-message-tool-duration"]}>
+                      {Locale.Chat.ToolTimeline.Duration(tool.duration)}
+                    </span>
+                  )}
+                </div>
+                <div>{Locale.Chat.ToolTimeline.Arguments}</div>
+                <pre>{formatToolArguments(tool.function?.arguments)}</pre>
+                {tool.isError ? (
+                  <>
+                    <div>{Locale.Chat.ToolTimeline.Error}</div>
+                    <pre>{tool.errorMsg || tool.content}</pre>
+                  </>
+                ) : (
+                  tool.content !== undefined && (
+                    <>
+                      <div>{Locale.Chat.ToolTimeline.Result}</div>
+                      <pre>{tool.content}</pre>
+                    </>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </details>
+      {props.tools
+        .flatMap((tool) => tool.images ?? [])
+        .map((image) => (
+          <img
+            key={image}
+            className={styles["chat-message-tool-image"]}
+            src={image}
+            alt=""
+            onClick={() => showImageModal(image)}
+          />
+        ))}
+      {pending.map((tool) => (
+        <ToolApprovalCard key={tool.id} tool={tool} />
+      ))}
+    </div>
+  );
+}
+
 function useScrollToBottom(
   scrollRef: RefObject<HTMLDivElement>,
   detach: boolean = false,
@@ -512,8 +794,15 @@ export function ChatActions(props: {
     );
     return model?.displayName ?? "";
   }, [models, currentModel, currentProviderName]);
+  const capabilities = useMemo(
+    () => getModelCapabilities(currentModel, currentProviderName),
+    // custom models can change the capabilities
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [allModels, currentModel, currentProviderName],
+  );
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [showPluginSelector, setShowPluginSelector] = useState(false);
+  const [showSandboxFiles, setShowSandboxFiles] = useState(false);
   const [showUploadImage, setShowUploadImage] = useState(false);
 
   const [showSizeSelector, setShowSizeSelector] = useState(false);
@@ -529,7 +818,7 @@ export function ChatActions(props: {
   const isMobileScreen = useMobileScreen();
 
   useEffect(() => {
-    const show = isVisionModel(currentModel);
+    const show = capabilities.vision;
     setShowUploadImage(show);
     if (!show) {
       props.setAttachImages([]);
@@ -553,7 +842,7 @@ export function ChatActions(props: {
           : nextModel.name,
       );
     }
-  }, [chatStore, currentModel, models, session]);
+  }, [chatStore, currentModel, models, session, capabilities.vision]);
 
   return (
     <div className={styles["chat-input-actions"]}>
@@ -673,7 +962,7 @@ export function ChatActions(props: {
           />
         )}
 
-        {isDalle3(currentModel) && (
+        {capabilities.imageOutput && (
           <ChatAction
             onClick={() => setShowSizeSelector(true)}
             text={currentSize}
@@ -700,7 +989,7 @@ export function ChatActions(props: {
           />
         )}
 
-        {isDalle3(currentModel) && (
+        {capabilities.imageOutput && (
           <ChatAction
             onClick={() => setShowQualitySelector(true)}
             text={currentQuality}
@@ -727,7 +1016,7 @@ export function ChatActions(props: {
           />
         )}
 
-        {isDalle3(currentModel) && (
+        {capabilities.imageOutput && (
           <ChatAction
             onClick={() => setShowStyleSelector(true)}
             text={currentStyle}
@@ -754,7 +1043,7 @@ export function ChatActions(props: {
           />
         )}
 
-        {showPlugins(currentProviderName, currentModel) && (
+        {capabilities.tools && (
           <ChatAction
             onClick={() => {
               if (pluginStore.getAll().length == 0) {
@@ -784,6 +1073,18 @@ export function ChatActions(props: {
           />
         )}
 
+        {capabilities.tools &&
+          session.mask?.plugin?.includes(CODE_INTERPRETER_PLUGIN_ID) && (
+            <ChatAction
+              onClick={() => setShowSandboxFiles(true)}
+              text={Locale.Plugin.SandboxFiles.Title}
+              icon={<UploadIcon />}
+            />
+          )}
+        {showSandboxFiles && (
+          <SandboxFilesModal onClose={() => setShowSandboxFiles(false)} />
+        )}
+
         {!isMobileScreen && (
           <ChatAction
             onClick={() => props.setShowShortcutKeyModal(true)}
@@ -830,10 +1131,7 @@ export function EditMessageModal(props: { onClose: () => void }) {
             icon={<ConfirmIcon />}
             key="ok"
             onClick={() => {
-              chatStore.updateTargetSession(
-                session,
-                (session) => (session.messages = messages),
-              );
+              chatStore.commitBranch(session, messages);
               props.onClose();
             }}
           />,
@@ -1114,6 +1412,15 @@ function _Chat() {
             });
           }
         }
+
+        // approvals nobody waits for anymore, e.g. after a reload
+        m.tools?.forEach((tool) => {
+          if (tool.approval === "pending" && !ToolApprovalPool.has(tool.id)) {
+            tool.approval = "rejected";
+            tool.isError = true;
+            tool.errorMsg = Locale.Chat.ToolApproval.Interrupted;
+          }
+        });
       });
 
       // auto sync mask config from global config
@@ -1153,24 +1460,15 @@ function _Chat() {
     }
   };
 
-  const deleteMessage = (msgId?: string) => {
-    chatStore.updateTargetSession(
-      session,
-      (session) =>
-        (session.messages = session.messages.filter((m) => m.id !== msgId)),
-    );
-  };
-
   const onDelete = (msgId: string) => {
-    deleteMessage(msgId);
+    chatStore.deleteMessage(session, msgId);
   };
 
   const onResend = (message: ChatMessage) => {
     // when it is resending a message
-    // 1. for a user's message, find the next bot response
+    // 1. for a user's message, regenerate its response
     // 2. for a bot's message, find the last user's input
-    // 3. delete original user input and bot's message
-    // 4. resend the user's input
+    // 3. the original response is kept as a sibling branch
 
     const resendingIndex = session.messages.findIndex(
       (m) => m.id === message.id,
@@ -1182,11 +1480,9 @@ function _Chat() {
     }
 
     let userMessage: ChatMessage | undefined;
-    let botMessage: ChatMessage | undefined;
 
     if (message.role === "assistant") {
       // if it is resending a bot's message, find the user input for it
-      botMessage = message;
       for (let i = resendingIndex; i >= 0; i -= 1) {
         if (session.messages[i].role === "user") {
           userMessage = session.messages[i];
@@ -1194,14 +1490,7 @@ function _Chat() {
         }
       }
     } else if (message.role === "user") {
-      // if it is resending a user's input, find the bot's response
       userMessage = message;
-      for (let i = resendingIndex; i < session.messages.length; i += 1) {
-        if (session.messages[i].role === "assistant") {
-          botMessage = session.messages[i];
-          break;
-        }
-      }
     }
 
     if (userMessage === undefined) {
@@ -1209,15 +1498,9 @@ function _Chat() {
       return;
     }
 
-    // delete the original messages
-    deleteMessage(userMessage.id);
-    deleteMessage(botMessage?.id);
-
-    // resend the message
+    // regenerate the response
     setIsLoading(true);
-    const textContent = getMessageTextContent(userMessage);
-    const images = getMessageImages(userMessage);
-    chatStore.onUserInput(textContent, images).then(() => setIsLoading(false));
+    chatStore.onRegenerate(userMessage).then(() => setIsLoading(false));
     inputRef.current?.focus();
   };
 
@@ -1333,6 +1616,19 @@ function _Chat() {
     userInput,
   ]);
 
+  const artifactVersions = useArtifactVersions(session);
+  const [workspaceMessageId, setWorkspaceMessageId] = useState<string>();
+  const workspaceVersion = artifactVersions.find(
+    (v) => v.messageId === workspaceMessageId,
+  );
+
+  // messages that share a parent are the branches of a message
+  const siblingMap = useMemo(
+    () => getSiblingMap(session),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [session.messages, session.branches],
+  );
+
   const [msgRenderIndex, _setMsgRenderIndex] = useState(
     Math.max(0, renderMessages.length - CHAT_PAGE_SIZE),
   );
@@ -1376,6 +1672,24 @@ function _Chat() {
     scrollDomToBottom();
   }
 
+  // jump to the message opened from the search page
+  const { state: locationState } = useLocation();
+  useEffect(() => {
+    const messageId = (locationState as { messageId?: string } | null)
+      ?.messageId;
+    const index = renderMessages.findIndex((m) => m.id === messageId);
+    if (index < 0) return;
+
+    setAutoScroll(false);
+    setMsgRenderIndex(index - Math.floor(CHAT_PAGE_SIZE / 2));
+    setTimeout(() => {
+      document
+        .getElementById(`chat-message-${messageId}`)
+        ?.scrollIntoView({ block: "center" });
+    }, 100);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // clear context index = context length + index in messages
   const clearContextIndex =
     (session.clearContextIndex ?? -1) >= 0
@@ -1459,8 +1773,9 @@ function _Chat() {
 
   const handlePaste = useCallback(
     async (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
-      const currentModel = chatStore.currentSession().mask.modelConfig.model;
-      if (!isVisionModel(currentModel)) {
+      const { model, providerName } =
+        chatStore.currentSession().mask.modelConfig;
+      if (!getModelCapabilities(model, providerName).vision) {
         return;
       }
       const items = (event.clipboardData || window.clipboardData).items;
@@ -1612,7 +1927,7 @@ function _Chat() {
   const [showChatSidePanel, setShowChatSidePanel] = useState(false);
 
   return (
-    <>
+    <ArtifactVersionsContext.Provider value={artifactVersions}>
       <div className={styles.chat} key={session.id}>
         <div className="window-header" data-tauri-drag-region>
           {isMobileScreen && (
@@ -1642,6 +1957,8 @@ function _Chat() {
             </div>
             <div className="window-header-sub-title">
               {Locale.Chat.SubTitle(session.messages.length)}
+              {session.stat.tokenCount > 0 &&
+                ` · ${Locale.Chat.TokenCount(session.stat.tokenCount)}`}
             </div>
           </div>
           <div className="window-actions">
@@ -1724,9 +2041,15 @@ function _Chat() {
                 const shouldShowClearContextDivider =
                   i === clearContextIndex - 1;
 
+                const siblings = siblingMap.get(message.parentId) ?? [];
+                const branchIndex = siblings.findIndex(
+                  (m) => m.id === message.id,
+                );
+
                 return (
                   <Fragment key={message.id}>
                     <div
+                      id={`chat-message-${message.id}`}
                       className={
                         isUser
                           ? styles["chat-message-user"]
@@ -1762,16 +2085,32 @@ function _Chat() {
                                       });
                                     }
                                   }
-                                  chatStore.updateTargetSession(
+                                  const isContextPrompt =
+                                    session.mask.context.some(
+                                      (m) => m.id === message.id,
+                                    );
+                                  if (isContextPrompt) {
+                                    chatStore.updateTargetSession(
+                                      session,
+                                      (session) => {
+                                        const m = session.mask.context.find(
+                                          (m) => m.id === message.id,
+                                        );
+                                        if (m) {
+                                          m.content = newContent;
+                                        }
+                                      },
+                                    );
+                                    return;
+                                  }
+                                  // edited messages are saved as a new branch
+                                  chatStore.commitBranch(
                                     session,
-                                    (session) => {
-                                      const m = session.mask.context
-                                        .concat(session.messages)
-                                        .find((m) => m.id === message.id);
-                                      if (m) {
-                                        m.content = newContent;
-                                      }
-                                    },
+                                    session.messages.map((m) =>
+                                      m.id === message.id
+                                        ? { ...m, content: newContent }
+                                        : m,
+                                    ),
                                   );
                                 }}
                               ></IconButton>
@@ -1837,6 +2176,17 @@ function _Chat() {
                                         )
                                       }
                                     />
+                                    {artifactVersions.some(
+                                      (v) => v.messageId === message.id,
+                                    ) && (
+                                      <ChatAction
+                                        text={Locale.Chat.Actions.Workspace}
+                                        icon={<WorkspaceIcon />}
+                                        onClick={() =>
+                                          setWorkspaceMessageId(message.id)
+                                        }
+                                      />
+                                    )}
                                     {config.ttsConfig.enable && (
                                       <ChatAction
                                         text={
@@ -1871,24 +2221,7 @@ function _Chat() {
                         )}
                         {/*@ts-ignore*/}
                         {message?.tools?.length > 0 && (
-                          <div className={styles["chat-message-tools"]}>
-                            {message?.tools?.map((tool) => (
-                              <div
-                                key={tool.id}
-                                title={tool?.errorMsg}
-                                className={styles["chat-message-tool"]}
-                              >
-                                {tool.isError === false ? (
-                                  <ConfirmIcon />
-                                ) : tool.isError === true ? (
-                                  <CloseIcon />
-                                ) : (
-                                  <LoadingButtonIcon />
-                                )}
-                                <span>{tool?.function?.name}</span>
-                              </div>
-                            ))}
-                          </div>
+                          <ToolTimeline tools={message.tools!} />
                         )}
                         <div className={styles["chat-message-item"]}>
                           <Markdown
@@ -1947,6 +2280,18 @@ function _Chat() {
                           </div>
                         )}
 
+                        {!message.preview &&
+                          branchIndex >= 0 &&
+                          siblings.length > 1 && (
+                            <MessageBranchSwitch
+                              siblings={siblings}
+                              index={branchIndex}
+                              onSwitch={(m) =>
+                                chatStore.switchBranch(session, m.id)
+                              }
+                            />
+                          )}
+
                         <div className={styles["chat-message-action-date"]}>
                           {isContext
                             ? Locale.Chat.IsContext
@@ -2069,6 +2414,17 @@ function _Chat() {
         <ExportMessageModal onClose={() => setShowExport(false)} />
       )}
 
+      {workspaceVersion && (
+        <ArtifactWorkspace
+          versions={getProjectVersions(
+            artifactVersions,
+            workspaceVersion.projectId,
+          )}
+          messageId={workspaceVersion.messageId}
+          onClose={() => setWorkspaceMessageId(undefined)}
+        />
+      )}
+
       {isEditingMessage && (
         <EditMessageModal
           onClose={() => {
@@ -2080,7 +2436,7 @@ function _Chat() {
       {showShortcutKeyModal && (
         <ShortcutKeyModal onClose={() => setShowShortcutKeyModal(false)} />
       )}
-    </>
+    </ArtifactVersionsContext.Provider>
   );
 }
 
@@ -0,0 +1,77 @@
+import UploadIcon from "../icons/upload.svg";
+import CloseIcon from "../icons/close.svg";
+
+import { IconButton } from "./button";
+import { List, ListItem, Modal, showToast } from "./ui-lib";
+import Locale from "../locales";
+import { useSandboxFileStore } from "../utils/code-interpreter";
+import { SANDBOX_DATA_DIR } from "../utils/code-interpreter/sandbox";
+
+function formatSize(size: number) {
+  return size < 1024 * 1024
+    ? `${Math.ceil(size / 1024)} KB`
+    : `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function pickFiles() {
+  return new Promise<File[]>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.multiple = true;
+    input.onchange = () => resolve(Array.from(input.files ?? []));
+    input.click();
+  });
+}
+
+// the files the code interpreter can read
+export function SandboxFilesList() {
+  const SandboxFiles = Locale.Plugin.SandboxFiles;
+  const fileStore = useSandboxFileStore();
+
+  const upload = async () => {
+    const tooLarge = await fileStore.add(await pickFiles());
+    if (tooLarge.length > 0) {
+      showToast(SandboxFiles.TooLarge(tooLarge.join(", ")));
+    }
+  };
+
+  return (
+    <List>
+      <ListItem
+        title={SandboxFiles.Title}
+        subTitle={SandboxFiles.SubTitle(SANDBOX_DATA_DIR)}
+      >
+        <IconButton
+          icon={<UploadIcon />}
+          text={SandboxFiles.Upload}
+          bordered
+          onClick={upload}
+        />
+      </ListItem>
+      {fileStore.files.length === 0 && <ListItem title={SandboxFiles.Empty} />}
+      {fileStore.files.map((file) => (
+        <ListItem
+          key={file.name}
+          title={file.name}
+          subTitle={formatSize(file.data.length)}
+        >
+          <IconButton
+            icon={<CloseIcon />}
+            title={SandboxFiles.Remove}
+            onClick={() => fileStore.remove(file.name)}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+}
+
+export function SandboxFilesModal(props: { onClose: () => void }) {
+  return (
+    <div className="modal-mask">
+      <Modal title={Locale.Plugin.SandboxFiles.Title} onClose={props.onClose}>
+        <SandboxFilesList />
+      </Modal>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 /* eslint-disable @next/next/no-img-element */
-import { ChatMessage, useAppConfig, useChatStore } from "../store";
-import Locale from "../locales";
+import {
+  ChatMessage,
+  getSessionContext,
+  useAppConfig,
+  useChatStore,
+} from "../store";
+import Locale, { getLang } from "../locales";
 import styles from "./exporter.module.scss";
 import {
   List,
@@ -40,7 +45,17 @@ import { EXPORT_MESSAGE_CLASS_NAME } from "../constant";
 import { getClientConfig } from "../config/client";
 import { type ClientApi, getClientApi } from "../client/api";
 import { getMessageTextContent } from "../utils";
+import {
+  ExportMessage,
+  getExportFileName,
+  getExportMeta,
+  getHtmlClassNames,
+  isStyleRuleUsed,
+  toHtmlDocument,
+  toMarkdownDocument,
+} from "../utils/chat-export";
 import clsx from "clsx";
+import { ShareLinkPreviewer } from "./share";
 
 const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
   loading: () => <LoadingIcon />,
@@ -151,7 +166,15 @@ export function MessageExporter() {
   ];
   const { currentStep, setCurrentStepIndex, currentStepIndex } =
     useSteps(steps);
-  const formats = ["text", "image", "json"] as const;
+  const formats = [
+    "text",
+    "markdown",
+    "html",
+    "pdf",
+    "image",
+    "json",
+    "link",
+  ] as const;
   type ExportFormat = (typeof formats)[number];
 
   const [exportConfig, setExportConfig] = useState({
@@ -171,21 +194,30 @@ export function MessageExporter() {
   const selectedMessages = useMemo(() => {
     const ret: ChatMessage[] = [];
     if (exportConfig.includeContext) {
-      ret.push(...session.mask.context);
+      ret.push(...getSessionContext(session));
     }
     ret.push(...session.messages.filter((m) => selection.has(m.id)));
     return ret;
-  }, [
-    exportConfig.includeContext,
-    session.messages,
-    session.mask.context,
-    selection,
-  ]);
+  }, [exportConfig.includeContext, session, selection]);
   function preview() {
     if (exportConfig.format === "text") {
       return (
         <MarkdownPreviewer messages={selectedMessages} topic={session.topic} />
       );
+    } else if (exportConfig.format === "markdown") {
+      return <MarkdownFilePreviewer messages={selectedMessages} />;
+    } else if (
+      exportConfig.format === "html" ||
+      exportConfig.format === "pdf"
+    ) {
+      return (
+        <DocumentPreviewer
+          messages={selectedMessages}
+          format={exportConfig.format}
+        />
+      );
+    } else if (exportConfig.format === "link") {
+      return <ShareLinkPreviewer messages={selectedMessages} />;
     } else if (exportConfig.format === "json") {
       return (
         <JsonPreviewer messages={selectedMessages} topic={session.topic} />
@@ -701,3 +733,211 @@ export function JsonPreviewer(props: {
     </>
   );
 }
+
+function toExportMessages(messages: ChatMessage[]): ExportMessage[] {
+  return messages.map((m) => ({
+    role: m.role,
+    text: getMessageTextContent(m),
+    images: getMessageImages(m),
+    date: m.date,
+  }));
+}
+
+function useExportMeta(messages: ChatMessage[]) {
+  const session = useChatStore().currentSession();
+  return useMemo(
+    () => getExportMeta(session, toExportMessages(messages)),
+    [session, messages],
+  );
+}
+
+export function MarkdownFilePreviewer(props: { messages: ChatMessage[] }) {
+  const meta = useExportMeta(props.messages);
+  const mdText = toMarkdownDocument(meta, toExportMessages(props.messages), {
+    user: Locale.Export.Role.User,
+    assistant: Locale.Export.Role.Assistant,
+  });
+
+  return (
+    <>
+      <PreviewActions
+        copy={() => copyToClipboard(mdText)}
+        download={() => downloadAs(mdText, getExportFileName(meta.topic, "md"))}
+        showCopy={true}
+        messages={props.messages}
+      />
+      <div className="markdown-body">
+        <pre className={styles["export-content"]}>{mdText}</pre>
+      </div>
+    </>
+  );
+}
+
+function readAsDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// the KaTeX fonts are inlined so the formulas render offline
+async function inlineFontFace(rule: CSSFontFaceRule) {
+  const match = rule.cssText.match(/url\(["']?([^"')]+\.woff2)["']?\)/);
+  if (!match) return rule.cssText;
+  try {
+    const res = await fetch(new URL(match[1], document.baseURI));
+    const dataUrl = await readAsDataUrl(await res.blob());
+    return rule.cssText.replace(
+      /src:[^;]+;/,
+      `src: url(${dataUrl}) format("woff2");`,
+    );
+  } catch (e) {
+    console.error("[Export] failed to inline font", e);
+    return rule.cssText;
+  }
+}
+
+/**
+ * The style rules of the page that apply to the exported html, the stylesheets
+ * of other origins are not readable and skipped.
+ */
+async function collectExportStyles(html: string) {
+  const classNames = getHtmlClassNames(html);
+  const usesKatex = classNames.has("katex");
+
+  const collect = async (rules: CSSRuleList): Promise<string[]> => {
+    const texts: string[] = [];
+    for (const rule of Array.from(rules)) {
+      if (rule instanceof CSSStyleRule) {
+        if (isStyleRuleUsed(rule.selectorText, classNames)) {
+          texts.push(rule.cssText);
+        }
+      } else if (rule instanceof CSSMediaRule) {
+        const inner = await collect(rule.cssRules);
+        if (inner.length > 0) {
+          texts.push(`@media ${rule.conditionText} {\n${inner.join("\n")}\n}`);
+        }
+      } else if (
+        rule instanceof CSSFontFaceRule &&
+        usesKatex &&
+        rule.style.getPropertyValue("font-family").includes("KaTeX")
+      ) {
+        texts.push(await inlineFontFace(rule));
+      }
+    }
+    return texts;
+  };
+
+  const texts: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      texts.push(...(await collect(sheet.cssRules)));
+    } catch (e) {
+      console.log("[Export] skip stylesheet", sheet.href);
+    }
+  }
+  return texts.join("\n");
+}
+
+// prints the document from a hidden frame, the browser saves it as a pdf
+function printDocument(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.right = "200vw";
+  frame.style.width = "210mm";
+  frame.style.height = "297mm";
+  frame.style.border = "0";
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener("afterprint", () => frame.remove());
+    // let the fonts load before the pages are laid out
+    frameWindow.document.fonts.ready.then(() => {
+      frameWindow.focus();
+      frameWindow.print();
+    });
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+export function DocumentPreviewer(props: {
+  messages: ChatMessage[];
+  format: "html" | "pdf";
+}) {
+  const config = useAppConfig();
+  const meta = useExportMeta(props.messages);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const toHtml = async () => {
+    const body = previewRef.current?.outerHTML ?? "";
+    return toHtmlDocument({
+      meta,
+      lang: getLang(),
+      css: await collectExportStyles(body),
+      body,
+    });
+  };
+
+  const download = async () => {
+    showToast(Locale.Export.Document.Toast);
+    try {
+      const html = await toHtml();
+      if (props.format === "pdf") {
+        showToast(Locale.Export.Document.Print);
+        printDocument(html);
+      } else {
+        await downloadAs(html, getExportFileName(meta.topic, "html"));
+      }
+    } catch (e) {
+      console.error("[Export]", e);
+      showToast(Locale.Download.Failed);
+    }
+  };
+
+  return (
+    <>
+      <PreviewActions
+        copy={() => {}}
+        download={download}
+        showCopy={false}
+        messages={props.messages}
+      />
+      <div className={styles["document"]} ref={previewRef}>
+        <div className={styles["document-title"]}>{meta.topic}</div>
+        <div className={styles["document-meta"]}>
+          {Locale.Exporter.Model}: {meta.model} · {Locale.Exporter.Messages}:{" "}
+          {props.messages.length} · {Locale.Exporter.Time}:{" "}
+          {new Date(meta.date).toLocaleString()}
+        </div>
+        {props.messages.map((m, i) => (
+          <div className={styles["document-message"]} key={i}>
+            <div className={styles["document-role"]}>
+              {m.role === "user"
+                ? Locale.Export.Role.User
+                : m.role === "system"
+                ? m.role
+                : meta.mask || Locale.Export.Role.Assistant}
+            </div>
+            <Markdown
+              content={getMessageTextContent(m)}
+              fontSize={config.fontSize}
+              fontFamily={config.fontFamily}
+              defaultShow
+            />
+            {getMessageImages(m).map((src, j) => (
+              <img
+                key={j}
+                src={src}
+                alt="message"
+                className={styles["document-image"]}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
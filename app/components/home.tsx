@@ -29,6 +29,7 @@ import { getClientConfig } from "../config/client";
 import { type ClientApi, getClientApi } from "../client/api";
 import { useAccessStore } from "../store";
 import clsx from "clsx";
+import { useAutoSync } from "../utils/hooks";
 
 export function Loading(props: { noLogo?: boolean }) {
   return (
@@ -43,6 +44,13 @@ const Artifacts = dynamic(async () => (await import("./artifacts")).Artifacts, {
   loading: () => <Loading noLogo />,
 });
 
+const SharedChatPage = dynamic(
+  async () => (await import("./share")).SharedChatPage,
+  {
+    loading: () => <Loading noLogo />,
+  },
+);
+
 const Settings = dynamic(async () => (await import("./settings")).Settings, {
   loading: () => <Loading noLogo />,
 });
@@ -70,6 +78,10 @@ const SearchChat = dynamic(
   },
 );
 
+const AdminPage = dynamic(async () => (await import("./admin")).AdminPage, {
+  loading: () => <Loading noLogo />,
+});
+
 const Sd = dynamic(async () => (await import("./sd")).Sd, {
   loading: () => <Loading noLogo />,
 });
@@ -153,6 +165,7 @@ function Screen() {
   const config = useAppConfig();
   const location = useLocation();
   const isArtifact = location.pathname.includes(Path.Artifacts);
+  const isShare = location.pathname.startsWith(Path.Share + "/");
   const isHome = location.pathname === Path.Home;
   const isAuth = location.pathname === Path.Auth;
   const isSd = location.pathname === Path.Sd;
@@ -173,6 +186,13 @@ function Screen() {
       </Routes>
     );
   }
+  if (isShare) {
+    return (
+      <Routes>
+        <Route path={`${Path.Share}/:id`} element={<SharedChatPage />} />
+      </Routes>
+    );
+  }
   const renderContent = () => {
     if (isAuth) return <AuthPage />;
     if (isSd) return <Sd />;
@@ -193,6 +213,7 @@ function Screen() {
             <Route path={Path.SearchChat} element={<SearchChat />} />
             <Route path={Path.Chat} element={<Chat />} />
             <Route path={Path.Settings} element={<Settings />} />
+            <Route path={Path.Admin} element={<AdminPage />} />
           </Routes>
         </WindowContent>
       </>
@@ -229,6 +250,7 @@ export function Home() {
   useSwitchTheme();
   useLoadData();
   useHtmlLang();
+  useAutoSync();
 
   useEffect(() => {
     console.log("[Config] got config from build time", getClientConfig());
@@ -5,12 +5,20 @@ import RemarkBreaks from "remark-breaks";
 import RehypeKatex from "rehype-katex";
 import RemarkGfm from "remark-gfm";
 import RehypeHighlight from "rehype-highlight";
-import { useRef, useState, RefObject, useEffect, useMemo } from "react";
+import {
+  useRef,
+  useState,
+  RefObject,
+  useEffect,
+  useMemo,
+  useContext,
+} from "react";
 import { copyToClipboard, useWindowSize } from "../utils";
 import mermaid from "mermaid";
 import Locale from "../locales";
 import LoadingIcon from "../icons/three-dots.svg";
 import ReloadButtonIcon from "../icons/reload.svg";
+import HistoryIcon from "../icons/history.svg";
 import React from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { showImageModal, FullScreen } from "./ui-lib";
@@ -19,6 +27,14 @@ import {
   HTMLPreview,
   HTMLPreviewHander,
 } from "./artifacts";
+import {
+  ArtifactHistoryModal,
+  ArtifactVersionsContext,
+} from "./artifact-workspace";
+import {
+  findArtifactFile,
+  getArtifactFileHistory,
+} from "../utils/artifact-workspace";
 import { useChatStore } from "../store";
 import { IconButton } from "./button";
 
@@ -103,6 +119,20 @@ export function PreCode(props: { children: any }) {
   const enableArtifacts =
     session.mask?.enableArtifacts !== false && config.enableArtifacts;
 
+  // the other versions of this page in the session
+  const artifactVersions = useContext(ArtifactVersionsContext);
+  const revisions = useMemo(() => {
+    const artifact = htmlCode && findArtifactFile(artifactVersions, htmlCode);
+    return artifact
+      ? getArtifactFileHistory(
+          artifactVersions,
+          artifact.projectId,
+          artifact.fileId,
+        )
+      : [];
+  }, [artifactVersions, htmlCode]);
+  const [showHistory, setShowHistory] = useState(false);
+
   //Wrap the paragraph for plain-text
   useEffect(() => {
     if (ref.current) {
@@ -161,6 +191,16 @@ export function PreCode(props: { children: any }) {
             shadow
             onClick={() => previewRef.current?.reload()}
           />
+          {revisions.length > 1 && (
+            <IconButton
+              style={{ position: "absolute", right: 170, top: 10 }}
+              bordered
+              icon={<HistoryIcon />}
+              title={Locale.Workspace.History}
+              shadow
+              onClick={() => setShowHistory(true)}
+            />
+          )}
           <HTMLPreview
             ref={previewRef}
             code={htmlCode}
@@ -169,6 +209,18 @@ export function PreCode(props: { children: any }) {
           />
         </FullScreen>
       )}
+      {showHistory && (
+        <ArtifactHistoryModal
+          revisions={revisions}
+          index={Math.max(
+            0,
+            revisions.findIndex(
+              (r) => r.file.content.trim() === htmlCode.trim(),
+            ),
+          )}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,235 @@
+import styles from "./mask.module.scss";
+
+import ReloadIcon from "../icons/reload.svg";
+import CloseIcon from "../icons/close.svg";
+import AddIcon from "../icons/add.svg";
+import DownloadIcon from "../icons/download.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+
+import { useState } from "react";
+import { IconButton } from "./button";
+import {
+  List,
+  ListItem,
+  Modal,
+  Select,
+  showConfirm,
+  showToast,
+} from "./ui-lib";
+import { MaskAvatar } from "./mask";
+import Locale from "../locales";
+import { DEFAULT_MASK_AVATAR, useMaskStore } from "../store/mask";
+import { useMaskCatalogStore } from "../store/mask-catalog";
+import { usePluginStore } from "../store/plugin";
+import { useAllModels } from "../utils/hooks";
+import {
+  findInstalledMask,
+  getMissingRequirements,
+  hasMaskUpdate,
+  MaskPackageItem,
+} from "../utils/mask-package";
+
+function matches(item: MaskPackageItem, text: string) {
+  const search = text.trim().toLowerCase();
+  return [item.name, item.description, item.author, ...(item.tags ?? [])].some(
+    (field) => field?.toLowerCase().includes(search),
+  );
+}
+
+export function MaskCatalogModal(props: { onClose: () => void }) {
+  const Catalog = Locale.Mask.Catalog;
+  const catalogStore = useMaskCatalogStore();
+  const maskStore = useMaskStore();
+  const pluginStore = usePluginStore();
+  const allModels = useAllModels();
+
+  const [url, setUrl] = useState("");
+  // the url of the catalog that is loading
+  const [loadingUrl, setLoadingUrl] = useState<string>();
+  const [searchText, setSearchText] = useState("");
+  const [tag, setTag] = useState("");
+
+  const installedMasks = Object.values(maskStore.masks);
+  const available = {
+    models: allModels.filter((m) => m.available).map((m) => m.name),
+    plugins: pluginStore.getAll().map((p) => p.id),
+  };
+  const items = catalogStore.catalogs.flatMap((catalog) =>
+    (catalog.package?.masks ?? []).map((item) => ({
+      item,
+      catalog: catalog.url,
+    })),
+  );
+  const tags = Array.from(
+    new Set(items.flatMap(({ item }) => item.tags ?? [])),
+  ).sort();
+  const shownItems = items.filter(
+    ({ item }) =>
+      (!tag || item.tags?.includes(tag)) &&
+      (!searchText || matches(item, searchText)),
+  );
+
+  const subscribe = () => {
+    setLoadingUrl(url);
+    catalogStore
+      .subscribe(url)
+      .then((catalog) => {
+        showToast(Catalog.Subscribed(catalog.package?.name ?? catalog.url));
+        setUrl("");
+      })
+      .catch((e) => showToast(Catalog.Error(e.message)))
+      .finally(() => setLoadingUrl(undefined));
+  };
+
+  const refresh = (url: string) => {
+    setLoadingUrl(url);
+    catalogStore
+      .refresh(url)
+      .then((catalog) => {
+        if (catalog.error) showToast(Catalog.Error(catalog.error));
+      })
+      .finally(() => setLoadingUrl(undefined));
+  };
+
+  const unsubscribe = async (url: string) => {
+    if (await showConfirm(Catalog.UnsubscribeConfirm)) {
+      catalogStore.unsubscribe(url);
+    }
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal title={Catalog.Title} onClose={props.onClose}>
+        <List>
+          <ListItem title={Catalog.Subscribe} subTitle={Catalog.SubTitle}>
+            <div className={styles["mask-catalog-subscribe"]}>
+              <input
+                type="text"
+                value={url}
+                placeholder={Catalog.Url}
+                onChange={(e) => setUrl(e.currentTarget.value)}
+              />
+              <IconButton
+                icon={<AddIcon />}
+                text={Catalog.Subscribe}
+                bordered
+                disabled={!url.trim() || !!loadingUrl}
+                onClick={subscribe}
+              />
+            </div>
+          </ListItem>
+          {catalogStore.catalogs.length === 0 && (
+            <ListItem title={Catalog.Empty} />
+          )}
+          {catalogStore.catalogs.map((catalog) => (
+            <ListItem
+              key={catalog.url}
+              title={catalog.package?.name ?? catalog.url}
+              subTitle={[
+                catalog.url,
+                catalog.package &&
+                  Catalog.Info(
+                    catalog.package.masks.length,
+                    new Date(catalog.fetchedAt).toLocaleString(),
+                  ),
+                catalog.invalid.length > 0 &&
+                  Catalog.Invalid(catalog.invalid.length),
+                catalog.error && Catalog.Error(catalog.error),
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            >
+              <div style={{ display: "flex" }}>
+                <IconButton
+                  icon={<ReloadIcon />}
+                  title={Catalog.Refresh}
+                  disabled={loadingUrl === catalog.url}
+                  onClick={() => refresh(catalog.url)}
+                />
+                <IconButton
+                  icon={<CloseIcon />}
+                  title={Catalog.Unsubscribe}
+                  onClick={() => unsubscribe(catalog.url)}
+                />
+              </div>
+            </ListItem>
+          ))}
+        </List>
+
+        {items.length > 0 && (
+          <div className={styles["mask-catalog-filter"]}>
+            <input
+              type="text"
+              className={styles["mask-catalog-search"]}
+              placeholder={Catalog.Search}
+              value={searchText}
+              onChange={(e) => setSearchText(e.currentTarget.value)}
+            />
+            <Select value={tag} onChange={(e) => setTag(e.currentTarget.value)}>
+              <option value="">{Catalog.AllTags}</option>
+              {tags.map((tag) => (
+                <option value={tag} key={tag}>
+                  {tag}
+                </option>
+              ))}
+            </Select>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <List>
+            {shownItems.length === 0 && <ListItem title={Catalog.NoMasks} />}
+            {shownItems.map(({ item, catalog }) => {
+              const installed = findInstalledMask(installedMasks, item);
+              const missing = getMissingRequirements(item, available);
+              return (
+                <ListItem
+                  key={`${catalog} ${item.id}`}
+                  icon={
+                    <MaskAvatar avatar={item.avatar ?? DEFAULT_MASK_AVATAR} />
+                  }
+                  title={`${item.name} v${item.version}`}
+                  subTitle={[
+                    item.description,
+                    item.author && Locale.Mask.Item.Author(item.author),
+                    item.tags?.map((t) => `#${t}`).join(" "),
+                    missing.models.length > 0 &&
+                      Catalog.Requires.Models(missing.models.join(", ")),
+                    missing.plugins.length > 0 &&
+                      Catalog.Requires.Plugins(missing.plugins.join(", ")),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                >
+                  {!installed ? (
+                    <IconButton
+                      icon={<DownloadIcon />}
+                      text={Catalog.Install}
+                      bordered
+                      onClick={() => maskStore.install(item, catalog)}
+                    />
+                  ) : hasMaskUpdate(installed, item) ? (
+                    <IconButton
+                      icon={<ReloadIcon />}
+                      text={Catalog.Update(item.version)}
+                      bordered
+                      onClick={() =>
+                        maskStore.upgrade(installed.id, item, catalog)
+                      }
+                    />
+                  ) : (
+                    <IconButton
+                      icon={<ConfirmIcon />}
+                      text={Catalog.Installed}
+                      disabled
+                    />
+                  )}
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </Modal>
+    </div>
+  );
+}
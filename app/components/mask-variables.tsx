@@ -0,0 +1,345 @@
+import styles from "./mask.module.scss";
+
+import AddIcon from "../icons/add.svg";
+import DeleteIcon from "../icons/delete.svg";
+import UploadIcon from "../icons/upload.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+
+import { useState } from "react";
+import { IconButton } from "./button";
+import { List, ListItem, Modal, Select } from "./ui-lib";
+import Locale from "../locales";
+import { Mask } from "../store/mask";
+import { Updater } from "../typing";
+import { getMessageTextContent } from "../utils";
+import {
+  getDefaultVariableValues,
+  getTemplateVariableNames,
+  getValidVariables,
+  MASK_VARIABLE_FILE_LIMIT,
+  MASK_VARIABLE_TYPES,
+  MaskVariable,
+  MaskVariableError,
+  MaskVariableType,
+  MaskVariableValues,
+  validateVariableValues,
+  VARIABLE_NAME_PATTERN,
+} from "../utils/mask-variables";
+
+function formatSize(size: number) {
+  return `${Math.ceil(size / 1024)} KB`;
+}
+
+function formatError(error: MaskVariableError) {
+  const Errors = Locale.Mask.Variables.Errors;
+  switch (error.type) {
+    case "range":
+      return Errors.range(error.min, error.max);
+    case "size":
+      return Errors.size(formatSize(MASK_VARIABLE_FILE_LIMIT));
+    default:
+      return Errors[error.type];
+  }
+}
+
+function pickFile() {
+  return new Promise<File | undefined>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.onchange = () => resolve(input.files?.[0]);
+    input.click();
+  });
+}
+
+// declares the variables of a mask in its config
+export function MaskVariablesEditor(props: {
+  mask: Mask;
+  updateMask: Updater<Mask>;
+}) {
+  const Variables = Locale.Mask.Variables;
+  const variables = props.mask.variables ?? [];
+  const usedNames = new Set(
+    props.mask.context.flatMap((m) =>
+      getTemplateVariableNames(getMessageTextContent(m)),
+    ),
+  );
+
+  const updateVariable = (
+    index: number,
+    updater: (variable: MaskVariable) => void,
+  ) =>
+    props.updateMask((mask) => {
+      mask.variables = variables.map((v, i) => {
+        if (i !== index) return v;
+        const variable = { ...v };
+        updater(variable);
+        return variable;
+      });
+    });
+
+  const addVariable = () =>
+    props.updateMask((mask) => {
+      mask.variables = [
+        ...variables,
+        { name: `var${variables.length + 1}`, type: "text" },
+      ];
+    });
+
+  const removeVariable = (index: number) =>
+    props.updateMask((mask) => {
+      mask.variables = variables.filter((_, i) => i !== index);
+    });
+
+  return (
+    <List>
+      <ListItem title={Variables.Title} subTitle={Variables.SubTitle}>
+        <IconButton
+          icon={<AddIcon />}
+          text={Variables.Add}
+          bordered
+          onClick={addVariable}
+        />
+      </ListItem>
+      {variables.map((variable, i) => (
+        <ListItem
+          key={i}
+          vertical
+          title={`{{${variable.name}}}`}
+          subTitle={
+            !VARIABLE_NAME_PATTERN.test(variable.name)
+              ? Variables.InvalidName
+              : !usedNames.has(variable.name)
+              ? Variables.Unused(variable.name)
+              : undefined
+          }
+        >
+          <div className={styles["mask-variable"]}>
+            <input
+              type="text"
+              aria-label={Variables.Name}
+              placeholder={Variables.Name}
+              value={variable.name}
+              onChange={(e) =>
+                updateVariable(i, (v) => (v.name = e.currentTarget.value))
+              }
+            />
+            <input
+              type="text"
+              aria-label={Variables.Label}
+              placeholder={Variables.Label}
+              value={variable.label ?? ""}
+              onChange={(e) =>
+                updateVariable(i, (v) => (v.label = e.currentTarget.value))
+              }
+            />
+            <Select
+              aria-label={Variables.Type}
+              value={variable.type}
+              onChange={(e) =>
+                updateVariable(i, (v) => {
+                  v.type = e.currentTarget.value as MaskVariableType;
+                  v.default = undefined;
+                })
+              }
+            >
+              {MASK_VARIABLE_TYPES.map((type) => (
+                <option value={type} key={type}>
+                  {Variables.Types[type]}
+                </option>
+              ))}
+            </Select>
+            {variable.type === "select" && (
+              <input
+                type="text"
+                aria-label={Variables.Options}
+                placeholder={Variables.Options}
+                defaultValue={variable.options?.join(", ")}
+                onBlur={(e) =>
+                  updateVariable(i, (v) => {
+                    v.options = e.currentTarget.value
+                      .split(/[,，]/)
+                      .map((o) => o.trim())
+                      .filter(Boolean);
+                  })
+                }
+              />
+            )}
+            {variable.type !== "file" && (
+              <input
+                type={variable.type === "number" ? "number" : "text"}
+                aria-label={Variables.Default}
+                placeholder={Variables.Default}
+                value={variable.default ?? ""}
+                onChange={(e) =>
+                  updateVariable(i, (v) => (v.default = e.currentTarget.value))
+                }
+              />
+            )}
+            <label>
+              <input
+                type="checkbox"
+                checked={!!variable.required}
+                onChange={(e) =>
+                  updateVariable(
+                    i,
+                    (v) => (v.required = e.currentTarget.checked),
+                  )
+                }
+              />
+              {Variables.Required}
+            </label>
+            <IconButton
+              icon={<DeleteIcon />}
+              title={Variables.Delete}
+              onClick={() => removeVariable(i)}
+            />
+          </div>
+        </ListItem>
+      ))}
+    </List>
+  );
+}
+
+// the inputs for the values of the variables
+export function MaskVariablesForm(props: {
+  variables: MaskVariable[];
+  values: MaskVariableValues;
+  onChange: (values: MaskVariableValues) => void;
+  errors?: Record<string, MaskVariableError>;
+}) {
+  const Form = Locale.Mask.Variables.Form;
+  // what was read for the file variables, or the error
+  const [files, setFiles] = useState<
+    Record<string, { loaded?: string; error?: MaskVariableError }>
+  >({});
+
+  const setValue = (name: string, value: string) =>
+    props.onChange({ ...props.values, [name]: value });
+
+  const uploadFile = async (name: string) => {
+    const file = await pickFile();
+    if (!file) return;
+    if (file.size > MASK_VARIABLE_FILE_LIMIT) {
+      setFiles((files) => ({ ...files, [name]: { error: { type: "size" } } }));
+      return;
+    }
+    const content = await file.text();
+    setFiles((files) => ({
+      ...files,
+      [name]: { loaded: Form.FileLoaded(file.name, formatSize(file.size)) },
+    }));
+    setValue(name, content);
+  };
+
+  return (
+    <List>
+      {props.variables.map((variable) => {
+        const value = props.values[variable.name] ?? "";
+        const file = files[variable.name];
+        const error = file?.error ?? props.errors?.[variable.name];
+        return (
+          <ListItem
+            key={variable.name}
+            title={`${variable.label || variable.name}${
+              variable.required ? " *" : ""
+            }`}
+            subTitle={
+              error ? (
+                <span className={styles["mask-variable-error"]}>
+                  {formatError(error)}
+                </span>
+              ) : file?.loaded ? (
+                file.loaded
+              ) : (
+                variable.description
+              )
+            }
+          >
+            {variable.type === "select" ? (
+              <Select
+                aria-label={variable.name}
+                value={value}
+                onChange={(e) => setValue(variable.name, e.currentTarget.value)}
+              >
+                {(variable.options ?? []).map((option) => (
+                  <option value={option} key={option}>
+                    {option}
+                  </option>
+                ))}
+              </Select>
+            ) : variable.type === "file" ? (
+              <IconButton
+                icon={<UploadIcon />}
+                text={Form.Upload}
+                bordered
+                onClick={() => uploadFile(variable.name)}
+              />
+            ) : (
+              <input
+                aria-label={variable.name}
+                type={variable.type === "number" ? "number" : "text"}
+                min={variable.min}
+                max={variable.max}
+                value={value}
+                onChange={(e) => setValue(variable.name, e.currentTarget.value)}
+              />
+            )}
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+}
+
+// asks for the values of the variables of a mask before a chat starts
+export function MaskVariablesModal(props: {
+  mask: Mask;
+  values?: MaskVariableValues;
+  confirmText?: string;
+  onConfirm: (values: MaskVariableValues) => void;
+  onClose: () => void;
+}) {
+  const variables = getValidVariables(props.mask.variables);
+  const [values, setValues] = useState<MaskVariableValues>(
+    () => props.values ?? getDefaultVariableValues(variables),
+  );
+  const [errors, setErrors] = useState<Record<string, MaskVariableError>>();
+
+  const confirm = () => {
+    const errors = validateVariableValues(variables, values);
+    if (Object.keys(errors).length > 0) {
+      setErrors(errors);
+      return;
+    }
+    props.onConfirm(values);
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Mask.Variables.Form.Title(props.mask.name)}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="confirm"
+            icon={<ConfirmIcon />}
+            text={props.confirmText ?? Locale.Mask.Variables.Form.Start}
+            type="primary"
+            onClick={confirm}
+          />,
+        ]}
+      >
+        <MaskVariablesForm
+          variables={variables}
+          values={values}
+          errors={errors}
+          onChange={(values) => {
+            setValues(values);
+            // show the errors as they are fixed once confirm was clicked
+            if (errors) setErrors(validateVariableValues(variables, values));
+          }}
+        />
+      </Modal>
+    </div>
+  );
+}
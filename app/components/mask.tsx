@@ -12,6 +12,8 @@ import DeleteIcon from "../icons/delete.svg";
 import EyeIcon from "../icons/eye.svg";
 import CopyIcon from "../icons/copy.svg";
 import DragIcon from "../icons/drag.svg";
+import ReloadIcon from "../icons/reload.svg";
+import DiscoveryIcon from "../icons/discovery.svg";
 
 import { DEFAULT_MASK_AVATAR, Mask, useMaskStore } from "../store/mask";
 import {
@@ -31,13 +33,14 @@ import {
   Popover,
   Select,
   showConfirm,
+  showToast,
 } from "./ui-lib";
 import { Avatar, AvatarPicker } from "./emoji";
 import Locale, { AllLangs, ALL_LANG_OPTIONS, Lang } from "../locales";
 import { useNavigate } from "react-router-dom";
 
 import chatStyle from "./chat.module.scss";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   copyToClipboard,
   downloadAs,
@@ -48,6 +51,15 @@ import { Updater } from "../typing";
 import { ModelConfigList } from "./model-config";
 import { FileName, Path } from "../constant";
 import { BUILTIN_MASK_STORE } from "../masks";
+import { useMaskCatalogStore } from "../store/mask-catalog";
+import {
+  createMaskPackage,
+  hasMaskUpdate,
+  parseMaskPackage,
+} from "../utils/mask-package";
+import { MaskCatalogModal } from "./mask-catalog";
+import { MaskVariablesEditor, MaskVariablesModal } from "./mask-variables";
+import { getValidVariables } from "../utils/mask-variables";
 import {
   DragDropContext,
   Droppable,
@@ -112,6 +124,8 @@ export function MaskConfig(props: {
         }}
       />
 
+      <MaskVariablesEditor mask={props.mask} updateMask={props.updateMask} />
+
       <List>
         <ListItem title={Locale.Mask.Config.Avatar}>
           <Popover
@@ -151,6 +165,48 @@ export function MaskConfig(props: {
             }
           ></input>
         </ListItem>
+        <ListItem title={Locale.Mask.Config.Description}>
+          <input
+            aria-label={Locale.Mask.Config.Description}
+            type="text"
+            value={props.mask.description ?? ""}
+            onInput={(e) =>
+              props.updateMask((mask) => {
+                mask.description = e.currentTarget.value;
+              })
+            }
+          ></input>
+        </ListItem>
+        <ListItem title={Locale.Mask.Config.Author}>
+          <input
+            aria-label={Locale.Mask.Config.Author}
+            type="text"
+            value={props.mask.author ?? ""}
+            onInput={(e) =>
+              props.updateMask((mask) => {
+                mask.author = e.currentTarget.value;
+              })
+            }
+          ></input>
+        </ListItem>
+        <ListItem
+          title={Locale.Mask.Config.Tags.Title}
+          subTitle={Locale.Mask.Config.Tags.SubTitle}
+        >
+          <input
+            aria-label={Locale.Mask.Config.Tags.Title}
+            type="text"
+            defaultValue={props.mask.tags?.join(", ")}
+            onBlur={(e) =>
+              props.updateMask((mask) => {
+                mask.tags = e.currentTarget.value
+                  .split(/[,，]/)
+                  .map((tag) => tag.trim())
+                  .filter(Boolean);
+              })
+            }
+          ></input>
+        </ListItem>
         <ListItem
           title={Locale.Mask.Config.HideContext.Title}
           subTitle={Locale.Mask.Config.HideContext.SubTitle}
@@ -469,31 +525,65 @@ export function MaskPage() {
   };
 
   const [editingMaskId, setEditingMaskId] = useState<string | undefined>();
+  // the mask whose variables are asked for before its chat starts
+  const [startingMask, setStartingMask] = useState<Mask>();
+  const startChat = (mask: Mask) => {
+    if (getValidVariables(mask.variables).length > 0) {
+      setStartingMask(mask);
+      return;
+    }
+    chatStore.newSession(mask);
+    navigate(Path.Chat);
+  };
   const editingMask =
     maskStore.get(editingMaskId) ?? BUILTIN_MASK_STORE.get(editingMaskId);
   const closeMaskModal = () => setEditingMaskId(undefined);
 
+  const catalogStore = useMaskCatalogStore();
+  const [showCatalogs, setShowCatalogs] = useState(false);
+  useEffect(() => {
+    catalogStore.refreshStale();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  // the newer version a catalog has of an installed mask
+  const getUpdate = (mask: Mask) =>
+    catalogStore.catalogs
+      .filter((c) => !mask.source?.catalog || c.url === mask.source.catalog)
+      .flatMap((c) => c.package?.masks ?? [])
+      .find((item) => item.id === mask.source?.id && hasMaskUpdate(mask, item));
+
   const downloadAll = () => {
-    downloadAs(JSON.stringify(masks.filter((v) => !v.builtin)), FileName.Masks);
+    downloadAs(
+      JSON.stringify(
+        createMaskPackage(masks.filter((v) => !v.builtin)),
+        null,
+        2,
+      ),
+      FileName.Masks,
+    );
   };
 
+  // a mask package, or the masks exported by older versions
   const importFromFile = () => {
     readFromFile().then((content) => {
       try {
-        const importMasks = JSON.parse(content);
-        if (Array.isArray(importMasks)) {
-          for (const mask of importMasks) {
-            if (mask.name) {
-              maskStore.create(mask);
-            }
-          }
-          return;
-        }
-        //if the content is a single mask.
-        if (importMasks.name) {
-          maskStore.create(importMasks);
+        const { package: pkg, errors } = parseMaskPackage(content);
+        const result = maskStore.importPackage(pkg);
+        showToast(
+          Locale.Mask.Page.Imported(
+            result.added,
+            result.updated,
+            result.skipped,
+          ),
+        );
+        if (errors.length > 0) {
+          console.warn("[Mask] invalid masks", errors);
+          showToast(Locale.Mask.Page.Invalid(errors));
         }
-      } catch {}
+      } catch (e) {
+        console.error("[Mask] failed to import", e);
+        showToast(Locale.Mask.Page.ImportFailed((e as Error).message));
+      }
     });
   };
 
@@ -511,6 +601,14 @@ export function MaskPage() {
           </div>
 
           <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<DiscoveryIcon />}
+                bordered
+                onClick={() => setShowCatalogs(true)}
+                text={Locale.Mask.Page.Catalogs}
+              />
+            </div>
             <div className="window-action-button">
               <IconButton
                 icon={<DownloadIcon />}
@@ -581,61 +679,94 @@ export function MaskPage() {
           </div>
 
           <div>
-            {masks.map((m) => (
-              <div className={styles["mask-item"]} key={m.id}>
-                <div className={styles["mask-header"]}>
-                  <div className={styles["mask-icon"]}>
-                    <MaskAvatar avatar={m.avatar} model={m.modelConfig.model} />
-                  </div>
-                  <div className={styles["mask-title"]}>
-                    <div className={styles["mask-name"]}>{m.name}</div>
-                    <div className={clsx(styles["mask-info"], "one-line")}>
-                      {`${Locale.Mask.Item.Info(m.context.length)} / ${
-                        ALL_LANG_OPTIONS[m.lang]
-                      } / ${m.modelConfig.model}`}
+            {masks.map((m) => {
+              const update = getUpdate(m);
+              return (
+                <div className={styles["mask-item"]} key={m.id}>
+                  <div className={styles["mask-header"]}>
+                    <div className={styles["mask-icon"]}>
+                      <MaskAvatar
+                        avatar={m.avatar}
+                        model={m.modelConfig.model}
+                      />
+                    </div>
+                    <div className={styles["mask-title"]}>
+                      <div className={styles["mask-name"]}>{m.name}</div>
+                      <div className={clsx(styles["mask-info"], "one-line")}>
+                        {[
+                          Locale.Mask.Item.Info(m.context.length),
+                          ALL_LANG_OPTIONS[m.lang],
+                          m.modelConfig.model,
+                          m.author && Locale.Mask.Item.Author(m.author),
+                          m.tags?.map((tag) => `#${tag}`).join(" "),
+                        ]
+                          .filter(Boolean)
+                          .join(" / ")}
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className={styles["mask-actions"]}>
-                  <IconButton
-                    icon={<AddIcon />}
-                    text={Locale.Mask.Item.Chat}
-                    onClick={() => {
-                      chatStore.newSession(m);
-                      navigate(Path.Chat);
-                    }}
-                  />
-                  {m.builtin ? (
-                    <IconButton
-                      icon={<EyeIcon />}
-                      text={Locale.Mask.Item.View}
-                      onClick={() => setEditingMaskId(m.id)}
-                    />
-                  ) : (
-                    <IconButton
-                      icon={<EditIcon />}
-                      text={Locale.Mask.Item.Edit}
-                      onClick={() => setEditingMaskId(m.id)}
-                    />
-                  )}
-                  {!m.builtin && (
+                  <div className={styles["mask-actions"]}>
+                    {update && (
+                      <IconButton
+                        icon={<ReloadIcon />}
+                        text={Locale.Mask.Item.Update(update.version)}
+                        onClick={() => maskStore.upgrade(m.id, update)}
+                      />
+                    )}
                     <IconButton
-                      icon={<DeleteIcon />}
-                      text={Locale.Mask.Item.Delete}
-                      onClick={async () => {
-                        if (await showConfirm(Locale.Mask.Item.DeleteConfirm)) {
-                          maskStore.delete(m.id);
-                        }
-                      }}
+                      icon={<AddIcon />}
+                      text={Locale.Mask.Item.Chat}
+                      onClick={() => startChat(m)}
                     />
-                  )}
+                    {m.builtin ? (
+                      <IconButton
+                        icon={<EyeIcon />}
+                        text={Locale.Mask.Item.View}
+                        onClick={() => setEditingMaskId(m.id)}
+                      />
+                    ) : (
+                      <IconButton
+                        icon={<EditIcon />}
+                        text={Locale.Mask.Item.Edit}
+                        onClick={() => setEditingMaskId(m.id)}
+                      />
+                    )}
+                    {!m.builtin && (
+                      <IconButton
+                        icon={<DeleteIcon />}
+                        text={Locale.Mask.Item.Delete}
+                        onClick={async () => {
+                          if (
+                            await showConfirm(Locale.Mask.Item.DeleteConfirm)
+                          ) {
+                            maskStore.delete(m.id);
+                          }
+                        }}
+                      />
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
 
+      {startingMask && (
+        <MaskVariablesModal
+          mask={startingMask}
+          onClose={() => setStartingMask(undefined)}
+          onConfirm={(values) => {
+            chatStore.newSession(startingMask, values);
+            navigate(Path.Chat);
+          }}
+        />
+      )}
+
+      {showCatalogs && (
+        <MaskCatalogModal onClose={() => setShowCatalogs(false)} />
+      )}
+
       {editingMask && (
         <div className="modal-mask">
           <Modal
@@ -649,7 +780,7 @@ export function MaskPage() {
                 bordered
                 onClick={() =>
                   downloadAs(
-                    JSON.stringify(editingMask),
+                    JSON.stringify(createMaskPackage([editingMask]), null, 2),
                     `${editingMask.name}.json`,
                   )
                 }
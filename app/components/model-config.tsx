@@ -268,6 +268,62 @@ export function ModelConfigList(props: {
             ))}
         </Select>
       </ListItem>
+      <ListItem
+        title={Locale.Settings.MaxToolSteps.Title}
+        subTitle={Locale.Settings.MaxToolSteps.SubTitle}
+      >
+        <InputRange
+          aria={Locale.Settings.MaxToolSteps.Title}
+          title={(props.modelConfig.maxToolSteps ?? "").toString()}
+          value={props.modelConfig.maxToolSteps}
+          min="1"
+          max="50"
+          step="1"
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.maxToolSteps = ModalConfigValidator.maxToolSteps(
+                  e.currentTarget.valueAsNumber,
+                )),
+            )
+          }
+        ></InputRange>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.ToolTimeout.Title}
+        subTitle={Locale.Settings.ToolTimeout.SubTitle}
+      >
+        <input
+          aria-label={Locale.Settings.ToolTimeout.Title}
+          type="number"
+          min={1}
+          max={600}
+          value={props.modelConfig.toolTimeout}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.toolTimeout = ModalConfigValidator.toolTimeout(
+                  e.currentTarget.valueAsNumber,
+                )),
+            )
+          }
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.ParallelToolCalls.Title}
+        subTitle={Locale.Settings.ParallelToolCalls.SubTitle}
+      >
+        <input
+          aria-label={Locale.Settings.ParallelToolCalls.Title}
+          type="checkbox"
+          checked={props.modelConfig.parallelToolCalls}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) => (config.parallelToolCalls = e.currentTarget.checked),
+            )
+          }
+        ></input>
+      </ListItem>
     </>
   );
 }
@@ -16,6 +16,8 @@ import { MaskAvatar } from "./mask";
 import { useCommand } from "../command";
 import { showConfirm } from "./ui-lib";
 import { BUILTIN_MASK_STORE } from "../masks";
+import { MaskVariablesModal } from "./mask-variables";
+import { getValidVariables, MaskVariableValues } from "../utils/mask-variables";
 import clsx from "clsx";
 
 function MaskItem(props: { mask: Mask; onClick?: () => void }) {
@@ -88,9 +90,16 @@ export function NewChat() {
 
   const { state } = useLocation();
 
-  const startChat = (mask?: Mask) => {
+  // the mask whose variables are asked for before its chat starts
+  const [startingMask, setStartingMask] = useState<Mask>();
+
+  const startChat = (mask?: Mask, variables?: MaskVariableValues) => {
+    if (mask && getValidVariables(mask.variables).length > 0 && !variables) {
+      setStartingMask(mask);
+      return;
+    }
     setTimeout(() => {
-      chatStore.newSession(mask);
+      chatStore.newSession(mask, variables);
       navigate(Path.Chat);
     }, 10);
   };
@@ -182,6 +191,14 @@ export function NewChat() {
           </div>
         ))}
       </div>
+
+      {startingMask && (
+        <MaskVariablesModal
+          mask={startingMask}
+          onClose={() => setStartingMask(undefined)}
+          onConfirm={(values) => startChat(startingMask, values)}
+        />
+      )}
     </div>
   );
 }
@@ -14,9 +14,20 @@ import CloseIcon from "../icons/close.svg";
 import DeleteIcon from "../icons/delete.svg";
 import ConfirmIcon from "../icons/confirm.svg";
 import ReloadIcon from "../icons/reload.svg";
+import LoadingIcon from "../icons/loading.svg";
 import GithubIcon from "../icons/github.svg";
 
-import { Plugin, usePluginStore, FunctionToolService } from "../store/plugin";
+import {
+  Plugin,
+  PluginType,
+  ToolPolicy,
+  usePluginStore,
+  FunctionToolService,
+} from "../store/plugin";
+import { McpTransportType } from "../utils/mcp";
+import { DEFAULT_CODE_INTERPRETER_CONFIG } from "../utils/code-interpreter";
+import { SandboxFilesList } from "./code-interpreter";
+import { getClientConfig } from "../config/client";
 import {
   PasswordInput,
   List,
@@ -30,6 +41,161 @@ import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import clsx from "clsx";
 
+function CodeInterpreterConfigList(props: { plugin: Plugin }) {
+  const pluginStore = usePluginStore();
+  const Config = Locale.Plugin.EditModal.CodeInterpreter;
+  const config = props.plugin.codeInterpreter ?? {
+    ...DEFAULT_CODE_INTERPRETER_CONFIG,
+  };
+
+  const updateConfig = (key: keyof typeof config, value: string) => {
+    const number = parseInt(value);
+    if (!(number > 0)) return;
+    pluginStore.updatePlugin(props.plugin.id, (plugin) => {
+      plugin.codeInterpreter = { ...config, [key]: number };
+    });
+  };
+
+  return (
+    <>
+      <List>
+        <ListItem title={Config.Timeout} subTitle={Config.TimeoutDescription}>
+          <input
+            type="number"
+            min={1}
+            value={config.timeout}
+            onChange={(e) => updateConfig("timeout", e.currentTarget.value)}
+          ></input>
+        </ListItem>
+        <ListItem
+          title={Config.MemoryLimit}
+          subTitle={Config.MemoryLimitDescription}
+        >
+          <input
+            type="number"
+            min={64}
+            step={64}
+            value={config.memoryLimit}
+            onChange={(e) => updateConfig("memoryLimit", e.currentTarget.value)}
+          ></input>
+        </ListItem>
+      </List>
+      <SandboxFilesList />
+    </>
+  );
+}
+
+function McpServerConfigList(props: { plugin: Plugin }) {
+  const pluginStore = usePluginStore();
+  const plugin = props.plugin;
+  const config = plugin.mcp ?? { transport: McpTransportType.Http };
+  const isApp = !!getClientConfig()?.isApp;
+  const [connecting, setConnecting] = useState(false);
+
+  const updateConfig = (
+    updater: (config: NonNullable<Plugin["mcp"]>) => void,
+  ) =>
+    pluginStore.updatePlugin(plugin.id, (plugin) => {
+      const mcp = { ...config };
+      updater(mcp);
+      plugin.mcp = mcp;
+    });
+
+  const connect = () => {
+    setConnecting(true);
+    pluginStore
+      .refreshMcpTools(plugin.id)
+      .then(() => showToast(Locale.Plugin.EditModal.Mcp.ConnectSuccess))
+      .catch((e) => {
+        console.error(e);
+        showToast(Locale.Plugin.EditModal.Mcp.ConnectError);
+      })
+      .finally(() => setConnecting(false));
+  };
+
+  return (
+    <List>
+      <ListItem title={Locale.Plugin.EditModal.Mcp.Transport}>
+        <select
+          value={config.transport}
+          onChange={(e) =>
+            updateConfig(
+              (config) =>
+                (config.transport = e.target.value as McpTransportType),
+            )
+          }
+        >
+          <option value={McpTransportType.Http}>
+            {Locale.Plugin.EditModal.Mcp.Http}
+          </option>
+          <option value={McpTransportType.Stdio} disabled={!isApp}>
+            {Locale.Plugin.EditModal.Mcp.Stdio}
+          </option>
+        </select>
+      </ListItem>
+      {config.transport === McpTransportType.Stdio ? (
+        <ListItem
+          title={Locale.Plugin.EditModal.Mcp.Command}
+          subTitle={Locale.Plugin.EditModal.Mcp.CommandDescription}
+        >
+          <input
+            type="text"
+            value={config.command ?? ""}
+            onChange={(e) =>
+              updateConfig((config) => (config.command = e.target.value))
+            }
+          ></input>
+        </ListItem>
+      ) : (
+        <>
+          <ListItem title={Locale.Plugin.EditModal.Mcp.Url}>
+            <input
+              type="text"
+              style={{ minWidth: 200 }}
+              value={config.url ?? ""}
+              onChange={(e) =>
+                updateConfig((config) => (config.url = e.target.value))
+              }
+            ></input>
+          </ListItem>
+          {!isApp && (
+            <ListItem
+              title={Locale.Plugin.Auth.Proxy}
+              subTitle={Locale.Plugin.Auth.ProxyDescription}
+            >
+              <input
+                type="checkbox"
+                checked={!!config.useProxy}
+                onChange={(e) =>
+                  updateConfig(
+                    (config) => (config.useProxy = e.currentTarget.checked),
+                  )
+                }
+              ></input>
+            </ListItem>
+          )}
+        </>
+      )}
+      <ListItem title={Locale.Plugin.EditModal.Mcp.Tools}>
+        <IconButton
+          icon={connecting ? <LoadingIcon /> : <ReloadIcon />}
+          text={Locale.Plugin.EditModal.Mcp.Connect}
+          bordered
+          disabled={connecting}
+          onClick={connect}
+        />
+      </ListItem>
+      {FunctionToolService.add(plugin).tools.map((tool, index) => (
+        <ListItem
+          key={index}
+          title={tool?.function?.name}
+          subTitle={tool?.function?.description}
+        />
+      ))}
+    </List>
+  );
+}
+
 export function PluginPage() {
   const navigate = useNavigate();
   const pluginStore = usePluginStore();
@@ -69,7 +235,7 @@ export function PluginPage() {
           if (content != editingPlugin.content) {
             pluginStore.updatePlugin(editingPlugin.id, (plugin) => {
               plugin.content = content;
-              const tool = FunctionToolService.add(plugin, true);
+              const tool = FunctionToolService.addOpenAPI(plugin, true);
               plugin.title = tool.api.definition.info.title;
               plugin.version = tool.api.definition.info.version;
             });
@@ -107,7 +273,7 @@ export function PluginPage() {
       .then((content) => {
         pluginStore.updatePlugin(editingPlugin.id, (plugin) => {
           plugin.content = content;
-          const tool = FunctionToolService.add(plugin, true);
+          const tool = FunctionToolService.addOpenAPI(plugin, true);
           plugin.title = tool.api.definition.info.title;
           plugin.version = tool.api.definition.info.version;
         });
@@ -169,6 +335,23 @@ export function PluginPage() {
                 setEditingPluginId(createdPlugin.id);
               }}
             />
+            <IconButton
+              className={styles["mask-create"]}
+              icon={<AddIcon />}
+              text={Locale.Plugin.Page.CreateMcp}
+              bordered
+              onClick={() => {
+                const createdPlugin = pluginStore.create({
+                  type: PluginType.MCP,
+                  title: Locale.Plugin.Page.CreateMcp,
+                  mcp: {
+                    transport: McpTransportType.Http,
+                    useProxy: !getClientConfig()?.isApp,
+                  },
+                });
+                setEditingPluginId(createdPlugin.id);
+              }}
+            />
           </div>
 
           <div>
@@ -249,45 +432,71 @@ export function PluginPage() {
             ]}
           >
             <List>
-              <ListItem title={Locale.Plugin.EditModal.Auth}>
+              <ListItem
+                title={Locale.Plugin.EditModal.Policy.Title}
+                subTitle={Locale.Plugin.EditModal.Policy.SubTitle}
+              >
                 <select
-                  value={editingPlugin?.authType}
+                  value={editingPlugin?.toolPolicy ?? ToolPolicy.Auto}
                   onChange={(e) => {
                     pluginStore.updatePlugin(editingPlugin.id, (plugin) => {
-                      plugin.authType = e.target.value;
+                      plugin.toolPolicy = e.target.value as ToolPolicy;
                     });
                   }}
                 >
-                  <option value="">{Locale.Plugin.Auth.None}</option>
-                  <option value="bearer">{Locale.Plugin.Auth.Bearer}</option>
-                  <option value="basic">{Locale.Plugin.Auth.Basic}</option>
-                  <option value="custom">{Locale.Plugin.Auth.Custom}</option>
+                  <option value={ToolPolicy.Auto}>
+                    {Locale.Plugin.EditModal.Policy.Auto}
+                  </option>
+                  <option value={ToolPolicy.Ask}>
+                    {Locale.Plugin.EditModal.Policy.Ask}
+                  </option>
+                  <option value={ToolPolicy.Deny}>
+                    {Locale.Plugin.EditModal.Policy.Deny}
+                  </option>
                 </select>
               </ListItem>
-              {["bearer", "basic", "custom"].includes(
-                editingPlugin.authType as string,
-              ) && (
-                <ListItem title={Locale.Plugin.Auth.Location}>
+              {editingPlugin.type !== PluginType.CodeInterpreter && (
+                <ListItem title={Locale.Plugin.EditModal.Auth}>
                   <select
-                    value={editingPlugin?.authLocation}
+                    value={editingPlugin?.authType}
                     onChange={(e) => {
                       pluginStore.updatePlugin(editingPlugin.id, (plugin) => {
-                        plugin.authLocation = e.target.value;
+                        plugin.authType = e.target.value;
                       });
                     }}
                   >
-                    <option value="header">
-                      {Locale.Plugin.Auth.LocationHeader}
-                    </option>
-                    <option value="query">
-                      {Locale.Plugin.Auth.LocationQuery}
-                    </option>
-                    <option value="body">
-                      {Locale.Plugin.Auth.LocationBody}
-                    </option>
+                    <option value="">{Locale.Plugin.Auth.None}</option>
+                    <option value="bearer">{Locale.Plugin.Auth.Bearer}</option>
+                    <option value="basic">{Locale.Plugin.Auth.Basic}</option>
+                    <option value="custom">{Locale.Plugin.Auth.Custom}</option>
                   </select>
                 </ListItem>
               )}
+              {editingPlugin.type !== PluginType.MCP &&
+                ["bearer", "basic", "custom"].includes(
+                  editingPlugin.authType as string,
+                ) && (
+                  <ListItem title={Locale.Plugin.Auth.Location}>
+                    <select
+                      value={editingPlugin?.authLocation}
+                      onChange={(e) => {
+                        pluginStore.updatePlugin(editingPlugin.id, (plugin) => {
+                          plugin.authLocation = e.target.value;
+                        });
+                      }}
+                    >
+                      <option value="header">
+                        {Locale.Plugin.Auth.LocationHeader}
+                      </option>
+                      <option value="query">
+                        {Locale.Plugin.Auth.LocationQuery}
+                      </option>
+                      <option value="body">
+                        {Locale.Plugin.Auth.LocationBody}
+                      </option>
+                    </select>
+                  </ListItem>
+                )}
               {editingPlugin.authType == "custom" && (
                 <ListItem title={Locale.Plugin.Auth.CustomHeader}>
                   <input
@@ -317,51 +526,57 @@ export function PluginPage() {
                 </ListItem>
               )}
             </List>
-            <List>
-              <ListItem title={Locale.Plugin.EditModal.Content}>
-                <div className={pluginStyles["plugin-schema"]}>
-                  <input
-                    type="text"
-                    style={{ minWidth: 200 }}
-                    onInput={(e) => setLoadUrl(e.currentTarget.value)}
-                  ></input>
-                  <IconButton
-                    icon={<ReloadIcon />}
-                    text={Locale.Plugin.EditModal.Load}
-                    bordered
-                    onClick={() => loadFromUrl(loadUrl)}
-                  />
-                </div>
-              </ListItem>
-              <ListItem
-                subTitle={
-                  <div
-                    className={clsx(
-                      "markdown-body",
-                      pluginStyles["plugin-content"],
-                    )}
-                    dir="auto"
-                  >
-                    <pre>
-                      <code
-                        contentEditable={true}
-                        dangerouslySetInnerHTML={{
-                          __html: editingPlugin.content,
-                        }}
-                        onBlur={onChangePlugin}
-                      ></code>
-                    </pre>
+            {editingPlugin.type === PluginType.CodeInterpreter ? (
+              <CodeInterpreterConfigList plugin={editingPlugin} />
+            ) : editingPlugin.type === PluginType.MCP ? (
+              <McpServerConfigList plugin={editingPlugin} />
+            ) : (
+              <List>
+                <ListItem title={Locale.Plugin.EditModal.Content}>
+                  <div className={pluginStyles["plugin-schema"]}>
+                    <input
+                      type="text"
+                      style={{ minWidth: 200 }}
+                      onInput={(e) => setLoadUrl(e.currentTarget.value)}
+                    ></input>
+                    <IconButton
+                      icon={<ReloadIcon />}
+                      text={Locale.Plugin.EditModal.Load}
+                      bordered
+                      onClick={() => loadFromUrl(loadUrl)}
+                    />
                   </div>
-                }
-              ></ListItem>
-              {editingPluginTool?.tools.map((tool, index) => (
+                </ListItem>
                 <ListItem
-                  key={index}
-                  title={tool?.function?.name}
-                  subTitle={tool?.function?.description}
-                />
-              ))}
-            </List>
+                  subTitle={
+                    <div
+                      className={clsx(
+                        "markdown-body",
+                        pluginStyles["plugin-content"],
+                      )}
+                      dir="auto"
+                    >
+                      <pre>
+                        <code
+                          contentEditable={true}
+                          dangerouslySetInnerHTML={{
+                            __html: editingPlugin.content,
+                          }}
+                          onBlur={onChangePlugin}
+                        ></code>
+                      </pre>
+                    </div>
+                  }
+                ></ListItem>
+                {editingPluginTool?.tools.map((tool, index) => (
+                  <ListItem
+                    key={index}
+                    title={tool?.function?.name}
+                    subTitle={tool?.function?.description}
+                  />
+                ))}
+              </List>
+            )}
           </Modal>
         </div>
       )}
@@ -20,6 +20,7 @@ import {
 } from "rt-client";
 import { AudioHandler } from "@/app/lib/audio";
 import { uploadImage } from "@/app/utils/chat";
+import { appendMessages } from "@/app/utils/message-tree";
 import { VoicePrint } from "@/app/components/voice-print";
 
 interface RealtimeChatProps {
@@ -157,7 +158,7 @@ export function RealtimeChat({
         });
         // add bot message first
         chatStore.updateTargetSession(session, (session) => {
-          session.messages = session.messages.concat([botMessage]);
+          appendMessages(session, [botMessage]);
         });
         let hasAudio = false;
         for await (const content of item) {
@@ -208,7 +209,7 @@ export function RealtimeChat({
         content: item.transcription,
       });
       chatStore.updateTargetSession(session, (session) => {
-        session.messages = session.messages.concat([userMessage]);
+        appendMessages(session, [userMessage]);
       });
       // save input audio_url, and update session
       const { audioStartMillis, audioEndMillis } = item;
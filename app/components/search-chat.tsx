@@ -1,89 +1,153 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useDebouncedCallback } from "use-debounce";
 import { ErrorBoundary } from "./error";
 import styles from "./mask.module.scss";
 import { useNavigate } from "react-router-dom";
 import { IconButton } from "./button";
+import { Select } from "./ui-lib";
 import CloseIcon from "../icons/close.svg";
 import EyeIcon from "../icons/eye.svg";
 import Locale from "../locales";
 import { Path } from "../constant";
+import { MessageRole, ROLES } from "../client/api";
 
 import { useChatStore } from "../store";
+import {
+  getSearchableText,
+  loadSearchIndex,
+  saveSearchIndex,
+  SearchFilters,
+  SearchHit,
+  SearchIndex,
+  tokenize,
+} from "../utils/search-index";
 
-type Item = {
-  id: number;
-  name: string;
-  content: string;
+const DAY = 24 * 60 * 60 * 1000;
+const RANGES = {
+  Day: DAY,
+  Week: 7 * DAY,
+  Month: 30 * DAY,
+  Year: 365 * DAY,
 };
+type Range = keyof typeof RANGES;
+
+// cut the text around the first matched term
+function getSnippet(text: string, query: string) {
+  const lowerCaseText = text.toLowerCase();
+  const positions = tokenize(query)
+    .map((term) => [lowerCaseText.indexOf(term), term.length])
+    .filter(([pos]) => pos >= 0)
+    .sort((a, b) => a[0] - b[0]);
+  const [pos, length] = positions[0] ?? [0, 0];
+  const start = Math.max(0, pos - 35);
+  const end = Math.min(text.length, pos + length + 35);
+  return {
+    before: (start > 0 ? "..." : "") + text.slice(start, pos),
+    match: text.slice(pos, pos + length),
+    after: text.slice(pos + length, end) + (end < text.length ? "..." : ""),
+  };
+}
+
 export function SearchChatPage() {
   const navigate = useNavigate();
 
   const chatStore = useChatStore();
 
   const sessions = chatStore.sessions;
-  const selectSession = chatStore.selectSession;
-
-  const [searchResults, setSearchResults] = useState<Item[]>([]);
-
-  const previousValueRef = useRef<string>("");
-  const searchInputRef = useRef<HTMLInputElement>(null);
-  const doSearch = useCallback((text: string) => {
-    const lowerCaseText = text.toLowerCase();
-    const results: Item[] = [];
-
-    sessions.forEach((session, index) => {
-      const fullTextContents: string[] = [];
-
-      session.messages.forEach((message) => {
-        const content = message.content as string;
-        if (!content.toLowerCase || content === "") return;
-        const lowerCaseContent = content.toLowerCase();
-
-        // full text search
-        let pos = lowerCaseContent.indexOf(lowerCaseText);
-        while (pos !== -1) {
-          const start = Math.max(0, pos - 35);
-          const end = Math.min(content.length, pos + lowerCaseText.length + 35);
-          fullTextContents.push(content.substring(start, end));
-          pos = lowerCaseContent.indexOf(
-            lowerCaseText,
-            pos + lowerCaseText.length,
-          );
-        }
-      });
-
-      if (fullTextContents.length > 0) {
-        results.push({
-          id: index,
-          name: session.topic,
-          content: fullTextContents.join("... "), // concat content with...
-        });
-      }
-    });
 
-    // sort by length of matching content
-    results.sort((a, b) => b.content.length - a.content.length);
+  const [index, setIndex] = useState<SearchIndex>();
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [range, setRange] = useState<Range>();
 
-    return results;
+  useEffect(() => {
+    loadSearchIndex().then(setIndex);
   }, []);
 
+  // only the messages changed since the last visit are indexed again
   useEffect(() => {
-    const intervalId = setInterval(() => {
-      if (searchInputRef.current) {
-        const currentValue = searchInputRef.current.value;
-        if (currentValue !== previousValueRef.current) {
-          if (currentValue.length > 0) {
-            const result = doSearch(currentValue);
-            setSearchResults(result);
-          }
-          previousValueRef.current = currentValue;
-        }
-      }
-    }, 1000);
-
-    // Cleanup the interval on component unmount
-    return () => clearInterval(intervalId);
-  }, [doSearch]);
+    if (index?.update(sessions)) {
+      saveSearchIndex(index);
+      setIndexVersion((v) => v + 1);
+    }
+  }, [index, sessions]);
+
+  const onSearch = useDebouncedCallback((text: string) => setQuery(text), 300);
+
+  const searchResults = useMemo(() => {
+    if (!index || query.trim().length === 0) return [];
+    return index.search(query, {
+      ...filters,
+      since: range ? Date.now() - RANGES[range] : undefined,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [index, indexVersion, query, filters, range]);
+
+  const filterOptions = useMemo(() => {
+    const documents = index?.getDocuments() ?? [];
+    const unique = (values: (string | undefined)[]) =>
+      Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+    return {
+      masks: unique(documents.map((d) => d.mask)),
+      models: unique(documents.map((d) => d.model)),
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [index, indexVersion]);
+
+  const openHit = (hit: SearchHit) => {
+    const { sessionId, messageId } = hit.document;
+    const sessionIndex = sessions.findIndex((s) => s.id === sessionId);
+    if (sessionIndex < 0) return;
+
+    const session = sessions[sessionIndex];
+    if (!session.messages.some((m) => m.id === messageId)) {
+      chatStore.switchBranch(session, messageId);
+    }
+    chatStore.selectSession(sessionIndex);
+    navigate(Path.Chat, { state: { messageId } });
+  };
+
+  const renderHit = (hit: SearchHit) => {
+    const session = sessions.find((s) => s.id === hit.document.sessionId);
+    const message = session?.messages
+      .concat(session.branches ?? [])
+      .find((m) => m.id === hit.document.messageId);
+    if (!session || !message) return null;
+
+    const snippet = getSnippet(getSearchableText(message), query);
+    const info = [
+      Locale.SearchChat.Filter.Role[hit.document.role],
+      hit.document.model,
+      new Date(hit.document.createdAt).toLocaleString(),
+    ]
+      .filter((v) => !!v)
+      .join(" · ");
+
+    return (
+      <div
+        className={styles["mask-item"]}
+        key={hit.document.id}
+        onClick={() => openHit(hit)}
+        style={{ cursor: "pointer" }}
+      >
+        {/** 搜索匹配的文本 */}
+        <div className={styles["mask-header"]}>
+          <div className={styles["mask-title"]}>
+            <div className={styles["mask-name"]}>{session.topic}</div>
+            <div className={styles["mask-info"]}>{info}</div>
+            {snippet.before}
+            <mark>{snippet.match}</mark>
+            {snippet.after}
+          </div>
+        </div>
+        {/** 操作按钮 */}
+        <div className={styles["mask-actions"]}>
+          <IconButton icon={<EyeIcon />} text={Locale.SearchChat.Item.View} />
+        </div>
+      </div>
+    );
+  };
 
   return (
     <ErrorBoundary>
@@ -95,7 +159,9 @@ export function SearchChatPage() {
               {Locale.SearchChat.Page.Title}
             </div>
             <div className="window-header-submai-title">
-              {Locale.SearchChat.Page.SubTitle(searchResults.length)}
+              {index
+                ? Locale.SearchChat.Page.SubTitle(searchResults.length)
+                : Locale.SearchChat.Page.Indexing}
             </div>
           </div>
 
@@ -118,48 +184,85 @@ export function SearchChatPage() {
               className={styles["search-bar"]}
               placeholder={Locale.SearchChat.Page.Search}
               autoFocus
-              ref={searchInputRef}
+              onInput={(e) => onSearch(e.currentTarget.value)}
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
                   e.preventDefault();
-                  const searchText = e.currentTarget.value;
-                  if (searchText.length > 0) {
-                    const result = doSearch(searchText);
-                    setSearchResults(result);
-                  }
+                  onSearch.flush();
                 }
               }}
             />
           </div>
 
-          <div>
-            {searchResults.map((item) => (
-              <div
-                className={styles["mask-item"]}
-                key={item.id}
-                onClick={() => {
-                  navigate(Path.Chat);
-                  selectSession(item.id);
-                }}
-                style={{ cursor: "pointer" }}
-              >
-                {/** 搜索匹配的文本 */}
-                <div className={styles["mask-header"]}>
-                  <div className={styles["mask-title"]}>
-                    <div className={styles["mask-name"]}>{item.name}</div>
-                    {item.content.slice(0, 70)}
-                  </div>
-                </div>
-                {/** 操作按钮 */}
-                <div className={styles["mask-actions"]}>
-                  <IconButton
-                    icon={<EyeIcon />}
-                    text={Locale.SearchChat.Item.View}
-                  />
-                </div>
-              </div>
-            ))}
+          <div className={styles["mask-filter"]}>
+            <Select
+              className={styles["mask-filter-lang"]}
+              value={filters.mask ?? ""}
+              onChange={(e) =>
+                setFilters({
+                  ...filters,
+                  mask: e.currentTarget.value || undefined,
+                })
+              }
+            >
+              <option value="">{Locale.SearchChat.Filter.AllMasks}</option>
+              {filterOptions.masks.map((mask) => (
+                <option value={mask} key={mask}>
+                  {mask}
+                </option>
+              ))}
+            </Select>
+            <Select
+              className={styles["mask-filter-lang"]}
+              value={filters.model ?? ""}
+              onChange={(e) =>
+                setFilters({
+                  ...filters,
+                  model: e.currentTarget.value || undefined,
+                })
+              }
+            >
+              <option value="">{Locale.SearchChat.Filter.AllModels}</option>
+              {filterOptions.models.map((model) => (
+                <option value={model} key={model}>
+                  {model}
+                </option>
+              ))}
+            </Select>
+            <Select
+              className={styles["mask-filter-lang"]}
+              value={filters.role ?? ""}
+              onChange={(e) =>
+                setFilters({
+                  ...filters,
+                  role: (e.currentTarget.value as MessageRole) || undefined,
+                })
+              }
+            >
+              <option value="">{Locale.SearchChat.Filter.AllRoles}</option>
+              {ROLES.map((role) => (
+                <option value={role} key={role}>
+                  {Locale.SearchChat.Filter.Role[role]}
+                </option>
+              ))}
+            </Select>
+            <Select
+              className={styles["mask-filter-lang"]}
+              value={range ?? ""}
+              onChange={(e) =>
+                setRange((e.currentTarget.value as Range) || undefined)
+              }
+            >
+              <option value="">{Locale.SearchChat.Filter.AnyTime}</option>
+              {(Object.keys(RANGES) as Range[]).map((range) => (
+                <option value={range} key={range}>
+                  {Locale.SearchChat.Filter.Range[range]}
+                </option>
+              ))}
+            </Select>
           </div>
+
+          <div>{searchResults.map(renderHit)}</div>
         </div>
       </div>
     </ErrorBoundary>
@@ -29,6 +29,7 @@ import {
   Popover,
   Select,
   showConfirm,
+  showPrompt,
   showToast,
 } from "./ui-lib";
 import { ModelConfigList } from "./model-config";
@@ -49,7 +50,12 @@ import Locale, {
   changeLang,
   getLang,
 } from "../locales";
-import { copyToClipboard, clientUpdate, semverCompare } from "../utils";
+import {
+  copyToClipboard,
+  clientUpdate,
+  semverCompare,
+  getMessageTextContent,
+} from "../utils";
 import Link from "next/link";
 import {
   Anthropic,
@@ -84,8 +90,15 @@ import { useSyncStore } from "../store/sync";
 import { nanoid } from "nanoid";
 import { useMaskStore } from "../store/mask";
 import { ProviderType } from "../utils/cloud";
+import { SyncPassphraseError, SyncPlaintextError } from "../utils/cloud/crypto";
+import { SyncConflict } from "../utils/sync-merge";
 import { TTSConfigList } from "./tts-config";
 import { RealtimeConfigList } from "./realtime-chat/realtime-config";
+import { ChatImportModal, readChatExport } from "./chat-import";
+import { BackupModal, readBackup } from "./backup";
+import { BackupState } from "../utils/backup";
+import { ImportedChat } from "../utils/chat-import";
+import { ArtifactsListModal } from "./artifacts";
 
 function EditPromptModal(props: { id: string; onClose: () => void }) {
   const promptStore = usePromptStore();
@@ -322,6 +335,122 @@ function CheckButton() {
   );
 }
 
+function describeConflictSide(conflict: SyncConflict, record: any) {
+  if (!record) return Locale.Settings.Sync.Conflict.Deleted;
+  switch (conflict.kind) {
+    case "session":
+      return `${record.topic} (${record.messages.length})`;
+    case "message":
+      return getMessageTextContent(record);
+    case "mask":
+      return record.name;
+    case "prompt":
+      return `${record.title}: ${record.content}`;
+  }
+}
+
+function showSyncError(e: unknown) {
+  showToast(
+    e instanceof SyncPassphraseError
+      ? Locale.Settings.Sync.Config.Encryption.Wrong
+      : e instanceof SyncPlaintextError
+      ? Locale.Settings.Sync.Config.Encryption.NotEncrypted
+      : Locale.Settings.Sync.Fail,
+  );
+  console.error("[Sync]", e);
+}
+
+function SyncConflicts() {
+  const syncStore = useSyncStore();
+  const chatStore = useChatStore();
+  const [resolving, setResolving] = useState(false);
+  const Conflict = Locale.Settings.Sync.Conflict;
+
+  const resolve = (action: () => Promise<void>) => {
+    setResolving(true);
+    action()
+      .then(() => {
+        if (useSyncStore.getState().conflicts.length === 0) {
+          showToast(Locale.Settings.Sync.Success);
+        }
+      })
+      .catch(showSyncError)
+      .finally(() => setResolving(false));
+  };
+
+  const getName = (c: SyncConflict) => {
+    const record = c.local ?? c.remote;
+    switch (c.kind) {
+      case "session":
+        return record.topic;
+      case "message":
+        return chatStore.sessions.find((s) => s.id === c.sessionId)?.topic;
+      case "mask":
+        return record.name;
+      case "prompt":
+        return record.title;
+    }
+  };
+
+  return (
+    <List>
+      <ListItem title={Conflict.Title} subTitle={Conflict.SubTitle}>
+        <div style={{ display: "flex" }}>
+          <IconButton
+            text={Conflict.KeepAllLocal}
+            disabled={resolving}
+            onClick={() =>
+              resolve(() => syncStore.resolveAllConflicts("local"))
+            }
+          />
+          <IconButton
+            text={Conflict.KeepAllRemote}
+            disabled={resolving}
+            onClick={() =>
+              resolve(() => syncStore.resolveAllConflicts("remote"))
+            }
+          />
+        </div>
+      </ListItem>
+      {syncStore.conflicts.map((c) => (
+        <ListItem
+          key={c.kind + c.id}
+          title={`${Conflict.Kinds[c.kind]}: ${getName(c) ?? c.id}`}
+          subTitle={
+            <>
+              {[
+                [Conflict.Local, c.local],
+                [Conflict.Remote, c.remote],
+              ].map(([side, record]) => (
+                <div key={side} className="one-line">
+                  {side}: {describeConflictSide(c, record)}
+                </div>
+              ))}
+            </>
+          }
+        >
+          <div style={{ display: "flex" }}>
+            <IconButton
+              text={Conflict.KeepLocal}
+              disabled={resolving}
+              onClick={() =>
+                resolve(() => syncStore.resolveConflict(c, "local"))
+              }
+            />
+            <IconButton
+              text={Conflict.KeepRemote}
+              disabled={resolving}
+              onClick={() =>
+                resolve(() => syncStore.resolveConflict(c, "remote"))
+              }
+            />
+          </div>
+        </ListItem>
+      ))}
+    </List>
+  );
+}
+
 function SyncConfigModal(props: { onClose?: () => void }) {
   const syncStore = useSyncStore();
 
@@ -341,6 +470,8 @@ function SyncConfigModal(props: { onClose?: () => void }) {
           />,
         ]}
       >
+        {syncStore.conflicts.length > 0 && <SyncConflicts />}
+
         <List>
           <ListItem
             title={Locale.Settings.Sync.Config.SyncType.Title}
@@ -355,11 +486,16 @@ function SyncConfigModal(props: { onClose?: () => void }) {
                 );
               }}
             >
-              {Object.entries(ProviderType).map(([k, v]) => (
-                <option value={v} key={k}>
-                  {k}
-                </option>
-              ))}
+              {Object.entries(ProviderType)
+                .filter(
+                  ([, v]) =>
+                    v !== ProviderType.LocalFolder || getClientConfig()?.isApp,
+                )
+                .map(([k, v]) => (
+                  <option value={v} key={k}>
+                    {k}
+                  </option>
+                ))}
             </select>
           </ListItem>
 
@@ -478,6 +614,255 @@ function SyncConfigModal(props: { onClose?: () => void }) {
             </ListItem>
           </List>
         )}
+
+        {syncStore.provider === ProviderType.S3 && (
+          <List>
+            <ListItem title={Locale.Settings.Sync.Config.S3.Endpoint}>
+              <input
+                type="text"
+                value={syncStore.s3.endpoint}
+                placeholder="https://s3.us-east-1.amazonaws.com"
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) => (config.s3.endpoint = e.currentTarget.value),
+                  );
+                }}
+              ></input>
+            </ListItem>
+            <ListItem title={Locale.Settings.Sync.Config.S3.Region}>
+              <input
+                type="text"
+                value={syncStore.s3.region}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) => (config.s3.region = e.currentTarget.value),
+                  );
+                }}
+              ></input>
+            </ListItem>
+            <ListItem title={Locale.Settings.Sync.Config.S3.Bucket}>
+              <input
+                type="text"
+                value={syncStore.s3.bucket}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) => (config.s3.bucket = e.currentTarget.value),
+                  );
+                }}
+              ></input>
+            </ListItem>
+            <ListItem title={Locale.Settings.Sync.Config.S3.Folder}>
+              <input
+                type="text"
+                value={syncStore.s3.folder}
+                placeholder={STORAGE_KEY}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) => (config.s3.folder = e.currentTarget.value),
+                  );
+                }}
+              ></input>
+            </ListItem>
+            <ListItem title={Locale.Settings.Sync.Config.S3.AccessKeyId}>
+              <input
+                type="text"
+                value={syncStore.s3.accessKeyId}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) => (config.s3.accessKeyId = e.currentTarget.value),
+                  );
+                }}
+              ></input>
+            </ListItem>
+            <ListItem title={Locale.Settings.Sync.Config.S3.SecretAccessKey}>
+              <PasswordInput
+                value={syncStore.s3.secretAccessKey}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) =>
+                      (config.s3.secretAccessKey = e.currentTarget.value),
+                  );
+                }}
+              ></PasswordInput>
+            </ListItem>
+          </List>
+        )}
+
+        {syncStore.provider === ProviderType.LocalFolder && (
+          <List>
+            <ListItem
+              title={Locale.Settings.Sync.Config.LocalFolder.Path}
+              subTitle={
+                syncStore.localfolder.path ||
+                Locale.Settings.Sync.Config.LocalFolder.SubTitle
+              }
+            >
+              <IconButton
+                text={Locale.Settings.Sync.Config.LocalFolder.Choose}
+                bordered
+                onClick={async () => {
+                  // the app adds the picked folder to the fs scope
+                  const path: string | null | undefined =
+                    await window.__TAURI__?.invoke("pick_sync_folder", {
+                      defaultPath: syncStore.localfolder.path || undefined,
+                    });
+                  if (typeof path === "string") {
+                    syncStore.update(
+                      (config) => (config.localfolder.path = path),
+                    );
+                  }
+                }}
+              />
+            </ListItem>
+          </List>
+        )}
+
+        <List>
+          <ListItem
+            title={Locale.Settings.Sync.Config.Encryption.Title}
+            subTitle={Locale.Settings.Sync.Config.Encryption.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={syncStore.encryption.enabled}
+              onChange={(e) => {
+                syncStore.update(
+                  (config) =>
+                    (config.encryption.enabled = e.currentTarget.checked),
+                );
+              }}
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.Sync.Config.Encryption.Passphrase}
+            subTitle={Locale.Settings.Sync.Config.Encryption.PassphraseSubTitle}
+          >
+            <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+              <PasswordInput
+                value={syncStore.encryption.passphrase}
+                onChange={(e) => {
+                  syncStore.update(
+                    (config) =>
+                      (config.encryption.passphrase = e.currentTarget.value),
+                  );
+                }}
+              ></PasswordInput>
+              {syncStore.encryption.passphrase && (
+                <IconButton
+                  text={Locale.Settings.Sync.Config.Encryption.Change}
+                  bordered
+                  onClick={async () => {
+                    const passphrase = await showPrompt(
+                      Locale.Settings.Sync.Config.Encryption.ChangePrompt,
+                      "",
+                      1,
+                    );
+                    if (!passphrase) return;
+                    try {
+                      await syncStore.changePassphrase(passphrase);
+                      showToast(Locale.Settings.Sync.Config.Encryption.Changed);
+                    } catch (e) {
+                      showSyncError(e);
+                    }
+                  }}
+                />
+              )}
+            </div>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.Sync.Config.ExcludeSecrets.Title}
+            subTitle={Locale.Settings.Sync.Config.ExcludeSecrets.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={syncStore.excludeSecrets}
+              onChange={(e) => {
+                syncStore.update(
+                  (config) => (config.excludeSecrets = e.currentTarget.checked),
+                );
+              }}
+            ></input>
+          </ListItem>
+        </List>
+
+        <List>
+          <ListItem
+            title={Locale.Settings.Sync.Auto.Title}
+            subTitle={Locale.Settings.Sync.Auto.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={syncStore.autoSync.enabled}
+              onChange={(e) => {
+                syncStore.update(
+                  (config) =>
+                    (config.autoSync.enabled = e.currentTarget.checked),
+                );
+              }}
+            ></input>
+          </ListItem>
+          {syncStore.autoSync.enabled && (
+            <>
+              <ListItem
+                title={Locale.Settings.Sync.Auto.OnFocus.Title}
+                subTitle={Locale.Settings.Sync.Auto.OnFocus.SubTitle}
+              >
+                <input
+                  type="checkbox"
+                  checked={syncStore.autoSync.onFocus}
+                  onChange={(e) => {
+                    syncStore.update(
+                      (config) =>
+                        (config.autoSync.onFocus = e.currentTarget.checked),
+                    );
+                  }}
+                ></input>
+              </ListItem>
+              <ListItem
+                title={Locale.Settings.Sync.Auto.MessageInterval.Title}
+                subTitle={Locale.Settings.Sync.Auto.MessageInterval.SubTitle}
+              >
+                <input
+                  aria-label={Locale.Settings.Sync.Auto.MessageInterval.Title}
+                  type="number"
+                  min={0}
+                  max={1000}
+                  value={syncStore.autoSync.messageInterval}
+                  onChange={(e) => {
+                    syncStore.update(
+                      (config) =>
+                        (config.autoSync.messageInterval = Math.max(
+                          0,
+                          e.currentTarget.valueAsNumber || 0,
+                        )),
+                    );
+                  }}
+                ></input>
+              </ListItem>
+              <ListItem
+                title={Locale.Settings.Sync.Auto.TimeInterval.Title}
+                subTitle={Locale.Settings.Sync.Auto.TimeInterval.SubTitle}
+              >
+                <input
+                  aria-label={Locale.Settings.Sync.Auto.TimeInterval.Title}
+                  type="number"
+                  min={0}
+                  max={1440}
+                  value={syncStore.autoSync.timeInterval}
+                  onChange={(e) => {
+                    syncStore.update(
+                      (config) =>
+                        (config.autoSync.timeInterval = Math.max(
+                          0,
+                          e.currentTarget.valueAsNumber || 0,
+                        )),
+                    );
+                  }}
+                ></input>
+              </ListItem>
+            </>
+          )}
+        </List>
       </Modal>
     </div>
   );
@@ -493,6 +878,9 @@ function SyncItems() {
   }, [syncStore]);
 
   const [showSyncConfigModal, setShowSyncConfigModal] = useState(false);
+  const [importedChats, setImportedChats] = useState<ImportedChat[]>();
+  // an export when there is no backup file
+  const [backupModal, setBackupModal] = useState<{ backup?: BackupState }>();
 
   const stateOverview = useMemo(() => {
     const sessions = chatStore.sessions;
@@ -534,11 +922,28 @@ function SyncItems() {
                 text={Locale.UI.Sync}
                 onClick={async () => {
                   try {
-                    await syncStore.sync();
+                    await syncStore.sync().catch(async (e) => {
+                      if (
+                        !(e instanceof SyncPlaintextError) ||
+                        !(await showConfirm(
+                          Locale.Settings.Sync.Config.Encryption.PlainBackup,
+                        ))
+                      ) {
+                        throw e;
+                      }
+                      await syncStore.encryptBackup();
+                    });
+                    const conflicts = useSyncStore.getState().conflicts;
+                    if (conflicts.length > 0) {
+                      showToast(
+                        Locale.Settings.Sync.Conflict.Found(conflicts.length),
+                      );
+                      setShowSyncConfigModal(true);
+                      return;
+                    }
                     showToast(Locale.Settings.Sync.Success);
                   } catch (e) {
-                    showToast(Locale.Settings.Sync.Fail);
-                    console.error("[Sync]", e);
+                    showSyncError(e);
                   }
                 }}
               />
@@ -556,24 +961,53 @@ function SyncItems() {
               icon={<UploadIcon />}
               text={Locale.UI.Export}
               onClick={() => {
-                syncStore.export();
+                setBackupModal({});
               }}
             />
             <IconButton
               aria={Locale.Settings.Sync.LocalState + Locale.UI.Import}
               icon={<DownloadIcon />}
               text={Locale.UI.Import}
-              onClick={() => {
-                syncStore.import();
+              onClick={async () => {
+                const backup = await readBackup();
+                if (backup) setBackupModal({ backup });
               }}
             />
           </div>
         </ListItem>
+
+        <ListItem
+          title={Locale.Settings.Sync.ImportChats.Title}
+          subTitle={Locale.Settings.Sync.ImportChats.SubTitle}
+        >
+          <IconButton
+            aria={Locale.Settings.Sync.ImportChats.Title}
+            icon={<DownloadIcon />}
+            text={Locale.UI.Import}
+            onClick={async () => {
+              setImportedChats(await readChatExport());
+            }}
+          />
+        </ListItem>
       </List>
 
       {showSyncConfigModal && (
         <SyncConfigModal onClose={() => setShowSyncConfigModal(false)} />
       )}
+
+      {backupModal && (
+        <BackupModal
+          backup={backupModal.backup}
+          onClose={() => setBackupModal(undefined)}
+        />
+      )}
+
+      {importedChats && (
+        <ChatImportModal
+          chats={importedChats}
+          onClose={() => setImportedChats(undefined)}
+        />
+      )}
     </>
   );
 }
@@ -671,7 +1105,53 @@ export function Settings() {
   }, []);
 
   const clientConfig = useMemo(() => getClientConfig(), []);
-  const showAccessCode = enabledAccessControl && !clientConfig?.isApp;
+  const showAccessCode =
+    enabledAccessControl &&
+    !clientConfig?.isApp &&
+    (!accessStore.enableAccounts || accessStore.needCode);
+
+  const [showArtifacts, setShowArtifacts] = useState(false);
+  const accountComponent = accessStore.enableAccounts &&
+    !clientConfig?.isApp && (
+      <ListItem
+        title={Locale.Settings.Account.Title}
+        subTitle={
+          accessStore.isLoggedIn() && accessStore.user
+            ? Locale.Settings.Account.SubTitle(
+                accessStore.user.username,
+                Locale.Admin.Roles[accessStore.user.role],
+              )
+            : Locale.Settings.Account.NotLoggedIn
+        }
+      >
+        <div style={{ display: "flex" }}>
+          {accessStore.isAdmin() && (
+            <IconButton
+              text={Locale.Settings.Account.Manage}
+              onClick={() => navigate(Path.Admin)}
+            />
+          )}
+          {accessStore.isLoggedIn() && (
+            <IconButton
+              text={Locale.Settings.Account.Artifacts}
+              onClick={() => setShowArtifacts(true)}
+            />
+          )}
+          {accessStore.isLoggedIn() ? (
+            <IconButton
+              text={Locale.Settings.Account.Logout}
+              onClick={() => accessStore.logout()}
+            />
+          ) : (
+            <IconButton
+              text={Locale.Settings.Account.Login}
+              type="primary"
+              onClick={() => navigate(Path.Auth)}
+            />
+          )}
+        </div>
+      </ListItem>
+    );
 
   const accessCodeComponent = showAccessCode && (
     <ListItem
@@ -1693,6 +2173,7 @@ export function Settings() {
 
         <List id={SlotID.CustomModel}>
           {saasStartComponent}
+          {accountComponent}
           {accessCodeComponent}
 
           {!accessStore.hideUserApiKey && (
@@ -1802,6 +2283,9 @@ export function Settings() {
         {shouldShowPromptModal && (
           <UserPromptModal onClose={() => setShowPromptModal(false)} />
         )}
+        {showArtifacts && (
+          <ArtifactsListModal onClose={() => setShowArtifacts(false)} />
+        )}
         <List>
           <RealtimeConfigList
             realtimeConfig={config.realtimeConfig}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import dynamic from "next/dynamic";
+import clsx from "clsx";
+
+import styles from "./share.module.scss";
+import chatStyles from "./chat.module.scss";
+import LoadingIcon from "../icons/three-dots.svg";
+import CopyIcon from "../icons/copy.svg";
+import ShareIcon from "../icons/share.svg";
+import CloseIcon from "../icons/close.svg";
+import ChatIcon from "../icons/chat.svg";
+
+import { IconButton } from "./button";
+import {
+  List,
+  ListItem,
+  Loading,
+  Select,
+  showConfirm,
+  showToast,
+} from "./ui-lib";
+import { Avatar } from "./emoji";
+import { MaskAvatar } from "./mask";
+import Locale from "../locales";
+import { Path } from "../constant";
+import { ChatMessage, DEFAULT_CONFIG, ModelType, useChatStore } from "../store";
+import { fetchSharedChat, useShareStore } from "../store/share";
+import { copyToClipboard } from "../utils";
+import { prettyObject } from "../utils/format";
+import { getImportId } from "../utils/chat-import";
+import {
+  getShareUrl,
+  SharedChat,
+  SHARE_TTL_OPTIONS,
+  toImportedChat,
+} from "../utils/share";
+
+const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
+  loading: () => <LoadingIcon />,
+});
+
+function getTTLName(ttl: number) {
+  const Expiry = Locale.Export.ShareLink.Expiry;
+  return ttl > 0 ? Expiry.Days(ttl / (24 * 60 * 60)) : Expiry.Never;
+}
+
+// publishes the selected messages as a read-only page and lists the links
+// of the current chat
+export function ShareLinkPreviewer(props: { messages: ChatMessage[] }) {
+  const ShareLink = Locale.Export.ShareLink;
+  const session = useChatStore((state) => state.currentSession());
+  const shareStore = useShareStore();
+  const [ttl, setTTL] = useState(shareStore.ttl);
+  const [loading, setLoading] = useState(false);
+  const links = shareStore.getLinks(session.id);
+
+  const publish = async () => {
+    if (loading || props.messages.length === 0) return;
+    setLoading(true);
+    try {
+      const link = await shareStore.publish(session, props.messages, ttl);
+      copyToClipboard(getShareUrl(location.origin, link.id));
+      showToast(ShareLink.Published);
+    } catch (e) {
+      console.error("[Share]", e);
+      showToast(prettyObject(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    if (!(await showConfirm(ShareLink.RevokeConfirm))) return;
+    try {
+      await shareStore.revoke(id);
+      showToast(ShareLink.Revoked);
+    } catch (e) {
+      console.error("[Share]", e);
+      showToast(prettyObject(e));
+    }
+  };
+
+  return (
+    <>
+      <List>
+        <ListItem
+          title={ShareLink.Expiry.Title}
+          subTitle={ShareLink.Expiry.SubTitle}
+        >
+          <Select
+            value={ttl}
+            onChange={(e) => setTTL(parseInt(e.currentTarget.value))}
+          >
+            {SHARE_TTL_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {getTTLName(option)}
+              </option>
+            ))}
+          </Select>
+        </ListItem>
+      </List>
+      <div className={styles["share-actions"]}>
+        <IconButton
+          text={ShareLink.Publish}
+          bordered
+          shadow
+          disabled={props.messages.length === 0}
+          icon={loading ? <LoadingIcon /> : <ShareIcon />}
+          onClick={publish}
+        />
+      </div>
+      <List>
+        <ListItem
+          title={ShareLink.Links}
+          subTitle={links.length === 0 ? ShareLink.Empty : undefined}
+        />
+        {links.map((link) => {
+          const url = getShareUrl(location.origin, link.id);
+          return (
+            <ListItem
+              key={link.id}
+              title={url}
+              subTitle={`${new Date(link.createdAt).toLocaleString()} · ${
+                link.expiresAt
+                  ? ShareLink.ExpiresAt(
+                      new Date(link.expiresAt).toLocaleString(),
+                    )
+                  : ShareLink.NeverExpires
+              }`}
+            >
+              <div className={styles["share-link-actions"]}>
+                <IconButton
+                  icon={<CopyIcon />}
+                  title={Locale.Chat.Actions.Copy}
+                  onClick={() => copyToClipboard(url)}
+                />
+                <IconButton
+                  icon={<ShareIcon />}
+                  title={ShareLink.Open}
+                  onClick={() => window.open(url, "_blank")}
+                />
+                <IconButton
+                  icon={<CloseIcon />}
+                  title={ShareLink.Revoke}
+                  onClick={() => revoke(link.id)}
+                />
+              </div>
+            </ListItem>
+          );
+        })}
+      </List>
+    </>
+  );
+}
+
+// the read-only page of a share link
+export function SharedChatPage() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const chatStore = useChatStore();
+  const [share, setShare] = useState<SharedChat>();
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    fetchSharedChat(id)
+      .then(setShare)
+      .catch((e) => {
+        console.error("[Share]", e);
+        setError(true);
+      });
+  }, [id]);
+
+  const continueChat = () => {
+    if (!share) return;
+    const chat = toImportedChat(share);
+    chatStore.importSessions([chat]);
+    const importId = getImportId(chat);
+    chatStore.selectSession(
+      useChatStore
+        .getState()
+        .sessions.findIndex((s) => s.importId === importId),
+    );
+    navigate(Path.Chat);
+  };
+
+  if (error) {
+    return (
+      <div className={styles["share-page"]}>
+        <div className={styles["share-empty"]}>{Locale.Share.NotFound}</div>
+      </div>
+    );
+  }
+  if (!share) return <Loading />;
+
+  return (
+    <div className={styles["share-page"]}>
+      <div className={styles["share-header"]}>
+        <div className={styles["share-title"]}>
+          <div className={styles["share-topic"]}>{share.title}</div>
+          <div className={styles["share-meta"]}>
+            {Locale.Share.ReadOnly} · {Locale.Exporter.Messages}:{" "}
+            {share.messages.length}
+          </div>
+        </div>
+        <IconButton
+          text={Locale.Share.Continue}
+          icon={<ChatIcon />}
+          type="primary"
+          bordered
+          onClick={continueChat}
+        />
+      </div>
+      <div className={styles["share-body"]}>
+        {share.messages.map((message, i) => {
+          const isUser = message.role === "user";
+          return (
+            <div
+              key={i}
+              className={
+                isUser
+                  ? chatStyles["chat-message-user"]
+                  : chatStyles["chat-message"]
+              }
+            >
+              <div className={chatStyles["chat-message-container"]}>
+                <div className={chatStyles["chat-message-header"]}>
+                  <div className={chatStyles["chat-message-avatar"]}>
+                    {isUser ? (
+                      <Avatar avatar={DEFAULT_CONFIG.avatar} />
+                    ) : (
+                      <MaskAvatar
+                        avatar={share.avatar ?? ""}
+                        model={message.model as ModelType}
+                      />
+                    )}
+                  </div>
+                </div>
+                <div
+                  className={clsx(
+                    chatStyles["chat-message-item"],
+                    styles["share-message"],
+                  )}
+                >
+                  <Markdown content={message.content} defaultShow />
+                </div>
+                <div className={chatStyles["chat-message-action-date"]}>
+                  {message.date}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import DeleteIcon from "../icons/delete.svg";
 import MaskIcon from "../icons/mask.svg";
 import DragIcon from "../icons/drag.svg";
 import DiscoveryIcon from "../icons/discovery.svg";
+import SyncIcon from "../icons/reload.svg";
 
 import Locale from "../locales";
 
@@ -29,7 +30,9 @@ import {
 import { Link, useNavigate } from "react-router-dom";
 import { isIOS, useMobileScreen } from "../utils";
 import dynamic from "next/dynamic";
-import { showConfirm, Selector } from "./ui-lib";
+import { showConfirm, showToast, Selector } from "./ui-lib";
+import { useSyncStore } from "../store/sync";
+import { useSyncStatus } from "../utils/sync-scheduler";
 import clsx from "clsx";
 
 const ChatList = dynamic(async () => (await import("./chat-list")).ChatList, {
@@ -216,6 +219,52 @@ export function SideBarTail(props: {
   );
 }
 
+// status of the background sync, a click syncs now
+function SyncStatusButton() {
+  const syncStore = useSyncStore();
+  const { status, error } = useSyncStatus();
+  const navigate = useNavigate();
+
+  if (!syncStore.autoSync.enabled || !syncStore.cloudSync()) return null;
+
+  const title = [
+    Locale.Settings.Sync.Auto.Status[status],
+    status === "error" ? error : undefined,
+  ]
+    .filter(Boolean)
+    .join(": ");
+
+  return (
+    <div className={styles["sidebar-action"]}>
+      <IconButton
+        aria={title}
+        title={title}
+        icon={<SyncIcon />}
+        className={clsx(styles["sidebar-sync"], styles[`sync-${status}`])}
+        shadow
+        onClick={async () => {
+          if (status === "conflict") {
+            navigate(Path.Settings);
+            return;
+          }
+          try {
+            await syncStore.sync();
+            if (useSyncStore.getState().conflicts.length > 0) {
+              showToast(
+                Locale.Settings.Sync.Conflict.Found(
+                  useSyncStore.getState().conflicts.length,
+                ),
+              );
+            }
+          } catch (e) {
+            showToast(Locale.Settings.Sync.Fail);
+          }
+        }}
+      />
+    </div>
+  );
+}
+
 export function SideBar(props: { className?: string }) {
   useHotKey();
   const { onDragStart, shouldNarrow } = useDragSideBar();
@@ -306,6 +355,7 @@ export function SideBar(props: { className?: string }) {
                 />
               </Link>
             </div>
+            <SyncStatusButton />
             <div className={styles["sidebar-action"]}>
               <a href={REPO_URL} target="_blank" rel="noopener noreferrer">
                 <IconButton
@@ -81,6 +81,26 @@ declare global {
 
       // custom template for preprocessing user input
       DEFAULT_INPUT_TEMPLATE?: string;
+
+      // user accounts, enabled when AUTH_SECRET is set
+      AUTH_SECRET?: string; // signs the session tokens
+      USER_STORE?: string; // where users are kept, only "sqlite" for now
+      USER_STORE_PATH?: string; // sqlite database file
+      ADMIN_USERNAME?: string; // creates the first admin on an empty store
+      ADMIN_PASSWORD?: string;
+
+      // read-only share links
+      SHARE_STORE?: string; // "sqlite" (default) or "kv" for Cloudflare KV
+      SHARE_STORE_PATH?: string; // sqlite database file
+      SHARE_MAX_TTL?: string; // seconds, caps the expiry of new links
+
+      // shared artifacts
+      ARTIFACT_STORE?: string; // "kv", "fs", "sqlite" or "redis"
+      ARTIFACT_STORE_PATH?: string; // folder of "fs" or database file of "sqlite"
+      ARTIFACT_REDIS_URL?: string; // upstash compatible rest api
+      ARTIFACT_REDIS_TOKEN?: string;
+      ARTIFACT_MAX_SIZE?: string; // bytes
+      ARTIFACT_TTL?: string; // seconds
     }
   }
 }
@@ -168,6 +188,7 @@ export const getServerSideConfig = () => {
   const allowedWebDavEndpoints = (
     process.env.WHITE_WEBDAV_ENDPOINTS ?? ""
   ).split(",");
+  const allowedS3Endpoints = (process.env.WHITE_S3_ENDPOINTS ?? "").split(",");
 
   return {
     baseUrl: process.env.BASE_URL,
@@ -249,5 +270,31 @@ export const getServerSideConfig = () => {
     customModels,
     defaultModel,
     allowedWebDavEndpoints,
+    allowedS3Endpoints,
+
+    enableAccounts: !!process.env.AUTH_SECRET,
+    authSecret: process.env.AUTH_SECRET ?? "",
+    userStore: process.env.USER_STORE || "sqlite",
+    userStorePath: process.env.USER_STORE_PATH || "./data/users.db",
+    adminUsername: process.env.ADMIN_USERNAME,
+    adminPassword: process.env.ADMIN_PASSWORD,
+
+    shareStore: process.env.SHARE_STORE || "sqlite",
+    shareStorePath: process.env.SHARE_STORE_PATH || "./data/shares.db",
+    shareMaxTTL: parseInt(process.env.SHARE_MAX_TTL ?? "") || 0,
+
+    // cloudflare kv stays the default of the deployments that used it
+    artifactStore:
+      process.env.ARTIFACT_STORE ||
+      (process.env.CLOUDFLARE_KV_NAMESPACE_ID ? "kv" : "sqlite"),
+    artifactStorePath: process.env.ARTIFACT_STORE_PATH ?? "",
+    artifactRedisUrl: process.env.ARTIFACT_REDIS_URL ?? "",
+    artifactRedisToken: process.env.ARTIFACT_REDIS_TOKEN ?? "",
+    artifactMaxSize:
+      parseInt(process.env.ARTIFACT_MAX_SIZE ?? "") || 1024 * 1024,
+    artifactTTL:
+      parseInt(
+        process.env.ARTIFACT_TTL ?? process.env.CLOUDFLARE_KV_TTL ?? "",
+      ) || 0,
   };
 };
@@ -47,6 +47,8 @@ export enum Path {
   SdNew = "/sd-new",
   Artifacts = "/artifacts",
   SearchChat = "/search-chat",
+  Admin = "/admin",
+  Share = "/share",
 }
 
 export enum ApiPath {
@@ -65,6 +67,8 @@ export enum ApiPath {
   Artifacts = "/api/artifacts",
   XAI = "/api/xai",
   ChatGLM = "/api/chatglm",
+  Account = "/api/account",
+  Share = "/api/share",
 }
 
 export enum SlotID {
@@ -87,6 +91,9 @@ export enum StoreKey {
   Update = "chat-update",
   Sync = "sync",
   SdList = "sd-list",
+  SearchIndex = "search-index",
+  Share = "share-store",
+  MaskCatalog = "mask-catalog-store",
 }
 
 export const DEFAULT_SIDEBAR_WIDTH = 300;
@@ -95,6 +102,7 @@ export const MIN_SIDEBAR_WIDTH = 230;
 export const NARROW_SIDEBAR_WIDTH = 100;
 
 export const ACCESS_CODE_PREFIX = "nk-";
+export const USER_TOKEN_PREFIX = "nu-";
 
 export const LAST_INPUT_KEY = "last-input";
 export const UNFINISHED_INPUT = (id: string) => "unfinished-input-" + id;
@@ -103,6 +111,9 @@ export const STORAGE_KEY = "chatgpt-next-web";
 
 export const REQUEST_TIMEOUT_MS = 60000;
 
+export const DEFAULT_MAX_TOOL_STEPS = 10;
+export const DEFAULT_TOOL_TIMEOUT = 60; // seconds
+
 export const EXPORT_MESSAGE_CLASS_NAME = "export-markdown";
 
 export enum ServiceProvider {
@@ -277,6 +288,257 @@ export const KnowledgeCutOffDate: Record<string, string> = {
   "gemini-pro-vision": "2023-12",
 };
 
+export type ModelTokenLimit = {
+  contextWindow: number;
+  maxOutputTokens: number;
+};
+
+// input + output tokens a model accepts, and how many of them can be output
+export const ModelTokenLimits: Record<string, ModelTokenLimit> = {
+  default: { contextWindow: 8192, maxOutputTokens: 4096 },
+  "gpt-3.5-turbo": { contextWindow: 16385, maxOutputTokens: 4096 },
+  "gpt-3.5-turbo-1106": { contextWindow: 16385, maxOutputTokens: 4096 },
+  "gpt-3.5-turbo-0125": { contextWindow: 16385, maxOutputTokens: 4096 },
+  "gpt-4": { contextWindow: 8192, maxOutputTokens: 8192 },
+  "gpt-4-0613": { contextWindow: 8192, maxOutputTokens: 8192 },
+  "gpt-4-32k": { contextWindow: 32768, maxOutputTokens: 8192 },
+  "gpt-4-32k-0613": { contextWindow: 32768, maxOutputTokens: 8192 },
+  "gpt-4-turbo": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4-turbo-preview": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4-turbo-2024-04-09": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4-1106-preview": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4-vision-preview": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4o": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "gpt-4o-2024-05-13": { contextWindow: 128000, maxOutputTokens: 4096 },
+  "gpt-4o-2024-08-06": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "gpt-4o-2024-11-20": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "chatgpt-4o-latest": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "gpt-4o-mini": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "gpt-4o-mini-2024-07-18": { contextWindow: 128000, maxOutputTokens: 16384 },
+  "o1-mini": { contextWindow: 128000, maxOutputTokens: 65536 },
+  "o1-preview": { contextWindow: 128000, maxOutputTokens: 32768 },
+  "gemini-1.0-pro": { contextWindow: 30720, maxOutputTokens: 2048 },
+  "gemini-1.5-pro-latest": { contextWindow: 2097152, maxOutputTokens: 8192 },
+  "gemini-1.5-flash-latest": { contextWindow: 1048576, maxOutputTokens: 8192 },
+  "gemini-exp-1114": { contextWindow: 32768, maxOutputTokens: 8192 },
+  "gemini-exp-1121": { contextWindow: 32768, maxOutputTokens: 8192 },
+  "learnlm-1.5-pro-experimental": {
+    contextWindow: 32767,
+    maxOutputTokens: 8192,
+  },
+  "gemini-pro": { contextWindow: 30720, maxOutputTokens: 2048 },
+  "gemini-pro-vision": { contextWindow: 12288, maxOutputTokens: 4096 },
+  "claude-instant-1.2": { contextWindow: 100000, maxOutputTokens: 4096 },
+  "claude-2.0": { contextWindow: 100000, maxOutputTokens: 4096 },
+  "claude-2.1": { contextWindow: 200000, maxOutputTokens: 4096 },
+  "claude-3-sonnet-20240229": { contextWindow: 200000, maxOutputTokens: 4096 },
+  "claude-3-opus-20240229": { contextWindow: 200000, maxOutputTokens: 4096 },
+  "claude-3-opus-latest": { contextWindow: 200000, maxOutputTokens: 4096 },
+  "claude-3-haiku-20240307": { contextWindow: 200000, maxOutputTokens: 4096 },
+  "claude-3-5-haiku-20241022": { contextWindow: 200000, maxOutputTokens: 8192 },
+  "claude-3-5-haiku-latest": { contextWindow: 200000, maxOutputTokens: 8192 },
+  "claude-3-5-sonnet-20240620": {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+  },
+  "claude-3-5-sonnet-20241022": {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+  },
+  "claude-3-5-sonnet-latest": { contextWindow: 200000, maxOutputTokens: 8192 },
+  "ernie-4.0-turbo-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-4.0-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-4.0-8k-preview": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-4.0-8k-preview-0518": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-4.0-8k-latest": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-3.5-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-3.5-8k-0205": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-speed-128k": { contextWindow: 131072, maxOutputTokens: 4096 },
+  "ernie-speed-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-lite-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "ernie-tiny-8k": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "Doubao-lite-4k": { contextWindow: 4096, maxOutputTokens: 4096 },
+  "Doubao-lite-32k": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "Doubao-lite-128k": { contextWindow: 131072, maxOutputTokens: 4096 },
+  "Doubao-pro-4k": { contextWindow: 4096, maxOutputTokens: 4096 },
+  "Doubao-pro-32k": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "Doubao-pro-128k": { contextWindow: 131072, maxOutputTokens: 4096 },
+  "qwen-turbo": { contextWindow: 131072, maxOutputTokens: 8192 },
+  "qwen-plus": { contextWindow: 131072, maxOutputTokens: 8192 },
+  "qwen-max": { contextWindow: 32768, maxOutputTokens: 8192 },
+  "qwen-max-0428": { contextWindow: 8000, maxOutputTokens: 2000 },
+  "qwen-max-0403": { contextWindow: 8000, maxOutputTokens: 2000 },
+  "qwen-max-0107": { contextWindow: 8000, maxOutputTokens: 2000 },
+  "qwen-max-longcontext": { contextWindow: 30000, maxOutputTokens: 2000 },
+  "hunyuan-pro": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "hunyuan-standard": { contextWindow: 32768, maxOutputTokens: 2048 },
+  "hunyuan-lite": { contextWindow: 262144, maxOutputTokens: 6144 },
+  "hunyuan-role": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "hunyuan-functioncall": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "hunyuan-code": { contextWindow: 8192, maxOutputTokens: 4096 },
+  "hunyuan-vision": { contextWindow: 8192, maxOutputTokens: 2048 },
+  "moonshot-v1-8k": { contextWindow: 8192, maxOutputTokens: 4096 },
+  "moonshot-v1-32k": { contextWindow: 32768, maxOutputTokens: 4096 },
+  "moonshot-v1-128k": { contextWindow: 131072, maxOutputTokens: 4096 },
+  general: { contextWindow: 8192, maxOutputTokens: 4096 },
+  generalv3: { contextWindow: 8192, maxOutputTokens: 8192 },
+  "pro-128k": { contextWindow: 131072, maxOutputTokens: 4096 },
+  "generalv3.5": { contextWindow: 8192, maxOutputTokens: 8192 },
+  "4.0Ultra": { contextWindow: 8192, maxOutputTokens: 8192 },
+  "grok-beta": { contextWindow: 131072, maxOutputTokens: 4096 },
+  "glm-4-plus": { contextWindow: 128000, maxOutputTokens: 4095 },
+  "glm-4-0520": { contextWindow: 128000, maxOutputTokens: 4095 },
+  "glm-4": { contextWindow: 128000, maxOutputTokens: 4095 },
+  "glm-4-air": { contextWindow: 128000, maxOutputTokens: 4095 },
+  "glm-4-airx": { contextWindow: 8192, maxOutputTokens: 4095 },
+  "glm-4-long": { contextWindow: 1000000, maxOutputTokens: 4095 },
+  "glm-4-flashx": { contextWindow: 128000, maxOutputTokens: 4095 },
+  "glm-4-flash": { contextWindow: 128000, maxOutputTokens: 4095 },
+};
+
+export type ModelCapabilities = {
+  // accepts images in user messages
+  vision: boolean;
+  // can call the tools of plugins
+  tools: boolean;
+  // thinks before answering, sampling parameters are fixed
+  reasoning: boolean;
+  // answers with generated images instead of text
+  imageOutput: boolean;
+  // accepts or answers with audio
+  audio: boolean;
+  // accepts messages with the system role
+  systemRole: boolean;
+  streaming: boolean;
+};
+
+// what a model can do unless its provider, name or declaration says more
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  vision: false,
+  tools: false,
+  reasoning: false,
+  imageOutput: false,
+  audio: false,
+  systemRole: true,
+  streaming: true,
+};
+
+// capabilities shared by all models of a provider
+export const ProviderCapabilities: Record<
+  string,
+  Partial<ModelCapabilities>
+> = {
+  Baidu: { systemRole: false },
+};
+
+// how the built-in models differ from the defaults of their provider
+export const ModelCapabilityTable: Record<
+  string,
+  Partial<ModelCapabilities>
+> = {
+  "gpt-4-turbo": { vision: true },
+  "gpt-4-turbo-2024-04-09": { vision: true },
+  "gpt-4-vision-preview": { vision: true, tools: false },
+  "gpt-4o": { vision: true },
+  "gpt-4o-2024-05-13": { vision: true },
+  "gpt-4o-2024-08-06": { vision: true },
+  "gpt-4o-2024-11-20": { vision: true },
+  "chatgpt-4o-latest": { vision: true, tools: false },
+  "gpt-4o-mini": { vision: true },
+  "gpt-4o-mini-2024-07-18": { vision: true },
+  "dall-e-3": {
+    tools: false,
+    imageOutput: true,
+    systemRole: false,
+    streaming: false,
+  },
+  "o1-mini": { tools: false, reasoning: true, systemRole: false },
+  "o1-preview": { tools: false, reasoning: true, systemRole: false },
+  "gemini-1.5-pro-latest": { vision: true },
+  "gemini-1.5-flash-latest": { vision: true },
+  "gemini-exp-1114": { vision: true },
+  "gemini-exp-1121": { vision: true },
+  "learnlm-1.5-pro-experimental": { vision: true },
+  "gemini-pro-vision": { vision: true, tools: false },
+  "claude-instant-1.2": { tools: false },
+  "claude-2.0": { tools: false },
+  "claude-2.1": { tools: false },
+  "claude-3-sonnet-20240229": { vision: true },
+  "claude-3-opus-20240229": { vision: true },
+  "claude-3-opus-latest": { vision: true },
+  "claude-3-haiku-20240307": { vision: true },
+  "claude-3-5-sonnet-20240620": { vision: true },
+  "claude-3-5-sonnet-20241022": { vision: true },
+  "claude-3-5-sonnet-latest": { vision: true },
+  "ernie-speed-128k": { tools: false },
+  "ernie-speed-8k": { tools: false },
+  "ernie-lite-8k": { tools: false },
+  "ernie-tiny-8k": { tools: false },
+  "hunyuan-lite": { tools: false },
+  "hunyuan-role": { tools: false },
+  "hunyuan-code": { tools: false },
+  "hunyuan-vision": { vision: true, tools: false },
+  // only Spark Max and Ultra support function calling
+  general: { tools: false },
+  generalv3: { tools: false },
+  "pro-128k": { tools: false },
+};
+
+// models that are not built in accept images when their name says so
+const VISION_MODEL_PATTERNS = [
+  /vision/,
+  /gpt-4o/,
+  /gpt-4-turbo(?!.*preview)/,
+  /claude-3/,
+  /gemini-(1\.5|exp)/,
+  /learnlm/,
+  /qwen2?-vl/,
+];
+
+// models that are not built in think first when their name says so, like o1
+const REASONING_MODEL_PATTERNS = [/^o[13]/];
+
+// providers whose other models call tools too, except for the names matched
+const ToolProviders: Record<string, RegExp | undefined> = {
+  OpenAI: undefined,
+  Azure: undefined,
+  Moonshot: undefined,
+  ChatGLM: undefined,
+  Anthropic: /claude-2/,
+  Google: /vision/,
+};
+
+// what a model that is not built in can do, told by its provider and name
+function guessModelCapabilities(
+  model: string,
+  providerName: string,
+): Partial<ModelCapabilities> {
+  const reasoning = REASONING_MODEL_PATTERNS.some((p) => p.test(model));
+  return {
+    vision: VISION_MODEL_PATTERNS.some((p) => p.test(model)),
+    tools:
+      providerName in ToolProviders &&
+      !ToolProviders[providerName]?.test(model),
+    ...(reasoning ? { reasoning, systemRole: false } : {}),
+  };
+}
+
+export function getBuiltinModelCapabilities(
+  model: string,
+  providerName = "",
+): ModelCapabilities {
+  return {
+    ...DEFAULT_MODEL_CAPABILITIES,
+    ...ProviderCapabilities[providerName],
+    // the built-in models call tools unless the table says otherwise, other
+    // models can declare more with `|tools` and the like
+    ...(builtinModelNames.has(model)
+      ? { tools: true }
+      : guessModelCapabilities(model, providerName)),
+    ...ModelCapabilityTable[model],
+  };
+}
+
 export const DEFAULT_TTS_ENGINE = "OpenAI-TTS";
 export const DEFAULT_TTS_ENGINES = ["OpenAI-TTS", "Edge-TTS"];
 export const DEFAULT_TTS_MODEL = "tts-1";
@@ -407,12 +669,28 @@ const chatglmModels = [
   "glm-4-flash",
 ];
 
+const builtinModelNames = new Set([
+  ...openaiModels,
+  ...googleModels,
+  ...anthropicModels,
+  ...baiduModels,
+  ...bytedanceModels,
+  ...alibabaModes,
+  ...tencentModels,
+  ...moonshotModes,
+  ...iflytekModels,
+  ...xAIModes,
+  ...chatglmModels,
+]);
+
 let seq = 1000; // 内置的模型序号生成器从1000开始
 export const DEFAULT_MODELS = [
   ...openaiModels.map((name) => ({
     name,
     available: true,
     sorted: seq++, // Global sequence sort(index)
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "OpenAI"),
     provider: {
       id: "openai",
       providerName: "OpenAI",
@@ -424,6 +702,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Azure"),
     provider: {
       id: "azure",
       providerName: "Azure",
@@ -435,6 +715,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Google"),
     provider: {
       id: "google",
       providerName: "Google",
@@ -446,6 +728,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Anthropic"),
     provider: {
       id: "anthropic",
       providerName: "Anthropic",
@@ -457,6 +741,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Baidu"),
     provider: {
       id: "baidu",
       providerName: "Baidu",
@@ -468,6 +754,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "ByteDance"),
     provider: {
       id: "bytedance",
       providerName: "ByteDance",
@@ -479,6 +767,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Alibaba"),
     provider: {
       id: "alibaba",
       providerName: "Alibaba",
@@ -490,6 +780,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Tencent"),
     provider: {
       id: "tencent",
       providerName: "Tencent",
@@ -501,6 +793,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Moonshot"),
     provider: {
       id: "moonshot",
       providerName: "Moonshot",
@@ -512,6 +806,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "Iflytek"),
     provider: {
       id: "iflytek",
       providerName: "Iflytek",
@@ -523,6 +819,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "XAI"),
     provider: {
       id: "xai",
       providerName: "XAI",
@@ -534,6 +832,8 @@ export const DEFAULT_MODELS = [
     name,
     available: true,
     sorted: seq++,
+    ...ModelTokenLimits[name],
+    capabilities: getBuiltinModelCapabilities(name, "ChatGLM"),
     provider: {
       id: "chatglm",
       providerName: "ChatGLM",
@@ -559,6 +859,19 @@ export const internalAllowedWebDavEndpoints = [
   "https://app.koofr.net/dav/Koofr",
 ];
 
+// object storage hosts of the well known S3-compatible services, in path or
+// virtual-hosted style, other hosts of the same domains are not allowed
+export const internalAllowedS3Hosts = [
+  // s3.amazonaws.com, s3.<region>.amazonaws.com, <bucket>.s3-<region>.amazonaws.com
+  /^([a-z0-9.-]+\.)?s3(\.dualstack)?([.-][a-z0-9-]+)?\.amazonaws\.com(\.cn)?$/,
+  /^[a-z0-9-]+(\.[a-z]+)?\.r2\.cloudflarestorage\.com$/,
+  /^([a-z0-9-]+\.)?s3\.[a-z0-9-]+\.backblazeb2\.com$/,
+  /^([a-z0-9-]+\.)?[a-z0-9]+\.digitaloceanspaces\.com$/,
+  /^([a-z0-9-]+\.)?s3(\.[a-z0-9-]+)?\.wasabisys\.com$/,
+  /^([a-z0-9-]+\.)?oss-[a-z0-9-]+\.aliyuncs\.com$/,
+  /^([a-z0-9-]+\.)?cos\.[a-z0-9-]+\.myqcloud\.com$/,
+];
+
 export const DEFAULT_GA_ID = "G-89WN60ZK2E";
 export const PLUGINS = [
   { name: "Plugins", path: Path.Plugins },
@@ -10,6 +10,12 @@ declare module "*.scss" {
 
 declare module "*.svg";
 
+// the package only exposes its ranks through `exports`
+declare module "js-tiktoken/ranks/*" {
+  const ranks: import("js-tiktoken/lite").TiktokenBPE;
+  export default ranks;
+}
+
 declare interface Window {
   __TAURI__?: {
     writeText(text: string): Promise<void>;
@@ -20,6 +26,10 @@ declare interface Window {
     fs: {
       writeBinaryFile(path: string, data: Uint8Array): Promise<void>;
       writeTextFile(path: string, data: string): Promise<void>;
+      readTextFile(path: string): Promise<string>;
+      removeFile(path: string): Promise<void>;
+      exists(path: string): Promise<boolean>;
+      createDir(path: string, options?: { recursive?: boolean }): Promise<void>;
     };
     notification: {
       requestPermission(): Promise<Permission>;
@@ -33,6 +43,12 @@ declare interface Window {
         handler: (status: UpdateStatusResult) => void,
       ): Promise<UnlistenFn>;
     };
+    event: {
+      listen<T>(
+        event: string,
+        handler: (event: { id: number; payload: T }) => void,
+      ): Promise<() => void>;
+    };
     http: {
       fetch<T>(
         url: string,
@@ -23,6 +23,11 @@ const cn = {
     Tips: "管理员开启了密码验证，请在下方填入访问码",
     SubTips: "或者输入你的 OpenAI 或 Google AI 密钥",
     Input: "在此处填写访问码",
+    AccountTips: "管理员开启了账号登录，请使用你的账号登录",
+    Username: "用户名",
+    Password: "密码",
+    Login: "登录",
+    LoginFailed: "登录失败",
     Confirm: "确认",
     Later: "稍后再说",
     SaasTips: "配置太麻烦，想要立即使用",
@@ -34,6 +39,24 @@ const cn = {
   },
   Chat: {
     SubTitle: (count: number) => `共 ${count} 条对话`,
+    TokenCount: (count: number) => `${count} tokens`,
+    ToolTimeline: {
+      Title: "查看每一轮的工具调用",
+      Step: (step: number) => `第 ${step} 轮`,
+      Arguments: "参数",
+      Result: "结果",
+      Error: "错误",
+      Duration: (ms: number) => `${(ms / 1000).toFixed(1)} 秒`,
+    },
+    ToolApproval: {
+      Title: (name: string) => `是否允许调用工具 ${name}？`,
+      Arguments: "调用参数，可在执行前修改",
+      Reason: "拒绝原因（可选），会告知模型",
+      Approve: "允许",
+      Reject: "拒绝",
+      InvalidArguments: "参数不是合法的 JSON",
+      Interrupted: "页面关闭前未获批准",
+    },
     EditMessage: {
       Title: "编辑消息记录",
       Topic: {
@@ -58,6 +81,9 @@ const cn = {
       RefreshToast: "已发送刷新标题请求",
       Speech: "朗读",
       StopSpeech: "停止",
+      Workspace: "工作区",
+      PrevBranch: "上一个分支",
+      NextBranch: "下一个分支",
     },
     Commands: {
       new: "新建聊天",
@@ -117,7 +143,12 @@ const cn = {
     MessageFromChatGPT: "ChatGPT",
     Format: {
       Title: "导出格式",
-      SubTitle: "可以导出 Markdown 文本或者 PNG 图片",
+      SubTitle:
+        "可以导出文本、Markdown 文件、HTML 网页、PDF、PNG 图片、JSON，或生成只读分享链接",
+    },
+    Role: {
+      User: "用户",
+      Assistant: "助手",
     },
     IncludeContext: {
       Title: "包含面具上下文",
@@ -131,11 +162,65 @@ const cn = {
       Toast: "正在生成截图",
       Modal: "长按或右键保存图片",
     },
+    Document: {
+      Toast: "正在生成文件",
+      Print: "请在打印窗口中选择“另存为 PDF”",
+    },
     Artifacts: {
       Title: "分享页面",
       Error: "分享失败",
+      List: {
+        Title: "我分享的页面",
+        Empty: "还没有分享过页面",
+        Size: (size: string) => `大小 ${size}`,
+        ExpiresAt: (date: string) => `${date} 过期`,
+        Delete: "删除",
+        DeleteConfirm: "删除后链接将无法访问，确认删除？",
+        Deleted: "已删除",
+      },
+    },
+    ShareLink: {
+      Expiry: {
+        Title: "有效期",
+        SubTitle: "到期后链接自动失效",
+        Days: (days: number) => `${days} 天`,
+        Never: "永久有效",
+      },
+      Publish: "生成链接",
+      Published: "分享链接已生成",
+      Links: "此对话的分享链接",
+      Empty: "还没有分享过此对话",
+      ExpiresAt: (date: string) => `${date} 失效`,
+      NeverExpires: "永久有效",
+      Open: "打开",
+      Revoke: "撤销",
+      RevokeConfirm: "撤销后链接将无法访问，确认撤销？",
+      Revoked: "链接已撤销",
     },
   },
+  Share: {
+    ReadOnly: "只读分享",
+    Continue: "继续这个对话",
+    NotFound: "分享不存在、已过期或已被撤销",
+  },
+  Workspace: {
+    Title: "代码工作区",
+    Preview: "预览",
+    Version: (version: number) => `版本 ${version}`,
+    Console: "控制台",
+    ClearConsole: "清空控制台",
+    EmptyConsole: "还没有输出",
+    Reload: "重新运行",
+    Download: "下载 zip",
+    Versions: "版本",
+    History: "历史版本",
+    Diff: "对比",
+    CompareWith: "对比",
+    NoChanges: "两个版本相同",
+    Continue: "从这个版本继续",
+    ContinuePrompt: (version: number, code: string) =>
+      `请在版本 ${version} 的基础上继续修改，忽略之后的版本：\n\n${code}`,
+  },
   Select: {
     Search: "搜索消息",
     All: "选取全部",
@@ -150,6 +235,21 @@ const cn = {
     Reset: "[unused]",
     ResetConfirm: "确认清空历史摘要？",
   },
+  ContextBudget: {
+    Title: "上下文预算",
+    SubTitle: (used: number, budget: number, window: number, output: number) =>
+      `已用 ${used} / ${budget} tokens（上下文窗口 ${window}，为回复预留 ${output}）`,
+    Part: {
+      system: "系统提示词",
+      context: "预设对话",
+      input: "当前输入",
+      memory: "历史摘要",
+      history: "历史消息",
+    },
+    Detail: (included: number, tokens: number, dropped: number) =>
+      `包含 ${included} 条，${tokens} tokens` +
+      (dropped > 0 ? `，丢弃 ${dropped} 条` : ""),
+  },
   Home: {
     NewChat: "新的聊天",
     DeleteChat: "确认删除选中的对话？",
@@ -161,6 +261,16 @@ const cn = {
     SubTitle: "所有设置选项",
     ShowPassword: "显示密码",
 
+    Account: {
+      Title: "账号",
+      SubTitle: (name: string, role: string) => `已登录为 ${name}（${role}）`,
+      NotLoggedIn: "未登录",
+      Login: "登录",
+      Logout: "退出登录",
+      Manage: "管理用户",
+      Artifacts: "分享的页面",
+    },
+
     Danger: {
       Reset: {
         Title: "重置所有设置",
@@ -224,6 +334,24 @@ const cn = {
       NotSyncYet: "还没有进行过同步",
       Success: "同步成功",
       Fail: "同步失败",
+      Conflict: {
+        Found: (count: number) => `发现 ${count} 处冲突，请选择要保留的版本`,
+        Title: "同步冲突",
+        SubTitle: "两端都修改了以下内容，选择保留后会继续同步",
+        Local: "本地",
+        Remote: "云端",
+        KeepLocal: "保留本地",
+        KeepRemote: "保留云端",
+        KeepAllLocal: "全部保留本地",
+        KeepAllRemote: "全部保留云端",
+        Deleted: "已删除",
+        Kinds: {
+          session: "对话",
+          message: "消息",
+          mask: "面具",
+          prompt: "提示词",
+        },
+      },
 
       Config: {
         Modal: {
@@ -254,6 +382,63 @@ const cn = {
           UserName: "备份名称",
           Password: "UpStash Redis REST Token",
         },
+
+        S3: {
+          Endpoint: "S3 地址",
+          Region: "区域",
+          Bucket: "存储桶",
+          Folder: "目录",
+          AccessKeyId: "Access Key ID",
+          SecretAccessKey: "Secret Access Key",
+        },
+
+        LocalFolder: {
+          Path: "同步文件夹",
+          SubTitle: "用户目录下的文件夹，例如网盘的同步文件夹",
+          Choose: "选择",
+        },
+
+        Encryption: {
+          Title: "加密备份",
+          SubTitle: "上传前在本机加密备份，服务商只能看到密文",
+          Passphrase: "加密口令",
+          PassphraseSubTitle: "口令不会上传，丢失后无法恢复备份",
+          Change: "修改",
+          ChangePrompt: "请输入新的加密口令",
+          Changed: "口令已修改，备份已重新加密",
+          Wrong: "加密口令错误，或备份已加密",
+          NotEncrypted: "已开启加密，但云端备份未加密",
+          PlainBackup:
+            "云端备份未加密，可能是开启加密前上传的，也可能被他人替换。确认是你的备份后，将用当前口令加密并同步，是否继续？",
+        },
+        ExcludeSecrets: {
+          Title: "不同步密钥",
+          SubTitle: "不上传 API Key 和访问密码",
+        },
+      },
+
+      Auto: {
+        Title: "自动同步",
+        SubTitle: "在后台自动同步，失败后会稍后重试",
+        OnFocus: {
+          Title: "切回时同步",
+          SubTitle: "回到应用窗口时同步",
+        },
+        MessageInterval: {
+          Title: "按消息数同步",
+          SubTitle: "每产生这么多条新消息后同步，0 为关闭",
+        },
+        TimeInterval: {
+          Title: "同步间隔（分钟）",
+          SubTitle: "按此间隔定时同步，0 为关闭",
+        },
+        Status: {
+          idle: "自动同步已开启",
+          syncing: "同步中",
+          success: "已同步",
+          conflict: "有待解决的同步冲突",
+          error: "同步失败，稍后重试",
+        },
       },
 
       LocalState: "本地数据",
@@ -261,6 +446,58 @@ const cn = {
         return `${overview.chat} 次对话，${overview.message} 条消息，${overview.prompt} 条提示词，${overview.mask} 个面具`;
       },
       ImportFailed: "导入失败",
+      Backup: {
+        ExportTitle: "导出备份",
+        ImportTitle: "导入备份",
+        Stores: {
+          Title: "数据",
+          Chat: "对话",
+          Mask: "面具",
+          Prompt: "提示词",
+          Config: "设置",
+          Access: "访问密码与 API Key",
+          AccessWarning: "包含 API Key 和访问密码，请妥善保管备份文件",
+        },
+        Sessions: (selected: number, total: number) =>
+          `已选 ${selected} / ${total} 个对话`,
+        SelectAll: "全选",
+        SelectNone: "全不选",
+        Mode: {
+          Title: "导入方式",
+          SubTitle:
+            "合并会保留本地独有的数据，替换会删除所选数据中本地独有的部分",
+          merge: "合并",
+          replace: "替换",
+        },
+        Preview: {
+          Title: "变更预览",
+          Added: (count: number) => `新增 ${count}`,
+          Changed: (count: number) => `更新 ${count}`,
+          Removed: (count: number) => `删除 ${count}`,
+          Unchanged: (count: number) => `不变 ${count}`,
+        },
+        ReplaceConfirm: "替换会删除本地的对应数据，确认导入？",
+        Done: "导入成功",
+      },
+      ImportChats: {
+        Title: "导入聊天记录",
+        SubTitle:
+          "支持 ChatGPT、Claude 导出的 conversations.json 和 NextChat 备份",
+        Empty: "文件中没有可导入的对话",
+        Sources: {
+          chatgpt: "ChatGPT",
+          claude: "Claude",
+          nextchat: "NextChat",
+          generic: "JSON",
+          share: "分享链接",
+        },
+        Messages: (count: number) => `${count} 条消息`,
+        Imported: "已导入过",
+        SelectAll: "全选",
+        SelectNone: "全不选",
+        Confirm: (count: number) => `导入 ${count} 个对话`,
+        Done: (count: number) => `已导入 ${count} 个对话`,
+      },
     },
     Mask: {
       Splash: {
@@ -522,6 +759,18 @@ const cn = {
       Title: "对话摘要模型",
       SubTitle: "用于压缩历史记录、生成对话标题的模型",
     },
+    MaxToolSteps: {
+      Title: "工具调用轮数上限",
+      SubTitle: "单次回复中模型最多可以连续调用工具的轮数",
+    },
+    ToolTimeout: {
+      Title: "工具调用超时（秒）",
+      SubTitle: "单个工具调用超过该时长后按失败处理",
+    },
+    ParallelToolCalls: {
+      Title: "并行调用工具",
+      SubTitle: "同一轮中的多个工具调用同时执行，关闭后按顺序执行",
+    },
     Temperature: {
       Title: "随机性 (temperature)",
       SubTitle: "值越大，回复越随机",
@@ -629,6 +878,29 @@ const cn = {
   FineTuned: {
     Sysmessage: "你是一个助手",
   },
+  Admin: {
+    Title: "用户管理",
+    SubTitle: (count: number) => `共 ${count} 个用户`,
+    Create: "新建用户",
+    Username: "用户名",
+    Password: "密码",
+    NewPassword: "新密码",
+    NewPasswordPlaceholder: "留空则不修改密码",
+    Role: "角色",
+    Roles: {
+      admin: "管理员",
+      user: "普通用户",
+    },
+    Models: "可用模型",
+    ModelsPlaceholder:
+      "用英文逗号分隔，例如 gpt-4o,claude-3-5-sonnet@anthropic，留空表示全部模型",
+    AllModels: "全部模型",
+    Save: "保存",
+    Saved: "已保存",
+    Delete: "删除",
+    DeleteConfirm: (name: string) => `确认删除用户 ${name}？`,
+    Forbidden: "只有管理员可以管理用户",
+  },
   SearchChat: {
     Name: "搜索",
     Page: {
@@ -639,6 +911,24 @@ const cn = {
       Loading: "加载中",
 
       SubTitle: (count: number) => `搜索到 ${count} 条结果`,
+      Indexing: "正在建立索引",
+    },
+    Filter: {
+      AllMasks: "全部面具",
+      AllModels: "全部模型",
+      AllRoles: "全部角色",
+      AnyTime: "全部时间",
+      Role: {
+        user: "用户",
+        assistant: "助手",
+        system: "系统",
+      },
+      Range: {
+        Day: "最近一天",
+        Week: "最近一周",
+        Month: "最近一月",
+        Year: "最近一年",
+      },
     },
     Item: {
       View: "查看",
@@ -651,6 +941,7 @@ const cn = {
       SubTitle: (count: number) => `${count} 个插件`,
       Search: "搜索插件",
       Create: "新建",
+      CreateMcp: "MCP 服务",
       Find: "您可以在Github上找到优秀的插件：",
     },
     Item: {
@@ -682,6 +973,41 @@ const cn = {
       Load: "从网页加载",
       Method: "方法",
       Error: "格式错误",
+      Policy: {
+        Title: "工具调用",
+        SubTitle: "调用会修改外部系统的插件建议设为需要确认",
+        Auto: "自动执行",
+        Ask: "需要确认",
+        Deny: "禁止执行",
+      },
+      Mcp: {
+        Transport: "连接方式",
+        Http: "Streamable HTTP",
+        Stdio: "标准输入输出（仅客户端）",
+        Url: "服务地址",
+        Command: "启动命令",
+        CommandDescription: "首次运行某个命令前，客户端会请求你的确认",
+        Tools: "工具列表",
+        Connect: "连接并获取工具",
+        ConnectSuccess: "已获取工具列表",
+        ConnectError: "连接 MCP 服务失败",
+      },
+      CodeInterpreter: {
+        Timeout: "运行时限（秒）",
+        TimeoutDescription: "超时后沙箱会被重置",
+        MemoryLimit: "内存上限（MiB）",
+        MemoryLimitDescription:
+          "Python 无法使用超过上限的内存，达到上限后沙箱会被重置；JavaScript 不受限制",
+      },
+    },
+    SandboxFiles: {
+      Title: "代码文件",
+      SubTitle: (dir: string) =>
+        `上传的文件可供代码解释器读取，Python 位于 ${dir}，刷新页面后清空`,
+      Upload: "上传文件",
+      Empty: "还没有上传文件",
+      Remove: "移除",
+      TooLarge: (names: string) => `文件过大：${names}`,
     },
   },
   Mask: {
@@ -691,6 +1017,12 @@ const cn = {
       SubTitle: (count: number) => `${count} 个预设角色定义`,
       Search: "搜索角色面具",
       Create: "新建",
+      Catalogs: "面具市场",
+      Imported: (added: number, updated: number, skipped: number) =>
+        `导入 ${added} 个面具，更新 ${updated} 个，跳过 ${skipped} 个`,
+      ImportFailed: (error: string) => `导入失败：${error}`,
+      Invalid: (errors: string[]) =>
+        `${errors.length} 个面具格式有误：${errors.join("；")}`,
     },
     Item: {
       Info: (count: number) => `包含 ${count} 条预设对话`,
@@ -699,6 +1031,8 @@ const cn = {
       Edit: "编辑",
       Delete: "删除",
       DeleteConfirm: "确认删除？",
+      Update: (version: number) => `更新到 v${version}`,
+      Author: (author: string) => `作者 ${author}`,
     },
     EditModal: {
       Title: (readonly: boolean) =>
@@ -709,6 +1043,12 @@ const cn = {
     Config: {
       Avatar: "角色头像",
       Name: "角色名称",
+      Description: "面具简介",
+      Author: "作者",
+      Tags: {
+        Title: "标签",
+        SubTitle: "多个标签用逗号分隔",
+      },
       Sync: {
         Title: "使用全局设置",
         SubTitle: "当前对话是否使用全局模型设置",
@@ -732,6 +1072,66 @@ const cn = {
         Action: "复制链接",
       },
     },
+    Variables: {
+      Title: "模板变量",
+      SubTitle: "开始对话前填写，在预设对话中用 {{变量名}} 引用",
+      Add: "新增变量",
+      Name: "变量名",
+      Label: "显示名称",
+      Type: "类型",
+      Types: {
+        text: "文本",
+        select: "选项",
+        number: "数字",
+        file: "文件",
+      },
+      Options: "选项，用逗号分隔",
+      Default: "默认值",
+      Required: "必填",
+      Delete: "删除变量",
+      InvalidName: "变量名只能包含字母、数字和下划线，且不能以数字开头",
+      Unused: (name: string) => `预设对话中没有用到 {{${name}}}`,
+      Form: {
+        Title: (name: string) => `填写「${name}」的变量`,
+        Edit: "修改变量",
+        Start: "开始对话",
+        Save: "保存",
+        Upload: "选择文件",
+        FileLoaded: (name: string, size: string) => `已读取 ${name}（${size}）`,
+      },
+      Errors: {
+        required: "必填",
+        number: "请输入数字",
+        range: (min?: number, max?: number) =>
+          `应在 ${min ?? "-∞"} 到 ${max ?? "∞"} 之间`,
+        option: "请选择一个选项",
+        size: (limit: string) => `文件不能超过 ${limit}`,
+      },
+    },
+    Catalog: {
+      Title: "面具市场",
+      SubTitle: "订阅远程面具目录，浏览并安装其中的面具",
+      Url: "目录地址，例如 https://example.com/masks.json",
+      Subscribe: "订阅",
+      Subscribed: (name: string) => `已订阅 ${name}`,
+      Refresh: "刷新",
+      Unsubscribe: "取消订阅",
+      UnsubscribeConfirm: "确认取消订阅？已安装的面具不会被删除。",
+      Empty: "还没有订阅任何目录",
+      NoMasks: "没有找到面具",
+      Search: "搜索面具、作者或标签",
+      AllTags: "全部标签",
+      Install: "安装",
+      Installed: "已安装",
+      Update: (version: number) => `更新到 v${version}`,
+      Info: (count: number, date: string) => `${count} 个面具，更新于 ${date}`,
+      Error: (error: string) => `加载失败：${error}`,
+      Invalid: (count: number) => `${count} 个面具格式有误，已忽略`,
+      Requires: {
+        Models: (models: string) => `需要模型 ${models}`,
+        Plugins: (plugins: string) => `需要插件 ${plugins}`,
+      },
+    },
   },
   NewChat: {
     Return: "返回",
@@ -24,6 +24,11 @@ const en: LocaleType = {
     Tips: "Please enter access code below",
     SubTips: "Or enter your OpenAI or Google API Key",
     Input: "access code",
+    AccountTips: "Please log in with your account",
+    Username: "Username",
+    Password: "Password",
+    Login: "Log in",
+    LoginFailed: "Failed to log in",
     Confirm: "Confirm",
     Later: "Later",
     SaasTips: "Too Complex, Use Immediately Now",
@@ -35,6 +40,24 @@ const en: LocaleType = {
   },
   Chat: {
     SubTitle: (count: number) => `${count} messages`,
+    TokenCount: (count: number) => `${count} tokens`,
+    ToolTimeline: {
+      Title: "Show the tool calls of each step",
+      Step: (step: number) => `Step ${step}`,
+      Arguments: "Arguments",
+      Result: "Result",
+      Error: "Error",
+      Duration: (ms: number) => `${(ms / 1000).toFixed(1)}s`,
+    },
+    ToolApproval: {
+      Title: (name: string) => `Allow the tool call ${name}?`,
+      Arguments: "Arguments, editable before running",
+      Reason: "Reason for rejecting (optional), sent to the model",
+      Approve: "Approve",
+      Reject: "Reject",
+      InvalidArguments: "Arguments are not valid JSON",
+      Interrupted: "Not approved before the page was closed",
+    },
     EditMessage: {
       Title: "Edit All Messages",
       Topic: {
@@ -59,6 +82,9 @@ const en: LocaleType = {
       RefreshToast: "Title refresh request sent",
       Speech: "Play",
       StopSpeech: "Stop",
+      Workspace: "Workspace",
+      PrevBranch: "Previous Branch",
+      NextBranch: "Next Branch",
     },
     Commands: {
       new: "Start a new chat",
@@ -118,7 +144,12 @@ const en: LocaleType = {
     Share: "Share to ShareGPT",
     Format: {
       Title: "Export Format",
-      SubTitle: "Markdown or PNG Image",
+      SubTitle:
+        "Text, Markdown file, HTML page, PDF, PNG image, JSON or a read-only share link",
+    },
+    Role: {
+      User: "You",
+      Assistant: "Assistant",
     },
     IncludeContext: {
       Title: "Including Context",
@@ -132,11 +163,65 @@ const en: LocaleType = {
       Toast: "Capturing Image...",
       Modal: "Long press or right click to save image",
     },
+    Document: {
+      Toast: "Generating file...",
+      Print: 'Choose "Save as PDF" in the print dialog',
+    },
     Artifacts: {
       Title: "Share Artifacts",
       Error: "Share Error",
+      List: {
+        Title: "My Shared Artifacts",
+        Empty: "No shared artifacts yet",
+        Size: (size: string) => `Size ${size}`,
+        ExpiresAt: (date: string) => `Expires ${date}`,
+        Delete: "Delete",
+        DeleteConfirm: "The link stops working once deleted, delete it?",
+        Deleted: "Deleted",
+      },
+    },
+    ShareLink: {
+      Expiry: {
+        Title: "Expiry",
+        SubTitle: "The link stops working after it",
+        Days: (days: number) => `${days} ${days > 1 ? "days" : "day"}`,
+        Never: "Never",
+      },
+      Publish: "Create Link",
+      Published: "Share link created",
+      Links: "Share links of this chat",
+      Empty: "This chat is not shared yet",
+      ExpiresAt: (date: string) => `Expires ${date}`,
+      NeverExpires: "Never expires",
+      Open: "Open",
+      Revoke: "Revoke",
+      RevokeConfirm: "The link stops working once revoked, revoke it?",
+      Revoked: "Link revoked",
     },
   },
+  Share: {
+    ReadOnly: "Read-only shared chat",
+    Continue: "Continue this chat",
+    NotFound: "The share does not exist, expired or was revoked",
+  },
+  Workspace: {
+    Title: "Code Workspace",
+    Preview: "Preview",
+    Version: (version: number) => `Version ${version}`,
+    Console: "Console",
+    ClearConsole: "Clear console",
+    EmptyConsole: "No output yet",
+    Reload: "Run again",
+    Download: "Download zip",
+    Versions: "Versions",
+    History: "History",
+    Diff: "Diff",
+    CompareWith: "Compare with",
+    NoChanges: "The versions are the same",
+    Continue: "Continue from this version",
+    ContinuePrompt: (version: number, code: string) =>
+      `Continue from version ${version} below and ignore the later versions:\n\n${code}`,
+  },
   Select: {
     Search: "Search",
     All: "Select All",
@@ -152,6 +237,21 @@ const en: LocaleType = {
     ResetConfirm:
       "Resetting will clear the current conversation history and historical memory. Are you sure you want to reset?",
   },
+  ContextBudget: {
+    Title: "Context Budget",
+    SubTitle: (used: number, budget: number, window: number, output: number) =>
+      `${used} of ${budget} tokens used (context window ${window}, ${output} reserved for the reply)`,
+    Part: {
+      system: "System Prompt",
+      context: "Mask Context",
+      input: "Current Input",
+      memory: "Memory Prompt",
+      history: "History Messages",
+    },
+    Detail: (included: number, tokens: number, dropped: number) =>
+      `${included} included, ${tokens} tokens` +
+      (dropped > 0 ? `, ${dropped} dropped` : ""),
+  },
   Home: {
     NewChat: "New Chat",
     DeleteChat: "Confirm to delete the selected conversation?",
@@ -162,6 +262,16 @@ const en: LocaleType = {
     Title: "Settings",
     SubTitle: "All Settings",
     ShowPassword: "ShowPassword",
+    Account: {
+      Title: "Account",
+      SubTitle: (name: string, role: string) =>
+        `Logged in as ${name} (${role})`,
+      NotLoggedIn: "Not logged in",
+      Login: "Log in",
+      Logout: "Log out",
+      Manage: "Manage Users",
+      Artifacts: "Shared Artifacts",
+    },
     Danger: {
       Reset: {
         Title: "Reset All Settings",
@@ -226,6 +336,26 @@ const en: LocaleType = {
       NotSyncYet: "Not sync yet",
       Success: "Sync Success",
       Fail: "Sync Fail",
+      Conflict: {
+        Found: (count: number) =>
+          `Found ${count} conflicts, please pick the versions to keep`,
+        Title: "Sync Conflicts",
+        SubTitle:
+          "Both sides changed the following records, the sync continues once they are resolved",
+        Local: "Local",
+        Remote: "Cloud",
+        KeepLocal: "Keep Local",
+        KeepRemote: "Keep Cloud",
+        KeepAllLocal: "Keep All Local",
+        KeepAllRemote: "Keep All Cloud",
+        Deleted: "Deleted",
+        Kinds: {
+          session: "Chat",
+          message: "Message",
+          mask: "Mask",
+          prompt: "Prompt",
+        },
+      },
 
       Config: {
         Modal: {
@@ -257,6 +387,66 @@ const en: LocaleType = {
           UserName: "Backup Name",
           Password: "UpStash Redis REST Token",
         },
+
+        S3: {
+          Endpoint: "S3 Endpoint",
+          Region: "Region",
+          Bucket: "Bucket",
+          Folder: "Folder",
+          AccessKeyId: "Access Key ID",
+          SecretAccessKey: "Secret Access Key",
+        },
+
+        LocalFolder: {
+          Path: "Sync Folder",
+          SubTitle:
+            "A folder in your home directory, e.g. one of a cloud drive",
+          Choose: "Choose",
+        },
+
+        Encryption: {
+          Title: "Encrypt Backup",
+          SubTitle:
+            "Encrypt the backup on this device before uploading, the provider only sees ciphertext",
+          Passphrase: "Passphrase",
+          PassphraseSubTitle:
+            "Never uploaded, the backup cannot be restored without it",
+          Change: "Change",
+          ChangePrompt: "Enter the new passphrase",
+          Changed: "Passphrase changed, the backup has been re-encrypted",
+          Wrong: "Wrong passphrase, or the backup is encrypted",
+          NotEncrypted: "Encryption is on but the backup is not encrypted",
+          PlainBackup:
+            "The backup is not encrypted. It may have been uploaded before encryption was turned on, or replaced by someone else. Encrypt it with the passphrase and sync if it is yours?",
+        },
+        ExcludeSecrets: {
+          Title: "Exclude Secrets",
+          SubTitle: "Do not upload API keys and access codes",
+        },
+      },
+
+      Auto: {
+        Title: "Auto Sync",
+        SubTitle: "Sync in the background, failed syncs are retried later",
+        OnFocus: {
+          Title: "Sync On Focus",
+          SubTitle: "Sync when you come back to the app",
+        },
+        MessageInterval: {
+          Title: "Sync After Messages",
+          SubTitle: "Sync after this many new messages, 0 to turn off",
+        },
+        TimeInterval: {
+          Title: "Sync Interval (minutes)",
+          SubTitle: "Sync at this interval, 0 to turn off",
+        },
+        Status: {
+          idle: "Auto sync is on",
+          syncing: "Syncing",
+          success: "Synced",
+          conflict: "Sync conflicts to resolve",
+          error: "Sync failed, retrying later",
+        },
       },
 
       LocalState: "Local Data",
@@ -264,6 +454,60 @@ const en: LocaleType = {
         return `${overview.chat} chats，${overview.message} messages，${overview.prompt} prompts，${overview.mask} masks`;
       },
       ImportFailed: "Failed to import from file",
+      Backup: {
+        ExportTitle: "Export Backup",
+        ImportTitle: "Import Backup",
+        Stores: {
+          Title: "Data",
+          Chat: "Chats",
+          Mask: "Masks",
+          Prompt: "Prompts",
+          Config: "Settings",
+          Access: "Access Codes and API Keys",
+          AccessWarning:
+            "Contains your API keys and access codes, keep the file safe",
+        },
+        Sessions: (selected: number, total: number) =>
+          `${selected} of ${total} chats selected`,
+        SelectAll: "Select All",
+        SelectNone: "Select None",
+        Mode: {
+          Title: "Import Mode",
+          SubTitle:
+            "Merge keeps the local data missing in the backup, replace removes it from the selected stores",
+          merge: "Merge",
+          replace: "Replace",
+        },
+        Preview: {
+          Title: "Preview",
+          Added: (count: number) => `${count} added`,
+          Changed: (count: number) => `${count} changed`,
+          Removed: (count: number) => `${count} removed`,
+          Unchanged: (count: number) => `${count} unchanged`,
+        },
+        ReplaceConfirm:
+          "Replacing deletes the local data of the selected stores, import anyway?",
+        Done: "Imported",
+      },
+      ImportChats: {
+        Title: "Import Chats",
+        SubTitle:
+          "conversations.json exported from ChatGPT or Claude, and NextChat backups",
+        Empty: "No chats to import in this file",
+        Sources: {
+          chatgpt: "ChatGPT",
+          claude: "Claude",
+          nextchat: "NextChat",
+          generic: "JSON",
+          share: "Share Link",
+        },
+        Messages: (count: number) => `${count} messages`,
+        Imported: "Imported before",
+        SelectAll: "Select All",
+        SelectNone: "Select None",
+        Confirm: (count: number) => `Import ${count} chats`,
+        Done: (count: number) => `Imported ${count} chats`,
+      },
     },
     Mask: {
       Splash: {
@@ -527,6 +771,19 @@ const en: LocaleType = {
       Title: "Summary Model",
       SubTitle: "Model used to compress history and generate title",
     },
+    MaxToolSteps: {
+      Title: "Max Tool Steps",
+      SubTitle: "Max rounds of tool calls the model can make in one reply",
+    },
+    ToolTimeout: {
+      Title: "Tool Timeout (s)",
+      SubTitle: "A tool call taking longer than this is reported as failed",
+    },
+    ParallelToolCalls: {
+      Title: "Parallel Tool Calls",
+      SubTitle:
+        "Run the tool calls of one step at the same time, otherwise one by one",
+    },
     Temperature: {
       Title: "Temperature",
       SubTitle: "A larger value makes the more random output",
@@ -638,6 +895,29 @@ const en: LocaleType = {
   FineTuned: {
     Sysmessage: "You are an assistant that",
   },
+  Admin: {
+    Title: "Users",
+    SubTitle: (count: number) => `${count} users`,
+    Create: "New User",
+    Username: "Username",
+    Password: "Password",
+    NewPassword: "New Password",
+    NewPasswordPlaceholder: "Leave empty to keep the password",
+    Role: "Role",
+    Roles: {
+      admin: "Admin",
+      user: "User",
+    },
+    Models: "Allowed Models",
+    ModelsPlaceholder:
+      "Comma separated, e.g. gpt-4o,claude-3-5-sonnet@anthropic, empty allows every model",
+    AllModels: "All models",
+    Save: "Save",
+    Saved: "Saved",
+    Delete: "Delete",
+    DeleteConfirm: (name: string) => `Delete the user ${name}?`,
+    Forbidden: "Only admins can manage users",
+  },
   SearchChat: {
     Name: "Search",
     Page: {
@@ -648,6 +928,24 @@ const en: LocaleType = {
       Loading: "Loading...",
 
       SubTitle: (count: number) => `Found ${count} results`,
+      Indexing: "Indexing chat history",
+    },
+    Filter: {
+      AllMasks: "All Masks",
+      AllModels: "All Models",
+      AllRoles: "All Roles",
+      AnyTime: "Any Time",
+      Role: {
+        user: "User",
+        assistant: "Assistant",
+        system: "System",
+      },
+      Range: {
+        Day: "Past Day",
+        Week: "Past Week",
+        Month: "Past Month",
+        Year: "Past Year",
+      },
     },
     Item: {
       View: "View",
@@ -660,6 +958,7 @@ const en: LocaleType = {
       SubTitle: (count: number) => `${count} plugins`,
       Search: "Search Plugin",
       Create: "Create",
+      CreateMcp: "MCP Server",
       Find: "You can find awesome plugins on github: ",
     },
     Item: {
@@ -692,6 +991,42 @@ const en: LocaleType = {
       Load: "Load From URL",
       Method: "Method",
       Error: "OpenAPI Schema Error",
+      Policy: {
+        Title: "Tool Calls",
+        SubTitle: "Ask before running plugins that change external systems",
+        Auto: "Run Automatically",
+        Ask: "Ask for Approval",
+        Deny: "Never Run",
+      },
+      Mcp: {
+        Transport: "Transport",
+        Http: "Streamable HTTP",
+        Stdio: "Stdio (App only)",
+        Url: "Server URL",
+        Command: "Command",
+        CommandDescription:
+          "The app asks before it runs a command for the first time",
+        Tools: "Tools",
+        Connect: "Connect",
+        ConnectSuccess: "Tools loaded",
+        ConnectError: "Failed to connect to the MCP server",
+      },
+      CodeInterpreter: {
+        Timeout: "Time Limit (seconds)",
+        TimeoutDescription: "The sandbox is reset when a run takes longer",
+        MemoryLimit: "Memory Limit (MiB)",
+        MemoryLimitDescription:
+          "Python can not use more memory and the sandbox is reset when it tries, JavaScript is not limited",
+      },
+    },
+    SandboxFiles: {
+      Title: "Code Files",
+      SubTitle: (dir: string) =>
+        `Uploaded files can be read by the code interpreter, Python finds them in ${dir}. They are cleared when the page reloads`,
+      Upload: "Upload",
+      Empty: "No files uploaded yet",
+      Remove: "Remove",
+      TooLarge: (names: string) => `Files too large: ${names}`,
     },
   },
   Mask: {
@@ -701,6 +1036,12 @@ const en: LocaleType = {
       SubTitle: (count: number) => `${count} prompt templates`,
       Search: "Search Templates",
       Create: "Create",
+      Catalogs: "Catalogs",
+      Imported: (added: number, updated: number, skipped: number) =>
+        `Imported ${added} masks, updated ${updated}, skipped ${skipped}`,
+      ImportFailed: (error: string) => `Import failed: ${error}`,
+      Invalid: (errors: string[]) =>
+        `${errors.length} invalid masks: ${errors.join("; ")}`,
     },
     Item: {
       Info: (count: number) => `${count} prompts`,
@@ -709,6 +1050,8 @@ const en: LocaleType = {
       Edit: "Edit",
       Delete: "Delete",
       DeleteConfirm: "Confirm to delete?",
+      Update: (version: number) => `Update to v${version}`,
+      Author: (author: string) => `by ${author}`,
     },
     EditModal: {
       Title: (readonly: boolean) =>
@@ -719,6 +1062,12 @@ const en: LocaleType = {
     Config: {
       Avatar: "Bot Avatar",
       Name: "Bot Name",
+      Description: "Description",
+      Author: "Author",
+      Tags: {
+        Title: "Tags",
+        SubTitle: "Separate tags with commas",
+      },
       Sync: {
         Title: "Use Global Config",
         SubTitle: "Use global config in this chat",
@@ -743,6 +1092,69 @@ const en: LocaleType = {
         Action: "Copy Link",
       },
     },
+    Variables: {
+      Title: "Template Variables",
+      SubTitle:
+        "Filled in before the chat starts, use {{name}} in the context prompts",
+      Add: "Add Variable",
+      Name: "Name",
+      Label: "Label",
+      Type: "Type",
+      Types: {
+        text: "Text",
+        select: "Select",
+        number: "Number",
+        file: "File",
+      },
+      Options: "Options, separated by commas",
+      Default: "Default",
+      Required: "Required",
+      Delete: "Delete Variable",
+      InvalidName:
+        "Names have letters, digits and underscores and do not start with a digit",
+      Unused: (name: string) => `{{${name}}} is not used in the prompts`,
+      Form: {
+        Title: (name: string) => `Fill in "${name}"`,
+        Edit: "Edit Variables",
+        Start: "Start Chat",
+        Save: "Save",
+        Upload: "Choose File",
+        FileLoaded: (name: string, size: string) => `Loaded ${name} (${size})`,
+      },
+      Errors: {
+        required: "Required",
+        number: "Enter a number",
+        range: (min?: number, max?: number) =>
+          `Must be between ${min ?? "-∞"} and ${max ?? "∞"}`,
+        option: "Pick one of the options",
+        size: (limit: string) => `The file must be smaller than ${limit}`,
+      },
+    },
+    Catalog: {
+      Title: "Mask Catalogs",
+      SubTitle: "Subscribe to remote mask catalogs to browse and install masks",
+      Url: "Catalog URL, e.g. https://example.com/masks.json",
+      Subscribe: "Subscribe",
+      Subscribed: (name: string) => `Subscribed to ${name}`,
+      Refresh: "Refresh",
+      Unsubscribe: "Unsubscribe",
+      UnsubscribeConfirm:
+        "Confirm to unsubscribe? Installed masks are not deleted.",
+      Empty: "No catalogs subscribed yet",
+      NoMasks: "No masks found",
+      Search: "Search masks, authors or tags",
+      AllTags: "All Tags",
+      Install: "Install",
+      Installed: "Installed",
+      Update: (version: number) => `Update to v${version}`,
+      Info: (count: number, date: string) => `${count} masks, updated ${date}`,
+      Error: (error: string) => `Failed to load: ${error}`,
+      Invalid: (count: number) => `${count} invalid masks were skipped`,
+      Requires: {
+        Models: (models: string) => `Needs model ${models}`,
+        Plugins: (plugins: string) => `Needs plugin ${plugins}`,
+      },
+    },
   },
   NewChat: {
     Return: "Return",
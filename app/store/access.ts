@@ -2,6 +2,7 @@ import {
   GoogleSafetySettingsThreshold,
   ServiceProvider,
   StoreKey,
+  USER_TOKEN_PREFIX,
   ApiPath,
   OPENAI_BASE_URL,
   ANTHROPIC_BASE_URL,
@@ -16,12 +17,18 @@ import {
   XAI_BASE_URL,
   CHATGLM_BASE_URL,
 } from "../constant";
-import { getHeaders } from "../client/api";
+import { getBearerToken, getHeaders } from "../client/api";
 import { getClientConfig } from "../config/client";
 import { createPersistStore } from "../utils/store";
 import { ensure } from "../utils/clone";
 import { DEFAULT_CONFIG } from "./config";
 import { getModelProvider } from "../utils/model";
+import {
+  AccountError,
+  AccountSession,
+  AccountUser,
+  refreshSession,
+} from "../utils/account";
 
 let fetchState = 0; // 0 not fetch, 1 fetching, 2 done
 
@@ -124,6 +131,11 @@ const DEFAULT_ACCESS_STATE = {
   disableFastLink: false,
   customModels: "",
   defaultModel: "",
+  enableAccounts: false,
+
+  // user account
+  userToken: "",
+  user: undefined as AccountUser | undefined,
 
   // tts config
   edgeTTSVoiceName: "zh-CN-YunxiNeural",
@@ -136,7 +148,7 @@ export const useAccessStore = createPersistStore(
     enabledAccessControl() {
       this.fetch();
 
-      return get().needCode;
+      return get().needCode || get().enableAccounts;
     },
 
     edgeVoiceName() {
@@ -210,9 +222,47 @@ export const useAccessStore = createPersistStore(
         this.isValidXAI() ||
         this.isValidChatGLM() ||
         !this.enabledAccessControl() ||
-        (this.enabledAccessControl() && ensure(get(), ["accessCode"]))
+        (this.enabledAccessControl() && ensure(get(), ["accessCode"])) ||
+        (get().enableAccounts && this.isLoggedIn())
       );
     },
+
+    isLoggedIn() {
+      return ensure(get(), ["userToken"]);
+    },
+
+    isAdmin() {
+      return this.isLoggedIn() && get().user?.role === "admin";
+    },
+
+    login(session: AccountSession) {
+      set(() => ({ userToken: session.token, user: session.user }));
+      // fetch the config again to get the models of the user
+      fetchState = 0;
+      this.fetch();
+    },
+
+    logout() {
+      set(() => ({ userToken: "", user: undefined }));
+      fetchState = 0;
+      this.fetch();
+    },
+
+    // swap the token for a fresh one, drops it when the server rejects it
+    refreshSession() {
+      const token = get().userToken;
+      if (!token) return;
+      refreshSession(token)
+        .then((session) =>
+          set(() => ({ userToken: session.token, user: session.user })),
+        )
+        .catch((e) => {
+          console.error("[Account] failed to refresh session", e);
+          if (e instanceof AccountError && e.status === 401) {
+            set(() => ({ userToken: "", user: undefined }));
+          }
+        });
+    },
     fetch() {
       if (fetchState > 0 || getClientConfig()?.buildMode === "export") return;
       fetchState = 1;
@@ -221,6 +271,13 @@ export const useAccessStore = createPersistStore(
         body: null,
         headers: {
           ...getHeaders(),
+          ...(get().userToken
+            ? {
+                Authorization: getBearerToken(
+                  USER_TOKEN_PREFIX + get().userToken,
+                ),
+              }
+            : {}),
         },
       })
         .then((res) => res.json())
@@ -237,6 +294,9 @@ export const useAccessStore = createPersistStore(
         .then((res: DangerConfig) => {
           console.log("[Config] got config from server", res);
           set(() => ({ ...res }));
+          if (res.enableAccounts) {
+            this.refreshSession();
+          }
         })
         .catch(() => {
           console.error("[Config] failed to fetch config");
@@ -1,4 +1,4 @@
-import { getMessageTextContent, trimTopic } from "../utils";
+import { trimTopic } from "../utils";
 
 import { indexedDBStorage } from "@/app/utils/indexedDB-storage";
 import { nanoid } from "nanoid";
@@ -8,27 +8,46 @@ import type {
   RequestMessage,
 } from "../client/api";
 import { getClientApi } from "../client/api";
-import { ChatControllerPool } from "../client/controller";
+import { ChatControllerPool, ToolApprovalPool } from "../client/controller";
 import { showToast } from "../components/ui-lib";
 import {
   DEFAULT_INPUT_TEMPLATE,
   DEFAULT_MODELS,
   DEFAULT_SYSTEM_TEMPLATE,
   KnowledgeCutOffDate,
+  ModelTokenLimits,
   StoreKey,
   SUMMARIZE_MODEL,
   GEMINI_SUMMARIZE_MODEL,
   ServiceProvider,
 } from "../constant";
 import Locale, { getLang } from "../locales";
-import { isDalle3, safeLocalStorage } from "../utils";
+import { findModel, getModelCapabilities, safeLocalStorage } from "../utils";
 import { prettyObject } from "../utils/format";
 import { createPersistStore } from "../utils/store";
-import { estimateTokenLength } from "../utils/token";
+import { countMessageTokens } from "../utils/token-counter";
 import { ModelConfig, ModelType, useAppConfig } from "./config";
-import { useAccessStore } from "./access";
-import { collectModelsWithDefaultModel } from "../utils/model";
 import { createEmptyMask, Mask } from "./mask";
+import { ToolPolicy, usePluginStore } from "./plugin";
+import {
+  commitBranch,
+  deleteMessage,
+  linkMessages,
+  setActiveBranch,
+  switchBranch,
+} from "../utils/message-tree";
+import { planContext } from "../utils/context-budget";
+import {
+  fillMaskVariables,
+  getValidVariables,
+  MaskVariableValues,
+} from "../utils/mask-variables";
+import {
+  getImportId,
+  ImportedChat,
+  ImportedMessage,
+  planImport,
+} from "../utils/chat-import";
 
 const localStorage = safeLocalStorage();
 
@@ -41,8 +60,15 @@ export type ChatMessageTool = {
     arguments?: string;
   };
   content?: string;
+  // urls of the images a tool made, e.g. the charts of the code interpreter
+  images?: string[];
   isError?: boolean;
   errorMsg?: string;
+  approval?: "pending" | "approved" | "rejected";
+  // the round of the agent loop the call belongs to, starting from 1
+  step?: number;
+  startedAt?: number;
+  duration?: number;
 };
 
 export type ChatMessage = RequestMessage & {
@@ -50,6 +76,8 @@ export type ChatMessage = RequestMessage & {
   streaming?: boolean;
   isError?: boolean;
   id: string;
+  parentId?: string;
+  createdAt?: number;
   model?: ModelType;
   tools?: ChatMessageTool[];
   audio_url?: string;
@@ -59,6 +87,7 @@ export function createMessage(override: Partial<ChatMessage>): ChatMessage {
   return {
     id: nanoid(),
     date: new Date().toLocaleString(),
+    createdAt: Date.now(),
     role: "user",
     content: "",
     ...override,
@@ -76,11 +105,17 @@ export interface ChatSession {
   topic: string;
 
   memoryPrompt: string;
+  // the active branch, other branches of the message tree live in `branches`
   messages: ChatMessage[];
+  branches: ChatMessage[];
   stat: ChatStat;
   lastUpdate: number;
   lastSummarizeIndex: number;
   clearContextIndex?: number;
+  // source app and chat id of an imported session, see utils/chat-import
+  importId?: string;
+  // the values filled in for the variables of the mask
+  variables?: MaskVariableValues;
 
   mask: Mask;
 }
@@ -91,12 +126,13 @@ export const BOT_HELLO: ChatMessage = createMessage({
   content: Locale.Store.BotHello,
 });
 
-function createEmptySession(): ChatSession {
+export function createEmptySession(): ChatSession {
   return {
     id: nanoid(),
     topic: DEFAULT_TOPIC,
     memoryPrompt: "",
     messages: [],
+    branches: [],
     stat: {
       tokenCount: 0,
       wordCount: 0,
@@ -109,40 +145,58 @@ function createEmptySession(): ChatSession {
   };
 }
 
+// the context prompts of the mask with the variables of the session filled in
+export function getSessionContext(session: ChatSession): ChatMessage[] {
+  const variables = getValidVariables(session.mask.variables);
+  const fill = (text: string) =>
+    fillMaskVariables(text, variables, session.variables);
+  return session.mask.context.map((m) => ({
+    ...m,
+    content:
+      typeof m.content === "string"
+        ? fill(m.content)
+        : m.content.map((c) => (c.text ? { ...c, text: fill(c.text) } : c)),
+  }));
+}
+
+// cheaper models of the providers that summarize the chats of their other models
+const SummarizeModels: Record<string, string> = {
+  [ServiceProvider.OpenAI]: SUMMARIZE_MODEL,
+  [ServiceProvider.Azure]: SUMMARIZE_MODEL,
+  [ServiceProvider.Google]: GEMINI_SUMMARIZE_MODEL,
+};
+
 function getSummarizeModel(
   currentModel: string,
   providerName: string,
 ): string[] {
-  // if it is using gpt-* models, force to use 4o-mini to summarize
-  if (currentModel.startsWith("gpt") || currentModel.startsWith("chatgpt")) {
-    const configStore = useAppConfig.getState();
-    const accessStore = useAccessStore.getState();
-    const allModel = collectModelsWithDefaultModel(
-      configStore.models,
-      [configStore.customModels, accessStore.customModels].join(","),
-      accessStore.defaultModel,
-    );
-    const summarizeModel = allModel.find(
-      (m) => m.name === SUMMARIZE_MODEL && m.available,
-    );
-    if (summarizeModel) {
-      return [
-        summarizeModel.name,
-        summarizeModel.provider?.providerName as string,
-      ];
-    }
-  }
-  if (currentModel.startsWith("gemini")) {
-    return [GEMINI_SUMMARIZE_MODEL, ServiceProvider.Google];
+  const summarizeModel = SummarizeModels[providerName];
+  if (
+    summarizeModel &&
+    findModel(summarizeModel, providerName)?.available !== false
+  ) {
+    return [summarizeModel, providerName];
   }
   return [currentModel, providerName];
 }
 
-function countMessages(msgs: ChatMessage[]) {
-  return msgs.reduce(
-    (pre, cur) => pre + estimateTokenLength(getMessageTextContent(cur)),
-    0,
+function getModelTokenLimit(modelConfig: ModelConfig) {
+  const model = findModel(modelConfig.model, modelConfig.providerName);
+  // persisted model lists may predate the token limits
+  const limit = ModelTokenLimits[modelConfig.model] ?? ModelTokenLimits.default;
+  return {
+    contextWindow: model?.contextWindow ?? limit.contextWindow,
+    maxOutputTokens: model?.maxOutputTokens ?? limit.maxOutputTokens,
+  };
+}
+
+async function countMessages(msgs: ChatMessage[], modelConfig: ModelConfig) {
+  const counts = await countMessageTokens(
+    msgs,
+    modelConfig.model,
+    modelConfig.providerName,
   );
+  return counts.reduce((pre, cur) => pre + cur, 0);
 }
 
 function fillTemplateWith(input: string, modelConfig: ModelConfig) {
@@ -205,6 +259,123 @@ export const useChatStore = createPersistStore(
       };
     }
 
+    function requestBotMessage(
+      session: ChatSession,
+      sendMessages: ChatMessage[],
+      userMessage: ChatMessage,
+      botMessage: ChatMessage,
+    ) {
+      const modelConfig = session.mask.modelConfig;
+
+      const api: ClientApi = getClientApi(modelConfig.providerName);
+      // make request
+      api.llm.chat({
+        messages: sendMessages,
+        config: {
+          ...modelConfig,
+          stream: getModelCapabilities(
+            modelConfig.model,
+            modelConfig.providerName,
+          ).streaming,
+        },
+        onUpdate(message) {
+          botMessage.streaming = true;
+          if (message) {
+            botMessage.content = message;
+          }
+          get().updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat();
+          });
+        },
+        onFinish(message) {
+          botMessage.streaming = false;
+          if (message) {
+            botMessage.content = message;
+            botMessage.date = new Date().toLocaleString();
+            get().onNewMessage(botMessage, session);
+          }
+          ChatControllerPool.remove(session.id, botMessage.id);
+        },
+        onBeforeTool(tool: ChatMessageTool) {
+          (botMessage.tools = botMessage?.tools || []).push(tool);
+          get().updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat();
+          });
+        },
+        onAfterTool(tool: ChatMessageTool) {
+          botMessage?.tools?.forEach((t, i, tools) => {
+            if (tool.id == t.id) {
+              tools[i] = { ...t, ...tool };
+            }
+          });
+          get().updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat();
+          });
+        },
+        async onToolApproval(tool: ChatMessageTool, signal: AbortSignal) {
+          const policy = usePluginStore.getState().getToolPolicy(
+            session.mask?.plugin || [],
+            tool.function!.name,
+            // plugins turned on by a mask from a catalog
+            session.mask?.source?.plugins,
+          );
+          if (policy === ToolPolicy.Auto) {
+            return { approved: true };
+          }
+          if (policy === ToolPolicy.Deny) {
+            return { approved: false, reason: "tool is disabled" };
+          }
+
+          const updateTool = (update: Partial<ChatMessageTool>) => {
+            botMessage?.tools?.forEach((t, i, tools) => {
+              if (tool.id == t.id) {
+                tools[i] = { ...t, ...update };
+              }
+            });
+            get().updateTargetSession(session, (session) => {
+              session.messages = session.messages.concat();
+            });
+          };
+          updateTool({ approval: "pending" });
+          const approval = await ToolApprovalPool.wait(tool.id, signal);
+          updateTool({
+            approval: approval.approved ? "approved" : "rejected",
+            function: {
+              ...tool.function!,
+              arguments: approval.arguments ?? tool.function?.arguments,
+            },
+          });
+          return approval;
+        },
+        onError(error) {
+          const isAborted = error.message?.includes?.("aborted");
+          botMessage.content +=
+            "\n\n" +
+            prettyObject({
+              error: true,
+              message: error.message,
+            });
+          botMessage.streaming = false;
+          userMessage.isError = !isAborted;
+          botMessage.isError = !isAborted;
+          get().updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat();
+          });
+          ChatControllerPool.remove(session.id, botMessage.id);
+
+          console.error("[Chat] failed ", error);
+        },
+        onController(controller) {
+          // collect controller for stop/retry
+          ChatControllerPool.addController(
+            session.id,
+            botMessage.id,
+            controller,
+          );
+        },
+      });
+    }
+
     const methods = {
       forkSession() {
         // 获取当前会话
@@ -235,6 +406,60 @@ export const useChatStore = createPersistStore(
         }));
       },
 
+      // adds the chats of an export, see planImport for chats that were
+      // imported before
+      importSessions(chats: ImportedChat[]) {
+        const toMessage = (m: ImportedMessage) =>
+          createMessage({
+            id: m.id,
+            parentId: m.parentId,
+            role: m.role,
+            content: m.content,
+            model: m.model as ModelType | undefined,
+            createdAt: m.createdAt,
+            date: new Date(m.createdAt ?? Date.now()).toLocaleString(),
+            tools: m.tools,
+          });
+
+        set((state) => {
+          const sessions = [...state.sessions];
+          const currentId = sessions[state.currentSessionIndex]?.id;
+          const added: ChatSession[] = [];
+          chats.forEach((chat) => {
+            const action = planImport(sessions, chat);
+            if (action.type === "skip") return;
+
+            const existing =
+              action.type === "replace" ? action.session : undefined;
+            const session = existing ? { ...existing } : createEmptySession();
+            session.importId = getImportId(chat);
+            session.topic = chat.title || DEFAULT_TOPIC;
+            session.messages = chat.messages.map(toMessage);
+            session.branches = chat.branches.map(toMessage);
+            session.lastUpdate = chat.updatedAt;
+            session.lastSummarizeIndex = chat.lastSummarizeIndex ?? 0;
+            session.clearContextIndex = chat.clearContextIndex;
+            session.memoryPrompt = chat.memoryPrompt ?? "";
+
+            if (existing) {
+              sessions[sessions.indexOf(existing)] = session;
+            } else {
+              added.push(session);
+            }
+          });
+          added.sort((a, b) => b.lastUpdate - a.lastUpdate);
+
+          const newSessions = [...added, ...sessions];
+          return {
+            sessions: newSessions,
+            currentSessionIndex: Math.max(
+              0,
+              newSessions.findIndex((s) => s.id === currentId),
+            ),
+          };
+        });
+      },
+
       selectSession(index: number) {
         set({
           currentSessionIndex: index,
@@ -266,8 +491,9 @@ export const useChatStore = createPersistStore(
         });
       },
 
-      newSession(mask?: Mask) {
+      newSession(mask?: Mask, variables?: MaskVariableValues) {
         const session = createEmptySession();
+        session.variables = variables;
 
         if (mask) {
           const config = useAppConfig.getState();
@@ -386,20 +612,19 @@ export const useChatStore = createPersistStore(
         let userMessage: ChatMessage = createMessage({
           role: "user",
           content: mContent,
+          parentId: session.messages.at(-1)?.id,
         });
 
         const botMessage: ChatMessage = createMessage({
           role: "assistant",
           streaming: true,
           model: modelConfig.model,
+          parentId: userMessage.id,
         });
 
-        // get recent messages
-        const recentMessages = get().getMessagesWithMemory();
-        const sendMessages = recentMessages.concat(userMessage);
-        const messageIndex = session.messages.length + 1;
-
-        // save user's and bot's message
+        // save user's and bot's message before the context is planned, which
+        // may wait for the tokenizer, so they show up at once and a second
+        // send continues after them instead of branching off the same parent
         get().updateTargetSession(session, (session) => {
           const savedUserMessage = {
             ...userMessage,
@@ -411,75 +636,68 @@ export const useChatStore = createPersistStore(
           ]);
         });
 
-        const api: ClientApi = getClientApi(modelConfig.providerName);
-        // make request
-        api.llm.chat({
-          messages: sendMessages,
-          config: { ...modelConfig, stream: true },
-          onUpdate(message) {
-            botMessage.streaming = true;
-            if (message) {
-              botMessage.content = message;
-            }
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          onFinish(message) {
-            botMessage.streaming = false;
-            if (message) {
-              botMessage.content = message;
-              botMessage.date = new Date().toLocaleString();
-              get().onNewMessage(botMessage, session);
-            }
-            ChatControllerPool.remove(session.id, botMessage.id);
-          },
-          onBeforeTool(tool: ChatMessageTool) {
-            (botMessage.tools = botMessage?.tools || []).push(tool);
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          onAfterTool(tool: ChatMessageTool) {
-            botMessage?.tools?.forEach((t, i, tools) => {
-              if (tool.id == t.id) {
-                tools[i] = { ...tool };
-              }
-            });
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          onError(error) {
-            const isAborted = error.message?.includes?.("aborted");
-            botMessage.content +=
-              "\n\n" +
-              prettyObject({
-                error: true,
-                message: error.message,
-              });
-            botMessage.streaming = false;
-            userMessage.isError = !isAborted;
-            botMessage.isError = !isAborted;
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-            ChatControllerPool.remove(
-              session.id,
-              botMessage.id ?? messageIndex,
-            );
+        // get recent messages
+        const recentMessages = await get().getMessagesWithMemory(userMessage);
+        const sendMessages = recentMessages.concat(userMessage);
 
-            console.error("[Chat] failed ", error);
-          },
-          onController(controller) {
-            // collect controller for stop/retry
-            ChatControllerPool.addController(
-              session.id,
-              botMessage.id ?? messageIndex,
-              controller,
-            );
-          },
+        requestBotMessage(session, sendMessages, userMessage, botMessage);
+      },
+
+      // regenerate the reply of a user message as a new branch
+      async onRegenerate(userMessage: ChatMessage) {
+        const session = get().currentSession();
+        const index = session.messages.findIndex(
+          (m) => m.id === userMessage.id,
+        );
+        if (index < 0) {
+          console.error("[Chat] failed to find regenerating message");
+          return;
+        }
+
+        get().updateTargetSession(session, (session) => {
+          setActiveBranch(session, session.messages.slice(0, index + 1));
+          session.messages[index].isError = false;
+        });
+
+        const botMessage: ChatMessage = createMessage({
+          role: "assistant",
+          streaming: true,
+          model: session.mask.modelConfig.model,
+          parentId: userMessage.id,
+        });
+        const sendMessages = await get().getMessagesWithMemory();
+
+        get().updateTargetSession(session, (session) => {
+          session.messages = session.messages.concat(botMessage);
         });
+
+        requestBotMessage(
+          session,
+          sendMessages,
+          session.messages[index],
+          botMessage,
+        );
+      },
+
+      switchBranch(session: ChatSession, messageId: string) {
+        get().updateTargetSession(session, (session) =>
+          switchBranch(session, messageId),
+        );
+        get().updateTokenCount(session);
+      },
+
+      commitBranch(session: ChatSession, messages: ChatMessage[]) {
+        get().updateTargetSession(session, (session) =>
+          commitBranch(session, messages),
+        );
+        get().updateTokenCount(session);
+      },
+
+      deleteMessage(session: ChatSession, messageId: string) {
+        get().updateTargetSession(session, (session) =>
+          deleteMessage(session, messageId),
+        );
+        get().updateTokenCount(session);
       },
 
       getMemoryPrompt() {
@@ -494,21 +712,32 @@ export const useChatStore = createPersistStore(
         }
       },
 
-      getMessagesWithMemory() {
+      // plan the context of the next request, `pendingInput` is only budgeted
+      async planSessionContext(pendingInput?: ChatMessage) {
         const session = get().currentSession();
         const modelConfig = session.mask.modelConfig;
         const clearContextIndex = session.clearContextIndex ?? 0;
-        const messages = session.messages.slice();
-        const totalMessageCount = session.messages.length;
+        // only the active branch of the message tree is sent, an input that
+        // is already saved is planned as the input and not as history
+        const pendingIndex = pendingInput
+          ? session.messages.findIndex((m) => m.id === pendingInput.id)
+          : -1;
+        const messages =
+          pendingIndex < 0
+            ? session.messages.slice()
+            : session.messages.slice(0, pendingIndex);
+        const totalMessageCount = messages.length;
 
         // in-context prompts
-        const contextPrompts = session.mask.context.slice();
+        const contextPrompts = getSessionContext(session);
 
         // system prompts, to get close to OpenAI Web ChatGPT
         const shouldInjectSystemPrompts =
           modelConfig.enableInjectSystemPrompts &&
-          (session.mask.modelConfig.model.startsWith("gpt-") ||
-            session.mask.modelConfig.model.startsWith("chatgpt-"));
+          (modelConfig.providerName === ServiceProvider.OpenAI ||
+            modelConfig.providerName === ServiceProvider.Azure) &&
+          getModelCapabilities(modelConfig.model, modelConfig.providerName)
+            .systemRole;
 
         var systemPrompts: ChatMessage[] = [];
         systemPrompts = shouldInjectSystemPrompts
@@ -556,29 +785,49 @@ export const useChatStore = createPersistStore(
           : shortTermMemoryStartIndex;
         // and if user has cleared history messages, we should exclude the memory too.
         const contextStartIndex = Math.max(clearContextIndex, memoryStartIndex);
-        const maxTokenThreshold = modelConfig.max_tokens;
-
-        // get recent messages as much as possible
-        const reversedRecentMessages = [];
-        for (
-          let i = totalMessageCount - 1, tokenCount = 0;
-          i >= contextStartIndex && tokenCount < maxTokenThreshold;
-          i -= 1
-        ) {
-          const msg = messages[i];
-          if (!msg || msg.isError) continue;
-          tokenCount += estimateTokenLength(getMessageTextContent(msg));
-          reversedRecentMessages.push(msg);
-        }
-        // concat all messages
-        const recentMessages = [
-          ...systemPrompts,
-          ...longTermMemoryPrompts,
-          ...contextPrompts,
-          ...reversedRecentMessages.reverse(),
+        const historyMessages = messages
+          .slice(contextStartIndex)
+          .filter((m) => !m.isError);
+        const inputMessages = pendingInput ? [pendingInput] : [];
+
+        // count every part at once, the tokenizer runs in a worker
+        const parts = [
+          systemPrompts,
+          contextPrompts,
+          inputMessages,
+          longTermMemoryPrompts,
+          historyMessages,
         ];
+        const tokenCounts = await countMessageTokens(
+          parts.flat(),
+          modelConfig.model,
+          modelConfig.providerName,
+        );
+        let offset = 0;
+        const [system, context, input, memory, history] = parts.map((part) =>
+          part.map((message) => ({
+            message,
+            tokens: tokenCounts[offset++],
+          })),
+        );
 
-        return recentMessages;
+        return planContext({
+          ...getModelTokenLimit(modelConfig),
+          maxTokens: modelConfig.max_tokens,
+          system,
+          context,
+          input,
+          memory,
+          history,
+        });
+      },
+
+      async getMessagesWithMemory(pendingInput?: ChatMessage) {
+        return (await get().planSessionContext(pendingInput)).messages;
+      },
+
+      async getContextBudget() {
+        return (await get().planSessionContext()).budget;
       },
 
       updateMessage(
@@ -596,19 +845,23 @@ export const useChatStore = createPersistStore(
       resetSession(session: ChatSession) {
         get().updateTargetSession(session, (session) => {
           session.messages = [];
+          session.branches = [];
           session.memoryPrompt = "";
         });
       },
 
-      summarizeSession(
+      async summarizeSession(
         refreshTitle: boolean = false,
         targetSession: ChatSession,
       ) {
         const config = useAppConfig.getState();
         const session = targetSession;
         const modelConfig = session.mask.modelConfig;
-        // skip summarize when using dalle3?
-        if (isDalle3(modelConfig.model)) {
+        // skip summarize when using image models
+        if (
+          getModelCapabilities(modelConfig.model, modelConfig.providerName)
+            .imageOutput
+        ) {
           return;
         }
 
@@ -629,7 +882,8 @@ export const useChatStore = createPersistStore(
         if (
           (config.enableAutoGenerateTitle &&
             session.topic === DEFAULT_TOPIC &&
-            countMessages(messages) >= SUMMARIZE_MIN_LEN) ||
+            (await countMessages(messages, modelConfig)) >=
+              SUMMARIZE_MIN_LEN) ||
           refreshTitle
         ) {
           const startIndex = Math.max(
@@ -674,7 +928,10 @@ export const useChatStore = createPersistStore(
           .filter((msg) => !msg.isError)
           .slice(summarizeIndex);
 
-        const historyMsgLength = countMessages(toBeSummarizedMsgs);
+        const historyMsgLength = await countMessages(
+          toBeSummarizedMsgs,
+          modelConfig,
+        );
 
         if (historyMsgLength > (modelConfig?.max_tokens || 4000)) {
           const n = toBeSummarizedMsgs.length;
@@ -743,6 +1000,17 @@ export const useChatStore = createPersistStore(
           session.stat.charCount += message.content.length;
           // TODO: should update chat count and word count
         });
+        get().updateTokenCount(session);
+      },
+
+      async updateTokenCount(session: ChatSession) {
+        const tokenCount = await countMessages(
+          session.messages,
+          session.mask.modelConfig,
+        );
+        get().updateTargetSession(session, (session) => {
+          session.stat.tokenCount = tokenCount;
+        });
       },
       updateTargetSession(
         targetSession: ChatSession,
@@ -770,7 +1038,7 @@ export const useChatStore = createPersistStore(
   },
   {
     name: StoreKey.Chat,
-    version: 3.3,
+    version: 3.4,
     migrate(persistedState, version) {
       const state = persistedState as any;
       const newState = JSON.parse(
@@ -835,6 +1103,14 @@ export const useChatStore = createPersistStore(
         });
       }
 
+      // turn flat message lists into a single branch of the message tree
+      if (version < 3.4) {
+        newState.sessions.forEach((s) => {
+          linkMessages(s.messages);
+          s.branches = [];
+        });
+      }
+
       return newState as any;
     },
   },
@@ -3,6 +3,7 @@ import { DalleSize, DalleQuality, DalleStyle } from "../typing";
 import { getClientConfig } from "../config/client";
 import {
   DEFAULT_INPUT_TEMPLATE,
+  DEFAULT_MAX_TOOL_STEPS,
   DEFAULT_MODELS,
   DEFAULT_SIDEBAR_WIDTH,
   DEFAULT_TTS_ENGINE,
@@ -11,6 +12,7 @@ import {
   DEFAULT_TTS_MODELS,
   DEFAULT_TTS_VOICE,
   DEFAULT_TTS_VOICES,
+  DEFAULT_TOOL_TIMEOUT,
   StoreKey,
   ServiceProvider,
 } from "../constant";
@@ -81,6 +83,9 @@ export const DEFAULT_CONFIG = {
     size: "1024x1024" as DalleSize,
     quality: "standard" as DalleQuality,
     style: "vivid" as DalleStyle,
+    maxToolSteps: DEFAULT_MAX_TOOL_STEPS,
+    toolTimeout: DEFAULT_TOOL_TIMEOUT,
+    parallelToolCalls: true,
   },
 
   ttsConfig: {
@@ -159,6 +164,12 @@ export const ModalConfigValidator = {
   top_p(x: number) {
     return limitNumber(x, 0, 1, 1);
   },
+  maxToolSteps(x: number) {
+    return limitNumber(x, 1, 50, DEFAULT_MAX_TOOL_STEPS);
+  },
+  toolTimeout(x: number) {
+    return limitNumber(x, 1, 600, DEFAULT_TOOL_TIMEOUT);
+  },
 };
 
 export const useAppConfig = createPersistStore(
@@ -195,7 +206,7 @@ export const useAppConfig = createPersistStore(
   }),
   {
     name: StoreKey.Config,
-    version: 4.1,
+    version: 4.2,
 
     merge(persistedState, currentState) {
       const state = persistedState as ChatConfig | undefined;
@@ -255,6 +266,12 @@ export const useAppConfig = createPersistStore(
           DEFAULT_CONFIG.modelConfig.compressProviderName;
       }
 
+      if (version < 4.2) {
+        state.modelConfig.maxToolSteps = DEFAULT_MAX_TOOL_STEPS;
+        state.modelConfig.toolTimeout = DEFAULT_TOOL_TIMEOUT;
+        state.modelConfig.parallelToolCalls = true;
+      }
+
       return state as any;
     },
   },
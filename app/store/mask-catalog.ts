@@ -0,0 +1,112 @@
+import { StoreKey } from "../constant";
+import { createPersistStore } from "../utils/store";
+import {
+  MaskPackage,
+  MaskPackageError,
+  parseMaskPackage,
+} from "../utils/mask-package";
+
+// a remote mask package the user subscribed to
+export interface MaskCatalog {
+  url: string;
+  package?: MaskPackage;
+  // the masks of the package that failed the validation
+  invalid: string[];
+  error?: string;
+  fetchedAt: number;
+}
+
+// catalogs are fetched again when the mask page opens after this
+export const MASK_CATALOG_TTL = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MASK_CATALOG_STATE = {
+  catalogs: [] as MaskCatalog[],
+};
+
+// fetches through the proxy of the deployment when the catalog has no cors
+async function fetchCatalog(url: string) {
+  const res = await fetch(url, { cache: "no-cache" }).catch(() => {
+    const p = new URL(url);
+    return fetch(`/api/proxy${p.pathname}${p.search}`, {
+      headers: { "X-Base-URL": p.origin },
+    });
+  });
+  if (!res.ok) {
+    throw new MaskPackageError(`${res.status} ${res.statusText}`);
+  }
+  return parseMaskPackage(await res.text());
+}
+
+export const useMaskCatalogStore = createPersistStore(
+  DEFAULT_MASK_CATALOG_STATE,
+  (set, _get) => {
+    function get() {
+      return {
+        ..._get(),
+        ...methods,
+      };
+    }
+
+    const methods = {
+      // fetches a catalog and keeps the last good copy when that fails
+      async refresh(url: string) {
+        const previous = get().catalogs.find((c) => c.url === url);
+        let catalog: MaskCatalog;
+        try {
+          const parsed = await fetchCatalog(url);
+          catalog = {
+            url,
+            package: parsed.package,
+            invalid: parsed.errors,
+            fetchedAt: Date.now(),
+          };
+        } catch (e) {
+          console.error("[Mask Catalog] failed to fetch", url, e);
+          catalog = {
+            url,
+            package: previous?.package,
+            invalid: previous?.invalid ?? [],
+            error: (e as Error).message,
+            fetchedAt: Date.now(),
+          };
+        }
+        // a new url that fails is not added
+        if (previous || !catalog.error) {
+          set({
+            catalogs: previous
+              ? get().catalogs.map((c) => (c.url === url ? catalog : c))
+              : [...get().catalogs, catalog],
+          });
+        }
+        return catalog;
+      },
+
+      // throws when the url is no catalog, so nothing broken is subscribed
+      async subscribe(url: string) {
+        url = new URL(url.trim()).toString();
+        const catalog = await get().refresh(url);
+        if (catalog.error) throw new MaskPackageError(catalog.error);
+        return catalog;
+      },
+
+      unsubscribe(url: string) {
+        set({ catalogs: get().catalogs.filter((c) => c.url !== url) });
+      },
+
+      async refreshStale() {
+        const stale = get().catalogs.filter(
+          (c) => Date.now() - c.fetchedAt > MASK_CATALOG_TTL,
+        );
+        for (const catalog of stale) {
+          await get().refresh(catalog.url);
+        }
+      },
+    };
+
+    return methods;
+  },
+  {
+    name: StoreKey.MaskCatalog,
+    version: 1,
+  },
+);
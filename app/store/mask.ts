@@ -5,10 +5,21 @@ import { ModelConfig, useAppConfig } from "./config";
 import { StoreKey } from "../constant";
 import { nanoid } from "nanoid";
 import { createPersistStore } from "../utils/store";
+import {
+  findInstalledMask,
+  hasMaskUpdate,
+  MaskPackage,
+  MaskPackageItem,
+  MaskSource,
+  packageItemToMask,
+} from "../utils/mask-package";
+import type { MaskVariable } from "../utils/mask-variables";
 
 export type Mask = {
   id: string;
   createdAt: number;
+  // revision time used by the sync to pick the newer copy
+  updatedAt?: number;
   avatar: string;
   name: string;
   hideContext?: boolean;
@@ -20,6 +31,13 @@ export type Mask = {
   plugin?: string[];
   enableArtifacts?: boolean;
   enableCodeFold?: boolean;
+  description?: string;
+  author?: string;
+  tags?: string[];
+  // set for masks installed from a package or a catalog
+  source?: MaskSource;
+  // asked for when a chat starts, see utils/mask-variables
+  variables?: MaskVariable[];
 };
 
 export const DEFAULT_MASK_STATE = {
@@ -49,69 +67,136 @@ export const createEmptyMask = () =>
 export const useMaskStore = createPersistStore(
   { ...DEFAULT_MASK_STATE },
 
-  (set, get) => ({
-    create(mask?: Partial<Mask>) {
-      const masks = get().masks;
-      const id = nanoid();
-      masks[id] = {
-        ...createEmptyMask(),
-        ...mask,
-        id,
-        builtin: false,
+  (set, _get) => {
+    function get() {
+      return {
+        ..._get(),
+        ...methods,
       };
+    }
 
-      set(() => ({ masks }));
-      get().markUpdate();
+    const methods = {
+      create(mask?: Partial<Mask>) {
+        const masks = get().masks;
+        const id = nanoid();
+        masks[id] = {
+          ...createEmptyMask(),
+          ...mask,
+          id,
+          builtin: false,
+        };
 
-      return masks[id];
-    },
-    updateMask(id: string, updater: (mask: Mask) => void) {
-      const masks = get().masks;
-      const mask = masks[id];
-      if (!mask) return;
-      const updateMask = { ...mask };
-      updater(updateMask);
-      masks[id] = updateMask;
-      set(() => ({ masks }));
-      get().markUpdate();
-    },
-    delete(id: string) {
-      const masks = get().masks;
-      delete masks[id];
-      set(() => ({ masks }));
-      get().markUpdate();
-    },
+        set(() => ({ masks }));
+        get().markUpdate();
 
-    get(id?: string) {
-      return get().masks[id ?? 1145141919810];
-    },
-    getAll() {
-      const userMasks = Object.values(get().masks).sort(
-        (a, b) => b.createdAt - a.createdAt,
-      );
-      const config = useAppConfig.getState();
-      if (config.hideBuiltinMasks) return userMasks;
-      const buildinMasks = BUILTIN_MASKS.map(
-        (m) =>
-          ({
-            ...m,
-            modelConfig: {
-              ...config.modelConfig,
-              ...m.modelConfig,
-            },
-          }) as Mask,
-      );
-      return userMasks.concat(buildinMasks);
-    },
-    search(text: string) {
-      return Object.values(get().masks);
-    },
-    setLanguage(language: Lang | undefined) {
-      set({
-        language,
-      });
-    },
-  }),
+        return masks[id];
+      },
+      // creates a mask from a package item, its model config goes on top of
+      // the global one
+      install(item: MaskPackageItem, catalog?: string) {
+        const { modelConfig, ...mask } = packageItemToMask(item, catalog);
+        return get().create({
+          ...mask,
+          modelConfig: {
+            ...useAppConfig.getState().modelConfig,
+            ...modelConfig,
+          },
+        });
+      },
+      // replaces an installed mask with a newer version of its package item
+      upgrade(id: string, item: MaskPackageItem, catalog?: string) {
+        const masks = get().masks;
+        const mask = masks[id];
+        if (!mask) return;
+        const { modelConfig, ...fields } = packageItemToMask(
+          item,
+          catalog ?? mask.source?.catalog,
+        );
+        masks[id] = {
+          ...mask,
+          ...fields,
+          modelConfig: {
+            ...useAppConfig.getState().modelConfig,
+            ...modelConfig,
+          },
+          // not a local edit, exporting it keeps the version of the package
+          updatedAt: fields.source?.installedAt,
+        };
+        set(() => ({ masks }));
+        get().markUpdate();
+      },
+      /**
+       * Installs the masks of a package, masks installed before are upgraded
+       * when the package has a newer version and skipped otherwise.
+       */
+      importPackage(pkg: MaskPackage, catalog?: string) {
+        const result = { added: 0, updated: 0, skipped: 0 };
+        const masks = Object.values(get().masks);
+        pkg.masks.forEach((item) => {
+          const installed = findInstalledMask(masks, item);
+          if (!installed) {
+            get().install(item, catalog);
+            result.added += 1;
+          } else if (hasMaskUpdate(installed, item)) {
+            get().upgrade(installed.id, item, catalog);
+            result.updated += 1;
+          } else {
+            result.skipped += 1;
+          }
+        });
+        return result;
+      },
+      updateMask(id: string, updater: (mask: Mask) => void) {
+        const masks = get().masks;
+        const mask = masks[id];
+        if (!mask) return;
+        const updateMask = { ...mask };
+        updater(updateMask);
+        updateMask.updatedAt = Date.now();
+        masks[id] = updateMask;
+        set(() => ({ masks }));
+        get().markUpdate();
+      },
+      delete(id: string) {
+        const masks = get().masks;
+        delete masks[id];
+        set(() => ({ masks }));
+        get().markUpdate();
+      },
+
+      get(id?: string) {
+        return get().masks[id ?? 1145141919810];
+      },
+      getAll() {
+        const userMasks = Object.values(get().masks).sort(
+          (a, b) => b.createdAt - a.createdAt,
+        );
+        const config = useAppConfig.getState();
+        if (config.hideBuiltinMasks) return userMasks;
+        const buildinMasks = BUILTIN_MASKS.map(
+          (m) =>
+            ({
+              ...m,
+              modelConfig: {
+                ...config.modelConfig,
+                ...m.modelConfig,
+              },
+            }) as Mask,
+        );
+        return userMasks.concat(buildinMasks);
+      },
+      search(text: string) {
+        return Object.values(get().masks);
+      },
+      setLanguage(language: Lang | undefined) {
+        set({
+          language,
+        });
+      },
+    };
+
+    return methods;
+  },
   {
     name: StoreKey.Mask,
     version: 3.1,
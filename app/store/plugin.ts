@@ -6,11 +6,40 @@ import { getClientConfig } from "../config/client";
 import yaml from "js-yaml";
 import { adapter, getOperationId } from "../utils";
 import { useAccessStore } from "./access";
+import {
+  closeMcpClient,
+  getMcpClient,
+  getMcpFunctionTools,
+  McpServerConfig,
+} from "../utils/mcp";
+import {
+  CodeInterpreterConfig,
+  DEFAULT_CODE_INTERPRETER_CONFIG,
+  getCodeInterpreterTools,
+} from "../utils/code-interpreter";
 
 const isApp = getClientConfig()?.isApp !== false;
 
+export enum PluginType {
+  OpenAPI = "openapi",
+  MCP = "mcp",
+  // runs python and javascript in the browser
+  CodeInterpreter = "code-interpreter",
+}
+
+export const CODE_INTERPRETER_PLUGIN_ID = "code-interpreter";
+
+// whether the tool calls of a plugin run right away, wait for the user or never run
+export enum ToolPolicy {
+  Auto = "auto",
+  Ask = "ask",
+  Deny = "deny",
+}
+
 export type Plugin = {
   id: string;
+  // plugins without a type are OpenAPI schemas
+  type?: PluginType;
   createdAt: number;
   title: string;
   version: string;
@@ -20,6 +49,9 @@ export type Plugin = {
   authLocation?: string;
   authHeader?: string;
   authToken?: string;
+  mcp?: McpServerConfig;
+  codeInterpreter?: CodeInterpreterConfig;
+  toolPolicy?: ToolPolicy;
 };
 
 export type FunctionToolItem = {
@@ -32,25 +64,65 @@ export type FunctionToolItem = {
 };
 
 type FunctionToolServiceItem = {
-  api: OpenAPIClientAxios;
+  api?: OpenAPIClientAxios;
   length: number;
   tools: FunctionToolItem[];
   funcs: Record<string, Function>;
 };
 
+type OpenAPIToolServiceItem = FunctionToolServiceItem & {
+  api: OpenAPIClientAxios;
+};
+
+function getPluginAuth(plugin: Plugin) {
+  const headerName = (
+    plugin?.authType == "custom" ? plugin?.authHeader : "Authorization"
+  ) as string;
+  const tokenValue =
+    plugin?.authType == "basic"
+      ? `Basic ${plugin?.authToken}`
+      : plugin?.authType == "bearer"
+      ? `Bearer ${plugin?.authToken}`
+      : plugin?.authToken;
+  return { headerName, tokenValue };
+}
+
+// MCP servers only support authentication through a header
+function getMcpHeaders(plugin: Plugin): Record<string, string> {
+  const { headerName, tokenValue } = getPluginAuth(plugin);
+  return tokenValue ? { [headerName]: tokenValue } : {};
+}
+
 export const FunctionToolService = {
   tools: {} as Record<string, FunctionToolServiceItem>,
-  add(plugin: Plugin, replace = false) {
+  add(plugin: Plugin, replace = false): FunctionToolServiceItem {
+    if (plugin.type === PluginType.CodeInterpreter) {
+      return this.addCodeInterpreter(plugin, replace);
+    }
+    return plugin.type === PluginType.MCP
+      ? this.addMcp(plugin, replace)
+      : this.addOpenAPI(plugin, replace);
+  },
+  addCodeInterpreter(plugin: Plugin, replace = false) {
     if (!replace && this.tools[plugin.id]) return this.tools[plugin.id];
-    const headerName = (
-      plugin?.authType == "custom" ? plugin?.authHeader : "Authorization"
-    ) as string;
-    const tokenValue =
-      plugin?.authType == "basic"
-        ? `Basic ${plugin?.authToken}`
-        : plugin?.authType == "bearer"
-        ? `Bearer ${plugin?.authToken}`
-        : plugin?.authToken;
+    return (this.tools[plugin.id] = getCodeInterpreterTools(
+      plugin.codeInterpreter,
+    ));
+  },
+  addMcp(plugin: Plugin, replace = false) {
+    if (!replace && this.tools[plugin.id]) return this.tools[plugin.id];
+    const config = plugin.mcp as McpServerConfig;
+    const headers = getMcpHeaders(plugin);
+    return (this.tools[plugin.id] = getMcpFunctionTools(
+      plugin.id,
+      config,
+      headers,
+    ));
+  },
+  addOpenAPI(plugin: Plugin, replace = false) {
+    if (!replace && this.tools[plugin.id])
+      return this.tools[plugin.id] as OpenAPIToolServiceItem;
+    const { headerName, tokenValue } = getPluginAuth(plugin);
     const authLocation = plugin?.authLocation || "header";
     const definition = yaml.load(plugin.content) as any;
     const serverURL = definition?.servers?.[0]?.url;
@@ -124,7 +196,7 @@ export const FunctionToolService = {
       }),
       funcs: operations.reduce((s, o) => {
         // @ts-ignore
-        s[getOperationId(o)] = function (args) {
+        s[getOperationId(o)] = function (args, signal?: AbortSignal) {
           const parameters: Record<string, any> = {};
           if (o.parameters instanceof Array) {
             o.parameters.forEach((p) => {
@@ -140,11 +212,10 @@ export const FunctionToolService = {
             args[headerName] = tokenValue;
           }
           // @ts-ignore if o.operationId is null, then using o.path and o.method
-          return api.client.paths[o.path][o.method](
-            parameters,
-            args,
-            api.axiosConfigDefaults,
-          );
+          return api.client.paths[o.path][o.method](parameters, args, {
+            ...api.axiosConfigDefaults,
+            signal,
+          });
         };
         return s;
       }, {}),
@@ -202,10 +273,50 @@ export const usePluginStore = createPersistStore(
     delete(id: string) {
       const plugins = get().plugins;
       delete plugins[id];
+      closeMcpClient(id);
       set(() => ({ plugins }));
       get().markUpdate();
     },
 
+    // connect to a MCP server and save its info and tools on the plugin
+    async refreshMcpTools(id: string) {
+      const plugin = get().plugins[id];
+      if (!plugin?.mcp) return;
+      const { client, serverInfo } = await getMcpClient(
+        id,
+        plugin.mcp,
+        getMcpHeaders(plugin),
+      );
+      const tools = await client.listTools();
+      const plugins = get().plugins;
+      if (!plugins[id]) return;
+      plugins[id] = {
+        ...plugins[id],
+        mcp: { ...plugins[id].mcp!, tools },
+        title: serverInfo.name,
+        version: serverInfo.version,
+      };
+      FunctionToolService.add(plugins[id], true);
+      set(() => ({ plugins }));
+      get().markUpdate();
+    },
+
+    // plugins in `askIds` wait for approval even when they would run right away
+    getToolPolicy(ids: string[], name: string, askIds: string[] = []) {
+      const plugin = (ids || [])
+        .map((id) => get().plugins[id])
+        .find(
+          (p) =>
+            p &&
+            FunctionToolService.add(p).tools.some(
+              (t) => t.function.name === name,
+            ),
+        );
+      const policy = plugin?.toolPolicy ?? ToolPolicy.Auto;
+      return policy === ToolPolicy.Auto && plugin && askIds.includes(plugin.id)
+        ? ToolPolicy.Ask
+        : policy;
+    },
     getAsTools(ids: string[]) {
       const plugins = get().plugins;
       const selected = (ids || [])
@@ -236,6 +347,18 @@ export const usePluginStore = createPersistStore(
         return;
       }
 
+      if (!state.get(CODE_INTERPRETER_PLUGIN_ID)) {
+        state.create({
+          id: CODE_INTERPRETER_PLUGIN_ID,
+          type: PluginType.CodeInterpreter,
+          title: "Code Interpreter",
+          codeInterpreter: DEFAULT_CODE_INTERPRETER_CONFIG,
+        });
+        state.updatePlugin(CODE_INTERPRETER_PLUGIN_ID, (plugin) => {
+          plugin.builtin = true;
+        });
+      }
+
       fetch("./plugins.json")
         .then((res) => res.json())
         .then((res) => {
@@ -258,7 +381,7 @@ export const usePluginStore = createPersistStore(
               .forEach((item: any) => {
                 const plugin = state.create(item);
                 state.updatePlugin(plugin.id, (plugin) => {
-                  const tool = FunctionToolService.add(plugin, true);
+                  const tool = FunctionToolService.addOpenAPI(plugin, true);
                   plugin.title = tool.api.definition.info.title;
                   plugin.version = tool.api.definition.info.version;
                   plugin.builtin = true;
@@ -10,6 +10,8 @@ export interface Prompt {
   title: string;
   content: string;
   createdAt: number;
+  // revision time used by the sync to pick the newer copy
+  updatedAt?: number;
 }
 
 export const SearchService = {
@@ -116,6 +118,7 @@ export const usePromptStore = createPersistStore(
 
       SearchService.remove(id);
       updater(prompt);
+      prompt.updatedAt = Date.now();
       const prompts = get().prompts;
       prompts[id] = prompt;
       set(() => ({ prompts }));
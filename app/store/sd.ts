@@ -2,6 +2,7 @@ import {
   Stability,
   StoreKey,
   ACCESS_CODE_PREFIX,
+  USER_TOKEN_PREFIX,
   ApiPath,
 } from "@/app/constant";
 import { getBearerToken } from "@/app/client/api";
@@ -70,7 +71,11 @@ export const useSdStore = createPersistStore<
           prefix = accessStore.stabilityUrl || (ApiPath.Stability as string);
           bearerToken = getBearerToken(accessStore.stabilityApiKey);
         }
-        if (!bearerToken && accessStore.enabledAccessControl()) {
+        if (!bearerToken && accessStore.isLoggedIn()) {
+          bearerToken = getBearerToken(
+            USER_TOKEN_PREFIX + accessStore.userToken,
+          );
+        } else if (!bearerToken && accessStore.enabledAccessControl()) {
           bearerToken = getBearerToken(
             ACCESS_CODE_PREFIX + accessStore.accessCode,
           );
@@ -0,0 +1,100 @@
+import { ApiPath, StoreKey } from "../constant";
+import { getHeaders } from "../client/api";
+import { getMessageTextContent } from "../utils";
+import { createPersistStore } from "../utils/store";
+import {
+  isShareExpired,
+  SharedChat,
+  SharedMessage,
+  ShareRequest,
+  SHARE_TTL_OPTIONS,
+} from "../utils/share";
+import type { ChatMessage, ChatSession } from "./chat";
+
+// a link published from this device, the token revokes it
+export interface ShareLink {
+  id: string;
+  token: string;
+  sessionId: string;
+  title: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+const DEFAULT_SHARE_STATE = {
+  links: [] as ShareLink[],
+  // seconds, the last expiry picked when publishing
+  ttl: SHARE_TTL_OPTIONS[1],
+};
+
+async function readError(res: Response) {
+  const body = await res.json().catch(() => undefined);
+  return Error(body?.msg ?? `${res.status} ${res.statusText}`);
+}
+
+export const useShareStore = createPersistStore(
+  DEFAULT_SHARE_STATE,
+  (set, get) => ({
+    async publish(session: ChatSession, messages: ChatMessage[], ttl: number) {
+      const request: ShareRequest = {
+        title: session.topic,
+        avatar: session.mask.avatar,
+        messages: messages.map((m) => ({
+          role: m.role as SharedMessage["role"],
+          content: getMessageTextContent(m),
+          date: m.date,
+          createdAt: m.createdAt,
+          model: m.model,
+        })),
+        ttl,
+      };
+      const res = await fetch(ApiPath.Share, {
+        method: "POST",
+        headers: getHeaders(),
+        body: JSON.stringify(request),
+      });
+      if (!res.ok) throw await readError(res);
+
+      const { id, token, createdAt, expiresAt } = await res.json();
+      const link: ShareLink = {
+        id,
+        token,
+        sessionId: session.id,
+        title: session.topic,
+        createdAt,
+        expiresAt,
+      };
+      set({ links: [link, ...get().links], ttl });
+      return link;
+    },
+
+    async revoke(id: string) {
+      const link = get().links.find((l) => l.id === id);
+      if (!link) return;
+      const res = await fetch(`${ApiPath.Share}/${id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${link.token}` },
+      });
+      // a share that is gone on the server is forgotten too
+      if (!res.ok && res.status !== 404) throw await readError(res);
+      set({ links: get().links.filter((l) => l.id !== id) });
+    },
+
+    // the links of a session that did not expire yet
+    getLinks(sessionId: string) {
+      return get().links.filter(
+        (l) => l.sessionId === sessionId && !isShareExpired(l),
+      );
+    },
+  }),
+  {
+    name: StoreKey.Share,
+    version: 1,
+  },
+);
+
+export async function fetchSharedChat(id: string) {
+  const res = await fetch(`${ApiPath.Share}/${id}`);
+  if (!res.ok) throw await readError(res);
+  return (await res.json()) as SharedChat;
+}
@@ -2,16 +2,30 @@ import { getClientConfig } from "../config/client";
 import { ApiPath, STORAGE_KEY, StoreKey } from "../constant";
 import { createPersistStore } from "../utils/store";
 import {
-  AppState,
+  applyRemoteConflicts,
   getLocalAppState,
   GetStoreState,
   mergeAppState,
+  omitSecrets,
   setLocalAppState,
+  SYNC_META_KEY,
+  SyncedAppState,
 } from "../utils/sync";
-import { downloadAs, readFromFile } from "../utils";
-import { showToast } from "../components/ui-lib";
-import Locale from "../locales";
+import { SyncConflict } from "../utils/sync-merge";
+import { pullRemoteState, pushLocalState } from "../utils/sync-delta";
+import { reportSyncStatus, withSyncLock } from "../utils/sync-scheduler";
+import { get as idbGet, set as idbSet, del as idbDel } from "idb-keyval";
+import { downloadAs } from "../utils";
 import { createSyncClient, ProviderType } from "../utils/cloud";
+import {
+  BackupMode,
+  BackupOptions,
+  BackupState,
+  DEFAULT_BACKUP_STORES,
+  pickBackupState,
+  replaceAppState,
+} from "../utils/backup";
+import { createEmptySession } from "./chat";
 
 export interface WebDavConfig {
   server: string;
@@ -20,6 +34,32 @@ export interface WebDavConfig {
 }
 
 const isApp = !!getClientConfig()?.isApp;
+
+// the state of the last sync is the base of the three-way merge, the remote
+// state of a sync with conflicts becomes the base once they are resolved
+const SYNC_BASE_KEY = `${StoreKey.Sync}-base`;
+const SYNC_PENDING_KEY = `${StoreKey.Sync}-pending`;
+
+async function loadState(key: string) {
+  try {
+    const value = await idbGet(key);
+    return value ? (JSON.parse(value) as SyncedAppState) : undefined;
+  } catch (e) {
+    console.error("[Sync] failed to load", key, e);
+  }
+}
+
+async function saveState(key: string, state?: SyncedAppState) {
+  try {
+    if (state) {
+      await idbSet(key, JSON.stringify(state));
+    } else {
+      await idbDel(key);
+    }
+  } catch (e) {
+    console.error("[Sync] failed to save", key, e);
+  }
+}
 export type SyncStore = GetStoreState<typeof useSyncStore>;
 
 const DEFAULT_SYNC_STATE = {
@@ -39,15 +79,52 @@ const DEFAULT_SYNC_STATE = {
     apiKey: "",
   },
 
+  // any S3-compatible store, e.g. AWS S3, Cloudflare R2 or MinIO
+  s3: {
+    endpoint: "",
+    region: "us-east-1",
+    bucket: "",
+    folder: STORAGE_KEY,
+    accessKeyId: "",
+    secretAccessKey: "",
+  },
+
+  // desktop app only
+  localfolder: {
+    path: "",
+  },
+
+  // the passphrase never leaves this device
+  encryption: {
+    enabled: false,
+    passphrase: "",
+  },
+  // keep api keys and access codes out of the synced state
+  excludeSecrets: false,
+
+  // background sync, the intervals are off when 0
+  autoSync: {
+    enabled: false,
+    onFocus: true,
+    messageInterval: 10,
+    // minutes
+    timeInterval: 15,
+  },
+
   lastSyncTime: 0,
   lastProvider: "",
+
+  // conflicts of the last sync waiting for the user
+  conflicts: [] as SyncConflict[],
 };
 
 export const useSyncStore = createPersistStore(
   DEFAULT_SYNC_STATE,
   (set, get) => ({
     cloudSync() {
-      const config = get()[get().provider];
+      const provider = get().provider;
+      if (provider === ProviderType.LocalFolder && !isApp) return false;
+      const config = get()[provider];
       return Object.values(config).every((c) => c.toString().length > 0);
     },
 
@@ -55,8 +132,9 @@ export const useSyncStore = createPersistStore(
       set({ lastSyncTime: Date.now(), lastProvider: get().provider });
     },
 
-    export() {
-      const state = getLocalAppState();
+    // downloads the chosen stores, the access store is left out by default
+    export(options: BackupOptions = { stores: DEFAULT_BACKUP_STORES }) {
+      const state = pickBackupState(getLocalAppState(), options);
       const datePart = isApp
         ? `${new Date().toLocaleDateString().replace(/\//g, "_")} ${new Date()
             .toLocaleTimeString()
@@ -67,18 +145,27 @@ export const useSyncStore = createPersistStore(
       downloadAs(JSON.stringify(state), fileName);
     },
 
-    async import() {
-      const rawContent = await readFromFile();
-
-      try {
-        const remoteState = JSON.parse(rawContent) as AppState;
-        const localState = getLocalAppState();
-        mergeAppState(localState, remoteState);
+    /**
+     * Applies the chosen stores of a backup. A merge works like a sync with
+     * no common base, so conflicts keep the local side, a replace drops the
+     * local records of those stores.
+     */
+    importBackup(
+      backup: BackupState,
+      options: BackupOptions,
+      mode: BackupMode,
+    ) {
+      const picked = pickBackupState(backup, options);
+      const localState = getLocalAppState();
+      if (mode === "replace") {
+        const state = replaceAppState(localState, picked);
+        if (state[StoreKey.Chat].sessions.length === 0) {
+          state[StoreKey.Chat].sessions = [createEmptySession()];
+        }
+        setLocalAppState(state);
+      } else {
+        mergeAppState(localState, picked as SyncedAppState);
         setLocalAppState(localState);
-        location.reload();
-      } catch (e) {
-        console.error("[Import]", e);
-        showToast(Locale.Settings.Sync.ImportFailed);
       }
     },
 
@@ -88,37 +175,128 @@ export const useSyncStore = createPersistStore(
       return client;
     },
 
-    async sync() {
-      const localState = getLocalAppState();
-      const provider = get().provider;
-      const config = get()[provider];
+    /**
+     * Syncs unless another tab is syncing, a manual sync waits for it and an
+     * automatic one (`wait` false) is skipped. Returns whether it ran.
+     */
+    async sync(wait = true) {
+      return await withSyncLock(async () => {
+        reportSyncStatus("syncing");
+        try {
+          await this.syncState();
+        } catch (e) {
+          reportSyncStatus(e instanceof Error ? e : Error(String(e)));
+          throw e;
+        }
+        reportSyncStatus(get().conflicts.length > 0 ? "conflict" : "success");
+      }, wait);
+    },
+
+    async syncState() {
+      const localState: SyncedAppState = getLocalAppState();
       const client = this.getClient();
+      const uploadState = (state: SyncedAppState) =>
+        get().excludeSecrets ? omitSecrets(state) : state;
 
+      const baseState = await loadState(SYNC_BASE_KEY);
+      let remote: Awaited<ReturnType<typeof pullRemoteState>>;
       try {
-        const remoteState = await client.get(config.username);
-        if (!remoteState || remoteState === "") {
-          await client.set(config.username, JSON.stringify(localState));
-          console.log(
-            "[Sync] Remote state is empty, using local state instead.",
-          );
-          return;
-        } else {
-          const parsedRemoteState = JSON.parse(
-            await client.get(config.username),
-          ) as AppState;
-          mergeAppState(localState, parsedRemoteState);
-          setLocalAppState(localState);
-        }
+        remote = await pullRemoteState(client, baseState);
       } catch (e) {
         console.log("[Sync] failed to get remote state", e);
         throw e;
       }
 
-      await client.set(config.username, JSON.stringify(localState));
+      if (!remote.state) {
+        console.log("[Sync] Remote state is empty, using local state instead.");
+      } else {
+        const { meta, conflicts } = mergeAppState(
+          localState,
+          remote.state,
+          baseState,
+        );
+        localState[SYNC_META_KEY] = meta;
+        setLocalAppState(localState);
+
+        if (conflicts.length > 0) {
+          // upload nothing until the user picked a side
+          console.log("[Sync] found conflicts", conflicts);
+          await saveState(SYNC_PENDING_KEY, remote.state);
+          set({ conflicts });
+          return;
+        }
+      }
+
+      await pushLocalState(client, uploadState(localState), remote.manifest);
+      await saveState(SYNC_BASE_KEY, localState);
+      set({ conflicts: [] });
 
       this.markSyncTime();
     },
 
+    // keep one side of a conflict, the sync continues after the last one
+    async resolveConflict(conflict: SyncConflict, keep: "local" | "remote") {
+      if (keep === "remote") {
+        applyRemoteConflicts([conflict]);
+      }
+      const conflicts = get().conflicts.filter(
+        (c) => !(c.kind === conflict.kind && c.id === conflict.id),
+      );
+      set({ conflicts });
+      if (conflicts.length === 0) {
+        await this.finishConflicts();
+      }
+    },
+
+    async resolveAllConflicts(keep: "local" | "remote") {
+      if (keep === "remote") {
+        applyRemoteConflicts(get().conflicts);
+      }
+      set({ conflicts: [] });
+      await this.finishConflicts();
+    },
+
+    async finishConflicts() {
+      // the merged state already holds every remote change, with the remote
+      // state as base the next merge keeps the chosen sides
+      const pendingState = await loadState(SYNC_PENDING_KEY);
+      if (pendingState) {
+        await saveState(SYNC_BASE_KEY, pendingState);
+        await saveState(SYNC_PENDING_KEY);
+      }
+      await this.sync();
+    },
+
+    // re-encrypts the remote state, reading it first verifies the current
+    // passphrase so a wrong one never overwrites the backup. It holds the
+    // sync lock, so no tab uploads with the old passphrase in between.
+    async changePassphrase(passphrase: string) {
+      await withSyncLock(async () => {
+        const { state } = await pullRemoteState(this.getClient());
+        set({ encryption: { enabled: true, passphrase } });
+        if (state) {
+          // without a remote manifest every session is uploaded again
+          await pushLocalState(this.getClient(), state);
+        }
+      }, true);
+    },
+
+    // encrypts a remote backup that is still plain although encryption is
+    // on, after the user confirmed the plain backup is theirs
+    async encryptBackup() {
+      await withSyncLock(async () => {
+        const plainClient = createSyncClient(get().provider, {
+          ...get(),
+          encryption: { ...get().encryption, enabled: false },
+        });
+        const { state } = await pullRemoteState(plainClient);
+        if (state) {
+          await pushLocalState(this.getClient(), state);
+        }
+      }, true);
+      await this.sync();
+    },
+
     async check() {
       const client = this.getClient();
       return await client.check();
@@ -126,7 +304,7 @@ export const useSyncStore = createPersistStore(
   }),
   {
     name: StoreKey.Sync,
-    version: 1.2,
+    version: 1.6,
 
     migrate(persistedState, version) {
       const newState = persistedState as typeof DEFAULT_SYNC_STATE;
@@ -144,6 +322,24 @@ export const useSyncStore = createPersistStore(
         }
       }
 
+      if (version < 1.3) {
+        newState.conflicts = [];
+      }
+
+      if (version < 1.4) {
+        newState.encryption = { enabled: false, passphrase: "" };
+        newState.excludeSecrets = false;
+      }
+
+      if (version < 1.5) {
+        newState.autoSync = { ...DEFAULT_SYNC_STATE.autoSync };
+      }
+
+      if (version < 1.6) {
+        newState.s3 = { ...DEFAULT_SYNC_STATE.s3 };
+        newState.localfolder = { ...DEFAULT_SYNC_STATE.localfolder };
+      }
+
       return newState as any;
     },
   },
@@ -2,7 +2,10 @@ import { useEffect, useState } from "react";
 import { showToast } from "./components/ui-lib";
 import Locale from "./locales";
 import { RequestMessage } from "./client/api";
-import { ServiceProvider } from "./constant";
+import { getBuiltinModelCapabilities, ModelCapabilities } from "./constant";
+import { useAccessStore } from "./store/access";
+import { useAppConfig } from "./store/config";
+import { collectModels } from "./utils/model";
 // import { fetch as tauriFetch, ResponseType } from "@tauri-apps/api/http";
 import { fetch as tauriStreamFetch } from "./utils/stream";
 
@@ -251,51 +254,30 @@ export function getMessageImages(message: RequestMessage): string[] {
   return urls;
 }
 
-export function isVisionModel(model: string) {
-  // Note: This is a better way using the TypeScript feature instead of `&&` or `||` (ts v5.5.0-dev.20240314 I've been using)
-
-  const excludeKeywords = ["claude-3-5-haiku-20241022"];
-  const visionKeywords = [
-    "vision",
-    "gpt-4o",
-    "claude-3",
-    "gemini-1.5",
-    "gemini-exp",
-    "learnlm",
-    "qwen-vl",
-    "qwen2-vl",
-  ];
-  const isGpt4Turbo =
-    model.includes("gpt-4-turbo") && !model.includes("preview");
-
-  return (
-    !excludeKeywords.some((keyword) => model.includes(keyword)) &&
-    (visionKeywords.some((keyword) => model.includes(keyword)) ||
-      isGpt4Turbo ||
-      isDalle3(model))
+/**
+ * find a model in the model list of the settings, including custom models
+ */
+export function findModel(model: string, providerName?: string) {
+  const configStore = useAppConfig.getState();
+  const accessStore = useAccessStore.getState();
+  return collectModels(
+    configStore.models,
+    [configStore.customModels, accessStore.customModels].join(","),
+  ).find(
+    (m) =>
+      m.name === model &&
+      (!providerName || m.provider?.providerName === providerName),
   );
 }
 
-export function isDalle3(model: string) {
-  return "dall-e-3" === model;
-}
-
-export function showPlugins(provider: ServiceProvider, model: string) {
-  if (
-    provider == ServiceProvider.OpenAI ||
-    provider == ServiceProvider.Azure ||
-    provider == ServiceProvider.Moonshot ||
-    provider == ServiceProvider.ChatGLM
-  ) {
-    return true;
-  }
-  if (provider == ServiceProvider.Anthropic && !model.includes("claude-2")) {
-    return true;
-  }
-  if (provider == ServiceProvider.Google && !model.includes("vision")) {
-    return true;
-  }
-  return false;
+export function getModelCapabilities(
+  model: string,
+  providerName?: string,
+): ModelCapabilities {
+  return (
+    findModel(model, providerName)?.capabilities ??
+    getBuiltinModelCapabilities(model, providerName)
+  );
 }
 
 export function fetch(
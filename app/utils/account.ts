@@ -0,0 +1,105 @@
+import { ApiPath, USER_TOKEN_PREFIX } from "../constant";
+
+export type AccountRole = "admin" | "user";
+
+export interface AccountUser {
+  id: string;
+  username: string;
+  role: AccountRole;
+  models: string[];
+  createdAt: number;
+}
+
+// a shared artifact, see app/api/artifacts
+export interface AccountArtifact {
+  id: string;
+  contentType: string;
+  size: number;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface AccountSession {
+  token: string;
+  user: AccountUser;
+}
+
+export class AccountError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+async function request<T>(
+  path: string,
+  token: string,
+  init: { method?: string; body?: any } = {},
+): Promise<T> {
+  const res = await fetch(`${ApiPath.Account}/${path}`, {
+    method: init.method ?? "GET",
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: {
+      "Content-Type": "application/json",
+      ...(token
+        ? { Authorization: `Bearer ${USER_TOKEN_PREFIX}${token}` }
+        : {}),
+    },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || json?.error) {
+    throw new AccountError(json?.msg ?? res.statusText, res.status);
+  }
+  return json as T;
+}
+
+export function login(username: string, password: string) {
+  return request<AccountSession>("login", "", {
+    method: "POST",
+    body: { username, password },
+  });
+}
+
+export function refreshSession(token: string) {
+  return request<AccountSession>("me", token);
+}
+
+export function listUsers(token: string) {
+  return request<AccountUser[]>("users", token);
+}
+
+export function createUser(
+  token: string,
+  user: Pick<AccountUser, "username" | "role" | "models"> & {
+    password: string;
+  },
+) {
+  return request<AccountUser>("users", token, { method: "POST", body: user });
+}
+
+export function updateUser(
+  token: string,
+  id: string,
+  patch: Partial<Pick<AccountUser, "role" | "models">> & { password?: string },
+) {
+  return request<AccountUser>(`users/${id}`, token, {
+    method: "PUT",
+    body: patch,
+  });
+}
+
+export function deleteUser(token: string, id: string) {
+  return request<{ id: string }>(`users/${id}`, token, { method: "DELETE" });
+}
+
+export function listArtifacts(token: string) {
+  return request<AccountArtifact[]>("artifacts", token);
+}
+
+export function deleteArtifact(token: string, id: string) {
+  return request<{ id: string }>(`artifacts/${id}`, token, {
+    method: "DELETE",
+  });
+}
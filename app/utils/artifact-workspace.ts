@@ -0,0 +1,458 @@
+// the code blocks of assistant replies as a small virtual project that runs in
+// a sandboxed iframe, see app/components/artifact-workspace.tsx
+
+export type ArtifactLanguage =
+  | "html"
+  | "css"
+  | "javascript"
+  | "typescript"
+  | "jsx"
+  | "tsx";
+
+export interface ArtifactFile {
+  // what identifies the file across replies: the name the reply gave it, the
+  // title of an html page or else the default name
+  id: string;
+  name: string;
+  language: ArtifactLanguage;
+  content: string;
+}
+
+export interface ArtifactProject {
+  files: ArtifactFile[];
+}
+
+// the project as it was after an assistant reply
+export interface ArtifactVersion {
+  messageId: string;
+  // the message that started the project
+  projectId: string;
+  version: number;
+  project: ArtifactProject;
+}
+
+export interface ArtifactSourceMessage {
+  id: string;
+  role: string;
+  content: string;
+}
+
+export const ARTIFACT_BABEL_URL =
+  "https://unpkg.com/@babel/standalone@7/babel.min.js";
+export const ARTIFACT_ESM_CDN = "https://esm.sh";
+const REACT_VERSION = "18.3.1";
+
+const LANGUAGES: Record<string, ArtifactLanguage> = {
+  html: "html",
+  htm: "html",
+  css: "css",
+  js: "javascript",
+  mjs: "javascript",
+  javascript: "javascript",
+  ts: "typescript",
+  typescript: "typescript",
+  jsx: "jsx",
+  tsx: "tsx",
+  react: "tsx",
+};
+
+const DEFAULT_NAMES: Record<ArtifactLanguage, string> = {
+  html: "index.html",
+  css: "style.css",
+  javascript: "script.js",
+  typescript: "script.ts",
+  jsx: "App.jsx",
+  tsx: "App.tsx",
+};
+
+const FILE_NAME = /^[\w-]+(\/[\w.-]+)*\.\w+$/;
+const FILE_NAME_COMMENT =
+  /^\s*(?:\/\/|\/\*|<!--)\s*(?:file(?:name)?:\s*)?([\w./-]+\.\w+)\s*(?:\*\/|-->)?\s*$/i;
+
+function normalizeName(name: string) {
+  return name.replace(/^(\.\/|\/)+/, "");
+}
+
+function getLanguage(name: string): ArtifactLanguage | undefined {
+  return LANGUAGES[name.split(".").pop()?.toLowerCase() ?? ""];
+}
+
+// a file name from the fence info (```tsx App.tsx, ```tsx:App.tsx or
+// ```tsx title="App.tsx") or from a comment on the first line
+function getFileName(info: string[], content: string) {
+  for (const part of info) {
+    const name = part.replace(/^(title|file(name)?)=/, "").replace(/"/g, "");
+    if (FILE_NAME.test(normalizeName(name))) return normalizeName(name);
+  }
+  const firstLine = content.split("\n", 1)[0];
+  const match = firstLine.match(FILE_NAME_COMMENT);
+  if (match && FILE_NAME.test(normalizeName(match[1]))) {
+    return normalizeName(match[1]);
+  }
+}
+
+export function getArtifactTitle(html: string) {
+  return html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1].trim() || undefined;
+}
+
+// the name with a numeric suffix when it is taken
+function getUniqueName(name: string, taken: string[]) {
+  const [, base, ext] = name.match(/^(.*?)(\.\w+)$/) ?? ["", name, ""];
+  let unique = name;
+  for (let i = 2; taken.includes(unique); i++) {
+    unique = `${base}-${i}${ext}`;
+  }
+  return unique;
+}
+
+/**
+ * Collects the code blocks of a markdown reply that can be part of a web
+ * project, unnamed blocks get a default name per language.
+ */
+export function extractArtifactFiles(markdown: string): ArtifactFile[] {
+  const files: ArtifactFile[] = [];
+  const fence = /^ {0,3}(`{3,}|~{3,})([^\n`]*)\n([\s\S]*?)\n {0,3}\1[ \t]*$/gm;
+  for (const [, , infoString, content] of markdown.matchAll(fence)) {
+    const [tag = "", ...info] = infoString.trim().split(/\s+/);
+    const [lang, inlineName] = tag.split(":");
+    const name = getFileName(
+      inlineName ? [inlineName, ...info] : info,
+      content,
+    );
+    const language =
+      LANGUAGES[lang.toLowerCase()] ?? (name ? getLanguage(name) : undefined);
+    if (!language || !content.trim()) continue;
+
+    // another unnamed block of the same language gets a suffix
+    const fileName =
+      name ??
+      getUniqueName(
+        DEFAULT_NAMES[language],
+        files.map((f) => f.name),
+      );
+    const title =
+      language === "html" && !name ? getArtifactTitle(content) : undefined;
+    files.push({
+      id: title ? `title:${title}` : fileName,
+      name: fileName,
+      language,
+      content,
+    });
+  }
+  return files.filter(
+    (file, i) => files.findIndex((f) => f.id === file.id) === i,
+  );
+}
+
+// html with a script or a react component, a lone style sheet is not run
+export function isRunnableProject(project: ArtifactProject) {
+  return project.files.some((f) => f.language !== "css");
+}
+
+/**
+ * The projects built by the assistant replies of a session. A reply updates
+ * the files of the previous version with the same id, a reply that shares no
+ * file with it starts a new project.
+ */
+export function getArtifactVersions(
+  messages: ArtifactSourceMessage[],
+): ArtifactVersion[] {
+  const versions: ArtifactVersion[] = [];
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+    const files = extractArtifactFiles(message.content);
+    if (files.length === 0) continue;
+
+    const last = versions.at(-1);
+    const continues =
+      last && files.some((f) => last.project.files.some((l) => l.id === f.id));
+    const project = { files };
+    if (continues) {
+      // an updated file keeps its name in the project
+      project.files = last.project.files.map((l) => {
+        const file = files.find((f) => f.id === l.id);
+        return file ? { ...file, name: l.name } : l;
+      });
+      for (const file of files) {
+        if (project.files.some((f) => f.id === file.id)) continue;
+        const name = getUniqueName(
+          file.name,
+          project.files.map((f) => f.name),
+        );
+        project.files.push({ ...file, name });
+      }
+    }
+    if (!isRunnableProject(project)) continue;
+    versions.push({
+      messageId: message.id,
+      projectId: continues ? last.projectId : message.id,
+      version: continues ? last.version + 1 : 1,
+      project,
+    });
+  }
+  return versions;
+}
+
+// the versions of the project a version belongs to
+export function getProjectVersions(
+  versions: ArtifactVersion[],
+  projectId: string,
+) {
+  return versions.filter((v) => v.projectId === projectId);
+}
+
+function isModule(file: ArtifactFile) {
+  return (
+    file.language !== "html" &&
+    file.language !== "css" &&
+    (file.language !== "javascript" ||
+      /^\s*(import|export)\s/m.test(file.content))
+  );
+}
+
+function findFile(project: ArtifactProject, specifier: string, from = "") {
+  const dir = from.includes("/") ? from.slice(0, from.lastIndexOf("/")) : "";
+  const parts = (dir ? `${dir}/${specifier}` : specifier).split("/");
+  const path: string[] = [];
+  for (const part of parts) {
+    if (part === "..") path.pop();
+    else if (part && part !== ".") path.push(part);
+  }
+  const name = path.join("/");
+  return project.files.find(
+    (f) =>
+      f.name === name ||
+      f.name.replace(/\.\w+$/, "") === name ||
+      f.name === `${name}/index.${f.name.split(".").pop()}`,
+  );
+}
+
+/**
+ * Points the imports of a module at the project files and the esm cdn, style
+ * sheet imports are dropped since every style sheet is added to the page.
+ */
+export function rewriteImports(
+  project: ArtifactProject,
+  file: ArtifactFile,
+): string {
+  const resolve = (specifier: string) => {
+    if (specifier.startsWith(".") || specifier.startsWith("/")) {
+      const target = findFile(project, specifier.replace(/^\//, ""), file.name);
+      return target ? `@artifact/${target.name}` : specifier;
+    }
+    if (/^(react|react-dom)(\/|$)/.test(specifier) || /^\w+:/.test(specifier)) {
+      return specifier;
+    }
+    return `${ARTIFACT_ESM_CDN}/${specifier}?external=react,react-dom`;
+  };
+
+  return file.content
+    .replace(
+      /^[ \t]*import\s+["']([^"']+\.css)["'];?[ \t]*\n?/gm,
+      (line, specifier: string) =>
+        findFile(project, specifier, file.name) ? "" : line,
+    )
+    .replace(
+      /(\bfrom\s*|\bimport\s*\(?\s*)(["'])([^"']+)\2/g,
+      (_, prefix: string, quote: string, specifier: string) =>
+        `${prefix}${quote}${resolve(specifier)}${quote}`,
+    );
+}
+
+function escapeScript(code: string) {
+  return code.replace(/<\/script/gi, "<\\/script");
+}
+
+// posts the console and the errors of the page to the workspace
+function getConsoleScript(frameId: string) {
+  return `<script>(() => {
+  const send = (level, args) => {
+    try {
+      parent.postMessage({ frameId: ${JSON.stringify(
+        frameId,
+      )}, type: "console", level, args: args.map((a) => {
+        if (a instanceof Error) return a.stack || String(a);
+        if (typeof a === "object" && a !== null) { try { return JSON.stringify(a); } catch (e) { return String(a); } }
+        return String(a);
+      }) }, "*");
+    } catch (e) {}
+  };
+  for (const level of ["log", "info", "warn", "error", "debug"]) {
+    const original = console[level];
+    console[level] = (...args) => { send(level, args); original.apply(console, args); };
+  }
+  window.addEventListener("error", (e) => send("error", [e.error || e.message]));
+  window.addEventListener("unhandledrejection", (e) => send("error", [e.reason]));
+})();</script>`;
+}
+
+// compiles the modules with babel in the page and loads the entry through an
+// import map, so the files can import each other
+function getModuleScripts(project: ArtifactProject, entry: string) {
+  const modules = Object.fromEntries(
+    project.files
+      .filter(isModule)
+      .map((file) => [file.name, rewriteImports(project, file)]),
+  );
+  const react = `${ARTIFACT_ESM_CDN}/react@${REACT_VERSION}`;
+  const reactDom = `${ARTIFACT_ESM_CDN}/react-dom@${REACT_VERSION}`;
+  const imports = {
+    react,
+    "react/": `${react}/`,
+    "react-dom": reactDom,
+    "react-dom/": `${reactDom}/`,
+  };
+  return `<script src="${ARTIFACT_BABEL_URL}"></script>
+<script>(() => {
+  const modules = ${escapeScript(JSON.stringify(modules))};
+  const imports = ${JSON.stringify(imports)};
+  for (const [name, code] of Object.entries(modules)) {
+    try {
+      const output = Babel.transform(code, {
+        filename: name,
+        presets: [["react", { runtime: "automatic" }], "typescript"],
+      }).code;
+      imports["@artifact/" + name] = URL.createObjectURL(new Blob([output], { type: "text/javascript" }));
+    } catch (e) {
+      console.error(name + ": " + e.message);
+    }
+  }
+  const map = document.createElement("script");
+  map.type = "importmap";
+  map.textContent = JSON.stringify({ imports });
+  document.head.appendChild(map);
+  const main = document.createElement("script");
+  main.type = "module";
+  main.textContent = ${JSON.stringify(escapeScript(entry))};
+  document.body.appendChild(main);
+})();</script>`;
+}
+
+// the module that starts the page, a component without a mount is rendered
+// into #root
+function getEntryModule(project: ArtifactProject, referenced: string[]) {
+  const modules = project.files.filter(isModule);
+  const main =
+    modules.find((f) => referenced.includes(f.name)) ??
+    modules.find((f) => /createRoot|\.render\(/.test(f.content));
+  if (main) return `import "@artifact/${main.name}";`;
+
+  const component =
+    modules.find((f) => /^(src\/)?App\.\w+$/.test(f.name)) ??
+    modules.find((f) => /export\s+default/.test(f.content));
+  if (!component) {
+    return modules.map((f) => `import "@artifact/${f.name}";`).join("\n");
+  }
+  return `import { createElement } from "react";
+import { createRoot } from "react-dom/client";
+import App from "@artifact/${component.name}";
+createRoot(document.getElementById("root")).render(createElement(App));`;
+}
+
+/**
+ * Bundles a project into a single page for an iframe: style sheets and plain
+ * scripts are inlined where the html links them, modules are compiled in the
+ * page and the console is forwarded with `frameId`.
+ */
+export function bundleArtifactProject(
+  project: ArtifactProject,
+  frameId: string,
+): string {
+  const html = project.files.find((f) => f.name === "index.html") ??
+    project.files.find((f) => f.language === "html") ?? {
+      name: "index.html",
+      language: "html",
+      content: `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8" />\n</head>\n<body>\n<div id="root"></div>\n</body>\n</html>`,
+    };
+  const inlined = new Set<string>();
+  const referenced: string[] = [];
+
+  let page = html.content
+    .replace(
+      /<link\b[^>]*href=["']([^"']+)["'][^>]*>/gi,
+      (tag, href: string) => {
+        const file = findFile(project, href.replace(/^\//, ""));
+        if (!file || file.language !== "css") return tag;
+        inlined.add(file.name);
+        return `<style>\n${file.content}\n</style>`;
+      },
+    )
+    .replace(
+      /<script\b[^>]*src=["']([^"']+)["'][^>]*>\s*<\/script>/gi,
+      (tag, src: string) => {
+        const file = findFile(project, src.replace(/^\//, ""));
+        if (!file) return tag;
+        if (isModule(file)) {
+          referenced.push(file.name);
+          return "";
+        }
+        inlined.add(file.name);
+        return `<script>\n${escapeScript(file.content)}\n</script>`;
+      },
+    );
+
+  const styles = project.files
+    .filter((f) => f.language === "css" && !inlined.has(f.name))
+    .map((f) => `<style>\n${f.content}\n</style>`)
+    .join("\n");
+  const head = getConsoleScript(frameId) + styles;
+  page = /<head[^>]*>/i.test(page)
+    ? page.replace(/<head[^>]*>/i, (tag) => tag + head)
+    : head + page;
+
+  const scripts = project.files
+    .filter(
+      (f) =>
+        f.language === "javascript" && !isModule(f) && !inlined.has(f.name),
+    )
+    .map((f) => `<script>\n${escapeScript(f.content)}\n</script>`);
+  if (project.files.some(isModule)) {
+    if (!/id=["']root["']/.test(page)) {
+      scripts.unshift(`<div id="root"></div>`);
+    }
+    scripts.push(
+      getModuleScripts(project, getEntryModule(project, referenced)),
+    );
+  }
+  const body = scripts.join("\n");
+  return /<\/body>/i.test(page)
+    ? page.replace(/<\/body>/i, (tag) => `${body}\n${tag}`)
+    : page + body;
+}
+
+// a version of a file that differs from the one before it
+export interface ArtifactRevision {
+  messageId: string;
+  version: number;
+  file: ArtifactFile;
+}
+
+// the versions of a file in a project where its content changed
+export function getArtifactFileHistory(
+  versions: ArtifactVersion[],
+  projectId: string,
+  fileId: string,
+): ArtifactRevision[] {
+  const revisions: ArtifactRevision[] = [];
+  for (const version of getProjectVersions(versions, projectId)) {
+    const file = version.project.files.find((f) => f.id === fileId);
+    if (!file || file.content === revisions.at(-1)?.file.content) continue;
+    revisions.push({
+      messageId: version.messageId,
+      version: version.version,
+      file,
+    });
+  }
+  return revisions;
+}
+
+// the project and the file a rendered code block belongs to
+export function findArtifactFile(versions: ArtifactVersion[], code: string) {
+  const content = code.trim();
+  for (const version of versions) {
+    const file = version.project.files.find(
+      (f) => f.content.trim() === content,
+    );
+    if (file) return { projectId: version.projectId, fileId: file.id };
+  }
+}
@@ -0,0 +1,152 @@
+import { StoreKey } from "../constant";
+import type { AppState } from "./sync";
+
+export type BackupStore = keyof AppState;
+// a backup file, older versions always wrote every store
+export type BackupState = Partial<AppState>;
+export type BackupMode = "merge" | "replace";
+
+export const BACKUP_STORES: BackupStore[] = [
+  StoreKey.Chat,
+  StoreKey.Mask,
+  StoreKey.Prompt,
+  StoreKey.Config,
+  StoreKey.Access,
+];
+
+// the access store holds api keys and access codes, it is opt-in
+export const DEFAULT_BACKUP_STORES = BACKUP_STORES.filter(
+  (store) => store !== StoreKey.Access,
+);
+
+export interface BackupOptions {
+  stores: BackupStore[];
+  // the chat sessions to keep, all of them when missing
+  sessionIds?: string[];
+}
+
+export interface BackupStoreDiff {
+  // names of the records, or of the fields for the config stores
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+// the stores of a backup file, unknown keys are ignored
+export function getBackupStores(backup: BackupState) {
+  return BACKUP_STORES.filter((store) => !!backup[store]);
+}
+
+export function pickBackupState(
+  state: BackupState,
+  options: BackupOptions,
+): BackupState {
+  const backup: BackupState = {};
+  options.stores.forEach(<K extends BackupStore>(store: K) => {
+    if (state[store]) backup[store] = state[store];
+  });
+
+  const chatState = backup[StoreKey.Chat];
+  if (!chatState || !options.sessionIds) return backup;
+
+  const ids = new Set(options.sessionIds);
+  return {
+    ...backup,
+    [StoreKey.Chat]: {
+      ...chatState,
+      sessions: chatState.sessions.filter((s) => ids.has(s.id)),
+      currentSessionIndex: 0,
+    },
+  };
+}
+
+type NamedRecords = Map<string, { name: string; value: unknown }>;
+
+function getRecords(store: BackupStore, state: any): NamedRecords {
+  switch (store) {
+    case StoreKey.Chat:
+      return new Map(
+        (state?.sessions ?? []).map((s: any) => [
+          s.id,
+          { name: s.topic, value: s },
+        ]),
+      );
+    case StoreKey.Mask:
+    case StoreKey.Prompt:
+      return new Map(
+        Object.values(
+          (store === StoreKey.Mask ? state?.masks : state?.prompts) ?? {},
+        ).map((r: any) => [r.id, { name: r.name ?? r.title, value: r }]),
+      );
+    default:
+      // config stores are compared field by field
+      return new Map(
+        Object.entries(state ?? {})
+          .filter(([key]) => key !== "lastUpdateTime")
+          .map(([key, value]) => [key, { name: key, value }]),
+      );
+  }
+}
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * What applying the backup changes in each of its stores. A merge keeps the
+ * local records that are missing in the backup, a replace removes them.
+ */
+export function diffBackupState(
+  local: AppState,
+  backup: BackupState,
+  mode: BackupMode,
+) {
+  const diffs: Partial<Record<BackupStore, BackupStoreDiff>> = {};
+  getBackupStores(backup).forEach((store) => {
+    const localRecords = getRecords(store, local[store]);
+    const backupRecords = getRecords(store, backup[store]);
+    const diff: BackupStoreDiff = {
+      added: [],
+      changed: [],
+      removed: [],
+      unchanged: 0,
+    };
+    backupRecords.forEach((record, id) => {
+      const localRecord = localRecords.get(id);
+      if (!localRecord) {
+        diff.added.push(record.name);
+      } else if (!isSame(localRecord.value, record.value)) {
+        diff.changed.push(record.name);
+      } else {
+        diff.unchanged += 1;
+      }
+    });
+    localRecords.forEach((record, id) => {
+      if (backupRecords.has(id)) return;
+      if (mode === "replace") {
+        diff.removed.push(record.name);
+      } else {
+        diff.unchanged += 1;
+      }
+    });
+    diffs[store] = diff;
+  });
+  return diffs;
+}
+
+// the local state with the stores of the backup in place of its own
+export function replaceAppState(local: AppState, backup: BackupState) {
+  const state = { ...local };
+  getBackupStores(backup).forEach(<K extends BackupStore>(store: K) => {
+    state[store] = { ...local[store], ...backup[store] };
+  });
+
+  const chatState = state[StoreKey.Chat];
+  if (backup[StoreKey.Chat]) {
+    chatState.currentSessionIndex = Math.max(
+      0,
+      Math.min(chatState.currentSessionIndex, chatState.sessions.length - 1),
+    );
+  }
+  return state;
+}
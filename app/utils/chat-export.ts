@@ -0,0 +1,137 @@
+// a message as it is exported, the text and the image urls of its content
+export interface ExportMessage {
+  role: string;
+  text: string;
+  images: string[];
+  date?: string;
+}
+
+export interface ExportMeta {
+  topic: string;
+  model: string;
+  mask: string;
+  // ISO date of the last exported message
+  date: string;
+}
+
+export function getExportMeta(
+  session: { topic: string; mask: { name: string; modelConfig: any } },
+  messages: ExportMessage[],
+): ExportMeta {
+  const last = new Date(messages.at(-1)?.date ?? Date.now());
+  return {
+    topic: session.topic,
+    model: session.mask.modelConfig.model,
+    mask: session.mask.name,
+    date: (isNaN(last.getTime()) ? new Date() : last).toISOString(),
+  };
+}
+
+// a file name without the characters that the file systems reject
+export function getExportFileName(topic: string, extension: string) {
+  const name =
+    topic
+      .replace(/[\\/:*?"<>|\n\r]+/g, " ")
+      .replace(/\s+/g, " ")
+      .trim() || "chat";
+  return `${name}.${extension}`;
+}
+
+/**
+ * A Markdown file with the chat details as YAML front matter, the values are
+ * written as JSON strings which are valid YAML.
+ */
+export function toMarkdownDocument(
+  meta: ExportMeta,
+  messages: ExportMessage[],
+  roleNames: { user: string; assistant: string },
+) {
+  const frontMatter = Object.entries(meta)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join("\n");
+  const body = messages
+    .map((m) => {
+      const name = m.role === "user" ? roleNames.user : roleNames.assistant;
+      const images = m.images.map((src) => `![image](${src})`);
+      return [`## ${name}`, m.text.trim(), ...images]
+        .filter((part) => part.length > 0)
+        .join("\n\n");
+    })
+    .join("\n\n");
+  return `---\n${frontMatter}\n---\n\n# ${meta.topic}\n\n${body}\n`;
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[c]!,
+  );
+}
+
+// the class names used by the exported html
+export function getHtmlClassNames(html: string) {
+  const names = new Set<string>();
+  for (const match of html.matchAll(/class="([^"]*)"/g)) {
+    match[1].split(/\s+/).forEach((name) => name && names.add(name));
+  }
+  return names;
+}
+
+/**
+ * Whether a style rule applies to the exported html: every class of one of
+ * its selectors is used, so the global element rules are kept too.
+ */
+export function isStyleRuleUsed(selectorText: string, classNames: Set<string>) {
+  return selectorText
+    .split(",")
+    .some((selector) =>
+      Array.from(selector.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)).every(
+        ([, name]) => classNames.has(name),
+      ),
+    );
+}
+
+/**
+ * A standalone html page, the styles and the rendered markdown are inlined
+ * so it opens offline.
+ */
+export function toHtmlDocument(options: {
+  meta: ExportMeta;
+  lang: string;
+  css: string;
+  body: string;
+}) {
+  const { meta } = options;
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(options.lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="NextChat">
+<meta name="date" content="${escapeHtml(meta.date)}">
+<title>${escapeHtml(meta.topic)}</title>
+<style>
+${options.css}
+html { height: auto; }
+body { display: block; width: auto; height: auto; max-width: 900px; margin: 0 auto; padding: 20px; overflow: visible; user-select: text; }
+@page { margin: 16mm; }
+@media print {
+  body { padding: 0; max-width: none; }
+  pre, blockquote, table, img, svg, .katex-display { break-inside: avoid; }
+  pre { white-space: pre-wrap; word-break: break-all; }
+}
+</style>
+</head>
+<body>
+${options.body}
+</body>
+</html>
+`;
+}
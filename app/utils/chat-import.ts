@@ -0,0 +1,408 @@
+import { StoreKey } from "../constant";
+import type { MultimodalContent } from "../client/api";
+import type { ChatMessageTool, ChatSession } from "../store/chat";
+
+export type ChatImportSource =
+  | "chatgpt"
+  | "claude"
+  | "nextchat"
+  | "generic"
+  | "share";
+
+export interface ImportedMessage {
+  id: string;
+  parentId?: string;
+  role: "user" | "assistant" | "system";
+  // images are only kept by NextChat backups, other sources get placeholders
+  content: string | MultimodalContent[];
+  createdAt?: number;
+  model?: string;
+  tools?: ChatMessageTool[];
+}
+
+export interface ImportedChat {
+  source: ChatImportSource;
+  // id of the chat in the source app, imported chats are matched by it
+  sourceId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  // the active branch, the other nodes of a message tree are in `branches`
+  messages: ImportedMessage[];
+  branches: ImportedMessage[];
+  // the summary of a NextChat backup
+  memoryPrompt?: string;
+  lastSummarizeIndex?: number;
+  clearContextIndex?: number;
+}
+
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatImportError";
+  }
+}
+
+export function getImportId(chat: Pick<ImportedChat, "source" | "sourceId">) {
+  return `${chat.source}:${chat.sourceId}`;
+}
+
+// the session of an earlier import of the chat, sessions of a NextChat backup
+// also match by their own id
+export function findImportedSession<
+  T extends Pick<ChatSession, "id" | "importId">,
+>(sessions: T[], chat: Pick<ImportedChat, "source" | "sourceId">) {
+  const importId = getImportId(chat);
+  return sessions.find(
+    (s) =>
+      s.importId === importId ||
+      (chat.source === "nextchat" && s.id === chat.sourceId),
+  );
+}
+
+export type ImportAction<T> =
+  | { type: "add" }
+  | { type: "skip"; session: T }
+  | { type: "replace"; session: T };
+
+/**
+ * What importing a chat does to the session of an earlier import: a chat
+ * with nothing new is skipped, the session is replaced only when the chat is
+ * newer and nothing was added to the session since, otherwise the chat is
+ * added as a new session so no local message is lost.
+ */
+export function planImport<
+  T extends Pick<
+    ChatSession,
+    "id" | "importId" | "messages" | "branches" | "lastUpdate"
+  >,
+>(sessions: T[], chat: ImportedChat): ImportAction<T> {
+  const session = findImportedSession(sessions, chat);
+  if (!session) return { type: "add" };
+
+  const localIds = new Set(
+    [...session.messages, ...(session.branches ?? [])].map((m) => m.id),
+  );
+  const importedIds = new Set(
+    [...chat.messages, ...chat.branches].map((m) => m.id),
+  );
+  const hasAll = (ids: Set<string>, of: Set<string>) =>
+    Array.from(of).every((id) => ids.has(id));
+
+  if (hasAll(localIds, importedIds) && chat.updatedAt <= session.lastUpdate) {
+    return { type: "skip", session };
+  }
+  if (hasAll(importedIds, localIds) && chat.updatedAt >= session.lastUpdate) {
+    return { type: "replace", session };
+  }
+  return { type: "add" };
+}
+
+const attachment = (name: string) => `[Attachment: ${name}]`;
+
+function toTime(value: unknown) {
+  if (typeof value === "number") {
+    // the ChatGPT export counts seconds
+    return value < 1e12 ? Math.round(value * 1000) : value;
+  }
+  if (typeof value === "string") {
+    const time = new Date(value).getTime();
+    if (!isNaN(time)) return time;
+  }
+  return undefined;
+}
+
+function toRole(role: unknown): ImportedMessage["role"] | undefined {
+  switch (role) {
+    case "user":
+    case "human":
+      return "user";
+    case "assistant":
+    case "model":
+    case "bot":
+      return "assistant";
+    case "system":
+      return "system";
+  }
+}
+
+// the text of a message content, images and files become placeholders
+function toText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === "string") return part;
+        if (part?.type === "text") return part.text ?? "";
+        if (part?.type === "image_url" || part?.type === "image") {
+          return attachment("image");
+        }
+        return "";
+      })
+      .filter((text) => text.length > 0)
+      .join("\n\n");
+  }
+  return "";
+}
+
+/**
+ * Splits a message tree into the path to `leafId` and the other nodes.
+ * Parents that were skipped are bridged to the nearest kept ancestor.
+ */
+function splitTree(
+  messages: ImportedMessage[],
+  leafId: string | undefined,
+  parents: Map<string, string | undefined>,
+) {
+  const kept = new Map(messages.map((m) => [m.id, m]));
+  const keptParent = (id?: string) => {
+    while (id && !kept.has(id)) id = parents.get(id);
+    return id;
+  };
+  messages.forEach((m) => (m.parentId = keptParent(m.parentId)));
+
+  const activeIds = new Set<string>();
+  for (let id = keptParent(leafId); id; id = kept.get(id)?.parentId) {
+    activeIds.add(id);
+  }
+  const byTime = (a: ImportedMessage, b: ImportedMessage) =>
+    (a.createdAt ?? 0) - (b.createdAt ?? 0);
+  const active = messages.filter((m) => activeIds.has(m.id));
+  // walk down from the root so the order follows the tree, not the clock
+  const ordered: ImportedMessage[] = [];
+  let parentId: string | undefined = undefined;
+  while (true) {
+    const next = active.find((m) => m.parentId === parentId);
+    if (!next) break;
+    ordered.push(next);
+    parentId = next.id;
+  }
+  return {
+    messages: ordered,
+    branches: messages.filter((m) => !activeIds.has(m.id)).sort(byTime),
+  };
+}
+
+function parseChatGptMessage(node: any): ImportedMessage | undefined {
+  const message = node?.message;
+  const role = toRole(message?.author?.role);
+  if (!message || !role) return;
+  if (message.metadata?.is_visually_hidden_from_conversation) return;
+
+  const content = message.content ?? {};
+  let text = "";
+  switch (content.content_type) {
+    case "text":
+    case "multimodal_text":
+      text = (content.parts ?? [])
+        .map((part: any) => {
+          if (typeof part === "string") return part;
+          if (part?.content_type === "image_asset_pointer") {
+            return attachment("image");
+          }
+          if (part?.content_type === "audio_transcription") {
+            return part.text ?? "";
+          }
+          return "";
+        })
+        .filter((part: string) => part.length > 0)
+        .join("\n\n");
+      break;
+    case "code":
+      text = "```" + (content.language ?? "") + "\n" + content.text + "\n```";
+      break;
+    default:
+      // tool output, browsing results and reasoning summaries are skipped
+      return;
+  }
+  const files = (message.metadata?.attachments ?? []).map((a: any) =>
+    attachment(a.name ?? a.id),
+  );
+  text = [text, ...files].filter((part) => part.length > 0).join("\n\n");
+  if (text.trim().length === 0) return;
+
+  return {
+    id: message.id ?? node.id,
+    parentId: node.parent ?? undefined,
+    role,
+    content: text,
+    createdAt: toTime(message.create_time),
+    model: message.metadata?.model_slug,
+  };
+}
+
+function parseChatGptConversation(conversation: any): ImportedChat {
+  const mapping: Record<string, any> = conversation.mapping ?? {};
+  const parents = new Map<string, string | undefined>();
+  const messages: ImportedMessage[] = [];
+  const nodeIds = new Map<string, string>();
+  Object.values(mapping).forEach((node) => {
+    parents.set(node.id, node.parent ?? undefined);
+    const message = parseChatGptMessage(node);
+    if (message) {
+      nodeIds.set(node.id, message.id);
+      messages.push({ ...message, id: node.id });
+    }
+  });
+  const tree = splitTree(messages, conversation.current_node, parents);
+  // the message ids are stable across exports, the node ids are kept for the
+  // tree only
+  [...tree.messages, ...tree.branches].forEach((m) => {
+    m.parentId = m.parentId && nodeIds.get(m.parentId);
+    m.id = nodeIds.get(m.id)!;
+  });
+
+  const createdAt = toTime(conversation.create_time) ?? Date.now();
+  return {
+    source: "chatgpt",
+    sourceId: conversation.conversation_id ?? conversation.id,
+    title: conversation.title ?? "",
+    createdAt,
+    updatedAt: toTime(conversation.update_time) ?? createdAt,
+    ...tree,
+  };
+}
+
+function parseClaudeConversation(conversation: any): ImportedChat {
+  const parents = new Map<string, string | undefined>();
+  let previous: string | undefined;
+  const messages: ImportedMessage[] = [];
+  (conversation.chat_messages ?? []).forEach((m: any) => {
+    const parentId = m.parent_message_uuid ?? previous;
+    parents.set(m.uuid, parentId);
+    previous = m.uuid;
+
+    const role = toRole(m.sender);
+    const text =
+      toText(m.content).trim() || (typeof m.text === "string" ? m.text : "");
+    const files = [...(m.attachments ?? []), ...(m.files ?? [])].map((f: any) =>
+      attachment(f.file_name ?? f.name ?? "file"),
+    );
+    const content = [text, ...files].filter((p) => p.length > 0).join("\n\n");
+    if (!role || content.trim().length === 0) return;
+    messages.push({
+      id: m.uuid,
+      parentId,
+      role,
+      content,
+      createdAt: toTime(m.created_at),
+    });
+  });
+
+  const createdAt = toTime(conversation.created_at) ?? Date.now();
+  return {
+    source: "claude",
+    sourceId: conversation.uuid,
+    title: conversation.name ?? "",
+    createdAt,
+    updatedAt: toTime(conversation.updated_at) ?? createdAt,
+    ...splitTree(messages, previous, parents),
+  };
+}
+
+// the text and images of a NextChat message
+function toContent(content: unknown): ImportedMessage["content"] {
+  if (!Array.isArray(content)) return toText(content);
+  return content.flatMap((part): MultimodalContent[] => {
+    if (part?.type === "text" && typeof part.text === "string") {
+      return [{ type: "text", text: part.text }];
+    }
+    if (part?.type === "image_url" && typeof part.image_url?.url === "string") {
+      return [{ type: "image_url", image_url: { url: part.image_url.url } }];
+    }
+    return [];
+  });
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+// sessions of a NextChat backup, they keep their own message tree
+function parseNextChatSession(session: any): ImportedChat {
+  const toMessage = (m: any): ImportedMessage => ({
+    id: m.id,
+    parentId: m.parentId,
+    role: toRole(m.role) ?? "system",
+    content: toContent(m.content),
+    createdAt: m.createdAt ?? toTime(m.date),
+    model: m.model,
+    tools: Array.isArray(m.tools) ? m.tools : undefined,
+  });
+  const messages = (session.messages ?? []).map(toMessage);
+  return {
+    source: "nextchat",
+    sourceId: session.id,
+    title: session.topic ?? "",
+    createdAt: messages[0]?.createdAt ?? session.lastUpdate ?? Date.now(),
+    updatedAt: session.lastUpdate ?? Date.now(),
+    messages,
+    branches: (session.branches ?? []).map(toMessage),
+    memoryPrompt:
+      typeof session.memoryPrompt === "string"
+        ? session.memoryPrompt
+        : undefined,
+    lastSummarizeIndex: toNumber(session.lastSummarizeIndex),
+    clearContextIndex: toNumber(session.clearContextIndex),
+  };
+}
+
+// any chat with a list of `{ role, content }` messages
+function parseGenericChat(chat: any, index: number): ImportedChat {
+  const messages: ImportedMessage[] = [];
+  (chat.messages ?? []).forEach((m: any, i: number) => {
+    const role = toRole(m.role ?? m.author ?? m.sender);
+    const content = toText(m.content ?? m.text);
+    if (!role || content.trim().length === 0) return;
+    messages.push({
+      id: String(m.id ?? `${index}-${i}`),
+      parentId: messages.at(-1)?.id,
+      role,
+      content,
+      createdAt: toTime(m.createdAt ?? m.created_at ?? m.timestamp),
+    });
+  });
+  const createdAt =
+    toTime(chat.createdAt ?? chat.created_at) ??
+    messages[0]?.createdAt ??
+    Date.now();
+  return {
+    source: "generic",
+    sourceId: String(chat.id ?? chat.uuid ?? `${createdAt}-${index}`),
+    title: chat.title ?? chat.name ?? chat.topic ?? "",
+    createdAt,
+    updatedAt:
+      toTime(chat.updatedAt ?? chat.updated_at) ??
+      messages.at(-1)?.createdAt ??
+      createdAt,
+    messages,
+    branches: [],
+  };
+}
+
+/**
+ * Reads the chats of an export file: the `conversations.json` of ChatGPT or
+ * Claude, a NextChat backup, or a list of chats with `{ role, content }`
+ * messages. Chats without messages are dropped.
+ */
+export function parseChatExport(text: string): ImportedChat[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ChatImportError("not a json file");
+  }
+
+  let chats: ImportedChat[];
+  if (data?.[StoreKey.Chat]?.sessions) {
+    chats = data[StoreKey.Chat].sessions.map(parseNextChatSession);
+  } else {
+    const list: any[] = Array.isArray(data) ? data : [data];
+    chats = list.map((chat, i) => {
+      if (chat?.mapping) return parseChatGptConversation(chat);
+      if (chat?.chat_messages) return parseClaudeConversation(chat);
+      if (Array.isArray(chat?.messages)) return parseGenericChat(chat, i);
+      throw new ChatImportError("unknown chat format");
+    });
+  }
+  return chats.filter((chat) => chat.messages.length > 0);
+}
@@ -2,6 +2,8 @@ import {
   CACHE_URL_PREFIX,
   UPLOAD_URL,
   REQUEST_TIMEOUT_MS,
+  DEFAULT_MAX_TOOL_STEPS,
+  DEFAULT_TOOL_TIMEOUT,
 } from "@/app/constant";
 import { RequestMessage } from "@/app/client/api";
 import Locale from "@/app/locales";
@@ -11,6 +13,8 @@ import {
 } from "@fortaine/fetch-event-source";
 import { prettyObject } from "./format";
 import { fetch as tauriFetch } from "./stream";
+import type { ToolApproval } from "@/app/client/controller";
+import type { ChatMessageTool } from "@/app/store";
 
 export function compressImage(file: Blob, maxSize: number): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -201,6 +205,91 @@ export function stream(
   // start animaion
   animateResponseText();
 
+  // limits of the agent loop, every round of tool calls is a step
+  const {
+    maxToolSteps = DEFAULT_MAX_TOOL_STEPS,
+    toolTimeout = DEFAULT_TOOL_TIMEOUT,
+    parallelToolCalls = true,
+  } = options?.config ?? {};
+  let step = 0;
+
+  const runTool = (tool: ChatMessageTool) => {
+    const name = tool.function?.name ?? "";
+    const startedAt = Date.now();
+    const report = (result: Partial<ChatMessageTool>) =>
+      options?.onAfterTool?.({
+        ...tool,
+        step,
+        startedAt,
+        duration: Date.now() - startedAt,
+        ...result,
+      });
+    options?.onBeforeTool?.({ ...tool, step, startedAt });
+
+    return Promise.resolve(
+      options?.onToolApproval?.(tool, controller.signal) ?? {
+        approved: true,
+      },
+    )
+      .then((approval: ToolApproval) => {
+        if (!approval.approved) {
+          // the reason goes back to the model as the tool result
+          return Promise.reject(
+            `The user rejected this tool call${
+              approval.reason ? `: ${approval.reason}` : "."
+            }`,
+          );
+        }
+        if (approval.arguments !== undefined) {
+          // keep the edited arguments in the history sent back
+          tool.function!.arguments = approval.arguments;
+        }
+        // the tool cancels its request when the chat is stopped or the call
+        // times out, so no late result comes in
+        const toolController = new AbortController();
+        const abortTool = () => toolController.abort();
+        controller.signal.addEventListener("abort", abortTool);
+        let timeoutId: ReturnType<typeof setTimeout>;
+        return Promise.race([
+          funcs[name](
+            tool.function?.arguments ? JSON.parse(tool.function.arguments) : {},
+            toolController.signal,
+          ),
+          new Promise((_, reject) => {
+            timeoutId = setTimeout(() => {
+              toolController.abort();
+              reject(`Tool call timed out after ${toolTimeout}s`);
+            }, toolTimeout * 1000);
+          }),
+        ]).finally(() => {
+          clearTimeout(timeoutId);
+          controller.signal.removeEventListener("abort", abortTool);
+        });
+      })
+      .then((res: any) => {
+        let content = res.data || res?.statusText;
+        // hotfix #5614
+        content =
+          typeof content === "string" ? content : JSON.stringify(content);
+        if (res.status >= 300) {
+          return Promise.reject(content);
+        }
+        // images are shown to the user and not sent back to the model
+        report({ content, images: res.images, isError: false });
+        return content;
+      })
+      .catch((e) => {
+        report({ isError: true, errorMsg: e.toString() });
+        return e.toString();
+      })
+      .then((content) => ({
+        name,
+        role: "tool",
+        content,
+        tool_call_id: tool.id,
+      }));
+  };
+
   const finish = () => {
     if (!finished) {
       if (!running && runTools.length > 0) {
@@ -208,61 +297,41 @@ export function stream(
           role: "assistant",
           tool_calls: [...runTools],
         };
-        running = true;
         runTools.splice(0, runTools.length); // empty runTools
-        return Promise.all(
-          toolCallMessage.tool_calls.map((tool) => {
-            options?.onBeforeTool?.(tool);
-            return Promise.resolve(
-              // @ts-ignore
-              funcs[tool.function.name](
-                // @ts-ignore
-                tool?.function?.arguments
-                  ? JSON.parse(tool?.function?.arguments)
-                  : {},
-              ),
-            )
-              .then((res) => {
-                let content = res.data || res?.statusText;
-                // hotfix #5614
-                content =
-                  typeof content === "string"
-                    ? content
-                    : JSON.stringify(content);
-                if (res.status >= 300) {
-                  return Promise.reject(content);
-                }
-                return content;
-              })
-              .then((content) => {
-                options?.onAfterTool?.({
-                  ...tool,
-                  content,
-                  isError: false,
-                });
-                return content;
-              })
-              .catch((e) => {
-                options?.onAfterTool?.({
-                  ...tool,
-                  isError: true,
-                  errorMsg: e.toString(),
-                });
-                return e.toString();
-              })
-              .then((content) => ({
-                name: tool.function.name,
-                role: "tool",
-                content,
-                tool_call_id: tool.id,
-              }));
-          }),
-        ).then((toolCallResult) => {
+        step += 1;
+        if (step > maxToolSteps) {
+          // stop the loop, the calls of this step are shown as skipped
+          console.warn("[ChatAPI] reached max tool steps", maxToolSteps);
+          toolCallMessage.tool_calls.forEach((tool) => {
+            options?.onBeforeTool?.({ ...tool, step });
+            options?.onAfterTool?.({
+              ...tool,
+              step,
+              isError: true,
+              errorMsg: `Reached the limit of ${maxToolSteps} tool steps`,
+            });
+          });
+          finish();
+          return;
+        }
+        running = true;
+        const toolCallResult: Promise<any[]> = parallelToolCalls
+          ? Promise.all(toolCallMessage.tool_calls.map(runTool))
+          : toolCallMessage.tool_calls.reduce(
+              (results, tool) =>
+                results.then(async (r: any[]) => r.concat(await runTool(tool))),
+              Promise.resolve<any[]>([]),
+            );
+        toolCallResult.then((toolCallResult) => {
           processToolMessage(requestPayload, toolCallMessage, toolCallResult);
           setTimeout(() => {
+            running = false;
+            if (controller.signal.aborted) {
+              finish();
+              return;
+            }
             // call again
             console.debug("[ChatAPI] restart");
-            running = false;
             chatApi(chatPath, headers, requestPayload, tools); // call fetchEventSource
           }, 60);
         });
@@ -0,0 +1,159 @@
+const ENVELOPE_FORMAT = "nextchat-encrypted";
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+
+// what is uploaded instead of the plain state
+export interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: number;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  // hash of the second half of the derived bits, tells a wrong passphrase
+  // apart from broken data before decrypting
+  keyCheck: string;
+  data: string;
+}
+
+export class SyncPassphraseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncPassphraseError";
+  }
+}
+
+// a plain backup was read while encryption is on, anyone with access to the
+// storage could have put it there
+export class SyncPlaintextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncPlaintextError";
+  }
+}
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  // chunks keep the argument list of fromCharCode small
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      material,
+      512,
+    ),
+  );
+  const key = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(0, 32),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const keyCheck = toBase64(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", bits.slice(32))),
+  );
+  return { key, keyCheck };
+}
+
+export function isEncryptedPayload(text: string) {
+  try {
+    return JSON.parse(text)?.format === ENVELOPE_FORMAT;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Encrypts and decrypts payloads with one passphrase. The key derivation is
+ * the slow part, so every encryption of a cipher shares one salt (with a
+ * fresh iv each time) and the keys of the downloaded salts are cached.
+ */
+export function createPayloadCipher(
+  passphrase: string,
+  iterations = PBKDF2_ITERATIONS,
+) {
+  const keys = new Map<string, ReturnType<typeof deriveKey>>();
+  const getKey = (salt: string, iterations: number) => {
+    const id = `${iterations}:${salt}`;
+    if (!keys.has(id)) {
+      keys.set(id, deriveKey(passphrase, fromBase64(salt), iterations));
+    }
+    return keys.get(id)!;
+  };
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+  return {
+    async encrypt(text: string) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const { key, keyCheck } = await getKey(salt, iterations);
+      const data = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        encoder.encode(text),
+      );
+      const envelope: EncryptedEnvelope = {
+        format: ENVELOPE_FORMAT,
+        version: ENVELOPE_VERSION,
+        kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt },
+        cipher: { name: "AES-GCM", iv: toBase64(iv) },
+        keyCheck,
+        data: toBase64(new Uint8Array(data)),
+      };
+      return JSON.stringify(envelope);
+    },
+
+    async decrypt(text: string) {
+      const envelope = JSON.parse(text) as EncryptedEnvelope;
+      if (envelope.version > ENVELOPE_VERSION) {
+        throw Error(`[Sync] unsupported backup version ${envelope.version}`);
+      }
+      const { key, keyCheck } = await getKey(
+        envelope.kdf.salt,
+        envelope.kdf.iterations,
+      );
+      if (keyCheck !== envelope.keyCheck) {
+        throw new SyncPassphraseError("wrong passphrase");
+      }
+      const data = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(envelope.cipher.iv) },
+        key,
+        fromBase64(envelope.data),
+      );
+      return new TextDecoder().decode(data);
+    },
+  };
+}
+
+export function encryptPayload(
+  text: string,
+  passphrase: string,
+  iterations?: number,
+) {
+  return createPayloadCipher(passphrase, iterations).encrypt(text);
+}
+
+export function decryptPayload(text: string, passphrase: string) {
+  return createPayloadCipher(passphrase).decrypt(text);
+}
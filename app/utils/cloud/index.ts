@@ -1,14 +1,27 @@
 import { createWebDavClient } from "./webdav";
 import { createUpstashClient } from "./upstash";
+import { createS3Client } from "./s3";
+import { createLocalFolderClient } from "./local-folder";
+import {
+  createPayloadCipher,
+  isEncryptedPayload,
+  SyncPassphraseError,
+  SyncPlaintextError,
+} from "./crypto";
+import type { SyncStore } from "@/app/store/sync";
 
 export enum ProviderType {
   WebDAV = "webdav",
   UpStash = "upstash",
+  S3 = "s3",
+  LocalFolder = "localfolder",
 }
 
 export const SyncClients = {
   [ProviderType.UpStash]: createUpstashClient,
   [ProviderType.WebDAV]: createWebDavClient,
+  [ProviderType.S3]: createS3Client,
+  [ProviderType.LocalFolder]: createLocalFolderClient,
 } as const;
 
 type SyncClientConfig = {
@@ -22,12 +35,48 @@ type SyncClientConfig = {
 export type SyncClient = {
   get: (key: string) => Promise<string>;
   set: (key: string, value: string) => Promise<void>;
+  remove?: (key: string) => Promise<void>;
   check: () => Promise<boolean>;
 };
 
+// every provider goes through this layer, it encrypts the uploads when a
+// passphrase is set and decrypts the encrypted downloads
+function withEncryption(client: SyncClient, store: SyncStore): SyncClient {
+  const { enabled, passphrase } = store.encryption;
+  const cipher = createPayloadCipher(passphrase);
+  return {
+    ...client,
+    async get(key: string) {
+      const value = await client.get(key);
+      if (!value) return value;
+      if (!isEncryptedPayload(value)) {
+        // the user has to confirm a plain backup, see `encryptBackup`
+        if (enabled)
+          throw new SyncPlaintextError("the backup is not encrypted");
+        return value;
+      }
+      if (!passphrase) {
+        throw new SyncPassphraseError("the backup is encrypted");
+      }
+      return await cipher.decrypt(value);
+    },
+    async set(key: string, value: string) {
+      if (!enabled) return await client.set(key, value);
+      // never fall back to a plain upload once encryption is on
+      if (!passphrase) {
+        throw new SyncPassphraseError("no passphrase set");
+      }
+      await client.set(key, await cipher.encrypt(value));
+    },
+  };
+}
+
 export function createSyncClient<T extends ProviderType>(
   provider: T,
   config: SyncClientConfig[T],
 ): SyncClient {
-  return SyncClients[provider](config as any) as any;
+  return withEncryption(
+    SyncClients[provider](config as any) as any,
+    config as SyncStore,
+  );
 }
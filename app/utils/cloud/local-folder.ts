@@ -0,0 +1,50 @@
+import { SyncStore } from "@/app/store/sync";
+
+export type LocalFolderConfig = SyncStore["localfolder"];
+export type LocalFolderClient = ReturnType<typeof createLocalFolderClient>;
+
+// syncs to a folder of the desktop app, e.g. one kept in sync by a cloud drive
+export function createLocalFolderClient(store: SyncStore) {
+  const config = store.localfolder;
+  const fs = () => {
+    if (!window.__TAURI__) {
+      throw Error("[LocalFolder] only available in the desktop app");
+    }
+    return window.__TAURI__.fs;
+  };
+  const filePath = (key: string) =>
+    `${config.path.replace(/[\\/]+$/, "")}/${key}.json`;
+
+  return {
+    async check() {
+      try {
+        if (!(await fs().exists(config.path))) {
+          await fs().createDir(config.path, { recursive: true });
+        }
+        return true;
+      } catch (e) {
+        console.error("[LocalFolder] failed to check", e);
+      }
+      return false;
+    },
+
+    async get(key: string) {
+      const path = filePath(key);
+      if (!(await fs().exists(path))) {
+        return "";
+      }
+      return await fs().readTextFile(path);
+    },
+
+    async set(key: string, value: string) {
+      await fs().writeTextFile(filePath(key), value);
+    },
+
+    async remove(key: string) {
+      const path = filePath(key);
+      if (await fs().exists(path)) {
+        await fs().removeFile(path);
+      }
+    },
+  };
+}
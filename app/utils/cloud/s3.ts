@@ -0,0 +1,177 @@
+import { STORAGE_KEY } from "@/app/constant";
+import { SyncStore } from "@/app/store/sync";
+import { hash, hex, sign } from "../hmac";
+import { SYNC_MANIFEST_KEY } from "../sync-delta";
+
+export type S3Config = SyncStore["s3"];
+export type S3Client = ReturnType<typeof createS3Client>;
+
+const EMPTY_PAYLOAD_HASH = hash("");
+
+// yyyyMMddTHHmmssZ
+function getAmzDate(date: Date) {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+/**
+ * Signs a request with AWS Signature Version 4, the url is the one of the
+ * object store, not the one of the proxy. Returns the headers to send.
+ */
+export function signS3Request(options: {
+  method: string;
+  url: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  body?: string;
+  headers?: Record<string, string>;
+  date?: Date;
+}) {
+  const url = new URL(options.url);
+  const amzDate = getAmzDate(options.date ?? new Date());
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${options.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...options.headers,
+    host: url.host,
+    "x-amz-content-sha256": options.body
+      ? hash(options.body)
+      : EMPTY_PAYLOAD_HASH,
+    "x-amz-date": amzDate,
+  };
+  const headerNames = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()]),
+  );
+  const signedHeaders = headerNames.join(";");
+  const query = Array.from(url.searchParams.entries())
+    .map(([k, v]) => [encodeURIComponent(k), encodeURIComponent(v)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+
+  const canonicalRequest = [
+    options.method,
+    url.pathname,
+    query,
+    headerNames.map((name) => `${name}:${lowerHeaders[name]}\n`).join(""),
+    signedHeaders,
+    headers["x-amz-content-sha256"],
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    hash(canonicalRequest),
+  ].join("\n");
+
+  const dateKey = sign(`AWS4${options.secretAccessKey}`, day);
+  const regionKey = sign(dateKey, options.region);
+  const serviceKey = sign(regionKey, "s3");
+  const signingKey = sign(serviceKey, "aws4_request");
+  const signature = hex(sign(signingKey, stringToSign));
+
+  const { host, ...sentHeaders } = headers;
+  return {
+    ...sentHeaders,
+    authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function createS3Client(store: SyncStore) {
+  const config = store.s3;
+  const folder = config.folder || STORAGE_KEY;
+  const proxyUrl =
+    store.useProxy && store.proxyUrl.length > 0 ? store.proxyUrl : undefined;
+
+  return {
+    async check() {
+      try {
+        const res = await this.request("GET", SYNC_MANIFEST_KEY);
+        console.log("[S3] check", res.status, res.statusText);
+        // a missing object still proves the bucket and the credentials
+        return [200, 404].includes(res.status);
+      } catch (e) {
+        console.error("[S3] failed to check", e);
+      }
+      return false;
+    },
+
+    async get(key: string) {
+      const res = await this.request("GET", key);
+      console.log("[S3] get key = ", key, res.status, res.statusText);
+
+      if (404 == res.status) {
+        return "";
+      }
+      if (!res.ok) {
+        throw Error(`[S3] failed to get ${key}: ${res.status}`);
+      }
+      return await res.text();
+    },
+
+    async set(key: string, value: string) {
+      const res = await this.request("PUT", key, value);
+      console.log("[S3] set key = ", key, res.status, res.statusText);
+      if (!res.ok) {
+        throw Error(`[S3] failed to set ${key}: ${res.status}`);
+      }
+    },
+
+    async remove(key: string) {
+      const res = await this.request("DELETE", key);
+      console.log("[S3] remove key = ", key, res.status, res.statusText);
+    },
+
+    request(method: string, key: string, body?: string) {
+      const objectUrl = this.objectUrl(key);
+      const headers = signS3Request({
+        method,
+        url: objectUrl,
+        region: config.region,
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+        body,
+        headers: body ? { "content-type": "application/json" } : undefined,
+      });
+      return fetch(this.path(objectUrl, proxyUrl), {
+        method,
+        headers,
+        body,
+      });
+    },
+
+    // path style urls, they work with every S3-compatible store
+    objectUrl(key: string) {
+      const endpoint = config.endpoint.endsWith("/")
+        ? config.endpoint.slice(0, -1)
+        : config.endpoint;
+      return [endpoint, config.bucket, folder, `${key}.json`]
+        .map((part, i) => (i === 0 ? part : encodeURIComponent(part)))
+        .join("/");
+    },
+
+    path(objectUrl: string, proxyUrl: string = "") {
+      if (proxyUrl.endsWith("/")) {
+        proxyUrl = proxyUrl.slice(0, -1);
+      }
+
+      const { origin, pathname } = new URL(objectUrl);
+      const pathPrefix = "/api/s3";
+
+      let url;
+      try {
+        let u = new URL(proxyUrl + pathPrefix + pathname);
+        u.searchParams.append("endpoint", origin);
+        url = u.toString();
+      } catch (e) {
+        url = pathPrefix + pathname + "?endpoint=" + origin;
+      }
+
+      return url;
+    },
+  };
+}
@@ -8,8 +8,12 @@ export type UpStashClient = ReturnType<typeof createUpstashClient>;
 export function createUpstashClient(store: SyncStore) {
   const config = store.upstash;
   const storeKey = config.username.length === 0 ? STORAGE_KEY : config.username;
-  const chunkCountKey = `${storeKey}-chunk-count`;
-  const chunkIndexKey = (i: number) => `${storeKey}-chunk-${i}`;
+  // "backup" is the full state of the versions before the delta sync
+  const objectKey = (key: string) =>
+    key === "backup" ? storeKey : `${storeKey}-${key}`;
+  const chunkCountKey = (key: string) => `${objectKey(key)}-chunk-count`;
+  const chunkIndexKey = (key: string, i: number) =>
+    `${objectKey(key)}-chunk-${i}`;
 
   const proxyUrl =
     store.useProxy && store.proxyUrl.length > 0 ? store.proxyUrl : undefined;
@@ -51,28 +55,43 @@ export function createUpstashClient(store: SyncStore) {
       console.log("[Upstash] set key = ", key, res.status, res.statusText);
     },
 
-    async get() {
-      const chunkCount = Number(await this.redisGet(chunkCountKey));
+    async get(key: string) {
+      const chunkCount = Number(await this.redisGet(chunkCountKey(key)));
       if (!Number.isInteger(chunkCount)) return;
 
       const chunks = await Promise.all(
         new Array(chunkCount)
           .fill(0)
-          .map((_, i) => this.redisGet(chunkIndexKey(i))),
+          .map((_, i) => this.redisGet(chunkIndexKey(key, i))),
       );
-      console.log("[Upstash] get full chunks", chunks);
+      console.log("[Upstash] get full chunks", key, chunks.length);
       return chunks.join("");
     },
 
-    async set(_: string, value: string) {
+    async set(key: string, value: string) {
       // upstash limit the max request size which is 1Mb for “Free” and “Pay as you go”
       // so we need to split the data to chunks
       let index = 0;
       for await (const chunk of chunks(value)) {
-        await this.redisSet(chunkIndexKey(index), chunk);
+        await this.redisSet(chunkIndexKey(key, index), chunk);
         index += 1;
       }
-      await this.redisSet(chunkCountKey, index.toString());
+      await this.redisSet(chunkCountKey(key), index.toString());
+    },
+
+    async remove(key: string) {
+      const chunkCount = Number(await this.redisGet(chunkCountKey(key)));
+      const keys = [chunkCountKey(key)].concat(
+        new Array(Number.isInteger(chunkCount) ? chunkCount : 0)
+          .fill(0)
+          .map((_, i) => chunkIndexKey(key, i)),
+      );
+      const res = await fetch(this.path(`del/${keys.join("/")}`, proxyUrl), {
+        method: "POST",
+        headers: this.headers(),
+      });
+
+      console.log("[Upstash] remove key = ", key, res.status, res.statusText);
     },
 
     headers() {
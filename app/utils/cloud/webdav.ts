@@ -6,7 +6,9 @@ export type WebDavClient = ReturnType<typeof createWebDavClient>;
 
 export function createWebDavClient(store: SyncStore) {
   const folder = STORAGE_KEY;
-  const fileName = `${folder}/backup.json`;
+  // every synced object is a file of the folder, "backup" is the full state
+  // of the versions before the delta sync
+  const fileName = (key: string) => `${folder}/${key}.json`;
   const config = store.webdav;
   const proxyUrl =
     store.useProxy && store.proxyUrl.length > 0 ? store.proxyUrl : undefined;
@@ -35,7 +37,7 @@ export function createWebDavClient(store: SyncStore) {
     },
 
     async get(key: string) {
-      const res = await fetch(this.path(fileName, proxyUrl), {
+      const res = await fetch(this.path(fileName(key), proxyUrl), {
         method: "GET",
         headers: this.headers(),
       });
@@ -50,13 +52,25 @@ export function createWebDavClient(store: SyncStore) {
     },
 
     async set(key: string, value: string) {
-      const res = await fetch(this.path(fileName, proxyUrl), {
+      const res = await fetch(this.path(fileName(key), proxyUrl), {
         method: "PUT",
         headers: this.headers(),
         body: value,
       });
 
       console.log("[WebDav] set key = ", key, res.status, res.statusText);
+      if (!res.ok) {
+        throw Error(`[WebDav] failed to set ${key}: ${res.status}`);
+      }
+    },
+
+    async remove(key: string) {
+      const res = await fetch(this.path(fileName(key), proxyUrl, "DELETE"), {
+        method: "GET",
+        headers: this.headers(),
+      });
+
+      console.log("[WebDav] remove key = ", key, res.status, res.statusText);
     },
 
     headers() {
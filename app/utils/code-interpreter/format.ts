@@ -0,0 +1,58 @@
+export type CodeLanguage = "python" | "javascript";
+
+export type CodeRunImage = {
+  name: string;
+  type: string;
+  data: Uint8Array;
+};
+
+export type CodeRunResult = {
+  stdout: string;
+  stderr: string;
+  error?: string;
+  images: CodeRunImage[];
+  // other files the code wrote
+  files: string[];
+};
+
+// characters of each output sent back to the model
+export const CODE_OUTPUT_LIMIT = 8000;
+
+export function truncateOutput(text: string, limit = CODE_OUTPUT_LIMIT) {
+  if (text.length <= limit) return text;
+  return `${text.slice(0, limit)}\n... (${
+    text.length - limit
+  } more characters truncated)`;
+}
+
+// checks the arguments the model called the tool with
+export function parseCodeArguments(args: unknown): {
+  language: CodeLanguage;
+  code: string;
+} {
+  const { language, code } = (args ?? {}) as Record<string, unknown>;
+  if (typeof code !== "string" || !code.trim()) {
+    throw new Error("`code` is required");
+  }
+  const lang = `${language ?? "python"}`.toLowerCase();
+  if (["python", "py"].includes(lang)) return { language: "python", code };
+  if (["javascript", "js"].includes(lang)) {
+    return { language: "javascript", code };
+  }
+  throw new Error(`unsupported language ${language}`);
+}
+
+// the output of a run as the tool result for the model
+export function formatCodeResult(result: CodeRunResult) {
+  const sections = [
+    result.stdout && `stdout:\n${truncateOutput(result.stdout)}`,
+    result.stderr && `stderr:\n${truncateOutput(result.stderr)}`,
+    result.error && `error:\n${truncateOutput(result.error)}`,
+    result.images.length > 0 &&
+      `images shown to the user: ${result.images
+        .map((i) => i.name)
+        .join(", ")}`,
+    result.files.length > 0 && `files written: ${result.files.join(", ")}`,
+  ].filter(Boolean);
+  return sections.length > 0 ? sections.join("\n\n") : "(no output)";
+}
@@ -0,0 +1,246 @@
+import { create } from "zustand";
+import { nanoid } from "nanoid";
+import type { FunctionToolItem } from "../../store/plugin";
+import { uploadImage } from "../chat";
+import { getSandboxHtml, SANDBOX_DATA_DIR } from "./sandbox";
+import {
+  CodeLanguage,
+  CodeRunResult,
+  formatCodeResult,
+  parseCodeArguments,
+} from "./format";
+
+export * from "./format";
+
+export type CodeInterpreterConfig = {
+  // seconds a run may take, loading python is not counted
+  timeout: number;
+  // MiB of memory python may grow to, JavaScript runs have no memory cap
+  memoryLimit: number;
+};
+
+export const DEFAULT_CODE_INTERPRETER_CONFIG: CodeInterpreterConfig = {
+  timeout: 30,
+  memoryLimit: 512,
+};
+
+export const CODE_INTERPRETER_TOOL = "run_code";
+export const SANDBOX_MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+export type SandboxFile = {
+  name: string;
+  type: string;
+  data: Uint8Array;
+};
+
+// files the user uploaded for the code, kept in memory until the page reloads
+export const useSandboxFileStore = create<{
+  files: SandboxFile[];
+  add: (files: File[]) => Promise<string[]>;
+  remove: (name: string) => void;
+}>((set, get) => ({
+  files: [],
+  // adds the files that are small enough and returns the names of the others
+  async add(files) {
+    const tooLarge = files.filter((f) => f.size > SANDBOX_MAX_FILE_SIZE);
+    const added = await Promise.all(
+      files
+        .filter((f) => f.size <= SANDBOX_MAX_FILE_SIZE)
+        .map(async (f) => ({
+          name: f.name.replace(/[\\/]/g, "_"),
+          type: f.type,
+          data: new Uint8Array(await f.arrayBuffer()),
+        })),
+    );
+    set({
+      files: [
+        ...get().files.filter((f) => !added.some((a) => a.name === f.name)),
+        ...added,
+      ],
+    });
+    return tooLarge.map((f) => f.name);
+  },
+  remove(name) {
+    set({ files: get().files.filter((f) => f.name !== name) });
+  },
+}));
+
+type Sandbox = {
+  frame: HTMLIFrameElement;
+  ready: Promise<void>;
+  onReady: () => void;
+  // python is loaded on the first python run, which takes longer
+  hasPython: boolean;
+};
+
+let sandbox: Sandbox | undefined;
+let listening = false;
+const pendingRuns = new Map<
+  string,
+  {
+    resolve: (result: CodeRunResult & { memoryExceeded?: boolean }) => void;
+    reject: (error: Error) => void;
+  }
+>();
+
+function closeSandbox(reason: string) {
+  sandbox?.frame.remove();
+  sandbox = undefined;
+  pendingRuns.forEach((run) => run.reject(new Error(reason)));
+  pendingRuns.clear();
+}
+
+function onSandboxMessage(e: MessageEvent) {
+  if (!sandbox || e.source !== sandbox.frame.contentWindow) return;
+  if (e.data?.ready) {
+    sandbox.onReady();
+  } else if (e.data?.crashed) {
+    console.error("[Code Interpreter] sandbox crashed", e.data.crashed);
+    closeSandbox(e.data.crashed);
+  } else {
+    pendingRuns.get(e.data?.id)?.resolve(e.data);
+  }
+}
+
+function getSandbox() {
+  if (sandbox) return sandbox;
+  if (!listening) {
+    window.addEventListener("message", onSandboxMessage);
+    listening = true;
+  }
+
+  const frame = document.createElement("iframe");
+  frame.sandbox.add("allow-scripts");
+  frame.style.display = "none";
+  frame.srcdoc = getSandboxHtml();
+  let onReady = () => {};
+  const ready = new Promise<void>((resolve) => (onReady = resolve));
+  document.body.appendChild(frame);
+  return (sandbox = { frame, ready, onReady, hasPython: false });
+}
+
+async function runInSandbox(
+  language: CodeLanguage,
+  code: string,
+  config: CodeInterpreterConfig,
+  signal?: AbortSignal,
+): Promise<CodeRunResult> {
+  const current = getSandbox();
+  await current.ready;
+
+  const id = nanoid();
+  const files = useSandboxFileStore.getState().files;
+  const loading = language === "python" && !current.hasPython;
+  const timeout = (config.timeout + (loading ? 60 : 0)) * 1000;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const onAbort = () => closeSandbox("the run was cancelled");
+  signal?.addEventListener("abort", onAbort);
+  try {
+    const result = await new Promise<
+      CodeRunResult & { memoryExceeded?: boolean }
+    >((resolve, reject) => {
+      pendingRuns.set(id, { resolve, reject });
+      current.frame.contentWindow?.postMessage(
+        {
+          id,
+          language,
+          code,
+          files,
+          memoryLimit: config.memoryLimit * 1024 * 1024,
+        },
+        "*",
+      );
+      timeoutId = setTimeout(
+        () =>
+          closeSandbox(`the code ran longer than ${config.timeout} seconds`),
+        timeout,
+      );
+    });
+    if (language === "python") current.hasPython = true;
+    if (result.memoryExceeded) {
+      closeSandbox("memory limit");
+      result.stderr += `\nThe sandbox reached ${config.memoryLimit} MiB and was restarted, variables and imports are lost.`;
+    }
+    return result;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+    pendingRuns.delete(id);
+  }
+}
+
+// runs wait for the one before them, parallel tool calls share the sandbox
+let runQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs code in the sandbox, one run at a time. The sandbox is thrown away
+ * when a run times out, is cancelled or python reaches the memory limit, so
+ * the next run starts fresh.
+ */
+export function runCode(
+  language: CodeLanguage,
+  code: string,
+  config: CodeInterpreterConfig = DEFAULT_CODE_INTERPRETER_CONFIG,
+  signal?: AbortSignal,
+): Promise<CodeRunResult> {
+  const run = runQueue.then(() => {
+    if (signal?.aborted) throw new Error("the run was cancelled");
+    return runInSandbox(language, code, config, signal);
+  });
+  runQueue = run.catch(() => {});
+  return run;
+}
+
+// the code interpreter as the function tool of a plugin
+export function getCodeInterpreterTools(
+  config: CodeInterpreterConfig = DEFAULT_CODE_INTERPRETER_CONFIG,
+) {
+  return {
+    length: 1,
+    // the description lists the files uploaded at the time of the request
+    get tools() {
+      const files = useSandboxFileStore.getState().files;
+      return [
+        {
+          type: "function",
+          function: {
+            name: CODE_INTERPRETER_TOOL,
+            description: [
+              "Run Python (Pyodide, packages like numpy, pandas and matplotlib are loaded from the imports) or JavaScript in a sandbox in the browser of the user, and get the output back.",
+              "Print what you need to see. Python matplotlib figures and image files written to the data directory are shown to the user.",
+              `Python finds the files of the user in ${SANDBOX_DATA_DIR}, JavaScript gets them as \`files\` (name to Uint8Array) with \`readText(name)\` and \`writeFile(name, data)\` helpers.`,
+              files.length > 0
+                ? `Files: ${files.map((f) => f.name).join(", ")}.`
+                : "The user uploaded no files.",
+              `Runs time out after ${config.timeout} seconds.`,
+            ].join(" "),
+            parameters: {
+              type: "object",
+              properties: {
+                language: { type: "string", enum: ["python", "javascript"] },
+                code: { type: "string", description: "the code to run" },
+              },
+              required: ["language", "code"],
+            },
+          },
+        } as FunctionToolItem,
+      ];
+    },
+    funcs: {
+      async [CODE_INTERPRETER_TOOL](args: unknown, signal?: AbortSignal) {
+        const { language, code } = parseCodeArguments(args);
+        const result = await runCode(language, code, config, signal);
+        const images = await Promise.all(
+          result.images.map((image) =>
+            uploadImage(new Blob([image.data], { type: image.type })),
+          ),
+        );
+        return {
+          status: result.error ? 500 : 200,
+          data: formatCodeResult(result),
+          images,
+        };
+      },
+    } as Record<string, Function>,
+  };
+}
@@ -0,0 +1,190 @@
+// the page of the hidden iframe the code runs in. The iframe has an opaque
+// origin, so neither the page nor the worker it starts can reach the storage
+// or the cookies of the app.
+
+export const PYODIDE_URL = "https://cdn.jsdelivr.net/pyodide/v0.26.4/full/";
+
+// the directory python sees the files of the user in
+export const SANDBOX_DATA_DIR = "/mnt/data";
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+// runs one request at a time and answers with the output of the code
+const WORKER_SCRIPT = `
+const IMAGE_TYPES = ${JSON.stringify(IMAGE_TYPES)};
+const DATA_DIR = ${JSON.stringify(SANDBOX_DATA_DIR)};
+let pyodide;
+let memoryLimit = Infinity;
+let memoryExceeded = false;
+
+// the python heap grows through here, refusing to grow past the limit makes
+// the allocation fail with a MemoryError while the code runs. JavaScript
+// runs are not capped.
+const grow = WebAssembly.Memory.prototype.grow;
+WebAssembly.Memory.prototype.grow = function (pages) {
+  if (this.buffer.byteLength + pages * 65536 > memoryLimit) {
+    memoryExceeded = true;
+    throw new RangeError("the sandbox memory limit was reached");
+  }
+  return grow.call(this, pages);
+};
+
+function getImageType(name) {
+  return IMAGE_TYPES[name.split(".").pop().toLowerCase()];
+}
+
+function format(value) {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.stack || String(value);
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch (e) {
+    return String(value);
+  }
+}
+
+async function runPython(request, output) {
+  memoryLimit = request.memoryLimit;
+  if (!pyodide) {
+    importScripts(${JSON.stringify(PYODIDE_URL + "pyodide.js")});
+    pyodide = await loadPyodide({ indexURL: ${JSON.stringify(PYODIDE_URL)} });
+  }
+  pyodide.setStdout({ batched: (s) => output.stdout.push(s) });
+  pyodide.setStderr({ batched: (s) => output.stderr.push(s) });
+  pyodide.FS.mkdirTree(DATA_DIR);
+  for (const file of request.files) {
+    pyodide.FS.writeFile(DATA_DIR + "/" + file.name, file.data);
+  }
+  const before = new Map(
+    pyodide.FS.readdir(DATA_DIR).map((name) => [
+      name,
+      pyodide.FS.stat(DATA_DIR + "/" + name).mtime.getTime?.() ?? 0,
+    ]),
+  );
+
+  await pyodide.loadPackagesFromImports(request.code);
+  if (/matplotlib/.test(request.code)) {
+    await pyodide.runPythonAsync("import matplotlib\\nmatplotlib.use('AGG')");
+  }
+  try {
+    const result = await pyodide.runPythonAsync(request.code);
+    if (result !== undefined) output.stdout.push(String(result));
+    result?.destroy?.();
+  } finally {
+    // the figures the code drew, saved as png
+    const figures = pyodide.runPython(\`
+import sys
+def _figures():
+    if "matplotlib.pyplot" not in sys.modules:
+        return []
+    import io
+    import matplotlib.pyplot as plt
+    images = []
+    for num in plt.get_fignums():
+        buffer = io.BytesIO()
+        plt.figure(num).savefig(buffer, format="png", bbox_inches="tight")
+        images.append(buffer.getvalue())
+    plt.close("all")
+    return images
+_figures()
+\`);
+    figures.toJs().forEach((data, i) =>
+      output.images.push({ name: "figure-" + (i + 1) + ".png", type: "image/png", data }),
+    );
+    figures.destroy();
+
+    for (const name of pyodide.FS.readdir(DATA_DIR)) {
+      const path = DATA_DIR + "/" + name;
+      if (name === "." || name === ".." || pyodide.FS.isDir(pyodide.FS.stat(path).mode)) continue;
+      const mtime = pyodide.FS.stat(path).mtime.getTime?.() ?? 0;
+      if (before.get(name) === mtime) continue;
+      const type = getImageType(name);
+      if (type) {
+        output.images.push({ name, type, data: pyodide.FS.readFile(path) });
+      } else {
+        output.files.push(name);
+      }
+    }
+  }
+}
+
+async function runJavaScript(request, output) {
+  const files = Object.fromEntries(request.files.map((f) => [f.name, f.data]));
+  const readText = (name) => new TextDecoder().decode(files[name]);
+  const writeFile = (name, data) => {
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+    files[name] = bytes;
+    const type = getImageType(name);
+    if (type) output.images.push({ name, type, data: bytes });
+    else output.files.push(name);
+  };
+  const log = (stream) => (...args) => stream.push(args.map(format).join(" "));
+  const sandboxConsole = {
+    log: log(output.stdout),
+    info: log(output.stdout),
+    debug: log(output.stdout),
+    warn: log(output.stderr),
+    error: log(output.stderr),
+  };
+  const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+  const result = await new AsyncFunction(
+    "console",
+    "files",
+    "readText",
+    "writeFile",
+    request.code,
+  )(sandboxConsole, files, readText, writeFile);
+  if (result !== undefined) output.stdout.push(format(result));
+}
+
+async function run(request) {
+  const output = { id: request.id, stdout: [], stderr: [], images: [], files: [] };
+  try {
+    if (request.language === "python") {
+      await runPython(request, output);
+    } else {
+      await runJavaScript(request, output);
+    }
+  } catch (error) {
+    output.error = error instanceof Error ? error.message : String(error);
+  }
+  output.memoryExceeded = memoryExceeded;
+  output.stdout = output.stdout.join("\\n");
+  output.stderr = output.stderr.join("\\n");
+  self.postMessage(output);
+}
+
+// runs that arrive while one is busy wait for it, so their output is not mixed
+let queue = Promise.resolve();
+self.onmessage = (e) => {
+  queue = queue.then(() => run(e.data));
+};
+`;
+
+// starts the worker and relays the messages between it and the app
+export function getSandboxHtml() {
+  const script = `
+const worker = new Worker(
+  URL.createObjectURL(new Blob([${JSON.stringify(
+    WORKER_SCRIPT,
+  )}], { type: "text/javascript" })),
+);
+worker.onmessage = (e) => parent.postMessage(e.data, "*");
+worker.onerror = (e) => parent.postMessage({ crashed: e.message || "worker error" }, "*");
+window.addEventListener("message", (e) => {
+  if (e.source === parent) worker.postMessage(e.data);
+});
+parent.postMessage({ ready: true }, "*");
+`;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8" /></head><body><script>${script.replace(
+    /<\/script/gi,
+    "<\\/script",
+  )}</script></body></html>`;
+}
@@ -0,0 +1,118 @@
+import type { ChatMessage } from "../store";
+
+export type ContextPartName =
+  | "system"
+  | "context"
+  | "input"
+  | "memory"
+  | "history";
+
+export interface ContextPartBudget {
+  tokens: number;
+  included: number;
+  dropped: number;
+  droppedTokens: number;
+}
+
+export interface ContextBudget {
+  contextWindow: number;
+  // tokens kept free for the reply of the model
+  reservedOutput: number;
+  inputBudget: number;
+  usedTokens: number;
+  parts: Record<ContextPartName, ContextPartBudget>;
+}
+
+export interface CountedMessage {
+  message: ChatMessage;
+  tokens: number;
+}
+
+export interface ContextPlanInput {
+  contextWindow: number;
+  maxOutputTokens: number;
+  // output size requested by the user, the model limit is used if larger
+  maxTokens: number;
+  system: CountedMessage[];
+  context: CountedMessage[];
+  input: CountedMessage[];
+  memory: CountedMessage[];
+  // from the oldest to the newest message
+  history: CountedMessage[];
+}
+
+function emptyPart(): ContextPartBudget {
+  return { tokens: 0, included: 0, dropped: 0, droppedTokens: 0 };
+}
+
+function sum(messages: CountedMessage[]) {
+  return messages.reduce((pre, cur) => pre + cur.tokens, 0);
+}
+
+/**
+ * Decide which messages fit into the context window of a model.
+ *
+ * Parts are filled by priority: system prompts, mask context, the pending
+ * input and the newest history message are always kept, a request without
+ * them would make no sense. Then the long term memory is added if it still
+ * fits, and the rest of the history from the newest message backwards until
+ * the budget runs out.
+ */
+export function planContext(plan: ContextPlanInput) {
+  const reservedOutput = Math.min(plan.maxTokens, plan.maxOutputTokens);
+  const inputBudget = Math.max(0, plan.contextWindow - reservedOutput);
+  const parts = {
+    system: emptyPart(),
+    context: emptyPart(),
+    input: emptyPart(),
+    memory: emptyPart(),
+    history: emptyPart(),
+  };
+
+  let usedTokens = 0;
+  const include = (name: ContextPartName, messages: CountedMessage[]) => {
+    parts[name].tokens += sum(messages);
+    parts[name].included += messages.length;
+    usedTokens += sum(messages);
+  };
+  const drop = (name: ContextPartName, messages: CountedMessage[]) => {
+    parts[name].dropped += messages.length;
+    parts[name].droppedTokens += sum(messages);
+  };
+
+  include("system", plan.system);
+  include("context", plan.context);
+  include("input", plan.input);
+
+  let firstHistoryIndex = Math.max(0, plan.history.length - 1);
+  include("history", plan.history.slice(firstHistoryIndex));
+
+  const memoryFits = usedTokens + sum(plan.memory) <= inputBudget;
+  (memoryFits ? include : drop)("memory", plan.memory);
+
+  while (
+    firstHistoryIndex > 0 &&
+    usedTokens + plan.history[firstHistoryIndex - 1].tokens <= inputBudget
+  ) {
+    firstHistoryIndex -= 1;
+    include("history", [plan.history[firstHistoryIndex]]);
+  }
+  drop("history", plan.history.slice(0, firstHistoryIndex));
+
+  const messages = [
+    ...plan.system,
+    ...(memoryFits ? plan.memory : []),
+    ...plan.context,
+    ...plan.history.slice(firstHistoryIndex),
+  ].map((m) => m.message);
+
+  const budget: ContextBudget = {
+    contextWindow: plan.contextWindow,
+    reservedOutput,
+    inputBudget,
+    usedTokens,
+    parts,
+  };
+
+  return { messages, budget };
+}
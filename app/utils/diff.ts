@@ -0,0 +1,85 @@
+// a line diff of two texts laid out side by side
+
+export type DiffRowType = "same" | "changed" | "added" | "removed";
+
+export interface DiffLine {
+  // 1-based
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// larger texts are compared without looking for common lines
+const MAX_CELLS = 4_000_000;
+
+/**
+ * Compares two texts line by line with a longest common subsequence, removed
+ * lines followed by added ones are paired up as changed rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const n = a.length;
+  const m = b.length;
+
+  // lengths[i][j] is the lcs of a[i..] and b[j..]
+  const lengths: Uint32Array[] = [];
+  if (n * m <= MAX_CELLS) {
+    for (let i = n; i >= 0; i--) {
+      lengths[i] = new Uint32Array(m + 1);
+      if (i === n) continue;
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+  const common = (i: number, j: number) => lengths[i]?.[j] ?? 0;
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type: left && right ? "changed" : left ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      flush();
+      rows.push({
+        type: "same",
+        left: { number: i + 1, text: a[i] },
+        right: { number: j + 1, text: b[j] },
+      });
+      i++;
+      j++;
+    } else if (j >= m || (i < n && common(i + 1, j) >= common(i, j + 1))) {
+      removed.push({ number: i + 1, text: a[i] });
+      i++;
+    } else {
+      added.push({ number: j + 1, text: b[j] });
+      j++;
+    }
+  }
+  flush();
+  return rows;
+}
@@ -1,6 +1,9 @@
-import { useMemo } from "react";
-import { useAccessStore, useAppConfig } from "../store";
+import { useEffect, useMemo } from "react";
+import { useAccessStore, useAppConfig, useChatStore } from "../store";
+import type { ChatSession } from "../store/chat";
+import { useSyncStore } from "../store/sync";
 import { collectModelsWithDefaultModel } from "./model";
+import { useSyncStatus } from "./sync-scheduler";
 
 export function useAllModels() {
   const accessStore = useAccessStore();
@@ -20,3 +23,96 @@ export function useAllModels() {
 
   return models;
 }
+
+// syncs after a window focus only when the last sync is older than this
+const SYNC_FOCUS_GAP = 60 * 1000;
+const SYNC_TICK = 30 * 1000;
+// the chat store changes on every streamed chunk, new messages are counted
+// at most this often
+const SYNC_MESSAGE_CHECK_DELAY = 1000;
+
+const countMessages = (sessions: ChatSession[]) =>
+  sessions.reduce((count, session) => count + session.messages.length, 0);
+
+/**
+ * Background sync: on window focus, after a number of new messages and on an
+ * interval. Failed syncs are retried with a backoff, and a sync with
+ * conflicts pauses it until they are resolved.
+ */
+export function useAutoSync() {
+  const { enabled, onFocus, messageInterval, timeInterval } = useSyncStore(
+    (state) => state.autoSync,
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let messageCount = countMessages(useChatStore.getState().sessions);
+
+    const run = (reason: string) => {
+      const syncStore = useSyncStore.getState();
+      const { status, failures, retryAt } = useSyncStatus.getState();
+      if (!syncStore.cloudSync() || syncStore.conflicts.length > 0) return;
+      if (status === "syncing" || (failures > 0 && Date.now() < retryAt)) {
+        return;
+      }
+      // wait for the replies, the merge would replace a streaming message
+      const sessions = useChatStore.getState().sessions;
+      if (sessions.some((s) => s.messages.some((m) => m.streaming))) return;
+
+      console.log("[Sync] auto sync on", reason);
+      messageCount = countMessages(sessions);
+      // failures end up in the sync status
+      syncStore.sync(false).catch(() => {});
+    };
+
+    const onVisible = () => {
+      if (
+        document.visibilityState === "visible" &&
+        Date.now() - useSyncStore.getState().lastSyncTime > SYNC_FOCUS_GAP
+      ) {
+        run("focus");
+      }
+    };
+
+    let checkTimer: ReturnType<typeof setTimeout> | undefined;
+    const checkMessages = () => {
+      checkTimer = undefined;
+      const sessions = useChatStore.getState().sessions;
+      if (countMessages(sessions) - messageCount >= messageInterval) {
+        run("messages");
+      }
+    };
+    const unsubscribe =
+      messageInterval > 0
+        ? useChatStore.subscribe(() => {
+            if (!checkTimer) {
+              checkTimer = setTimeout(checkMessages, SYNC_MESSAGE_CHECK_DELAY);
+            }
+          })
+        : undefined;
+
+    const timer = setInterval(() => {
+      const { failures, retryAt } = useSyncStatus.getState();
+      const elapsed = Date.now() - useSyncStore.getState().lastSyncTime;
+      if (timeInterval > 0 && elapsed >= timeInterval * 60 * 1000) {
+        run("interval");
+      } else if (failures > 0 && Date.now() >= retryAt) {
+        run("retry");
+      }
+    }, SYNC_TICK);
+
+    if (onFocus) {
+      window.addEventListener("focus", onVisible);
+      document.addEventListener("visibilitychange", onVisible);
+    }
+
+    return () => {
+      unsubscribe?.();
+      clearTimeout(checkTimer);
+      clearInterval(timer);
+      window.removeEventListener("focus", onVisible);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [enabled, onFocus, messageInterval, timeInterval]);
+}
@@ -0,0 +1,436 @@
+import type { Mask } from "../store/mask";
+import type { ModelConfig } from "../store/config";
+import {
+  getValidVariables,
+  MaskVariable,
+  parseMaskVariables,
+} from "./mask-variables";
+
+// masks shared as a file or served as a remote catalog, see
+// docs/mask-package-en.md
+export const MASK_PACKAGE_FORMAT = "nextchat-masks";
+export const MASK_PACKAGE_VERSION = 1;
+
+// the role and the text of a context prompt
+export interface MaskPackagePrompt {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface MaskPackageRequirements {
+  // the mask asks for one of these models
+  models?: string[];
+  // ids of the plugins the mask turns on
+  plugins?: string[];
+}
+
+export interface MaskPackageItem {
+  // stable across versions, used to find the installed copy
+  id: string;
+  // a positive integer, raised on every change
+  version: number;
+  name: string;
+  avatar?: string;
+  lang: string;
+  description?: string;
+  author?: string;
+  tags?: string[];
+  context: MaskPackagePrompt[];
+  hideContext?: boolean;
+  modelConfig?: Partial<ModelConfig>;
+  requires?: MaskPackageRequirements;
+  variables?: MaskVariable[];
+  enableArtifacts?: boolean;
+  enableCodeFold?: boolean;
+}
+
+export interface MaskPackage {
+  format: typeof MASK_PACKAGE_FORMAT;
+  schemaVersion: number;
+  name?: string;
+  description?: string;
+  author?: string;
+  homepage?: string;
+  updatedAt?: number;
+  masks: MaskPackageItem[];
+}
+
+// where an installed mask came from
+export interface MaskSource {
+  id: string;
+  version: number;
+  // the url of the catalog, missing for masks imported from a file
+  catalog?: string;
+  installedAt?: number;
+  // the plugins the catalog turned on, their tool calls always wait for the
+  // user to approve them
+  plugins?: string[];
+}
+
+export class MaskPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MaskPackageError";
+  }
+}
+
+export interface ParsedMaskPackage {
+  package: MaskPackage;
+  // the masks that failed the validation, by index
+  errors: string[];
+}
+
+const ROLES = ["system", "user", "assistant"];
+const ID_PATTERN = /^[\w.-]{1,100}$/;
+const MAX_MASKS = 1000;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const optionalString = (value: unknown, field: string, max = 1000) => {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || value.length > max) {
+    throw new MaskPackageError(`\`${field}\` must be a string`);
+  }
+  return value;
+};
+
+const optionalText = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+const optionalBoolean = (value: unknown, field: string) => {
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") {
+    throw new MaskPackageError(`\`${field}\` must be a boolean`);
+  }
+  return value;
+};
+
+const stringList = (value: unknown, field: string) => {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.some((v) => typeof v !== "string" || !v.trim())
+  ) {
+    throw new MaskPackageError(`\`${field}\` must be a list of strings`);
+  }
+  return Array.from(new Set(value.map((v: string) => v.trim())));
+};
+
+function slugify(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\w.-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 100) || "mask"
+  );
+}
+
+// checks one mask of a package and keeps the known fields only
+export function validateMaskPackageItem(data: unknown): MaskPackageItem {
+  if (!isObject(data)) throw new MaskPackageError("a mask must be an object");
+  if (typeof data.id !== "string" || !ID_PATTERN.test(data.id)) {
+    throw new MaskPackageError(
+      "`id` must be letters, digits, dots, dashes or underscores",
+    );
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new MaskPackageError("`version` must be a positive integer");
+  }
+  if (typeof data.name !== "string" || !data.name.trim()) {
+    throw new MaskPackageError("`name` is required");
+  }
+  if (typeof data.lang !== "string" || !data.lang) {
+    throw new MaskPackageError("`lang` is required");
+  }
+  if (
+    !Array.isArray(data.context) ||
+    data.context.some(
+      (p: unknown) =>
+        !isObject(p) ||
+        !ROLES.includes(p.role) ||
+        typeof p.content !== "string",
+    )
+  ) {
+    throw new MaskPackageError(
+      "`context` must be a list of prompts with a role and a content",
+    );
+  }
+  if (data.modelConfig !== undefined && !isObject(data.modelConfig)) {
+    throw new MaskPackageError("`modelConfig` must be an object");
+  }
+  if (data.requires !== undefined && !isObject(data.requires)) {
+    throw new MaskPackageError("`requires` must be an object");
+  }
+  let variables: MaskVariable[] | undefined;
+  try {
+    variables =
+      data.variables === undefined
+        ? undefined
+        : parseMaskVariables(data.variables);
+  } catch (e) {
+    throw new MaskPackageError((e as Error).message);
+  }
+
+  const item: MaskPackageItem = {
+    id: data.id,
+    version: data.version,
+    name: data.name.trim(),
+    avatar: optionalString(data.avatar, "avatar", 100),
+    lang: data.lang,
+    description: optionalString(data.description, "description"),
+    author: optionalString(data.author, "author", 200),
+    tags: stringList(data.tags, "tags"),
+    context: data.context.map((p: MaskPackagePrompt) => ({
+      role: p.role,
+      content: p.content,
+    })),
+    hideContext: optionalBoolean(data.hideContext, "hideContext"),
+    // only plain values, a package can not smuggle in objects
+    modelConfig: data.modelConfig
+      ? Object.fromEntries(
+          Object.entries(data.modelConfig).filter(([, v]) =>
+            ["string", "number", "boolean"].includes(typeof v),
+          ),
+        )
+      : undefined,
+    requires: data.requires
+      ? {
+          models: stringList(data.requires.models, "requires.models"),
+          plugins: stringList(data.requires.plugins, "requires.plugins"),
+        }
+      : undefined,
+    variables,
+    enableArtifacts: optionalBoolean(data.enableArtifacts, "enableArtifacts"),
+    enableCodeFold: optionalBoolean(data.enableCodeFold, "enableCodeFold"),
+  };
+  // drop the fields that were missing
+  return JSON.parse(JSON.stringify(item));
+}
+
+const promptText = (content: unknown) =>
+  Array.isArray(content)
+    ? content
+        .map((c) => c?.text ?? "")
+        .filter(Boolean)
+        .join("\n")
+    : content;
+
+// a mask exported before the package format, a plain mask object
+function fromLegacyMask(data: unknown, index: number): unknown {
+  if (!isObject(data)) return data;
+  return {
+    ...data,
+    id:
+      typeof data.id === "string" && ID_PATTERN.test(data.id)
+        ? data.id
+        : `${slugify(`${data.name ?? ""}`)}-${index + 1}`,
+    version: 1,
+    lang: data.lang ?? "en",
+    context: Array.isArray(data.context)
+      ? data.context.map((p: any) => ({
+          ...p,
+          content: promptText(p?.content),
+        }))
+      : [],
+    modelConfig: data.syncGlobalConfig ? undefined : data.modelConfig,
+    requires:
+      Array.isArray(data.plugin) && data.plugin.length > 0
+        ? { plugins: data.plugin }
+        : undefined,
+  };
+}
+
+/**
+ * Reads a mask package, a list of masks or a single mask as exported by
+ * older versions. The masks that fail the validation are left out and
+ * reported, a file without any valid mask throws.
+ */
+export function parseMaskPackage(content: string | unknown): ParsedMaskPackage {
+  let data = content;
+  if (typeof content === "string") {
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      throw new MaskPackageError("invalid json");
+    }
+  }
+
+  let meta: Record<string, any> = {};
+  let masks: unknown[];
+  if (isObject(data) && data.format === MASK_PACKAGE_FORMAT) {
+    if (
+      !Number.isInteger(data.schemaVersion) ||
+      data.schemaVersion > MASK_PACKAGE_VERSION
+    ) {
+      throw new MaskPackageError(
+        `unsupported schema version ${data.schemaVersion}`,
+      );
+    }
+    if (!Array.isArray(data.masks)) {
+      throw new MaskPackageError("`masks` must be a list");
+    }
+    meta = data;
+    masks = data.masks;
+  } else if (Array.isArray(data)) {
+    masks = data.map(fromLegacyMask);
+  } else if (isObject(data) && data.name) {
+    masks = [fromLegacyMask(data, 0)];
+  } else {
+    throw new MaskPackageError("not a mask package");
+  }
+  if (masks.length > MAX_MASKS) {
+    throw new MaskPackageError(`a package has at most ${MAX_MASKS} masks`);
+  }
+
+  const items: MaskPackageItem[] = [];
+  const errors: string[] = [];
+  masks.forEach((mask, i) => {
+    try {
+      const item = validateMaskPackageItem(mask);
+      if (items.some((m) => m.id === item.id)) {
+        throw new MaskPackageError(`duplicate id ${item.id}`);
+      }
+      items.push(item);
+    } catch (e) {
+      const name = isObject(mask) && mask.name ? ` (${mask.name})` : "";
+      errors.push(`#${i + 1}${name}: ${(e as Error).message}`);
+    }
+  });
+  if (items.length === 0) {
+    throw new MaskPackageError(errors[0] ?? "the package has no masks");
+  }
+
+  return {
+    package: {
+      format: MASK_PACKAGE_FORMAT,
+      schemaVersion: MASK_PACKAGE_VERSION,
+      name: optionalText(meta.name),
+      description: optionalText(meta.description),
+      author: optionalText(meta.author),
+      homepage: optionalText(meta.homepage),
+      updatedAt: Number.isFinite(meta.updatedAt) ? meta.updatedAt : undefined,
+      masks: items,
+    },
+    errors,
+  };
+}
+
+// the package entry of a mask, a mask from a package keeps its id and
+// counts up its version when it changed since
+export function maskToPackageItem(mask: Mask): MaskPackageItem {
+  const source = mask.source;
+  const item = validateMaskPackageItem({
+    id: source?.id ?? `${slugify(mask.name)}-${mask.id}`.slice(0, 100),
+    version: source?.version ?? 1,
+    name: mask.name,
+    avatar: mask.avatar,
+    lang: mask.lang,
+    description: mask.description,
+    author: mask.author,
+    tags: mask.tags,
+    context: mask.context.map((m) => ({
+      role: m.role,
+      content: promptText(m.content),
+    })),
+    hideContext: mask.hideContext,
+    modelConfig: mask.syncGlobalConfig ? undefined : mask.modelConfig,
+    requires: {
+      models: mask.syncGlobalConfig ? undefined : [mask.modelConfig.model],
+      plugins: mask.plugin?.length ? mask.plugin : undefined,
+    },
+    variables: mask.variables?.length
+      ? getValidVariables(mask.variables)
+      : undefined,
+    enableArtifacts: mask.enableArtifacts,
+    enableCodeFold: mask.enableCodeFold,
+  });
+  if (source && mask.updatedAt && mask.updatedAt > (source.installedAt ?? 0)) {
+    item.version += 1;
+  }
+  return item;
+}
+
+export function createMaskPackage(
+  masks: Mask[],
+  meta: Pick<MaskPackage, "name" | "description" | "author"> = {},
+): MaskPackage {
+  const items: MaskPackageItem[] = [];
+  masks.forEach((mask) => {
+    const item = maskToPackageItem(mask);
+    // two copies of one package mask, the newer one keeps the id
+    if (items.some((m) => m.id === item.id)) {
+      item.id = `${item.id}-${mask.id}`.slice(0, 100);
+    }
+    items.push(item);
+  });
+  return {
+    format: MASK_PACKAGE_FORMAT,
+    schemaVersion: MASK_PACKAGE_VERSION,
+    ...meta,
+    updatedAt: Date.now(),
+    masks: items,
+  };
+}
+
+// the fields of a mask taken from a package item, the model config is merged
+// into the global one by the caller
+export function packageItemToMask(
+  item: MaskPackageItem,
+  catalog?: string,
+): Omit<Partial<Mask>, "modelConfig"> & {
+  modelConfig?: Partial<ModelConfig>;
+} {
+  return {
+    name: item.name,
+    avatar: item.avatar,
+    lang: item.lang as Mask["lang"],
+    description: item.description,
+    author: item.author,
+    tags: item.tags,
+    context: item.context.map((p, i) => ({
+      id: `${item.id}-${i}`,
+      role: p.role,
+      content: p.content,
+      date: "",
+    })),
+    hideContext: item.hideContext,
+    modelConfig: item.modelConfig,
+    syncGlobalConfig: !item.modelConfig || !item.modelConfig.model,
+    plugin: item.requires?.plugins ?? [],
+    variables: item.variables,
+    enableArtifacts: item.enableArtifacts,
+    enableCodeFold: item.enableCodeFold,
+    source: {
+      id: item.id,
+      version: item.version,
+      catalog,
+      installedAt: Date.now(),
+      plugins: catalog ? item.requires?.plugins : undefined,
+    },
+  };
+}
+
+// the models and plugins a mask needs that are not available here
+export function getMissingRequirements(
+  item: MaskPackageItem,
+  available: { models: string[]; plugins: string[] },
+) {
+  const models = item.requires?.models ?? [];
+  return {
+    models: models.some((m) => available.models.includes(m)) ? [] : models,
+    plugins: (item.requires?.plugins ?? []).filter(
+      (p) => !available.plugins.includes(p),
+    ),
+  };
+}
+
+// the installed mask of a catalog entry, by the id of the package mask
+export function findInstalledMask(masks: Mask[], item: MaskPackageItem) {
+  return masks.find((m) => m.source?.id === item.id);
+}
+
+export function hasMaskUpdate(mask: Mask | undefined, item: MaskPackageItem) {
+  return !!mask?.source && item.version > mask.source.version;
+}
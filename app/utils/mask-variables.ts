@@ -0,0 +1,185 @@
+// variables a mask asks for before the chat starts, referenced as `{{name}}`
+// in its context prompts
+
+export type MaskVariableType = "text" | "select" | "number" | "file";
+
+export interface MaskVariable {
+  name: string;
+  type: MaskVariableType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+  // choices of a select
+  options?: string[];
+  // bounds of a number
+  min?: number;
+  max?: number;
+}
+
+// the filled values by name, a file is kept as its text
+export type MaskVariableValues = Record<string, string>;
+
+export const MASK_VARIABLE_TYPES: MaskVariableType[] = [
+  "text",
+  "select",
+  "number",
+  "file",
+];
+export const MASK_VARIABLE_FILE_LIMIT = 100 * 1024;
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w{0,49}$/;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type MaskVariableError =
+  | { type: "required" }
+  | { type: "number" }
+  | { type: "range"; min?: number; max?: number }
+  | { type: "option" }
+  | { type: "size" };
+
+// the names a text references, in order of appearance
+export function getTemplateVariableNames(text: string) {
+  return Array.from(
+    new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (m) => m[1])),
+  );
+}
+
+export function getDefaultVariableValues(
+  variables: MaskVariable[],
+): MaskVariableValues {
+  return Object.fromEntries(
+    variables.map((v) => [
+      v.name,
+      v.default ?? (v.type === "select" ? v.options?.[0] ?? "" : ""),
+    ]),
+  );
+}
+
+/**
+ * Puts the values in place of the declared variables, other `{{...}}` are
+ * left as they are. A missing value falls back to the default.
+ */
+export function fillMaskVariables(
+  text: string,
+  variables: MaskVariable[],
+  values: MaskVariableValues = {},
+) {
+  if (variables.length === 0) return text;
+  const defaults = getDefaultVariableValues(variables);
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in defaults ? values[name] ?? defaults[name] : match,
+  );
+}
+
+export function validateVariableValue(
+  variable: MaskVariable,
+  value: string | undefined,
+): MaskVariableError | undefined {
+  if (!value?.trim()) {
+    return variable.required ? { type: "required" } : undefined;
+  }
+  switch (variable.type) {
+    case "number": {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return { type: "number" };
+      if (
+        (variable.min !== undefined && number < variable.min) ||
+        (variable.max !== undefined && number > variable.max)
+      ) {
+        return { type: "range", min: variable.min, max: variable.max };
+      }
+      return;
+    }
+    case "select":
+      return variable.options?.includes(value) ? undefined : { type: "option" };
+    case "file":
+      return value.length > MASK_VARIABLE_FILE_LIMIT
+        ? { type: "size" }
+        : undefined;
+  }
+}
+
+// the errors of the values by variable name, empty when all are valid
+export function validateVariableValues(
+  variables: MaskVariable[],
+  values: MaskVariableValues,
+) {
+  const errors: Record<string, MaskVariableError> = {};
+  variables.forEach((variable) => {
+    const error = validateVariableValue(variable, values[variable.name]);
+    if (error) errors[variable.name] = error;
+  });
+  return errors;
+}
+
+const text = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+const number = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+// checks one declared variable and keeps the known fields only
+function parseMaskVariable(v: any): MaskVariable {
+  if (typeof v?.name !== "string" || !VARIABLE_NAME_PATTERN.test(v.name)) {
+    throw new Error("invalid name");
+  }
+  if (!MASK_VARIABLE_TYPES.includes(v.type)) {
+    throw new Error(`unknown type ${v.type}`);
+  }
+  if (
+    v.type === "select" &&
+    (!Array.isArray(v.options) ||
+      v.options.length === 0 ||
+      v.options.some((o: unknown) => typeof o !== "string"))
+  ) {
+    throw new Error("a select needs options");
+  }
+  const variable: MaskVariable = {
+    name: v.name,
+    type: v.type,
+    label: text(v.label) || undefined,
+    description: text(v.description) || undefined,
+    required: v.required === true ? true : undefined,
+    default: text(v.default) ?? number(v.default)?.toString(),
+    options: v.type === "select" ? v.options : undefined,
+    min: v.type === "number" ? number(v.min) : undefined,
+    max: v.type === "number" ? number(v.max) : undefined,
+  };
+  return JSON.parse(JSON.stringify(variable));
+}
+
+/**
+ * Checks the variables of a mask from a file or a catalog, throws an Error
+ * naming the first invalid one.
+ */
+export function parseMaskVariables(data: unknown): MaskVariable[] {
+  if (!Array.isArray(data)) throw new Error("`variables` must be a list");
+  const names = new Set<string>();
+  return data.map((v, i) => {
+    try {
+      const variable = parseMaskVariable(v);
+      if (names.has(variable.name)) {
+        throw new Error(`duplicate ${variable.name}`);
+      }
+      names.add(variable.name);
+      return variable;
+    } catch (e) {
+      throw new Error(`variables[${i}]: ${(e as Error).message}`);
+    }
+  });
+}
+
+// the variables that are complete, the others are still being edited
+export function getValidVariables(variables: MaskVariable[] = []) {
+  const names = new Set<string>();
+  return variables.flatMap((v) => {
+    try {
+      const variable = parseMaskVariable(v);
+      if (names.has(variable.name)) return [];
+      names.add(variable.name);
+      return [variable];
+    } catch (e) {
+      return [];
+    }
+  });
+}
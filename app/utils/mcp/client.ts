@@ -0,0 +1,137 @@
+// the Model Context Protocol is JSON-RPC 2.0 over a transport,
+// see https://modelcontextprotocol.io/specification
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+export type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  // requests without an id are notifications
+  id?: number;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type JsonRpcResponse = {
+  jsonrpc: "2.0";
+  id: number;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+};
+
+export type McpTransport = {
+  // resolves with the response of a request, or nothing for notifications
+  send: (message: JsonRpcRequest) => Promise<JsonRpcResponse | undefined>;
+  close: () => Promise<void>;
+};
+
+export type McpTool = {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type McpToolResult = {
+  content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  isError?: boolean;
+};
+
+export type McpServerInfo = {
+  name: string;
+  version: string;
+};
+
+export type McpClient = ReturnType<typeof createMcpClient>;
+
+export function createMcpClient(transport: McpTransport) {
+  let nextId = 1;
+
+  async function request(
+    method: string,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal,
+  ) {
+    if (signal?.aborted) {
+      throw new Error(`[MCP] ${method} was cancelled`);
+    }
+    const id = nextId++;
+    // an aborted request is cancelled on the server too, see the cancellation
+    // utility of the spec
+    let onAbort = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        transport
+          .send({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: id, reason: "cancelled by the client" },
+          })
+          .catch(() => {});
+        reject(new Error(`[MCP] ${method} was cancelled`));
+      };
+    });
+    signal?.addEventListener("abort", onAbort);
+    let response: JsonRpcResponse | undefined;
+    try {
+      response = await Promise.race([
+        transport.send({ jsonrpc: "2.0", id, method, params }),
+        cancelled,
+      ]);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+    if (!response) {
+      throw new Error(`[MCP] no response to ${method}`);
+    }
+    if (response.error) {
+      throw new Error(`[MCP] ${method} failed: ${response.error.message}`);
+    }
+    return response.result;
+  }
+
+  return {
+    async initialize(): Promise<McpServerInfo> {
+      const result = await request("initialize", {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "NextChat", version: "1.0.0" },
+      });
+      await transport.send({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+      return result.serverInfo;
+    },
+
+    async listTools() {
+      const tools: McpTool[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await request(
+          "tools/list",
+          cursor ? { cursor } : undefined,
+        );
+        tools.push(...(result.tools ?? []));
+        cursor = result.nextCursor;
+      } while (cursor);
+      return tools;
+    },
+
+    async callTool(
+      name: string,
+      args: Record<string, unknown>,
+      signal?: AbortSignal,
+    ): Promise<McpToolResult> {
+      return request("tools/call", { name, arguments: args }, signal);
+    },
+
+    close() {
+      return transport.close();
+    },
+  };
+}
+
+// tool results are sent back to the model as plain text
+export function formatToolResult(result: McpToolResult) {
+  return (result.content ?? [])
+    .map((c) => (c.type === "text" ? c.text ?? "" : JSON.stringify(c)))
+    .join("\n");
+}
@@ -0,0 +1,73 @@
+import type { JsonRpcRequest, JsonRpcResponse, McpTransport } from "./client";
+
+export type HttpTransportConfig = {
+  url: string;
+  headers?: Record<string, string>;
+  fetch?: (url: string, options?: RequestInit) => Promise<Response>;
+};
+
+const SESSION_HEADER = "Mcp-Session-Id";
+
+function parseEventStream(text: string) {
+  return text
+    .split(/\r?\n\r?\n/)
+    .map((event) =>
+      event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n"),
+    )
+    .filter((data) => data.length > 0)
+    .map((data) => JSON.parse(data) as JsonRpcResponse);
+}
+
+/**
+ * Streamable HTTP transport: every message is POSTed to the server, which
+ * answers with either a JSON body or an event stream carrying the response.
+ */
+export function createHttpTransport(config: HttpTransportConfig): McpTransport {
+  const fetchFn = config.fetch ?? fetch;
+  let sessionId: string | undefined;
+
+  const headers = () => ({
+    ...config.headers,
+    ...(sessionId ? { [SESSION_HEADER]: sessionId } : {}),
+  });
+
+  return {
+    async send(message: JsonRpcRequest) {
+      const res = await fetchFn(config.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers(),
+        },
+        body: JSON.stringify(message),
+      });
+      sessionId = res.headers.get(SESSION_HEADER) ?? sessionId;
+
+      if (!res.ok) {
+        throw new Error(`[MCP] ${res.status} ${await res.text()}`);
+      }
+      if (message.id === undefined) return;
+
+      const text = await res.text();
+      const messages = res.headers
+        .get("Content-Type")
+        ?.includes("text/event-stream")
+        ? parseEventStream(text)
+        : [JSON.parse(text) as JsonRpcResponse];
+      return messages.find((m) => m.id === message.id);
+    },
+
+    async close() {
+      if (!sessionId) return;
+      await fetchFn(config.url, { method: "DELETE", headers: headers() }).catch(
+        (e) => console.error("[MCP] failed to close session", e),
+      );
+      sessionId = undefined;
+    },
+  };
+}
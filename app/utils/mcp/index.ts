@@ -0,0 +1,148 @@
+import { fetch as tauriStreamFetch } from "../stream";
+import type { FunctionToolItem } from "../../store/plugin";
+import {
+  createMcpClient,
+  formatToolResult,
+  McpClient,
+  McpServerInfo,
+  McpTool,
+  McpTransport,
+} from "./client";
+import { createHttpTransport } from "./http";
+import { createStdioTransport } from "./stdio";
+
+export * from "./client";
+
+export enum McpTransportType {
+  Http = "http",
+  Stdio = "stdio",
+}
+
+export type McpServerConfig = {
+  transport: McpTransportType;
+  // streamable http servers
+  url?: string;
+  useProxy?: boolean;
+  // stdio servers, desktop app only
+  command?: string;
+  // result of the last `tools/list`, so tools are known without connecting
+  tools?: McpTool[];
+};
+
+function createTransport(
+  config: McpServerConfig,
+  headers: Record<string, string>,
+): McpTransport {
+  if (config.transport === McpTransportType.Stdio) {
+    return createStdioTransport({ command: config.command ?? "" });
+  }
+
+  const url = config.url ?? "";
+  if (typeof window !== "undefined" && window.__TAURI__) {
+    return createHttpTransport({
+      url,
+      headers,
+      fetch: tauriStreamFetch,
+    });
+  }
+  if (config.useProxy) {
+    // the browser can not reach most servers because of CORS
+    const target = new URL(url);
+    return createHttpTransport({
+      url: `/api/proxy${target.pathname}${target.search}`,
+      headers: { ...headers, "X-Base-URL": target.origin },
+    });
+  }
+  return createHttpTransport({ url, headers });
+}
+
+type McpConnection = {
+  key: string;
+  client: Promise<{ client: McpClient; serverInfo: McpServerInfo }>;
+};
+
+const connections: Record<string, McpConnection> = {};
+
+/**
+ * Get the initialized client of a server, connections are shared per plugin
+ * and opened again when the server config changes.
+ */
+export function getMcpClient(
+  id: string,
+  config: McpServerConfig,
+  headers: Record<string, string> = {},
+) {
+  const key = JSON.stringify([
+    config.transport,
+    config.url,
+    config.useProxy,
+    config.command,
+    headers,
+  ]);
+  if (connections[id]?.key !== key) {
+    closeMcpClient(id);
+    const client = (async () => {
+      const client = createMcpClient(createTransport(config, headers));
+      const serverInfo = await client.initialize();
+      return { client, serverInfo };
+    })();
+    client.catch(() => {
+      if (connections[id]?.client === client) delete connections[id];
+    });
+    connections[id] = { key, client };
+  }
+  return connections[id].client;
+}
+
+export function closeMcpClient(id: string) {
+  const connection = connections[id];
+  if (!connection) return;
+  delete connections[id];
+  return connection.client
+    .then(({ client }) => client.close())
+    .catch((e) => console.error("[MCP] failed to close", e));
+}
+
+/**
+ * Map the cached tools of a server to function tools, calls go through the
+ * shared connection and resolve like the axios responses of OpenAPI plugins,
+ * which is what `stream()` expects.
+ */
+export function getMcpFunctionTools(
+  id: string,
+  config: McpServerConfig,
+  headers: Record<string, string> = {},
+) {
+  const tools = config?.tools ?? [];
+  return {
+    length: tools.length,
+    tools: tools.map(
+      (t) =>
+        ({
+          type: "function",
+          function: {
+            name: t.name,
+            description: t.description,
+            parameters: t.inputSchema,
+          },
+        }) as FunctionToolItem,
+    ),
+    funcs: tools.reduce(
+      (s, t) => {
+        s[t.name] = async (
+          args: Record<string, unknown>,
+          signal?: AbortSignal,
+        ) => {
+          const { client } = await getMcpClient(id, config, headers);
+          const result = await client.callTool(t.name, args, signal);
+          return {
+            status: result.isError ? 500 : 200,
+            data: formatToolResult(result),
+          };
+        };
+        return s;
+      },
+      {} as Record<string, Function>,
+    ),
+  };
+}
@@ -0,0 +1,84 @@
+import type { JsonRpcRequest, JsonRpcResponse, McpTransport } from "./client";
+
+export type StdioTransportConfig = {
+  // e.g. `npx -y @modelcontextprotocol/server-everything`
+  command: string;
+};
+
+/**
+ * Stdio transport for the desktop app: the server is spawned by the app (see
+ * src-tauri/src/mcp.rs), which asks the user before it runs a command for the
+ * first time, and exchanges newline delimited JSON on stdin/stdout.
+ */
+export function createStdioTransport(
+  config: StdioTransportConfig,
+): McpTransport {
+  const tauri = window.__TAURI__;
+  if (!tauri) {
+    throw new Error("[MCP] stdio servers are only supported in the app");
+  }
+
+  const pending = new Map<number, (response: JsonRpcResponse) => void>();
+  let serverId: number | undefined;
+
+  const listeners = Promise.all([
+    tauri.event.listen<{ server_id: number; line: string }>(
+      "mcp-stdout",
+      ({ payload }) => {
+        if (payload.server_id !== serverId) return;
+        try {
+          const message = JSON.parse(payload.line) as JsonRpcResponse;
+          pending.get(message.id)?.(message);
+          pending.delete(message.id);
+        } catch (e) {
+          console.debug("[MCP] stdout", payload.line);
+        }
+      },
+    ),
+    tauri.event.listen<{ server_id: number }>("mcp-close", ({ payload }) => {
+      if (payload.server_id !== serverId) return;
+      pending.forEach((resolve, id) =>
+        resolve({
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32000, message: "server exited" },
+        }),
+      );
+      pending.clear();
+    }),
+  ]);
+  // rejects when the user does not allow the command
+  const started = listeners
+    .then(() => tauri.invoke("mcp_spawn", { command: config.command }))
+    .then((id: number) => (serverId = id));
+
+  return {
+    async send(message: JsonRpcRequest) {
+      const id = await started;
+      const response =
+        message.id === undefined
+          ? undefined
+          : new Promise<JsonRpcResponse>((resolve) =>
+              pending.set(message.id!, resolve),
+            );
+      try {
+        await tauri.invoke("mcp_write", {
+          serverId: id,
+          data: JSON.stringify(message) + "\n",
+        });
+      } catch (e) {
+        if (message.id !== undefined) pending.delete(message.id);
+        throw new Error(`[MCP] ${e}`);
+      }
+      return response;
+    },
+
+    async close() {
+      try {
+        await tauri.invoke("mcp_kill", { serverId: await started });
+      } finally {
+        (await listeners).forEach((unlisten) => unlisten());
+      }
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { nanoid } from "nanoid";
+import type { ChatMessage, ChatSession } from "../store";
+
+/**
+ * A session stores its conversation as a tree: every message points to its
+ * parent through `parentId`. `session.messages` is the active branch (the
+ * path from the root to the current leaf), `session.branches` holds all the
+ * other nodes, so everything that only cares about the visible conversation
+ * can keep reading `session.messages`.
+ */
+
+export function getAllMessages(session: ChatSession) {
+  return session.messages.concat(session.branches ?? []);
+}
+
+// link a flat list of messages into a single chain
+export function linkMessages(messages: ChatMessage[], parentId?: string) {
+  messages.forEach((m) => {
+    m.parentId = parentId;
+    parentId = m.id;
+  });
+  return messages;
+}
+
+// append a chain of messages to the end of the active branch
+export function appendMessages(session: ChatSession, messages: ChatMessage[]) {
+  linkMessages(messages, session.messages.at(-1)?.id);
+  session.messages = session.messages.concat(messages);
+}
+
+function byCreation(a: ChatMessage, b: ChatMessage) {
+  return (a.createdAt ?? 0) - (b.createdAt ?? 0);
+}
+
+export function getChildren(messages: ChatMessage[], parentId?: string) {
+  return messages.filter((m) => m.parentId === parentId).sort(byCreation);
+}
+
+/**
+ * Group the whole tree by parent id, so the sibling of every message can be
+ * looked up without scanning the session for each rendered message.
+ */
+export function getSiblingMap(session: ChatSession) {
+  const siblings = new Map<string | undefined, ChatMessage[]>();
+  getAllMessages(session).forEach((m) => {
+    const group = siblings.get(m.parentId) ?? [];
+    group.push(m);
+    siblings.set(m.parentId, group);
+  });
+  siblings.forEach((group) => group.sort(byCreation));
+  return siblings;
+}
+
+/**
+ * Replace the active branch of a session, moving every node that is no longer
+ * on it to `session.branches`.
+ */
+export function setActiveBranch(session: ChatSession, branch: ChatMessage[]) {
+  const all = getAllMessages(session);
+  const activeIds = new Set(branch.map((m) => m.id));
+
+  // length of the path shared by the old and the new branch
+  let commonLength = 0;
+  while (
+    commonLength < branch.length &&
+    session.messages[commonLength]?.id === branch[commonLength].id
+  ) {
+    commonLength += 1;
+  }
+
+  session.messages = branch;
+  session.branches = all.filter((m) => !activeIds.has(m.id));
+
+  // memory and the clear-context marker describe the old branch
+  if (session.lastSummarizeIndex > commonLength) {
+    session.lastSummarizeIndex = 0;
+    session.memoryPrompt = "";
+  }
+  if ((session.clearContextIndex ?? 0) > commonLength) {
+    session.clearContextIndex = undefined;
+  }
+}
+
+/**
+ * Activate the branch that goes through `messageId`, following the most
+ * recent child below it down to a leaf.
+ */
+export function switchBranch(session: ChatSession, messageId: string) {
+  const all = getAllMessages(session);
+  const byId = new Map(all.map((m) => [m.id, m]));
+  const target = byId.get(messageId);
+  if (!target) return;
+
+  const branch: ChatMessage[] = [];
+  for (
+    let m: ChatMessage | undefined = target;
+    m;
+    m = m.parentId ? byId.get(m.parentId) : undefined
+  ) {
+    branch.unshift(m);
+  }
+  for (
+    let child = getChildren(all, target.id).at(-1);
+    child;
+    child = getChildren(all, child.id).at(-1)
+  ) {
+    branch.push(child);
+  }
+
+  setActiveBranch(session, branch);
+}
+
+function isSameMessage(a: ChatMessage, b: ChatMessage) {
+  return (
+    a.id === b.id &&
+    a.role === b.role &&
+    JSON.stringify(a.content) === JSON.stringify(b.content)
+  );
+}
+
+/**
+ * Commit an edited copy of the active branch without losing history: the
+ * messages from the first edited one on are saved as a new branch, the
+ * original ones stay reachable as its siblings.
+ */
+export function commitBranch(session: ChatSession, messages: ChatMessage[]) {
+  let index = 0;
+  while (
+    index < messages.length &&
+    index < session.messages.length &&
+    isSameMessage(messages[index], session.messages[index])
+  ) {
+    index += 1;
+  }
+
+  const prefix = session.messages.slice(0, index);
+  if (index === messages.length) {
+    // nothing new to keep, the tail was just dropped
+    const dropped = session.messages[index];
+    if (dropped) deleteBranch(session, dropped.id);
+    return;
+  }
+
+  const now = Date.now();
+  const tail = linkMessages(
+    messages.slice(index).map((m) => ({ ...m, id: nanoid(), createdAt: now })),
+    prefix.at(-1)?.id,
+  );
+  setActiveBranch(session, prefix.concat(tail));
+}
+
+/**
+ * Remove a single message from the tree, its children are attached to its
+ * parent so that no branch gets lost.
+ */
+export function deleteMessage(session: ChatSession, messageId: string) {
+  const message = getAllMessages(session).find((m) => m.id === messageId);
+  if (!message) return;
+
+  getAllMessages(session).forEach((m) => {
+    if (m.parentId === messageId) {
+      m.parentId = message.parentId;
+    }
+  });
+  session.messages = session.messages.filter((m) => m.id !== messageId);
+  session.branches = (session.branches ?? []).filter((m) => m.id !== messageId);
+}
+
+/**
+ * Remove a message together with every message below it.
+ */
+export function deleteBranch(session: ChatSession, messageId: string) {
+  const all = getAllMessages(session);
+  const deletedIds = new Set([messageId]);
+  for (let size = 0; size !== deletedIds.size; ) {
+    size = deletedIds.size;
+    all.forEach((m) => {
+      if (m.parentId && deletedIds.has(m.parentId)) {
+        deletedIds.add(m.id);
+      }
+    });
+  }
+  session.messages = session.messages.filter((m) => !deletedIds.has(m.id));
+  session.branches = (session.branches ?? []).filter(
+    (m) => !deletedIds.has(m.id),
+  );
+}
@@ -1,4 +1,8 @@
-import { DEFAULT_MODELS } from "../constant";
+import {
+  DEFAULT_MODELS,
+  getBuiltinModelCapabilities,
+  ModelCapabilities,
+} from "../constant";
 import { LLMModel } from "../client/api";
 
 const CustomSeq = {
@@ -37,6 +41,76 @@ const sortModelTable = (models: ReturnType<typeof collectModels>) =>
     }
   });
 
+/**
+ * parse token counts like `8192`, `32k` or `1m`
+ */
+function parseTokenCount(value: string) {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([km]?)$/i);
+  if (!match) return;
+  const unit = { "": 1, k: 1000, m: 1000000 }[match[2].toLowerCase()] ?? 1;
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+// names of the capability flags in custom models
+const CapabilityOptions: Record<string, keyof ModelCapabilities> = {
+  vision: "vision",
+  tools: "tools",
+  reasoning: "reasoning",
+  "image-output": "imageOutput",
+  audio: "audio",
+  "system-role": "systemRole",
+  stream: "streaming",
+};
+
+/**
+ * get extra model options from the `|` separated suffix of a custom model,
+ * e.g. `my-model|context=128k|output=8k|vision|-tools`
+ */
+export function getModelOptions(options: string[]) {
+  const result: {
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    capabilities?: Partial<ModelCapabilities>;
+  } = {};
+  options.forEach((option) => {
+    const [key, value = ""] = option.split("=");
+    const flag = key.trim();
+    switch (flag) {
+      case "context":
+        result.contextWindow = parseTokenCount(value);
+        break;
+      case "output":
+        result.maxOutputTokens = parseTokenCount(value);
+        break;
+      default: {
+        // `vision` or `+vision` enables a capability, `-vision` disables it
+        const enabled = !flag.startsWith("-");
+        const capability = CapabilityOptions[flag.replace(/^[+-]/, "")];
+        if (capability) {
+          result.capabilities = {
+            ...result.capabilities,
+            [capability]: enabled,
+          };
+        }
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * apply the options of a custom model on top of its current settings
+ */
+function applyModelOptions(
+  model: { capabilities: ModelCapabilities },
+  { capabilities, ...options }: ReturnType<typeof getModelOptions>,
+) {
+  Object.assign(model, options);
+  if (capabilities) {
+    model.capabilities = { ...model.capabilities, ...capabilities };
+  }
+}
+
 /**
  * get model name and provider from a formatted string,
  * e.g. `gpt-4@OpenAi` or `claude-3-5-sonnet@20240620@Google`
@@ -61,6 +135,9 @@ export function collectModelTable(
       sorted: number;
       provider?: LLMModel["provider"]; // Marked as optional
       isDefault?: boolean;
+      contextWindow?: number;
+      maxOutputTokens?: number;
+      capabilities: ModelCapabilities;
     }
   > = {};
 
@@ -70,6 +147,10 @@ export function collectModelTable(
     modelTable[`${m.name}@${m?.provider?.id}`] = {
       ...m,
       displayName: m.name, // 'provider' is copied over if it exists
+      // persisted model lists may predate the capabilities
+      capabilities:
+        m.capabilities ??
+        getBuiltinModelCapabilities(m.name, m.provider?.providerName),
     };
   });
 
@@ -79,9 +160,11 @@ export function collectModelTable(
     .filter((v) => !!v && v.length > 0)
     .forEach((m) => {
       const available = !m.startsWith("-");
-      const nameConfig =
-        m.startsWith("+") || m.startsWith("-") ? m.slice(1) : m;
+      const [nameConfig, ...options] = (
+        m.startsWith("+") || m.startsWith("-") ? m.slice(1) : m
+      ).split("|");
       let [name, displayName] = nameConfig.split("=");
+      const modelOptions = getModelOptions(options);
 
       // enable or disable all models
       if (name === "all") {
@@ -101,6 +184,7 @@ export function collectModelTable(
           ) {
             count += 1;
             modelTable[fullName]["available"] = available;
+            applyModelOptions(modelTable[fullName], modelOptions);
             // swap name and displayName for bytedance
             if (providerName === "bytedance") {
               [name, displayName] = [displayName, modelName];
@@ -121,13 +205,19 @@ export function collectModelTable(
           if (displayName && provider.providerName == "ByteDance") {
             [customModelName, displayName] = [displayName, customModelName];
           }
-          modelTable[`${customModelName}@${provider?.id}`] = {
+          const model = {
             name: customModelName,
             displayName: displayName || customModelName,
             available,
             provider, // Use optional chaining
             sorted: CustomSeq.next(`${customModelName}@${provider?.id}`),
+            capabilities: getBuiltinModelCapabilities(
+              customModelName,
+              provider.providerName,
+            ),
           };
+          applyModelOptions(model, modelOptions);
+          modelTable[`${customModelName}@${provider?.id}`] = model;
         }
       }
     });
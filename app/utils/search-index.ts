@@ -0,0 +1,312 @@
+import { get, set } from "idb-keyval";
+import { StoreKey } from "../constant";
+import type { MessageRole } from "../client/api";
+import type { ChatMessage, ChatSession } from "../store";
+import { getAllMessages } from "./message-tree";
+
+/**
+ * An inverted index over the messages of every session, every message
+ * (including the ones on inactive branches) is a document. The index is
+ * updated incrementally: documents carry a signature of their text, so only
+ * new or edited messages get tokenized again.
+ */
+
+export interface SearchDocument {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  role: MessageRole;
+  model?: string;
+  mask: string;
+  createdAt: number;
+  length: number;
+  signature: string;
+  terms: string[];
+}
+
+export interface SearchFilters {
+  mask?: string;
+  model?: string;
+  role?: MessageRole;
+  since?: number;
+  until?: number;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+}
+
+interface SearchIndexData {
+  version: number;
+  documents: Record<string, SearchDocument>;
+  postings: Record<string, Record<string, number>>;
+}
+
+const SEARCH_INDEX_VERSION = 1;
+
+const CJK_REGEX =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Split a text into index terms. Latin words are lower-cased as a whole,
+ * CJK runs have no word boundaries, so their single characters and bigrams
+ * are used instead.
+ */
+export function tokenize(text: string) {
+  const terms: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+    let run = "";
+    const flushRun = () => {
+      const chars = Array.from(run);
+      chars.forEach((char, i) => {
+        terms.push(char);
+        if (i > 0) terms.push(chars[i - 1] + char);
+      });
+      run = "";
+    };
+    let latin = "";
+    for (const char of word) {
+      if (CJK_REGEX.test(char)) {
+        if (latin) terms.push(latin);
+        latin = "";
+        run += char;
+      } else {
+        if (run) flushRun();
+        latin += char;
+      }
+    }
+    if (latin) terms.push(latin);
+    if (run) flushRun();
+  }
+  return terms;
+}
+
+export function getSearchableText(message: ChatMessage) {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .filter((c) => c.type === "text")
+    .map((c) => c.text ?? "")
+    .join("\n");
+}
+
+function getSignature(text: string) {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${hash >>> 0}`;
+}
+
+function getMessageTime(message: ChatMessage, session: ChatSession) {
+  const time = message.createdAt ?? new Date(message.date).getTime();
+  return isNaN(time) ? session.lastUpdate : time;
+}
+
+// the keys are words from messages, so the maps must not inherit keys like
+// "constructor" or "__proto__" from Object.prototype
+function createDict<T>(from: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null), from);
+}
+
+export class SearchIndex {
+  private documents = createDict<SearchDocument>();
+  private postings = createDict<Record<string, number>>();
+
+  static fromJSON(data?: SearchIndexData) {
+    const index = new SearchIndex();
+    if (data?.version === SEARCH_INDEX_VERSION) {
+      index.documents = createDict(data.documents);
+      index.postings = createDict<Record<string, number>>();
+      Object.entries(data.postings).forEach(
+        ([term, posting]) => (index.postings[term] = createDict(posting)),
+      );
+    }
+    return index;
+  }
+
+  toJSON(): SearchIndexData {
+    return {
+      version: SEARCH_INDEX_VERSION,
+      documents: this.documents,
+      postings: this.postings,
+    };
+  }
+
+  get size() {
+    return Object.keys(this.documents).length;
+  }
+
+  getDocuments() {
+    return Object.values(this.documents);
+  }
+
+  private add(document: SearchDocument, terms: string[]) {
+    const frequencies = createDict<number>();
+    terms.forEach((term) => (frequencies[term] = (frequencies[term] ?? 0) + 1));
+    Object.entries(frequencies).forEach(([term, count]) => {
+      this.postings[term] = this.postings[term] ?? createDict();
+      this.postings[term][document.id] = count;
+    });
+    this.documents[document.id] = {
+      ...document,
+      terms: Object.keys(frequencies),
+    };
+  }
+
+  private remove(id: string) {
+    this.documents[id]?.terms.forEach((term) => {
+      delete this.postings[term]?.[id];
+      if (Object.keys(this.postings[term] ?? {}).length === 0) {
+        delete this.postings[term];
+      }
+    });
+    delete this.documents[id];
+  }
+
+  /**
+   * Bring the index in line with the sessions, returns whether anything
+   * changed so callers know if it has to be persisted again.
+   */
+  update(sessions: ChatSession[]) {
+    let changed = false;
+    const seen = new Set<string>();
+
+    sessions.forEach((session) => {
+      getAllMessages(session).forEach((message) => {
+        const id = `${session.id}/${message.id}`;
+        const text = getSearchableText(message);
+        const signature = getSignature(text);
+        const existing = this.documents[id];
+        seen.add(id);
+
+        if (
+          existing?.signature === signature &&
+          existing.mask === session.mask.name
+        ) {
+          return;
+        }
+        if (existing) this.remove(id);
+
+        const terms = tokenize(text);
+        this.add(
+          {
+            id,
+            sessionId: session.id,
+            messageId: message.id,
+            role: message.role,
+            model: message.model,
+            mask: session.mask.name,
+            createdAt: getMessageTime(message, session),
+            length: terms.length,
+            signature,
+            terms: [],
+          },
+          terms,
+        );
+        changed = true;
+      });
+    });
+
+    Object.keys(this.documents).forEach((id) => {
+      if (!seen.has(id)) {
+        this.remove(id);
+        changed = true;
+      }
+    });
+
+    return changed;
+  }
+
+  private matches(document: SearchDocument, filters: SearchFilters) {
+    return (
+      (!filters.mask || document.mask === filters.mask) &&
+      (!filters.model || document.model === filters.model) &&
+      (!filters.role || document.role === filters.role) &&
+      (!filters.since || document.createdAt >= filters.since) &&
+      (!filters.until || document.createdAt <= filters.until)
+    );
+  }
+
+  /**
+   * Find the documents containing every query term, ranked by BM25. The last
+   * latin term also matches as a prefix, so results show up while typing.
+   */
+  search(query: string, filters: SearchFilters = {}, limit = 100) {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const documents = this.getDocuments();
+    const avgLength =
+      documents.reduce((pre, cur) => pre + cur.length, 0) /
+      Math.max(1, documents.length);
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const last = queryTerms.at(-1)!;
+    const isPrefix = !CJK_REGEX.test(last);
+
+    let scores: Map<string, number> | undefined;
+    queryTerms.forEach((term) => {
+      const terms =
+        term === last && isPrefix
+          ? Object.keys(this.postings).filter((t) => t.startsWith(term))
+          : [term];
+      const termScores = new Map<string, number>();
+      terms.forEach((t) => {
+        const posting = this.postings[t] ?? {};
+        const df = Object.keys(posting).length;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        Object.entries(posting).forEach(([id, tf]) => {
+          const length = this.documents[id]?.length ?? 0;
+          const score =
+            (idf * tf * (k1 + 1)) /
+            (tf + k1 * (1 - b + (b * length) / Math.max(1, avgLength)));
+          termScores.set(id, (termScores.get(id) ?? 0) + score);
+        });
+      });
+
+      // every term has to match
+      const previous = scores;
+      scores = new Map();
+      termScores.forEach((score, id) => {
+        if (!previous) scores!.set(id, score);
+        else if (previous.has(id)) scores!.set(id, previous.get(id)! + score);
+      });
+    });
+
+    const hits: SearchHit[] = [];
+    scores?.forEach((score, id) => {
+      const document = this.documents[id];
+      if (document && this.matches(document, filters)) {
+        hits.push({ document, score });
+      }
+    });
+
+    return hits
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.document.createdAt - a.document.createdAt,
+      )
+      .slice(0, limit);
+  }
+}
+
+export async function loadSearchIndex() {
+  try {
+    return SearchIndex.fromJSON(await get(StoreKey.SearchIndex));
+  } catch (e) {
+    console.error("[Search] failed to load index", e);
+    return new SearchIndex();
+  }
+}
+
+export async function saveSearchIndex(index: SearchIndex) {
+  try {
+    await set(StoreKey.SearchIndex, index.toJSON());
+  } catch (e) {
+    console.error("[Search] failed to save index", e);
+  }
+}
@@ -0,0 +1,122 @@
+import type { ImportedChat } from "./chat-import";
+
+// a conversation published as a read-only page, see app/api/share
+export interface SharedMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+  date: string;
+  createdAt?: number;
+  model?: string;
+}
+
+export interface SharedChat {
+  id: string;
+  title: string;
+  avatar?: string;
+  messages: SharedMessage[];
+  createdAt: number;
+  // never expires when missing
+  expiresAt?: number;
+}
+
+// what the server keeps, the token revokes the share
+export interface StoredSharedChat extends SharedChat {
+  tokenHash: string;
+}
+
+export type ShareRequest = Pick<SharedChat, "title" | "avatar" | "messages"> & {
+  // seconds, 0 for a link that never expires
+  ttl: number;
+};
+
+export const SHARE_MAX_MESSAGES = 500;
+export const SHARE_MAX_SIZE = 2 * 1024 * 1024;
+const DAY = 24 * 60 * 60;
+export const SHARE_TTL_OPTIONS = [DAY, 7 * DAY, 30 * DAY, 0];
+
+export class ShareRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareRequestError";
+  }
+}
+
+/**
+ * Checks the body of a share request and keeps the known fields only. The
+ * ttl is capped by `maxTTL` (seconds) unless it is 0.
+ */
+export function parseShareRequest(text: string, maxTTL = 0): ShareRequest {
+  if (text.length > SHARE_MAX_SIZE) {
+    throw new ShareRequestError("the shared chat is too large");
+  }
+  let body: any;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    throw new ShareRequestError("invalid json");
+  }
+
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  if (messages.length === 0 || messages.length > SHARE_MAX_MESSAGES) {
+    throw new ShareRequestError(
+      `a shared chat has 1 to ${SHARE_MAX_MESSAGES} messages`,
+    );
+  }
+  const roles = ["user", "assistant", "system"];
+  const invalid = messages.find(
+    (m: any) => !roles.includes(m?.role) || typeof m?.content !== "string",
+  );
+  if (invalid) {
+    throw new ShareRequestError("invalid message");
+  }
+
+  let ttl = Math.max(0, Math.floor(Number(body.ttl) || 0));
+  if (maxTTL > 0 && (ttl === 0 || ttl > maxTTL)) {
+    ttl = maxTTL;
+  }
+  return {
+    title: `${body.title ?? ""}`.slice(0, 200),
+    avatar: typeof body.avatar === "string" ? body.avatar : undefined,
+    messages: messages.map((m: any) => ({
+      role: m.role,
+      content: m.content,
+      date: `${m.date ?? ""}`,
+      createdAt: typeof m.createdAt === "number" ? m.createdAt : undefined,
+      model: typeof m.model === "string" ? m.model : undefined,
+    })),
+    ttl,
+  };
+}
+
+export function isShareExpired(
+  share: Pick<SharedChat, "expiresAt">,
+  now = Date.now(),
+) {
+  return !!share.expiresAt && share.expiresAt <= now;
+}
+
+// the page of a share, the app routes with the hash
+export function getShareUrl(origin: string, id: string) {
+  return `${origin}/#/share/${id}`;
+}
+
+// a share as an imported chat, so continuing it twice updates one session
+export function toImportedChat(share: SharedChat): ImportedChat {
+  const messages = share.messages.map((m, i) => ({
+    id: `${share.id}-${i}`,
+    parentId: i > 0 ? `${share.id}-${i - 1}` : undefined,
+    role: m.role,
+    content: m.content,
+    createdAt: m.createdAt,
+    model: m.model,
+  }));
+  return {
+    source: "share",
+    sourceId: share.id,
+    title: share.title,
+    createdAt: share.createdAt,
+    updatedAt: Date.now(),
+    messages,
+    branches: [],
+  };
+}
@@ -0,0 +1,173 @@
+import { StoreKey } from "../constant";
+import type { ChatSession } from "../store/chat";
+import type { SyncClient } from "./cloud";
+import type { SyncedAppState } from "./sync";
+
+// remote layout: one manifest with the stores and the list of sessions, and
+// one object per session, so a sync only moves the sessions that changed
+export const SYNC_MANIFEST_KEY = "manifest";
+export const SYNC_LEGACY_KEY = "backup";
+export const SYNC_MANIFEST_VERSION = 2;
+
+const FETCH_CONCURRENCY = 6;
+
+export interface SyncManifestEntry {
+  id: string;
+  lastUpdate: number;
+  // signature of the uploaded session, tells whether it has to be moved
+  signature: string;
+}
+
+export interface SyncManifest {
+  version: number;
+  updatedAt: number;
+  // the synced state without the chat sessions
+  state: SyncedAppState;
+  sessions: SyncManifestEntry[];
+}
+
+export const sessionKey = (id: string) => `session-${id}`;
+
+// a 53 bit hash, no crypto.subtle as it is missing on plain http
+function getSignature(text: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${text.length}:${hash.toString(36)}`;
+}
+
+function getEntry(session: ChatSession, blob = JSON.stringify(session)) {
+  return {
+    id: session.id,
+    lastUpdate: session.lastUpdate,
+    signature: getSignature(blob),
+  };
+}
+
+async function runLimited<T, R>(
+  items: T[],
+  worker: (item: T) => Promise<R>,
+  concurrency = FETCH_CONCURRENCY,
+) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+  await Promise.all(
+    new Array(Math.min(concurrency, items.length)).fill(0).map(run),
+  );
+  return results;
+}
+
+/**
+ * Reads the remote state. Sessions that did not change since the last sync
+ * are taken from `baseState`, the others are fetched in parallel. A remote
+ * without a manifest falls back to the full state of older versions.
+ */
+export async function pullRemoteState(
+  client: SyncClient,
+  baseState?: SyncedAppState,
+): Promise<{ state?: SyncedAppState; manifest?: SyncManifest }> {
+  const rawManifest = await client.get(SYNC_MANIFEST_KEY);
+  if (!rawManifest) {
+    const legacyState = await client.get(SYNC_LEGACY_KEY);
+    return {
+      state: legacyState
+        ? (JSON.parse(legacyState) as SyncedAppState)
+        : undefined,
+    };
+  }
+
+  const manifest = JSON.parse(rawManifest) as SyncManifest;
+  if (manifest.version > SYNC_MANIFEST_VERSION) {
+    throw Error(`[Sync] unsupported manifest version ${manifest.version}`);
+  }
+
+  const baseSessions = new Map(
+    (baseState?.[StoreKey.Chat]?.sessions ?? []).map((s) => [s.id, s]),
+  );
+  const sessions = await runLimited(manifest.sessions, async (entry) => {
+    const cached = baseSessions.get(entry.id);
+    if (cached && getEntry(cached).signature === entry.signature) {
+      return cached;
+    }
+    const blob = await client.get(sessionKey(entry.id));
+    if (!blob) {
+      console.warn("[Sync] missing remote session", entry.id);
+      return;
+    }
+    return JSON.parse(blob) as ChatSession;
+  });
+
+  const chatState = manifest.state[StoreKey.Chat];
+  return {
+    manifest,
+    state: {
+      ...manifest.state,
+      [StoreKey.Chat]: {
+        ...chatState,
+        sessions: sessions.filter((s): s is ChatSession => !!s),
+      },
+    },
+  };
+}
+
+/**
+ * Uploads the sessions that differ from the `remote` manifest, then the new
+ * manifest, so a reader never sees a manifest without its sessions. Sessions
+ * that are gone are removed last.
+ */
+export async function pushLocalState(
+  client: SyncClient,
+  state: SyncedAppState,
+  remote?: SyncManifest,
+) {
+  const remoteEntries = new Map(
+    (remote?.sessions ?? []).map((entry) => [entry.id, entry]),
+  );
+  const chatState = state[StoreKey.Chat];
+  const uploads: { key: string; blob: string }[] = [];
+  const entries = chatState.sessions.map((session) => {
+    const blob = JSON.stringify(session);
+    const entry = getEntry(session, blob);
+    if (remoteEntries.get(entry.id)?.signature !== entry.signature) {
+      uploads.push({ key: sessionKey(entry.id), blob });
+    }
+    remoteEntries.delete(entry.id);
+    return entry;
+  });
+
+  await runLimited(uploads, ({ key, blob }) => client.set(key, blob));
+
+  const manifest: SyncManifest = {
+    version: SYNC_MANIFEST_VERSION,
+    updatedAt: Date.now(),
+    state: { ...state, [StoreKey.Chat]: { ...chatState, sessions: [] } },
+    sessions: entries,
+  };
+  await client.set(SYNC_MANIFEST_KEY, JSON.stringify(manifest));
+
+  if (client.remove) {
+    await runLimited(Array.from(remoteEntries.keys()), (id) =>
+      client.remove!(sessionKey(id)),
+    );
+  }
+
+  console.debug(
+    `[Sync] uploaded ${uploads.length} of ${entries.length} sessions`,
+  );
+  return manifest;
+}
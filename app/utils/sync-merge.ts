@@ -0,0 +1,372 @@
+import type { ChatMessage, ChatSession } from "../store/chat";
+import type { Mask } from "../store/mask";
+import type { Prompt } from "../store/prompt";
+
+export type SyncRecordKind = "session" | "message" | "mask" | "prompt";
+
+export type Tombstones = Record<string, number>;
+
+// sync metadata saved next to the stores in the synced state
+export interface SyncMeta {
+  // deletion time of the records, by kind and id
+  tombstones: Record<SyncRecordKind, Tombstones>;
+}
+
+export interface SyncConflict<T = any> {
+  kind: SyncRecordKind;
+  id: string;
+  // the session of a message
+  sessionId?: string;
+  // the record before this one on the remote side, to restore it in place
+  after?: string;
+  // undefined when the record was deleted on that side
+  local?: T;
+  remote?: T;
+}
+
+// tombstones are kept long enough for every device to sync once
+export const TOMBSTONE_TTL = 90 * 24 * 60 * 60 * 1000;
+
+export function createSyncMeta(): SyncMeta {
+  return {
+    tombstones: { session: {}, message: {}, mask: {}, prompt: {} },
+  };
+}
+
+export function mergeSyncMeta(
+  local?: SyncMeta,
+  remote?: SyncMeta,
+  now = Date.now(),
+): SyncMeta {
+  const meta = createSyncMeta();
+  (Object.keys(meta.tombstones) as SyncRecordKind[]).forEach((kind) => {
+    const tombstones = meta.tombstones[kind];
+    [local, remote].forEach((m) =>
+      Object.entries(m?.tombstones?.[kind] ?? {}).forEach(([id, time]) => {
+        if (now - time < TOMBSTONE_TTL) {
+          tombstones[id] = Math.max(tombstones[id] ?? 0, time);
+        }
+      }),
+    );
+  });
+  return meta;
+}
+
+function isSame(a: unknown, b: unknown) {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface MergeOptions<T> {
+  kind: SyncRecordKind;
+  sessionId?: string;
+  getId: (record: T) => string;
+  // revision time, records without one lose against a tombstone
+  getRevision?: (record: T) => number | undefined;
+  // merges two edited copies, when missing the edit is a conflict
+  mergeBoth?: (base: T | undefined, local: T, remote: T) => T;
+  tombstones: Tombstones;
+  conflicts: SyncConflict<T>[];
+}
+
+/**
+ * Three-way merge of a list of records. `base` is the list of the last sync,
+ * without it records that only exist on one side are kept unless a tombstone
+ * says otherwise, and two different copies go to the newer revision.
+ *
+ * Conflicts keep the local copy and are reported to be resolved by the user.
+ * Returns the merged list and the ids that got deleted.
+ */
+export function mergeRecords<T>(
+  base: T[] | undefined,
+  local: T[],
+  remote: T[],
+  options: MergeOptions<T>,
+) {
+  const { kind, sessionId, getId, tombstones, conflicts } = options;
+  const baseMap = new Map((base ?? []).map((r) => [getId(r), r]));
+  const localMap = new Map(local.map((r) => [getId(r), r]));
+  const remoteMap = new Map(remote.map((r) => [getId(r), r]));
+  const getRevision = (r: T) => options.getRevision?.(r) ?? 0;
+
+  // keep the local order and put new remote records after their predecessor
+  const ids = local.map(getId);
+  const remoteIds = remote.map(getId);
+  remoteIds.forEach((id, i) => {
+    if (localMap.has(id)) return;
+    const after = remoteIds
+      .slice(0, i)
+      .reverse()
+      .find((prev) => ids.includes(prev));
+    ids.splice(after === undefined ? 0 : ids.indexOf(after) + 1, 0, id);
+  });
+
+  const addConflict = (id: string, l?: T, r?: T) => {
+    const index = remoteIds.indexOf(id);
+    conflicts.push({
+      kind,
+      id,
+      sessionId,
+      after: index > 0 ? remoteIds[index - 1] : undefined,
+      local: l,
+      remote: r,
+    });
+  };
+
+  const resolve = (id: string): T | undefined => {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+
+    if (l && r) {
+      if (isSame(l, r)) return l;
+      if (b && isSame(b, l)) return r;
+      if (b && isSame(b, r)) return l;
+      if (options.mergeBoth) return options.mergeBoth(b, l, r);
+      // without a common copy the newer revision wins, a real concurrent
+      // edit or equal revisions are left to the user
+      if (!b && getRevision(l) !== getRevision(r)) {
+        return getRevision(l) > getRevision(r) ? l : r;
+      }
+      addConflict(id, l, r);
+      return l;
+    }
+
+    const kept = (l ?? r) as T;
+    if (b) {
+      // deleted on the other side, an edit since the last sync wins
+      if (isSame(b, kept)) return;
+      addConflict(id, l, r);
+      return l;
+    }
+    const deletedAt = tombstones[id];
+    if (deletedAt !== undefined && getRevision(kept) <= deletedAt) return;
+    return kept;
+  };
+
+  const records: T[] = [];
+  const deleted: string[] = [];
+  ids.forEach((id) => {
+    const record = resolve(id);
+    if (record) {
+      records.push(record);
+    } else if (!conflicts.some((c) => c.kind === kind && c.id === id)) {
+      deleted.push(id);
+    }
+  });
+  baseMap.forEach((_, id) => {
+    if (!localMap.has(id) && !remoteMap.has(id)) deleted.push(id);
+  });
+
+  return { records, deleted };
+}
+
+// records that are gone get a tombstone, records that are back lose it
+function updateTombstones(
+  tombstones: Tombstones,
+  deleted: string[],
+  present: string[],
+  now: number,
+) {
+  deleted.forEach((id) => (tombstones[id] = tombstones[id] ?? now));
+  present.forEach((id) => delete tombstones[id]);
+}
+
+function mergeSession(
+  base: ChatSession | undefined,
+  local: ChatSession,
+  remote: ChatSession,
+  meta: SyncMeta,
+  conflicts: SyncConflict[],
+  now: number,
+): ChatSession {
+  // plain fields take the changed side, or the newer session if both changed
+  const newer = remote.lastUpdate > local.lastUpdate ? remote : local;
+  const merged = { ...local } as any;
+  new Set([...Object.keys(local), ...Object.keys(remote)]).forEach((key) => {
+    if (key === "messages" || key === "branches") return;
+    const [b, l, r] = [base, local, remote].map((s) => (s as any)?.[key]);
+    if (isSame(l, r)) return;
+    if (base && isSame(b, l)) merged[key] = r;
+    else if (!base || !isSame(b, r)) merged[key] = (newer as any)[key];
+  });
+
+  const options: MergeOptions<ChatMessage> = {
+    kind: "message",
+    sessionId: local.id,
+    getId: (m) => m.id,
+    tombstones: meta.tombstones.message,
+    conflicts,
+  };
+  const messages = mergeRecords(
+    base?.messages,
+    local.messages,
+    remote.messages,
+    options,
+  );
+  const branches = mergeRecords(
+    base?.branches ?? (base ? [] : undefined),
+    local.branches ?? [],
+    remote.branches ?? [],
+    options,
+  );
+
+  // a message lives either on the active branch or on an inactive one, so
+  // one that switched branches is not deleted
+  const active = new Set(messages.records.map((m) => m.id));
+  merged.messages = messages.records;
+  merged.branches = branches.records.filter((m) => !active.has(m.id));
+  const present = merged.messages.concat(merged.branches).map((m: any) => m.id);
+  updateTombstones(
+    meta.tombstones.message,
+    messages.deleted
+      .concat(branches.deleted)
+      .filter((id) => !present.includes(id)),
+    present,
+    now,
+  );
+  return merged;
+}
+
+export function mergeSessions(
+  base: ChatSession[] | undefined,
+  local: ChatSession[],
+  remote: ChatSession[],
+  meta: SyncMeta,
+  conflicts: SyncConflict[],
+  now = Date.now(),
+) {
+  const baseMap = new Map((base ?? []).map((s) => [s.id, s]));
+  const { records, deleted } = mergeRecords(
+    base,
+    local,
+    // skip empty chats
+    remote.filter((s) => s.messages.length > 0 || baseMap.has(s.id)),
+    {
+      kind: "session",
+      getId: (s) => s.id,
+      getRevision: (s) => s.lastUpdate,
+      mergeBoth: (b, l, r) => mergeSession(b, l, r, meta, conflicts, now),
+      tombstones: meta.tombstones.session,
+      conflicts,
+    },
+  );
+  updateTombstones(
+    meta.tombstones.session,
+    deleted,
+    records.map((s) => s.id),
+    now,
+  );
+
+  // sort sessions with date field in desc order
+  return records.sort(
+    (a, b) =>
+      new Date(b.lastUpdate).getTime() - new Date(a.lastUpdate).getTime(),
+  );
+}
+
+function mergeRecordMap<T extends Mask | Prompt>(
+  kind: "mask" | "prompt",
+  base: Record<string, T> | undefined,
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  meta: SyncMeta,
+  conflicts: SyncConflict[],
+  now: number,
+) {
+  const { records, deleted } = mergeRecords(
+    base && Object.values(base),
+    Object.values(local),
+    Object.values(remote),
+    {
+      kind,
+      getId: (r) => r.id,
+      getRevision: (r) => r.updatedAt ?? r.createdAt,
+      tombstones: meta.tombstones[kind],
+      conflicts,
+    },
+  );
+  updateTombstones(
+    meta.tombstones[kind],
+    deleted,
+    records.map((r) => r.id),
+    now,
+  );
+  return Object.fromEntries(records.map((r) => [r.id, r]));
+}
+
+export function mergeMasks(
+  base: Record<string, Mask> | undefined,
+  local: Record<string, Mask>,
+  remote: Record<string, Mask>,
+  meta: SyncMeta,
+  conflicts: SyncConflict[],
+  now = Date.now(),
+) {
+  return mergeRecordMap("mask", base, local, remote, meta, conflicts, now);
+}
+
+export function mergePrompts(
+  base: Record<string, Prompt> | undefined,
+  local: Record<string, Prompt>,
+  remote: Record<string, Prompt>,
+  meta: SyncMeta,
+  conflicts: SyncConflict[],
+  now = Date.now(),
+) {
+  return mergeRecordMap("prompt", base, local, remote, meta, conflicts, now);
+}
+
+function putRecord<T extends { id: string }>(
+  list: T[],
+  record: T | undefined,
+  id: string,
+  after?: string,
+) {
+  const index = list.findIndex((r) => r.id === id);
+  if (!record) {
+    if (index >= 0) list.splice(index, 1);
+  } else if (index >= 0) {
+    list[index] = record;
+  } else {
+    const afterIndex = list.findIndex((r) => r.id === after);
+    list.splice(afterIndex + 1, 0, record);
+  }
+}
+
+/**
+ * Applies the remote side of a conflict to the local data, keeping the local
+ * side needs no change as the merge already kept it.
+ */
+export function applyRemoteSide(
+  data: {
+    sessions: ChatSession[];
+    masks: Record<string, Mask>;
+    prompts: Record<string, Prompt>;
+  },
+  conflict: SyncConflict,
+) {
+  const { id, remote } = conflict;
+  switch (conflict.kind) {
+    case "session":
+      putRecord(data.sessions, remote, id, conflict.after);
+      break;
+    case "message": {
+      const session = data.sessions.find((s) => s.id === conflict.sessionId);
+      if (!session) break;
+      if (session.branches?.some((m) => m.id === id)) {
+        putRecord(session.branches, remote, id);
+      } else {
+        putRecord(session.messages, remote, id, conflict.after);
+      }
+      break;
+    }
+    case "mask":
+    case "prompt": {
+      const records: Record<string, any> =
+        conflict.kind === "mask" ? data.masks : data.prompts;
+      if (remote) records[id] = remote;
+      else delete records[id];
+      break;
+    }
+  }
+}
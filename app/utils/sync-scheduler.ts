@@ -0,0 +1,134 @@
+import { create } from "zustand";
+import { STORAGE_KEY } from "../constant";
+
+export type SyncStatusType =
+  | "idle"
+  | "syncing"
+  | "success"
+  | "conflict"
+  | "error";
+
+export interface SyncStatus {
+  status: SyncStatusType;
+  // failed syncs in a row, the next automatic one waits until `retryAt`
+  failures: number;
+  retryAt: number;
+  error?: string;
+}
+
+// status of the syncs of this tab, it is not persisted
+export const useSyncStatus = create<SyncStatus>(() => ({
+  status: "idle",
+  failures: 0,
+  retryAt: 0,
+}));
+
+export const SYNC_RETRY_BASE = 30 * 1000;
+export const SYNC_RETRY_MAX = 30 * 60 * 1000;
+
+// exponential backoff after the failed syncs in a row
+export function getSyncBackoff(failures: number) {
+  if (failures <= 0) return 0;
+  return Math.min(SYNC_RETRY_BASE * 2 ** (failures - 1), SYNC_RETRY_MAX);
+}
+
+export function reportSyncStatus(
+  result: Exclude<SyncStatusType, "idle" | "error"> | Error,
+  now = Date.now(),
+) {
+  if (result instanceof Error) {
+    const failures = useSyncStatus.getState().failures + 1;
+    useSyncStatus.setState({
+      status: "error",
+      failures,
+      retryAt: now + getSyncBackoff(failures),
+      error: result.message,
+    });
+  } else if (result === "syncing") {
+    useSyncStatus.setState({ status: result });
+  } else {
+    useSyncStatus.setState({
+      status: result,
+      failures: 0,
+      retryAt: 0,
+      error: undefined,
+    });
+  }
+}
+
+const SYNC_LOCK = `${STORAGE_KEY}-sync-lock`;
+// a tab that dies while holding the lease blocks the others this long
+const SYNC_LEASE_TTL = 2 * 60 * 1000;
+const SYNC_LEASE_POLL = 500;
+
+const tabId = Math.random().toString(36).slice(2);
+// the lease is held by a sync of this tab, which blocks the other syncs too
+let leaseHeld = false;
+
+function readLease() {
+  const [owner, expires] = (localStorage.getItem(SYNC_LOCK) ?? "").split(":");
+  return { owner, expires: Number(expires) || 0 };
+}
+
+function writeLease() {
+  localStorage.setItem(SYNC_LOCK, `${tabId}:${Date.now() + SYNC_LEASE_TTL}`);
+}
+
+async function acquireLease(wait: boolean) {
+  const deadline = Date.now() + SYNC_LEASE_TTL;
+  while (true) {
+    const lease = readLease();
+    if (!leaseHeld && (lease.owner === tabId || lease.expires < Date.now())) {
+      leaseHeld = true;
+      writeLease();
+      // another tab may have written at the same time, the last write wins
+      await new Promise((r) => setTimeout(r, 50));
+      if (readLease().owner === tabId) return true;
+      leaseHeld = false;
+    }
+    if (!wait || Date.now() > deadline) return false;
+    await new Promise((r) => setTimeout(r, SYNC_LEASE_POLL));
+  }
+}
+
+function releaseLease() {
+  leaseHeld = false;
+  if (readLease().owner === tabId) {
+    localStorage.removeItem(SYNC_LOCK);
+  }
+}
+
+/**
+ * Runs the task while no other tab syncs. With `wait` the task waits for the
+ * running sync, otherwise it is skipped. Returns whether the task ran.
+ *
+ * Web Locks are used where available, with a lease in localStorage as the
+ * fallback for older browsers.
+ */
+export async function withSyncLock(
+  task: () => Promise<void>,
+  wait = true,
+): Promise<boolean> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return await navigator.locks.request(
+      SYNC_LOCK,
+      { ifAvailable: !wait },
+      async (lock) => {
+        if (!lock) return false;
+        await task();
+        return true;
+      },
+    );
+  }
+
+  if (!(await acquireLease(wait))) return false;
+  // a long sync keeps the lease alive
+  const renew = setInterval(writeLease, SYNC_LEASE_TTL / 2);
+  try {
+    await task();
+    return true;
+  } finally {
+    clearInterval(renew);
+    releaseLease();
+  }
+}
@@ -1,13 +1,18 @@
-import {
-  ChatSession,
-  useAccessStore,
-  useAppConfig,
-  useChatStore,
-} from "../store";
+import { useAccessStore, useAppConfig, useChatStore } from "../store";
+import { createEmptySession } from "../store/chat";
 import { useMaskStore } from "../store/mask";
 import { usePromptStore } from "../store/prompt";
 import { StoreKey } from "../constant";
 import { merge } from "./merge";
+import {
+  applyRemoteSide,
+  mergeMasks,
+  mergePrompts,
+  mergeSessions,
+  mergeSyncMeta,
+  SyncConflict,
+  SyncMeta,
+} from "./sync-merge";
 
 type NonFunctionKeys<T> = {
   [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K;
@@ -52,66 +57,78 @@ export type AppState = {
   >;
 };
 
+export const SYNC_META_KEY = "sync-meta";
+
+// the state as it is uploaded, with the tombstones of deleted records
+export type SyncedAppState = AppState & { [SYNC_META_KEY]?: SyncMeta };
+
 type Merger<T extends keyof AppState, U = AppState[T]> = (
   localState: U,
   remoteState: U,
+  context: MergeContext<U>,
 ) => U;
 
 type StateMerger = {
   [K in keyof AppState]: Merger<K>;
 };
 
+interface MergeContext<U> {
+  // the state of the last sync, missing before the first one
+  baseState?: U;
+  meta: SyncMeta;
+  conflicts: SyncConflict[];
+}
+
 // we merge remote state to local state
 const MergeStates: StateMerger = {
-  [StoreKey.Chat]: (localState, remoteState) => {
-    // merge sessions
-    const localSessions: Record<string, ChatSession> = {};
-    localState.sessions.forEach((s) => (localSessions[s.id] = s));
-
-    remoteState.sessions.forEach((remoteSession) => {
-      // skip empty chats
-      if (remoteSession.messages.length === 0) return;
-
-      const localSession = localSessions[remoteSession.id];
-      if (!localSession) {
-        // if remote session is new, just merge it
-        localState.sessions.push(remoteSession);
-      } else {
-        // if both have the same session id, merge the messages
-        const localMessageIds = new Set(localSession.messages.map((v) => v.id));
-        remoteSession.messages.forEach((m) => {
-          if (!localMessageIds.has(m.id)) {
-            localSession.messages.push(m);
-          }
-        });
-
-        // sort local messages with date field in asc order
-        localSession.messages.sort(
-          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
-        );
-      }
-    });
-
-    // sort local sessions with date field in desc order
-    localState.sessions.sort(
-      (a, b) =>
-        new Date(b.lastUpdate).getTime() - new Date(a.lastUpdate).getTime(),
+  [StoreKey.Chat]: (
+    localState,
+    remoteState,
+    { baseState, meta, conflicts },
+  ) => {
+    localState.sessions = mergeSessions(
+      baseState?.sessions,
+      localState.sessions,
+      remoteState.sessions,
+      meta,
+      conflicts,
+    );
+    if (localState.sessions.length === 0) {
+      localState.sessions.push(createEmptySession());
+    }
+    localState.currentSessionIndex = Math.min(
+      localState.currentSessionIndex,
+      localState.sessions.length - 1,
     );
 
     return localState;
   },
-  [StoreKey.Prompt]: (localState, remoteState) => {
-    localState.prompts = {
-      ...remoteState.prompts,
-      ...localState.prompts,
-    };
+  [StoreKey.Prompt]: (
+    localState,
+    remoteState,
+    { baseState, meta, conflicts },
+  ) => {
+    localState.prompts = mergePrompts(
+      baseState?.prompts,
+      localState.prompts,
+      remoteState.prompts,
+      meta,
+      conflicts,
+    );
     return localState;
   },
-  [StoreKey.Mask]: (localState, remoteState) => {
-    localState.masks = {
-      ...remoteState.masks,
-      ...localState.masks,
-    };
+  [StoreKey.Mask]: (
+    localState,
+    remoteState,
+    { baseState, meta, conflicts },
+  ) => {
+    localState.masks = mergeMasks(
+      baseState?.masks,
+      localState.masks,
+      remoteState.masks,
+      meta,
+      conflicts,
+    );
     return localState;
   },
   [StoreKey.Config]: mergeWithUpdate<AppState[StoreKey.Config]>,
@@ -128,21 +145,67 @@ export function getLocalAppState() {
   return appState;
 }
 
+const SECRET_FIELD = /(ApiKey|ApiSecret|SecretKey|SecretId)$/;
+const SECRET_FIELDS = ["accessCode", "userToken", "user"];
+
+// the state without api keys, access codes and the user session
+export function omitSecrets<T extends AppState>(appState: T): T {
+  const accessState = Object.fromEntries(
+    Object.entries(appState[StoreKey.Access]).filter(
+      ([key]) => !SECRET_FIELD.test(key) && !SECRET_FIELDS.includes(key),
+    ),
+  ) as AppState[StoreKey.Access];
+  return { ...appState, [StoreKey.Access]: accessState };
+}
+
 export function setLocalAppState(appState: AppState) {
   Object.entries(LocalStateSetters).forEach(([key, setter]) => {
     setter(appState[key as keyof AppState]);
   });
 }
 
-export function mergeAppState(localState: AppState, remoteState: AppState) {
+/**
+ * Merge the remote state into the local state, with the state of the last
+ * sync as the common base. Returns the merged sync meta and the conflicts
+ * that the user has to resolve.
+ */
+export function mergeAppState(
+  localState: AppState,
+  remoteState: SyncedAppState,
+  baseState?: SyncedAppState,
+) {
+  const meta = mergeSyncMeta(
+    baseState?.[SYNC_META_KEY],
+    remoteState[SYNC_META_KEY],
+  );
+  const conflicts: SyncConflict[] = [];
   Object.keys(localState).forEach(<T extends keyof AppState>(k: string) => {
     const key = k as T;
     const localStoreState = localState[key];
     const remoteStoreState = remoteState[key];
-    MergeStates[key](localStoreState, remoteStoreState);
+    if (!remoteStoreState) return;
+    localState[key] = MergeStates[key](localStoreState, remoteStoreState, {
+      baseState: baseState?.[key],
+      meta,
+      conflicts,
+    });
   });
 
-  return localState;
+  return { meta, conflicts };
+}
+
+// keep the remote side of the conflicts in the local stores
+export function applyRemoteConflicts(conflicts: SyncConflict[]) {
+  const appState = getLocalAppState();
+  const data = {
+    sessions: appState[StoreKey.Chat].sessions,
+    masks: appState[StoreKey.Mask].masks,
+    prompts: appState[StoreKey.Prompt].prompts,
+  };
+  conflicts.forEach((c) => applyRemoteSide(data, c));
+  useChatStore.setState({ sessions: [...data.sessions] });
+  useMaskStore.setState({ masks: { ...data.masks } });
+  usePromptStore.setState({ prompts: { ...data.prompts } });
 }
 
 /**
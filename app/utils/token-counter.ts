@@ -0,0 +1,126 @@
+import { RequestMessage } from "../client/api";
+import { getMessageTextContent } from "../utils";
+import { estimateTokenLength, getTokenizerName, loadTokenizer } from "./token";
+import type { TokenCountRequest, TokenCountResponse } from "./token.worker";
+
+const MAX_CACHE_SIZE = 1000;
+const tokenCache = new Map<string, number>();
+
+let worker: Worker | undefined;
+let workerFailed = false;
+let lastRequestId = 0;
+const pendingRequests = new Map<
+  number,
+  {
+    resolve: (counts: number[]) => void;
+    reject: (error: Error) => void;
+  }
+>();
+
+function getWorker() {
+  if (workerFailed || typeof Worker === "undefined") return;
+  if (worker) return worker;
+
+  try {
+    worker = new Worker(new URL("./token.worker.ts", import.meta.url));
+  } catch (e) {
+    console.error("[Tokenizer] failed to start worker", e);
+    workerFailed = true;
+    return;
+  }
+
+  worker.onmessage = (e: MessageEvent<TokenCountResponse>) => {
+    const { id, counts, error } = e.data;
+    const request = pendingRequests.get(id);
+    pendingRequests.delete(id);
+    if (!request) return;
+    if (counts) {
+      request.resolve(counts);
+    } else {
+      request.reject(new Error(error));
+    }
+  };
+  worker.onerror = (e) => {
+    console.error("[Tokenizer] worker error", e.message);
+    workerFailed = true;
+    worker?.terminate();
+    worker = undefined;
+    pendingRequests.forEach((r) => r.reject(new Error(e.message)));
+    pendingRequests.clear();
+  };
+
+  return worker;
+}
+
+async function countInWorker(tokenizer: string, texts: string[]) {
+  const worker = getWorker();
+  if (!worker) {
+    // no worker support (e.g. server side), count on the current thread
+    const { count } = await loadTokenizer(tokenizer);
+    return texts.map((text) => count(text));
+  }
+
+  const id = ++lastRequestId;
+  return new Promise<number[]>((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    worker.postMessage({ id, tokenizer, texts } as TokenCountRequest);
+  });
+}
+
+function cacheKey(tokenizer: string, text: string) {
+  return `${tokenizer}:${text}`;
+}
+
+/**
+ * Count tokens of every text with the tokenizer of the model, the counting
+ * happens in a web worker and falls back to `estimateTokenLength` on failure.
+ */
+export async function countTokens(
+  texts: string[],
+  model: string,
+  providerName?: string,
+): Promise<number[]> {
+  const tokenizer = getTokenizerName(model, providerName);
+  const uncounted = Array.from(
+    new Set(texts.filter((text) => !tokenCache.has(cacheKey(tokenizer, text)))),
+  );
+
+  const counted = new Map<string, number>();
+  if (uncounted.length > 0) {
+    let counts: number[];
+    try {
+      counts = await countInWorker(tokenizer, uncounted);
+    } catch (e) {
+      console.error("[Tokenizer] failed to count tokens", e);
+      counts = uncounted.map(estimateTokenLength);
+    }
+
+    uncounted.forEach((text, i) => {
+      counted.set(text, counts[i]);
+      tokenCache.set(cacheKey(tokenizer, text), counts[i]);
+    });
+    // drop the oldest entries
+    Array.from(tokenCache.keys())
+      .slice(0, Math.max(0, tokenCache.size - MAX_CACHE_SIZE))
+      .forEach((key) => tokenCache.delete(key));
+  }
+
+  return texts.map(
+    (text) =>
+      counted.get(text) ??
+      tokenCache.get(cacheKey(tokenizer, text)) ??
+      estimateTokenLength(text),
+  );
+}
+
+export async function countMessageTokens(
+  messages: RequestMessage[],
+  model: string,
+  providerName?: string,
+) {
+  return countTokens(
+    messages.map((m) => getMessageTextContent(m)),
+    model,
+    providerName,
+  );
+}
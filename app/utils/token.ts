@@ -1,3 +1,5 @@
+import type { TiktokenBPE } from "js-tiktoken/lite";
+
 export function estimateTokenLength(input: string): number {
   let tokenLength = 0;
 
@@ -20,3 +22,76 @@ export function estimateTokenLength(input: string): number {
 
   return tokenLength;
 }
+
+export interface Tokenizer {
+  count: (text: string) => number;
+}
+
+export interface TokenizerEntry {
+  name: string;
+  match: (model: string, providerName?: string) => boolean;
+  load: () => Promise<Tokenizer>;
+}
+
+async function loadTiktoken(
+  ranks: Promise<{ default: TiktokenBPE }>,
+): Promise<Tokenizer> {
+  const { Tiktoken } = await import("js-tiktoken/lite");
+  const encoder = new Tiktoken((await ranks).default);
+  return {
+    // special tokens in user input are counted as plain text
+    count: (text) => encoder.encode(text, [], []).length,
+  };
+}
+
+export const ESTIMATE_TOKENIZER = "estimate";
+
+/**
+ * Tokenizers are picked by the first entry matching the model, the worker
+ * loads them by name, so new entries must be added here to be visible to it.
+ */
+export const TOKENIZERS: TokenizerEntry[] = [
+  {
+    name: "o200k_base",
+    match: (model) => /^(gpt-4o|gpt-4\.1|chatgpt-4o|o1|o3|o4)/.test(model),
+    load: () => loadTiktoken(import("js-tiktoken/ranks/o200k_base")),
+  },
+  {
+    name: "cl100k_base",
+    match: (model, providerName) =>
+      /^(gpt-4|gpt-3\.5|text-embedding)/.test(model) ||
+      providerName === "OpenAI" ||
+      providerName === "Azure",
+    load: () => loadTiktoken(import("js-tiktoken/ranks/cl100k_base")),
+  },
+  {
+    name: ESTIMATE_TOKENIZER,
+    match: () => true,
+    load: async () => ({ count: estimateTokenLength }),
+  },
+];
+
+export function getTokenizerName(model: string, providerName?: string) {
+  return (
+    TOKENIZERS.find((t) => t.match(model, providerName))?.name ??
+    ESTIMATE_TOKENIZER
+  );
+}
+
+const loadedTokenizers: Record<string, Promise<Tokenizer>> = {};
+
+export function loadTokenizer(name: string) {
+  const entry =
+    TOKENIZERS.find((t) => t.name === name) ??
+    TOKENIZERS.find((t) => t.name === ESTIMATE_TOKENIZER)!;
+
+  if (!loadedTokenizers[entry.name]) {
+    loadedTokenizers[entry.name] = entry.load().catch((e) => {
+      console.error("[Tokenizer] failed to load", entry.name, e);
+      delete loadedTokenizers[entry.name];
+      return { count: estimateTokenLength };
+    });
+  }
+
+  return loadedTokenizers[entry.name];
+}
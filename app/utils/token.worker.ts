@@ -0,0 +1,25 @@
+import { loadTokenizer } from "./token";
+
+export type TokenCountRequest = {
+  id: number;
+  tokenizer: string;
+  texts: string[];
+};
+
+export type TokenCountResponse = {
+  id: number;
+  counts?: number[];
+  error?: string;
+};
+
+self.onmessage = async (e: MessageEvent<TokenCountRequest>) => {
+  const { id, tokenizer, texts } = e.data;
+  let response: TokenCountResponse;
+  try {
+    const { count } = await loadTokenizer(tokenizer);
+    response = { id, counts: texts.map((text) => count(text)) };
+  } catch (error) {
+    response = { id, error: String(error) };
+  }
+  self.postMessage(response);
+};
@@ -32,6 +32,8 @@ const nextConfig = {
   },
   experimental: {
     forceSwcTransforms: true,
+    // native module used by the sqlite user store
+    serverComponentsExternalPackages: ["better-sqlite3"],
   },
 };
 
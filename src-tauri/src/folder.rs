@@ -0,0 +1,58 @@
+//
+// the folder of the local folder sync, see app/utils/cloud/local-folder.ts
+// the user picks it in a native dialog and only that folder is added to the fs
+// scope of the webview, the app keeps it to add it again on the next start.
+
+use std::fs;
+use std::path::PathBuf;
+use tauri::api::dialog::blocking::FileDialogBuilder;
+use tauri::Manager;
+
+fn saved_folder_file(app: &tauri::AppHandle) -> Result<PathBuf, String> {
+  app
+    .path_resolver()
+    .app_config_dir()
+    .map(|dir| dir.join("sync-folder.json"))
+    .ok_or_else(|| "failed to find the config dir".to_string())
+}
+
+pub fn allow_saved_folder(app: &tauri::AppHandle) {
+  let folder: Option<PathBuf> = saved_folder_file(app)
+    .ok()
+    .and_then(|file| fs::read_to_string(file).ok())
+    .and_then(|content| serde_json::from_str(&content).ok());
+  if let Some(folder) = folder {
+    if let Err(e) = app.fs_scope().allow_directory(&folder, true) {
+      println!("Failed to allow the sync folder: {:?}", e);
+    }
+  }
+}
+
+#[tauri::command]
+pub async fn pick_sync_folder(
+  app: tauri::AppHandle,
+  window: tauri::Window,
+  default_path: Option<String>,
+) -> Result<Option<String>, String> {
+  let mut dialog = FileDialogBuilder::new().set_parent(&window);
+  if let Some(path) = default_path {
+    dialog = dialog.set_directory(path);
+  }
+  let folder = match dialog.pick_folder() {
+    Some(folder) => folder,
+    None => return Ok(None),
+  };
+
+  app
+    .fs_scope()
+    .allow_directory(&folder, true)
+    .map_err(|err| format!("failed to allow the folder: {}", err))?;
+  let file = saved_folder_file(&app)?;
+  if let Some(dir) = file.parent() {
+    fs::create_dir_all(dir).map_err(|err| format!("failed to create the config dir: {}", err))?;
+  }
+  let content = serde_json::to_string(&folder).map_err(|err| err.to_string())?;
+  fs::write(file, content).map_err(|err| format!("failed to save the folder: {}", err))?;
+
+  Ok(Some(folder.to_string_lossy().to_string()))
+}
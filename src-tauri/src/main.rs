@@ -1,12 +1,33 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+mod folder;
+mod mcp;
 mod stream;
 
+use tauri::Manager;
+
 fn main() {
   tauri::Builder::default()
-    .invoke_handler(tauri::generate_handler![stream::stream_fetch])
+    .manage(mcp::McpServers::default())
+    .setup(|app| {
+      folder::allow_saved_folder(&app.handle());
+      Ok(())
+    })
+    .invoke_handler(tauri::generate_handler![
+      stream::stream_fetch,
+      folder::pick_sync_folder,
+      mcp::mcp_spawn,
+      mcp::mcp_write,
+      mcp::mcp_kill
+    ])
     .plugin(tauri_plugin_window_state::Builder::default().build())
-    .run(tauri::generate_context!())
-    .expect("error while running tauri application");
+    .build(tauri::generate_context!())
+    .expect("error while running tauri application")
+    .run(|app, event| {
+      // do not leave the mcp servers running
+      if let tauri::RunEvent::Exit = event {
+        app.state::<mcp::McpServers>().kill_all();
+      }
+    });
 }
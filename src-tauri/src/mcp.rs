@@ -0,0 +1,155 @@
+//
+// stdio MCP servers, see app/utils/mcp/stdio.ts
+// 1. invoke('mcp_spawn', {command}), the user confirms a command the first time.
+// 2. listen event: `mcp-stdout` for every line the server prints, `mcp-close` when it exits.
+// 3. invoke('mcp_write', {serverId, data}) and invoke('mcp_kill', {serverId}).
+
+use std::collections::HashMap;
+use std::fs;
+use std::io::{BufRead, BufReader, Write};
+use std::path::PathBuf;
+use std::process::{Child, Command, Stdio};
+use std::sync::atomic::{AtomicU32, Ordering};
+use std::sync::Mutex;
+use tauri::api::dialog::blocking::ask;
+use tauri::Manager;
+
+static SERVER_COUNTER: AtomicU32 = AtomicU32::new(0);
+
+// the running servers by id
+#[derive(Default)]
+pub struct McpServers(Mutex<HashMap<u32, Child>>);
+
+impl McpServers {
+  pub fn kill_all(&self) {
+    for (_, mut child) in self.0.lock().unwrap().drain() {
+      let _ = child.kill();
+      let _ = child.wait();
+    }
+  }
+}
+
+#[derive(Clone, serde::Serialize)]
+pub struct LinePayload {
+  server_id: u32,
+  line: String,
+}
+
+#[derive(Clone, serde::Serialize)]
+pub struct ClosePayload {
+  server_id: u32,
+}
+
+// the commands the user allowed are kept by the app, not the webview, so a
+// script in the page can not add to them
+fn allowed_commands_file(app: &tauri::AppHandle) -> Result<PathBuf, String> {
+  app
+    .path_resolver()
+    .app_config_dir()
+    .map(|dir| dir.join("mcp-servers.json"))
+    .ok_or_else(|| "failed to find the config dir".to_string())
+}
+
+fn load_allowed_commands(app: &tauri::AppHandle) -> Vec<String> {
+  allowed_commands_file(app)
+    .ok()
+    .and_then(|file| fs::read_to_string(file).ok())
+    .and_then(|content| serde_json::from_str(&content).ok())
+    .unwrap_or_default()
+}
+
+fn save_allowed_commands(app: &tauri::AppHandle, commands: &Vec<String>) -> Result<(), String> {
+  let file = allowed_commands_file(app)?;
+  if let Some(dir) = file.parent() {
+    fs::create_dir_all(dir).map_err(|err| format!("failed to create the config dir: {}", err))?;
+  }
+  let content = serde_json::to_string(commands).map_err(|err| err.to_string())?;
+  fs::write(file, content).map_err(|err| format!("failed to save the allowed commands: {}", err))
+}
+
+#[tauri::command]
+pub async fn mcp_spawn(
+  app: tauri::AppHandle,
+  window: tauri::Window,
+  command: String,
+) -> Result<u32, String> {
+  let parts: Vec<String> = command.split_whitespace().map(String::from).collect();
+  let (program, args) = parts.split_first().ok_or("the command is empty")?;
+  // the normalized command is what the user sees and what is saved
+  let command = parts.join(" ");
+
+  let mut allowed = load_allowed_commands(&app);
+  if !allowed.contains(&command) {
+    let confirmed = ask(
+      Some(&window),
+      "MCP Server",
+      format!(
+        "Allow NextChat to run this command on your computer?\n\n{}\n\nOnly allow commands you trust.",
+        command
+      ),
+    );
+    if !confirmed {
+      return Err(format!("running `{}` was not allowed", command));
+    }
+    allowed.push(command.clone());
+    save_allowed_commands(&app, &allowed)?;
+  }
+
+  let mut child = Command::new(program)
+    .args(args)
+    .stdin(Stdio::piped())
+    .stdout(Stdio::piped())
+    .stderr(Stdio::piped())
+    .spawn()
+    .map_err(|err| format!("failed to start {}: {}", program, err))?;
+  let server_id = SERVER_COUNTER.fetch_add(1, Ordering::SeqCst);
+  let stdout = child.stdout.take().ok_or("failed to read stdout")?;
+  let stderr = child.stderr.take().ok_or("failed to read stderr")?;
+  app.state::<McpServers>().0.lock().unwrap().insert(server_id, child);
+
+  std::thread::spawn(move || {
+    for line in BufReader::new(stdout).lines().flatten() {
+      if let Err(e) = window.emit("mcp-stdout", LinePayload { server_id, line }) {
+        println!("Failed to emit mcp stdout: {:?}", e);
+      }
+    }
+    // stdout closes when the server exits
+    if let Some(mut child) = app.state::<McpServers>().0.lock().unwrap().remove(&server_id) {
+      let _ = child.wait();
+    }
+    if let Err(e) = window.emit("mcp-close", ClosePayload { server_id }) {
+      println!("Failed to emit mcp close: {:?}", e);
+    }
+  });
+  std::thread::spawn(move || {
+    for line in BufReader::new(stderr).lines().flatten() {
+      println!("[MCP] {}", line);
+    }
+  });
+
+  Ok(server_id)
+}
+
+#[tauri::command]
+pub fn mcp_write(
+  state: tauri::State<'_, McpServers>,
+  server_id: u32,
+  data: String,
+) -> Result<(), String> {
+  let mut servers = state.0.lock().unwrap();
+  let child = servers.get_mut(&server_id).ok_or("the server is not running")?;
+  let stdin = child.stdin.as_mut().ok_or("failed to write stdin")?;
+  stdin
+    .write_all(data.as_bytes())
+    .and_then(|_| stdin.flush())
+    .map_err(|err| format!("failed to write stdin: {}", err))
+}
+
+#[tauri::command]
+pub fn mcp_kill(state: tauri::State<'_, McpServers>, server_id: u32) -> Result<(), String> {
+  if let Some(mut child) = state.0.lock().unwrap().remove(&server_id) {
+    child.kill().map_err(|err| format!("failed to stop the server: {}", err))?;
+    let _ = child.wait();
+  }
+  Ok(())
+}
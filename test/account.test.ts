@@ -0,0 +1,53 @@
+/** @jest-environment node */
+import { hashPassword, verifyPassword } from "../app/api/account/password";
+import {
+  getAllowlistCustomModels,
+  isModelAllowed,
+  signSessionToken,
+  verifySessionToken,
+} from "../app/api/account/token";
+
+const claims = {
+  sub: "u1",
+  name: "alice",
+  role: "user" as const,
+  models: ["gpt-4o@openai"],
+  ver: 0,
+};
+
+describe("account", () => {
+  test("session tokens are signed with the secret", async () => {
+    const token = await signSessionToken(claims, "secret");
+    expect(await verifySessionToken(token, "secret")).toMatchObject(claims);
+    expect(await verifySessionToken(token, "other")).toBeNull();
+
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, role: "admin", exp: Date.now() + 1000 }),
+    ).toString("base64url");
+    expect(await verifySessionToken(`${forged}.${signature}`, "secret")).toBe(
+      null,
+    );
+
+    const expired = await signSessionToken(claims, "secret", -1);
+    expect(await verifySessionToken(expired, "secret")).toBeNull();
+  });
+
+  test("passwords are hashed with a salt", async () => {
+    const hash = await hashPassword("hunter2");
+    expect(hash).not.toContain("hunter2");
+    expect(await hashPassword("hunter2")).not.toBe(hash);
+    expect(await verifyPassword("hunter2", hash)).toBe(true);
+    expect(await verifyPassword("hunter3", hash)).toBe(false);
+  });
+
+  test("model allowlist", () => {
+    expect(isModelAllowed([], "gpt-4o")).toBe(true);
+    expect(isModelAllowed(claims.models, "gpt-4o")).toBe(true);
+    expect(isModelAllowed(claims.models, "o1")).toBe(false);
+    expect(isModelAllowed(claims.models, undefined)).toBe(false);
+    expect(isModelAllowed([], undefined)).toBe(true);
+    expect(getAllowlistCustomModels(claims.models)).toBe("-all,+gpt-4o@openai");
+    expect(getAllowlistCustomModels([])).toBe("");
+  });
+});
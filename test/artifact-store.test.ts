@@ -0,0 +1,80 @@
+/** @jest-environment node */
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFsArtifactStore } from "../app/api/artifacts/fs";
+import { checkArtifactUpload } from "../app/api/artifacts/upload";
+
+describe("checkArtifactUpload", () => {
+  test("accepts html and plain text", () => {
+    expect(() => checkArtifactUpload("text/html", 10, 100)).not.toThrow();
+    expect(() =>
+      checkArtifactUpload("text/plain;charset=UTF-8", 10, 100),
+    ).not.toThrow();
+  });
+
+  test("rejects other uploads", () => {
+    expect(() => checkArtifactUpload("application/json", 10, 100)).toThrow(
+      expect.objectContaining({ status: 415 }),
+    );
+    expect(() => checkArtifactUpload(null, 10, 100)).toThrow(
+      expect.objectContaining({ status: 415 }),
+    );
+    expect(() => checkArtifactUpload("text/html", 0, 100)).toThrow(
+      expect.objectContaining({ status: 400 }),
+    );
+    expect(() => checkArtifactUpload("text/html", 101, 100)).toThrow(
+      expect.objectContaining({ status: 413 }),
+    );
+    expect(() => checkArtifactUpload("text/html", 101, 0)).not.toThrow();
+  });
+});
+
+describe("createFsArtifactStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "artifacts-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const artifact = (id: string, owner?: string, createdAt = 1) => ({
+    id,
+    content: `<p>${id}</p>`,
+    contentType: "text/html",
+    size: 10,
+    owner,
+    createdAt,
+  });
+
+  test("stores and deletes artifacts", async () => {
+    const store = createFsArtifactStore(dir);
+    await store.put(artifact("a"));
+    expect(await store.get("a")).toEqual(artifact("a"));
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+    expect(await store.get("missing")).toBeUndefined();
+  });
+
+  test("rejects ids that leave the dir", async () => {
+    const store = createFsArtifactStore(join(dir, "artifacts"));
+    await store.put(artifact("a"));
+    await expect(store.get("../artifacts/a")).rejects.toThrow();
+    await expect(store.delete("../artifacts/a")).rejects.toThrow();
+    expect(await store.get("a")).toEqual(artifact("a"));
+  });
+
+  test("lists the artifacts of an owner, newest first", async () => {
+    const store = createFsArtifactStore(dir);
+    await store.put(artifact("a", "u1", 1));
+    await store.put(artifact("b", "u2", 2));
+    await store.put(artifact("c", "u1", 3));
+    await store.put(artifact("d", undefined, 4));
+    const list = await store.list("u1");
+    expect(list.map((a) => a.id)).toEqual(["c", "a"]);
+    expect(list[0]).not.toHaveProperty("content");
+  });
+});
@@ -0,0 +1,194 @@
+/** @jest-environment node */
+import {
+  ArtifactProject,
+  bundleArtifactProject,
+  extractArtifactFiles,
+  findArtifactFile,
+  getArtifactFileHistory,
+  getArtifactVersions,
+  rewriteImports,
+} from "../app/utils/artifact-workspace";
+import { crc32, createZip } from "../app/utils/zip";
+
+const fence = (info: string, code: string) =>
+  "```" + info + "\n" + code + "\n```";
+
+describe("extractArtifactFiles", () => {
+  test("names the blocks of a reply", () => {
+    const reply = [
+      "Here is the page:",
+      fence("html", "<div id='app'></div>"),
+      fence("css", "body { margin: 0 }"),
+      fence("js", "// main.js\nconsole.log(1)"),
+      fence('tsx title="src/Button.tsx"', "export default () => null"),
+      fence("css", "p { color: red }"),
+      fence("python", "print(1)"),
+    ].join("\n\n");
+    expect(
+      extractArtifactFiles(reply).map((f) => [f.name, f.language]),
+    ).toEqual([
+      ["index.html", "html"],
+      ["style.css", "css"],
+      ["main.js", "javascript"],
+      ["src/Button.tsx", "tsx"],
+      ["style-2.css", "css"],
+    ]);
+  });
+});
+
+describe("getArtifactVersions", () => {
+  const reply = (id: string, content: string) => ({
+    id,
+    role: "assistant",
+    content,
+  });
+
+  test("follow-up replies update the project", () => {
+    const versions = getArtifactVersions([
+      reply("a", fence("html", "v1") + "\n" + fence("css", "c1")),
+      { id: "b", role: "user", content: fence("html", "mine") },
+      reply("c", fence("html", "v2")),
+      reply("d", fence("tsx", "export default () => null")),
+      reply("e", "no code"),
+    ]);
+    expect(versions.map((v) => [v.messageId, v.projectId, v.version])).toEqual([
+      ["a", "a", 1],
+      ["c", "a", 2],
+      ["d", "d", 1],
+    ]);
+    expect(versions[1].project.files.map((f) => f.content)).toEqual([
+      "v2",
+      "c1",
+    ]);
+  });
+
+  test("skips replies with style sheets only", () => {
+    expect(getArtifactVersions([reply("a", fence("css", "p {}"))])).toEqual([]);
+  });
+});
+
+describe("getArtifactFileHistory", () => {
+  const page = (title: string, body: string) =>
+    fence("html", `<title>${title}</title>${body}`);
+  const versions = getArtifactVersions([
+    { id: "a", role: "assistant", content: page("Clock", "1") },
+    {
+      id: "b",
+      role: "assistant",
+      content: page("Clock", "2") + "\n" + page("Timer", "1"),
+    },
+    { id: "c", role: "assistant", content: page("Timer", "2") },
+  ]);
+
+  test("identifies pages by their title", () => {
+    expect(versions.map((v) => v.projectId)).toEqual(["a", "a", "a"]);
+    expect(versions[2].project.files.map((f) => [f.id, f.name])).toEqual([
+      ["title:Clock", "index.html"],
+      ["title:Timer", "index-2.html"],
+    ]);
+  });
+
+  test("lists the versions where a page changed", () => {
+    const artifact = findArtifactFile(versions, "<title>Clock</title>2\n");
+    expect(artifact).toEqual({ projectId: "a", fileId: "title:Clock" });
+    expect(
+      getArtifactFileHistory(versions, "a", "title:Clock").map((r) => [
+        r.messageId,
+        r.version,
+      ]),
+    ).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+});
+
+describe("bundleArtifactProject", () => {
+  const project: ArtifactProject = {
+    files: [
+      {
+        id: "index.html",
+        name: "index.html",
+        language: "html",
+        content:
+          '<html><head><link rel="stylesheet" href="style.css"></head><body><div id="root"></div><script type="module" src="./src/main.tsx"></script></body></html>',
+      },
+      {
+        id: "style.css",
+        name: "style.css",
+        language: "css",
+        content: "body { margin: 0 }",
+      },
+      {
+        id: "src/main.tsx",
+        name: "src/main.tsx",
+        language: "tsx",
+        content:
+          'import "../style.css";\nimport { createRoot } from "react-dom/client";\nimport App from "./App";\nimport confetti from "canvas-confetti";\ncreateRoot(document.getElementById("root")!).render(<App />);',
+      },
+      {
+        id: "src/App.tsx",
+        name: "src/App.tsx",
+        language: "tsx",
+        content: "export default function App() { return <p>hi</p>; }",
+      },
+    ],
+  };
+
+  test("points imports at the project and the cdn", () => {
+    expect(rewriteImports(project, project.files[2])).toBe(
+      'import { createRoot } from "react-dom/client";\nimport App from "@artifact/src/App.tsx";\nimport confetti from "https://esm.sh/canvas-confetti?external=react,react-dom";\ncreateRoot(document.getElementById("root")!).render(<App />);',
+    );
+  });
+
+  test("inlines styles and loads the referenced entry", () => {
+    const page = bundleArtifactProject(project, "frame");
+    expect(page).toContain("<style>\nbody { margin: 0 }\n</style>");
+    expect(page).not.toContain('main.tsx"></script>');
+    expect(page).toContain('import \\"@artifact/src/main.tsx\\";');
+    expect(page).toContain('frameId: "frame"');
+  });
+
+  test("runs plain scripts without a compiler", () => {
+    const page = bundleArtifactProject(
+      {
+        files: [
+          {
+            id: "index.html",
+            name: "index.html",
+            language: "html",
+            content: "<p>hi</p>",
+          },
+          {
+            id: "script.js",
+            name: "script.js",
+            language: "javascript",
+            content: "alert(1)",
+          },
+        ],
+      },
+      "frame",
+    );
+    expect(page).toContain("<script>\nalert(1)\n</script>");
+    expect(page).not.toContain("babel");
+  });
+});
+
+describe("createZip", () => {
+  test("crc32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  test("stores the files", () => {
+    const zip = createZip([
+      { name: "a.txt", content: "hello" },
+      { name: "b/c.txt", content: "world" },
+    ]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // the end of the central directory counts both files
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 12, true)).toBe(2);
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe("hello");
+  });
+});
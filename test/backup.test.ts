@@ -0,0 +1,101 @@
+import { StoreKey } from "../app/constant";
+import {
+  DEFAULT_BACKUP_STORES,
+  diffBackupState,
+  getBackupStores,
+  pickBackupState,
+  replaceAppState,
+} from "../app/utils/backup";
+import type { AppState } from "../app/utils/sync";
+
+const session = (id: string, topic: string, lastUpdate = 1) =>
+  ({ id, topic, lastUpdate, messages: [] }) as any;
+
+const createState = (sessions: any[], masks: any = {}) =>
+  ({
+    [StoreKey.Chat]: { sessions, currentSessionIndex: sessions.length - 1 },
+    [StoreKey.Mask]: { masks },
+    [StoreKey.Prompt]: { prompts: {} },
+    [StoreKey.Config]: { theme: "auto", fontSize: 14, lastUpdateTime: 1 },
+    [StoreKey.Access]: { openaiApiKey: "sk-secret" },
+  }) as unknown as AppState;
+
+describe("backup", () => {
+  test("leaves the access store out by default", () => {
+    const backup = pickBackupState(createState([session("a", "A")]), {
+      stores: DEFAULT_BACKUP_STORES,
+    });
+
+    expect(getBackupStores(backup)).toEqual([
+      StoreKey.Chat,
+      StoreKey.Mask,
+      StoreKey.Prompt,
+      StoreKey.Config,
+    ]);
+    expect(backup[StoreKey.Access]).toBeUndefined();
+  });
+
+  test("keeps the chosen sessions only", () => {
+    const backup = pickBackupState(
+      createState([session("a", "A"), session("b", "B")]),
+      { stores: [StoreKey.Chat], sessionIds: ["b"] },
+    );
+
+    expect(backup[StoreKey.Chat]!.sessions.map((s) => s.id)).toEqual(["b"]);
+    expect(backup[StoreKey.Chat]!.currentSessionIndex).toBe(0);
+  });
+
+  test("previews a merge and a replace", () => {
+    const local = createState([session("a", "A"), session("b", "B")]);
+    const backup = pickBackupState(
+      {
+        ...createState([session("b", "B", 2), session("c", "C")]),
+        [StoreKey.Config]: {
+          theme: "dark",
+          fontSize: 14,
+          lastUpdateTime: 2,
+        } as any,
+      },
+      { stores: [StoreKey.Chat, StoreKey.Config] },
+    );
+
+    expect(diffBackupState(local, backup, "merge")).toEqual({
+      [StoreKey.Chat]: {
+        added: ["C"],
+        changed: ["B"],
+        removed: [],
+        unchanged: 1,
+      },
+      [StoreKey.Config]: {
+        added: [],
+        changed: ["theme"],
+        removed: [],
+        unchanged: 1,
+      },
+    });
+    expect(diffBackupState(local, backup, "replace")[StoreKey.Chat]).toEqual({
+      added: ["C"],
+      changed: ["B"],
+      removed: ["A"],
+      unchanged: 0,
+    });
+  });
+
+  test("replaces the stores of the backup only", () => {
+    const local = createState(
+      [session("a", "A"), session("b", "B"), session("c", "C")],
+      { m1: { id: "m1", name: "Mask" } },
+    );
+    const state = replaceAppState(
+      local,
+      pickBackupState(createState([session("d", "D")]), {
+        stores: [StoreKey.Chat],
+      }),
+    );
+
+    expect(state[StoreKey.Chat].sessions.map((s) => s.id)).toEqual(["d"]);
+    expect(state[StoreKey.Chat].currentSessionIndex).toBe(0);
+    expect(state[StoreKey.Mask]).toBe(local[StoreKey.Mask]);
+    expect(local[StoreKey.Chat].sessions).toHaveLength(3);
+  });
+});
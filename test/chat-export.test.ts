@@ -0,0 +1,79 @@
+import {
+  getExportFileName,
+  getExportMeta,
+  getHtmlClassNames,
+  isStyleRuleUsed,
+  toHtmlDocument,
+  toMarkdownDocument,
+} from "../app/utils/chat-export";
+
+const messages = [
+  { role: "user", text: "What is $e^{i\\pi}$?", images: ["data:image/png"] },
+  { role: "assistant", text: "It is -1.\n", images: [], date: "2024-05-01" },
+];
+
+const session = {
+  topic: 'Euler "identity"',
+  mask: { name: "Math", modelConfig: { model: "gpt-4o" } },
+};
+
+describe("chat export", () => {
+  test("markdown has the chat details as front matter", () => {
+    const meta = getExportMeta(session, messages);
+    expect(meta).toEqual({
+      topic: 'Euler "identity"',
+      model: "gpt-4o",
+      mask: "Math",
+      date: new Date("2024-05-01").toISOString(),
+    });
+
+    const md = toMarkdownDocument(meta, messages, {
+      user: "You",
+      assistant: "Assistant",
+    });
+    expect(md).toBe(
+      [
+        "---",
+        'topic: "Euler \\"identity\\""',
+        'model: "gpt-4o"',
+        'mask: "Math"',
+        `date: "${meta.date}"`,
+        "---",
+        "",
+        '# Euler "identity"',
+        "",
+        "## You",
+        "",
+        "What is $e^{i\\pi}$?",
+        "",
+        "![image](data:image/png)",
+        "",
+        "## Assistant",
+        "",
+        "It is -1.",
+        "",
+      ].join("\n"),
+    );
+    expect(getExportFileName("a/b: c?", "md")).toBe("a b c.md");
+  });
+
+  test("html keeps the styles of the exported classes", () => {
+    const classNames = getHtmlClassNames(
+      '<div class="markdown-body"><span class="hljs-keyword katex">x</span></div>',
+    );
+    expect(isStyleRuleUsed(".markdown-body pre", classNames)).toBe(true);
+    expect(isStyleRuleUsed("pre, code", classNames)).toBe(true);
+    expect(isStyleRuleUsed(".sidebar .chat-item", classNames)).toBe(false);
+    expect(isStyleRuleUsed(".sidebar, .hljs-keyword", classNames)).toBe(true);
+
+    const html = toHtmlDocument({
+      meta: getExportMeta(session, messages),
+      lang: "en",
+      css: ".markdown-body { color: red; }",
+      body: "<main></main>",
+    });
+    expect(html).toContain("<title>Euler &quot;identity&quot;</title>");
+    expect(html).toContain(".markdown-body { color: red; }");
+    expect(html).toContain("<main></main>");
+  });
+});
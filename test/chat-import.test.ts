@@ -0,0 +1,263 @@
+import {
+  findImportedSession,
+  getImportId,
+  parseChatExport,
+  planImport,
+} from "../app/utils/chat-import";
+
+const node = (
+  id: string,
+  parent: string | null,
+  message: any,
+  children: string[] = [],
+) => ({ id, parent, children, message });
+
+const chatgptMessage = (
+  id: string,
+  role: string,
+  parts: any[],
+  extra: any = {},
+) => ({
+  id,
+  author: { role },
+  create_time: 1700000000 + Number(id.replace(/\D/g, "")),
+  content: { content_type: "text", parts },
+  metadata: {},
+  ...extra,
+});
+
+const chatgptExport = [
+  {
+    title: "Branched chat",
+    create_time: 1700000000.5,
+    update_time: 1700000100,
+    conversation_id: "conv-1",
+    current_node: "a3",
+    mapping: {
+      root: node("root", null, null, ["sys"]),
+      sys: node(
+        "sys",
+        "root",
+        chatgptMessage("sys", "system", [""], {
+          metadata: { is_visually_hidden_from_conversation: true },
+        }),
+        ["u1"],
+      ),
+      u1: node(
+        "u1",
+        "sys",
+        chatgptMessage("u1", "user", ["hello"], {
+          metadata: { attachments: [{ id: "file-1", name: "notes.pdf" }] },
+        }),
+        ["a1", "a2"],
+      ),
+      a1: node("a1", "u1", chatgptMessage("a1", "assistant", ["first"])),
+      a2: node(
+        "a2",
+        "u1",
+        chatgptMessage("a2", "assistant", ["second"], {
+          metadata: { model_slug: "gpt-4o" },
+        }),
+        ["tool"],
+      ),
+      tool: node(
+        "tool",
+        "a2",
+        chatgptMessage("tool", "tool", [], {
+          content: { content_type: "tether_browsing_display", result: "" },
+        }),
+        ["a3"],
+      ),
+      a3: node(
+        "a3",
+        "tool",
+        chatgptMessage("a3", "assistant", [
+          { content_type: "image_asset_pointer", asset_pointer: "file-2" },
+          "done",
+        ]),
+      ),
+    },
+  },
+];
+
+describe("parseChatExport", () => {
+  test("maps the active branch of a ChatGPT mapping tree", () => {
+    const [chat] = parseChatExport(JSON.stringify(chatgptExport));
+
+    expect(getImportId(chat)).toBe("chatgpt:conv-1");
+    expect(chat.title).toBe("Branched chat");
+    expect(chat.createdAt).toBe(1700000000500);
+    expect(chat.updatedAt).toBe(1700000100000);
+
+    expect(chat.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ["u1", undefined],
+      ["a2", "u1"],
+      ["a3", "a2"],
+    ]);
+    expect(chat.messages[0].content).toBe("hello\n\n[Attachment: notes.pdf]");
+    expect(chat.messages[0].createdAt).toBe(1700000001000);
+    expect(chat.messages[1].model).toBe("gpt-4o");
+    expect(chat.messages[2].content).toBe("[Attachment: image]\n\ndone");
+
+    expect(chat.branches.map((m) => [m.id, m.parentId])).toEqual([
+      ["a1", "u1"],
+    ]);
+  });
+
+  test("maps Claude conversations", () => {
+    const [chat] = parseChatExport(
+      JSON.stringify([
+        {
+          uuid: "claude-1",
+          name: "Claude chat",
+          created_at: "2024-05-01T10:00:00Z",
+          updated_at: "2024-05-01T10:05:00Z",
+          chat_messages: [
+            {
+              uuid: "m1",
+              sender: "human",
+              text: "hi",
+              created_at: "2024-05-01T10:00:00Z",
+              attachments: [{ file_name: "data.csv" }],
+            },
+            {
+              uuid: "m2",
+              sender: "assistant",
+              content: [{ type: "text", text: "hello" }],
+              created_at: "2024-05-01T10:01:00Z",
+            },
+          ],
+        },
+      ]),
+    );
+
+    expect(getImportId(chat)).toBe("claude:claude-1");
+    expect(chat.updatedAt).toBe(Date.parse("2024-05-01T10:05:00Z"));
+    expect(chat.messages).toEqual([
+      {
+        id: "m1",
+        parentId: undefined,
+        role: "user",
+        content: "hi\n\n[Attachment: data.csv]",
+        createdAt: Date.parse("2024-05-01T10:00:00Z"),
+      },
+      {
+        id: "m2",
+        parentId: "m1",
+        role: "assistant",
+        content: "hello",
+        createdAt: Date.parse("2024-05-01T10:01:00Z"),
+      },
+    ]);
+  });
+
+  test("keeps images, tools and the summary of NextChat backups", () => {
+    const [chat] = parseChatExport(
+      JSON.stringify({
+        "chat-next-web-store": {
+          sessions: [
+            {
+              id: "s1",
+              topic: "Backup",
+              lastUpdate: 5,
+              memoryPrompt: "summary",
+              lastSummarizeIndex: 2,
+              messages: [
+                {
+                  id: "m1",
+                  role: "user",
+                  content: [
+                    { type: "text", text: "what is this" },
+                    { type: "image_url", image_url: { url: "data:x" } },
+                  ],
+                },
+                {
+                  id: "m2",
+                  parentId: "m1",
+                  role: "assistant",
+                  content: "a cat",
+                  tools: [{ id: "t1", function: { name: "search" } }],
+                },
+              ],
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(chat.messages[0].content).toEqual([
+      { type: "text", text: "what is this" },
+      { type: "image_url", image_url: { url: "data:x" } },
+    ]);
+    expect(chat.messages[1].tools).toEqual([
+      { id: "t1", function: { name: "search" } },
+    ]);
+    expect(chat.memoryPrompt).toBe("summary");
+    expect(chat.lastSummarizeIndex).toBe(2);
+  });
+
+  test("drops empty chats and rejects unknown files", () => {
+    expect(parseChatExport(JSON.stringify([{ messages: [] }]))).toEqual([]);
+    expect(() => parseChatExport("{}")).toThrow("unknown chat format");
+    expect(() => parseChatExport("not json")).toThrow("not a json file");
+  });
+});
+
+describe("findImportedSession", () => {
+  test("matches earlier imports and NextChat session ids", () => {
+    const sessions = [
+      { id: "s1", importId: "chatgpt:conv-1" },
+      { id: "s2", importId: undefined },
+    ];
+
+    expect(
+      findImportedSession(sessions, { source: "chatgpt", sourceId: "conv-1" }),
+    ).toBe(sessions[0]);
+    expect(
+      findImportedSession(sessions, { source: "nextchat", sourceId: "s2" }),
+    ).toBe(sessions[1]);
+    expect(
+      findImportedSession(sessions, { source: "generic", sourceId: "s2" }),
+    ).toBeUndefined();
+  });
+});
+
+describe("planImport", () => {
+  const message = (id: string) => ({ id, role: "user", content: "" }) as any;
+  const chat = (ids: string[], updatedAt: number) => ({
+    source: "chatgpt" as const,
+    sourceId: "conv-1",
+    title: "",
+    createdAt: 0,
+    updatedAt,
+    messages: ids.map(message),
+    branches: [],
+  });
+  const session = {
+    id: "s1",
+    importId: "chatgpt:conv-1",
+    messages: ["m1", "m2"].map(message),
+    branches: [],
+    lastUpdate: 10,
+  };
+
+  test("replaces a session that was not continued with a newer chat", () => {
+    expect(planImport([session], chat(["m1", "m2", "m3"], 20))).toEqual({
+      type: "replace",
+      session,
+    });
+  });
+
+  test("skips chats with nothing new", () => {
+    expect(planImport([session], chat(["m1"], 5)).type).toBe("skip");
+    expect(planImport([session], chat(["m1", "m2"], 10)).type).toBe("skip");
+  });
+
+  test("adds a new session instead of dropping local messages", () => {
+    // continued on both sides
+    expect(planImport([session], chat(["m1", "m3"], 20)).type).toBe("add");
+    // an older copy with messages the session lost
+    expect(planImport([session], chat(["m1", "m2", "m3"], 5)).type).toBe("add");
+    expect(planImport([], chat(["m1"], 20)).type).toBe("add");
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  CODE_OUTPUT_LIMIT,
+  formatCodeResult,
+  parseCodeArguments,
+} from "../app/utils/code-interpreter/format";
+
+describe("parseCodeArguments", () => {
+  test("accepts the language aliases", () => {
+    expect(parseCodeArguments({ language: "py", code: "1" })).toEqual({
+      language: "python",
+      code: "1",
+    });
+    expect(parseCodeArguments({ language: "JS", code: "1" }).language).toBe(
+      "javascript",
+    );
+    expect(parseCodeArguments({ code: "1" }).language).toBe("python");
+  });
+
+  test("rejects missing code and unknown languages", () => {
+    expect(() => parseCodeArguments({ language: "python" })).toThrow();
+    expect(() => parseCodeArguments({ language: "ruby", code: "1" })).toThrow(
+      "unsupported language ruby",
+    );
+  });
+});
+
+describe("formatCodeResult", () => {
+  const empty = { stdout: "", stderr: "", images: [], files: [] };
+
+  test("lists the output sections that are not empty", () => {
+    expect(formatCodeResult(empty)).toBe("(no output)");
+    expect(
+      formatCodeResult({
+        ...empty,
+        stdout: "42",
+        error: "ZeroDivisionError",
+        images: [
+          { name: "figure-1.png", type: "image/png", data: new Uint8Array() },
+        ],
+        files: ["out.csv"],
+      }),
+    ).toBe(
+      [
+        "stdout:\n42",
+        "error:\nZeroDivisionError",
+        "images shown to the user: figure-1.png",
+        "files written: out.csv",
+      ].join("\n\n"),
+    );
+  });
+
+  test("truncates long output", () => {
+    const result = formatCodeResult({
+      ...empty,
+      stdout: "x".repeat(CODE_OUTPUT_LIMIT + 10),
+    });
+    expect(result).toContain("10 more characters truncated");
+    expect(result.length).toBeLessThan(CODE_OUTPUT_LIMIT + 100);
+  });
+});
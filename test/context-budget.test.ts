@@ -0,0 +1,65 @@
+import { planContext } from "../app/utils/context-budget";
+import { getModelOptions } from "../app/utils/model";
+import type { ChatMessage } from "../app/store";
+
+function counted(id: string, tokens: number) {
+  const message = { id, role: "user", content: id, date: "" } as ChatMessage;
+  return { message, tokens };
+}
+
+const base = {
+  contextWindow: 1000,
+  maxOutputTokens: 400,
+  maxTokens: 4000,
+  system: [counted("system", 100)],
+  context: [counted("context", 100)],
+  input: [counted("input", 100)],
+  memory: [],
+  history: [],
+};
+
+describe("planContext", () => {
+  test("reserves the smaller of the requested and the model output size", () => {
+    const { budget } = planContext(base);
+    expect(budget.reservedOutput).toBe(400);
+    expect(budget.inputBudget).toBe(600);
+    expect(budget.usedTokens).toBe(300);
+  });
+
+  test("keeps the newest history that fits into the window", () => {
+    const { messages, budget } = planContext({
+      ...base,
+      history: [counted("a", 200), counted("b", 200), counted("c", 200)],
+    });
+    expect(messages.map((m) => m.id)).toEqual(["system", "context", "c"]);
+    expect(budget.parts.history).toEqual({
+      tokens: 200,
+      included: 1,
+      dropped: 2,
+      droppedTokens: 400,
+    });
+  });
+
+  test("drops the memory before the newest message", () => {
+    const { messages, budget } = planContext({
+      ...base,
+      memory: [counted("memory", 250)],
+      history: [counted("a", 50), counted("b", 200)],
+    });
+    expect(messages.map((m) => m.id)).toEqual(["system", "context", "a", "b"]);
+    expect(budget.parts.memory.dropped).toBe(1);
+    expect(budget.usedTokens).toBe(550);
+  });
+});
+
+describe("getModelOptions", () => {
+  test("parses token limits with unit suffixes", () => {
+    expect(getModelOptions(["context=128k", "output=1.5k"])).toEqual({
+      contextWindow: 128000,
+      maxOutputTokens: 1500,
+    });
+    expect(getModelOptions(["context=1m", "unknown=1"])).toEqual({
+      contextWindow: 1000000,
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { diffLines } from "../app/utils/diff";
+
+describe("diffLines", () => {
+  test("pairs changed lines side by side", () => {
+    const rows = diffLines("a\nb\nc\nd", "a\nB\nc\nd\ne");
+    expect(rows.map((r) => [r.type, r.left?.text, r.right?.text])).toEqual([
+      ["same", "a", "a"],
+      ["changed", "b", "B"],
+      ["same", "c", "c"],
+      ["same", "d", "d"],
+      ["added", undefined, "e"],
+    ]);
+  });
+
+  test("numbers the lines of each side", () => {
+    const rows = diffLines("x\na\nb", "a\nb");
+    expect(rows[0]).toEqual({
+      type: "removed",
+      left: { number: 1, text: "x" },
+      right: undefined,
+    });
+    expect(rows[1].left?.number).toBe(2);
+    expect(rows[1].right?.number).toBe(1);
+  });
+});
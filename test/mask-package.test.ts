@@ -0,0 +1,173 @@
+import {
+  createMaskPackage,
+  getMissingRequirements,
+  hasMaskUpdate,
+  MASK_PACKAGE_FORMAT,
+  MaskPackageError,
+  packageItemToMask,
+  parseMaskPackage,
+} from "../app/utils/mask-package";
+
+const item = (id: string, version = 1, extra: any = {}) => ({
+  id,
+  version,
+  name: `Mask ${id}`,
+  lang: "en",
+  context: [{ role: "system", content: "You are a helper." }],
+  ...extra,
+});
+
+const pkg = (masks: any[]) => ({
+  format: MASK_PACKAGE_FORMAT,
+  schemaVersion: 1,
+  name: "Catalog",
+  masks,
+});
+
+describe("parseMaskPackage", () => {
+  test("keeps the valid masks and reports the others", () => {
+    const { package: parsed, errors } = parseMaskPackage(
+      JSON.stringify(
+        pkg([
+          item("a", 2, { tags: ["code", " code "], unknown: true }),
+          item("b", 0),
+          { ...item("c"), context: [{ role: "robot", content: "" }] },
+          item("a"),
+        ]),
+      ),
+    );
+
+    expect(parsed.name).toBe("Catalog");
+    expect(parsed.masks).toEqual([
+      {
+        id: "a",
+        version: 2,
+        name: "Mask a",
+        lang: "en",
+        tags: ["code"],
+        context: [{ role: "system", content: "You are a helper." }],
+      },
+    ]);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain("#2 (Mask b)");
+    expect(errors[2]).toContain("duplicate id a");
+  });
+
+  test("rejects newer schemas and files without masks", () => {
+    expect(() =>
+      parseMaskPackage({ ...pkg([item("a")]), schemaVersion: 2 }),
+    ).toThrow("unsupported schema version 2");
+    expect(() => parseMaskPackage(pkg([item("a", 0)]))).toThrow(
+      MaskPackageError,
+    );
+    expect(() => parseMaskPackage("{")).toThrow("invalid json");
+  });
+
+  test("reads the masks exported by older versions", () => {
+    const legacy = {
+      id: "V1StGXR8_Z5jdHi6B-myT",
+      name: "Old",
+      avatar: "1f47e",
+      lang: "cn",
+      context: [
+        { id: "x", role: "user", content: [{ type: "text", text: "hi" }] },
+      ],
+      syncGlobalConfig: true,
+      modelConfig: { model: "gpt-4o" },
+      plugin: ["code-interpreter"],
+      builtin: false,
+      createdAt: 1,
+    };
+
+    const { package: parsed } = parseMaskPackage([legacy]);
+    expect(parsed.masks[0]).toEqual({
+      id: legacy.id,
+      version: 1,
+      name: "Old",
+      avatar: "1f47e",
+      lang: "cn",
+      context: [{ role: "user", content: "hi" }],
+      requires: { plugins: ["code-interpreter"] },
+    });
+    expect(parseMaskPackage({ name: "Single" }).package.masks[0].id).toBe(
+      "single-1",
+    );
+  });
+});
+
+describe("mask packages", () => {
+  test("round trips an installed mask", () => {
+    const source = item("writer", 3, {
+      author: "Ann",
+      modelConfig: { model: "gpt-4o", temperature: 0.2, bad: { a: 1 } },
+      requires: { models: ["gpt-4o"] },
+    });
+    const { package: parsed } = parseMaskPackage(pkg([source]));
+    const fields = packageItemToMask(parsed.masks[0], "https://a.b/c.json");
+
+    expect(fields.modelConfig).toEqual({ model: "gpt-4o", temperature: 0.2 });
+    expect(fields.syncGlobalConfig).toBe(false);
+    expect(fields.source).toMatchObject({
+      id: "writer",
+      version: 3,
+      catalog: "https://a.b/c.json",
+    });
+
+    const mask = {
+      ...fields,
+      id: "local",
+      createdAt: 1,
+      builtin: false,
+      updatedAt: fields.source!.installedAt,
+    } as any;
+    const exported = createMaskPackage([mask]).masks[0];
+    expect(exported).toMatchObject({ id: "writer", version: 3 });
+    expect(exported.requires).toEqual({ models: ["gpt-4o"] });
+
+    // edited after the install
+    mask.updatedAt += 1000;
+    expect(createMaskPackage([mask]).masks[0].version).toBe(4);
+    expect(hasMaskUpdate(mask, parsed.masks[0])).toBe(false);
+    expect(hasMaskUpdate(mask, { ...parsed.masks[0], version: 4 })).toBe(true);
+  });
+
+  test("keeps the variables of a mask", () => {
+    const variables = [{ name: "topic", type: "text", required: true }];
+    const { package: parsed } = parseMaskPackage(
+      pkg([item("a", 1, { variables })]),
+    );
+    expect(packageItemToMask(parsed.masks[0]).variables).toEqual(variables);
+    expect(() =>
+      parseMaskPackage(pkg([item("a", 1, { variables: [{ name: "x" }] })])),
+    ).toThrow("variables[0]: unknown type undefined");
+  });
+
+  test("lists the missing models and plugins", () => {
+    const { package: parsed } = parseMaskPackage(
+      pkg([
+        item("a", 1, {
+          requires: { models: ["gpt-4o", "claude"], plugins: ["p1", "p2"] },
+        }),
+      ]),
+    );
+    expect(
+      getMissingRequirements(parsed.masks[0], {
+        models: ["claude"],
+        plugins: ["p1"],
+      }),
+    ).toEqual({ models: [], plugins: ["p2"] });
+
+    // the plugins a catalog turns on wait for approval, a file is trusted
+    expect(
+      packageItemToMask(parsed.masks[0], "https://a.b/c.json"),
+    ).toMatchObject({
+      plugin: ["p1", "p2"],
+      source: { plugins: ["p1", "p2"] },
+    });
+    expect(packageItemToMask(parsed.masks[0]).source?.plugins).toBeUndefined();
+    expect(
+      getMissingRequirements(parsed.masks[0], { models: [], plugins: [] })
+        .models,
+    ).toEqual(["gpt-4o", "claude"]);
+  });
+});
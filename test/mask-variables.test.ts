@@ -0,0 +1,93 @@
+import {
+  fillMaskVariables,
+  getDefaultVariableValues,
+  getTemplateVariableNames,
+  getValidVariables,
+  MaskVariable,
+  parseMaskVariables,
+  validateVariableValues,
+} from "../app/utils/mask-variables";
+
+const variables: MaskVariable[] = [
+  { name: "topic", type: "text", required: true },
+  { name: "tone", type: "select", options: ["formal", "casual"] },
+  { name: "words", type: "number", default: "200", min: 50, max: 1000 },
+  { name: "notes", type: "file" },
+];
+
+describe("mask variables", () => {
+  test("fills the declared variables and leaves the others", () => {
+    const text =
+      "Write about {{ topic }} in a {{tone}} tone, {{words}} words. {{input}}";
+    expect(getTemplateVariableNames(text)).toEqual([
+      "topic",
+      "tone",
+      "words",
+      "input",
+    ]);
+    expect(fillMaskVariables(text, variables, { topic: "tea" })).toBe(
+      "Write about tea in a formal tone, 200 words. {{input}}",
+    );
+    expect(fillMaskVariables(text, [])).toBe(text);
+  });
+
+  test("defaults to the first option of a select", () => {
+    expect(getDefaultVariableValues(variables)).toEqual({
+      topic: "",
+      tone: "formal",
+      words: "200",
+      notes: "",
+    });
+  });
+
+  test("validates the values", () => {
+    expect(
+      validateVariableValues(variables, {
+        topic: " ",
+        tone: "rude",
+        words: "10",
+      }),
+    ).toEqual({
+      topic: { type: "required" },
+      tone: { type: "option" },
+      words: { type: "range", min: 50, max: 1000 },
+    });
+    expect(
+      validateVariableValues(variables, { topic: "a", words: "x" }),
+    ).toEqual({ words: { type: "number" } });
+    expect(
+      validateVariableValues(variables, { topic: "a", tone: "casual" }),
+    ).toEqual({});
+  });
+
+  test("parses declared variables", () => {
+    expect(
+      parseMaskVariables([
+        { name: "n", type: "number", default: 3, min: 1, options: ["x"] },
+      ]),
+    ).toEqual([{ name: "n", type: "number", default: "3", min: 1 }]);
+    expect(() => parseMaskVariables([{ name: "1a", type: "text" }])).toThrow(
+      "variables[0]: invalid name",
+    );
+    expect(() =>
+      parseMaskVariables([
+        { name: "a", type: "text" },
+        { name: "a", type: "file" },
+      ]),
+    ).toThrow("variables[1]: duplicate a");
+    expect(() => parseMaskVariables([{ name: "a", type: "select" }])).toThrow(
+      "a select needs options",
+    );
+  });
+
+  test("skips the variables that are still being edited", () => {
+    expect(
+      getValidVariables([
+        { name: "", type: "text" },
+        { name: "a", type: "select", options: [] },
+        { name: "b", type: "text" },
+        { name: "b", type: "number" },
+      ]).map((v) => v.name),
+    ).toEqual(["b"]);
+  });
+});
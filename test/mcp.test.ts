@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  closeMcpClient,
+  getMcpClient,
+  getMcpFunctionTools,
+  McpServerConfig,
+  McpTransportType,
+} from "../app/utils/mcp";
+import { createMcpClient, JsonRpcRequest } from "../app/utils/mcp/client";
+
+const SESSION_ID = "stand-in-session";
+
+/**
+ * A minimal streamable HTTP MCP server with a single `add` tool, answering
+ * `tools/list` as an event stream to cover both response formats.
+ */
+function createStandInServer() {
+  const requests: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.method !== "POST") {
+        res.writeHead(200).end();
+        return;
+      }
+      const message = JSON.parse(body);
+      requests.push({ message, sessionId: req.headers["mcp-session-id"] });
+
+      if (message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      const reply = (result: unknown, sse = false) => {
+        const response = JSON.stringify({
+          jsonrpc: "2.0",
+          id: message.id,
+          result,
+        });
+        res.writeHead(200, {
+          "Content-Type": sse ? "text/event-stream" : "application/json",
+          "Mcp-Session-Id": SESSION_ID,
+        });
+        res.end(sse ? `event: message\ndata: ${response}\n\n` : response);
+      };
+
+      switch (message.method) {
+        case "initialize":
+          return reply({
+            protocolVersion: message.params.protocolVersion,
+            capabilities: { tools: {} },
+            serverInfo: { name: "stand-in", version: "0.1.0" },
+          });
+        case "tools/list":
+          return reply(
+            {
+              tools: [
+                {
+                  name: "add",
+                  description: "Add two numbers",
+                  inputSchema: {
+                    type: "object",
+                    properties: {
+                      a: { type: "number" },
+                      b: { type: "number" },
+                    },
+                    required: ["a", "b"],
+                  },
+                },
+              ],
+            },
+            true,
+          );
+        case "tools/call": {
+          const { a, b } = message.params.arguments;
+          return reply({ content: [{ type: "text", text: `${a + b}` }] });
+        }
+      }
+    });
+  });
+  return { server, requests };
+}
+
+// jest.setup.ts replaces fetch with a stub, requests go through node:http
+function nodeFetch(url: string, init: RequestInit = {}) {
+  return new Promise<Response>((resolve, reject) => {
+    const req = http.request(
+      url,
+      { method: init.method, headers: init.headers as Record<string, string> },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () =>
+          resolve(
+            new Response(res.statusCode === 202 ? null : body, {
+              status: res.statusCode,
+              headers: res.headers as Record<string, string>,
+            }),
+          ),
+        );
+      },
+    );
+    req.on("error", reject);
+    req.end(init.body);
+  });
+}
+
+describe("MCP plugins", () => {
+  const { server, requests } = createStandInServer();
+  let url = "";
+
+  beforeAll(async () => {
+    global.fetch = nodeFetch as typeof fetch;
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await closeMcpClient("stand-in");
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("lists tools and calls them through the function tools", async () => {
+    const config: McpServerConfig = { transport: McpTransportType.Http, url };
+    const { client, serverInfo } = await getMcpClient("stand-in", config);
+    expect(serverInfo.name).toBe("stand-in");
+
+    config.tools = await client.listTools();
+    const { tools, funcs } = getMcpFunctionTools("stand-in", config);
+    expect(tools.map((t) => t.function.name)).toEqual(["add"]);
+    expect(tools[0].function.parameters).toEqual(config.tools[0].inputSchema);
+
+    const res = await funcs.add({ a: 1, b: 2 });
+    expect(res).toEqual({ status: 200, data: "3" });
+
+    // the session is initialized once and reused for the call
+    expect(requests.map((r) => r.message.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/call",
+    ]);
+    expect(requests.at(-1).sessionId).toBe(SESSION_ID);
+  });
+});
+
+describe("MCP client", () => {
+  test("cancels a tool call on the server when it is aborted", async () => {
+    const sent: JsonRpcRequest[] = [];
+    const client = createMcpClient({
+      // tool calls never answer, notifications are accepted
+      send: (message) => {
+        sent.push(message);
+        return message.id === undefined
+          ? Promise.resolve(undefined)
+          : new Promise(() => {});
+      },
+      close: async () => {},
+    });
+
+    const controller = new AbortController();
+    const call = client.callTool("slow", {}, controller.signal);
+    controller.abort();
+    await expect(call).rejects.toThrow("tools/call was cancelled");
+    expect(sent.at(-1)).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId: sent[0].id, reason: "cancelled by the client" },
+    });
+
+    await expect(
+      client.callTool("slow", {}, controller.signal),
+    ).rejects.toThrow("was cancelled");
+    expect(sent).toHaveLength(2);
+  });
+});
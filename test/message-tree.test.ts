@@ -0,0 +1,62 @@
+import type { ChatMessage, ChatSession } from "../app/store";
+import {
+  commitBranch,
+  deleteMessage,
+  getSiblingMap,
+  linkMessages,
+  switchBranch,
+} from "../app/utils/message-tree";
+
+let mockId = 0;
+jest.mock("nanoid", () => ({ nanoid: () => `id-${++mockId}` }));
+
+function message(id: string, createdAt: number): ChatMessage {
+  return { id, createdAt, role: "user", content: id, date: "" };
+}
+
+function session(messages: ChatMessage[]) {
+  return {
+    messages: linkMessages(messages),
+    branches: [],
+    lastSummarizeIndex: 0,
+    memoryPrompt: "",
+  } as unknown as ChatSession;
+}
+
+describe("message tree", () => {
+  test("should keep the edited messages as a sibling branch", () => {
+    const s = session([message("a", 1), message("b", 2), message("c", 3)]);
+    commitBranch(s, [s.messages[0], { ...s.messages[1], content: "edited" }]);
+
+    expect(s.messages.map((m) => m.content)).toEqual(["a", "edited"]);
+    expect(s.branches.map((m) => m.id)).toEqual(["b", "c"]);
+
+    const siblings = getSiblingMap(s).get("a") ?? [];
+    expect(siblings.map((m) => m.content)).toEqual(["b", "edited"]);
+  });
+
+  test("should follow the latest child when switching branches", () => {
+    const s = session([message("a", 1), message("b", 2), message("c", 3)]);
+    commitBranch(s, [s.messages[0], { ...s.messages[1], content: "edited" }]);
+    switchBranch(s, "b");
+
+    expect(s.messages.map((m) => m.id)).toEqual(["a", "b", "c"]);
+    expect(s.branches.map((m) => m.content)).toEqual(["edited"]);
+  });
+
+  test("should drop a truncated tail instead of branching", () => {
+    const s = session([message("a", 1), message("b", 2), message("c", 3)]);
+    commitBranch(s, [s.messages[0]]);
+
+    expect(s.messages.map((m) => m.id)).toEqual(["a"]);
+    expect(s.branches).toEqual([]);
+  });
+
+  test("should attach children to the parent of a deleted message", () => {
+    const s = session([message("a", 1), message("b", 2), message("c", 3)]);
+    deleteMessage(s, "b");
+
+    expect(s.messages.map((m) => m.id)).toEqual(["a", "c"]);
+    expect(s.messages[1].parentId).toBe("a");
+  });
+});
@@ -0,0 +1,77 @@
+import { DEFAULT_MODELS } from "../app/constant";
+import { collectModelTable, getModelOptions } from "../app/utils/model";
+
+describe("model capabilities", () => {
+  test("built-in models declare their capabilities", () => {
+    const table = collectModelTable(DEFAULT_MODELS, "");
+    expect(table["gpt-4o@openai"].capabilities).toMatchObject({
+      vision: true,
+      tools: true,
+      systemRole: true,
+    });
+    expect(table["o1-mini@openai"].capabilities).toMatchObject({
+      reasoning: true,
+      tools: false,
+      systemRole: false,
+    });
+    expect(table["dall-e-3@azure"].capabilities.imageOutput).toBe(true);
+    expect(table["ernie-4.0-8k@baidu"].capabilities.systemRole).toBe(false);
+  });
+
+  test("custom models override capabilities with flags", () => {
+    expect(getModelOptions(["vision", "-tools", "+image-output"])).toEqual({
+      capabilities: { vision: true, tools: false, imageOutput: true },
+    });
+
+    const table = collectModelTable(
+      DEFAULT_MODELS,
+      "gpt-4o@OpenAI|-vision,+llava@OpenAI|vision|-stream",
+    );
+    expect(table["gpt-4o@openai"].capabilities.vision).toBe(false);
+    // other providers of the same model keep their capabilities
+    expect(table["gpt-4o@azure"].capabilities.vision).toBe(true);
+    expect(table["llava@openai"].capabilities).toMatchObject({
+      vision: true,
+      streaming: false,
+    });
+  });
+
+  test("custom models are told by their provider and name", () => {
+    const table = collectModelTable(
+      DEFAULT_MODELS,
+      [
+        "+my-model@OpenAI",
+        "+my-model@Alibaba",
+        "+my-agent@Alibaba|tools",
+        "+claude-2.2@Anthropic",
+        "+gpt-4o-next@OpenAI",
+        "+qwen-vl-ocr@Alibaba",
+        "+o3-mini@Azure",
+      ].join(","),
+    );
+    // OpenAI compatible providers call tools with any model
+    expect(table["my-model@openai"].capabilities).toMatchObject({
+      vision: false,
+      tools: true,
+    });
+    expect(table["my-model@alibaba"].capabilities.tools).toBe(false);
+    expect(table["my-agent@alibaba"].capabilities.tools).toBe(true);
+    expect(table["claude-2.2@anthropic"].capabilities.tools).toBe(false);
+    expect(table["gpt-4o-next@openai"].capabilities.vision).toBe(true);
+    expect(table["qwen-vl-ocr@alibaba"].capabilities.vision).toBe(true);
+    expect(table["o3-mini@azure"].capabilities).toMatchObject({
+      reasoning: true,
+      systemRole: false,
+    });
+  });
+
+  test("persisted models without capabilities fall back to the built-in ones", () => {
+    const persisted = DEFAULT_MODELS.filter(
+      (m) => m.name === "claude-3-opus-latest",
+    ).map(({ capabilities, ...m }) => m);
+    const table = collectModelTable(persisted, "");
+    expect(table["claude-3-opus-latest@anthropic"].capabilities.vision).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { SearchIndex, tokenize } from "../app/utils/search-index";
+import type { ChatMessage, ChatSession } from "../app/store";
+
+let mockId = 0;
+jest.mock("nanoid", () => ({ nanoid: () => `id-${++mockId}` }));
+
+function message(
+  id: string,
+  content: ChatMessage["content"],
+  role: ChatMessage["role"] = "user",
+) {
+  return { id, role, content, date: "", createdAt: 1 } as ChatMessage;
+}
+
+function session(id: string, messages: ChatMessage[], mask = "Default") {
+  return {
+    id,
+    messages,
+    branches: [],
+    mask: { name: mask },
+    lastUpdate: 0,
+  } as unknown as ChatSession;
+}
+
+const ids = (index: SearchIndex, query: string, filters = {}) =>
+  index.search(query, filters).map((hit) => hit.document.messageId);
+
+describe("search index", () => {
+  test("tokenizes latin words and CJK bigrams", () => {
+    expect(tokenize("Hello, World")).toEqual(["hello", "world"]);
+    expect(tokenize("你好ok")).toEqual(["你", "好", "你好", "ok"]);
+  });
+
+  test("indexes multimodal text and requires every term", () => {
+    const index = new SearchIndex();
+    index.update([
+      session("s1", [
+        message("m1", [
+          { type: "image_url", image_url: { url: "x" } },
+          { type: "text", text: "a red apple" },
+        ]),
+        message("m2", "a green apple"),
+      ]),
+    ]);
+    expect(ids(index, "apple red")).toEqual(["m1"]);
+    expect(ids(index, "app").sort()).toEqual(["m1", "m2"]);
+  });
+
+  test("updates incrementally and applies filters", () => {
+    const s1 = session("s1", [message("m1", "pear tart")]);
+    const s2 = session("s2", [message("m2", "pear", "assistant")], "Chef");
+    const index = new SearchIndex();
+    expect(index.update([s1, s2])).toBe(true);
+    expect(index.update([s1, s2])).toBe(false);
+
+    // shorter documents rank higher
+    expect(ids(index, "pear")).toEqual(["m2", "m1"]);
+    expect(ids(index, "pear", { mask: "Chef" })).toEqual(["m2"]);
+    expect(ids(index, "pear", { role: "user" })).toEqual(["m1"]);
+
+    s1.messages = [message("m1", "plum tart")];
+    expect(index.update([s1])).toBe(true);
+    expect(ids(index, "pear")).toEqual([]);
+    expect(ids(index, "plum")).toEqual(["m1"]);
+    expect(index.size).toBe(1);
+  });
+
+  test("indexes words named like Object.prototype keys", () => {
+    const s1 = session("s1", [
+      message("m1", "the constructor of __proto__"),
+      message("m2", "toString"),
+    ]);
+    const index = new SearchIndex();
+    index.update([s1]);
+    const copy = SearchIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+
+    [index, copy].forEach((index) => {
+      expect(ids(index, "constructor")).toEqual(["m1"]);
+      expect(ids(index, "__proto__")).toEqual(["m1"]);
+      expect(ids(index, "valueof")).toEqual([]);
+      index.search("tostring").forEach((hit) => {
+        expect(Number.isFinite(hit.score)).toBe(true);
+      });
+    });
+    expect(Object.keys(Object)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  getShareUrl,
+  isShareExpired,
+  parseShareRequest,
+  SHARE_MAX_MESSAGES,
+  SharedChat,
+  toImportedChat,
+} from "../app/utils/share";
+
+const DAY = 24 * 60 * 60;
+
+describe("parseShareRequest", () => {
+  const body = (extra: any = {}) =>
+    JSON.stringify({
+      title: "Shared",
+      messages: [
+        { role: "user", content: "hi", date: "now", createdAt: 1, extra: 1 },
+        { role: "assistant", content: "hello", date: "now", model: "gpt-4o" },
+      ],
+      ttl: DAY,
+      ...extra,
+    });
+
+  test("keeps the known fields", () => {
+    expect(parseShareRequest(body())).toEqual({
+      title: "Shared",
+      avatar: undefined,
+      messages: [
+        {
+          role: "user",
+          content: "hi",
+          date: "now",
+          createdAt: 1,
+          model: undefined,
+        },
+        {
+          role: "assistant",
+          content: "hello",
+          date: "now",
+          createdAt: undefined,
+          model: "gpt-4o",
+        },
+      ],
+      ttl: DAY,
+    });
+  });
+
+  test("caps the ttl", () => {
+    expect(parseShareRequest(body(), 60).ttl).toBe(60);
+    expect(parseShareRequest(body({ ttl: 0 }), 60).ttl).toBe(60);
+    expect(parseShareRequest(body({ ttl: 0 })).ttl).toBe(0);
+    expect(parseShareRequest(body({ ttl: -5 })).ttl).toBe(0);
+  });
+
+  test("rejects invalid chats", () => {
+    expect(() => parseShareRequest("{")).toThrow("invalid json");
+    expect(() => parseShareRequest(body({ messages: [] }))).toThrow(
+      `a shared chat has 1 to ${SHARE_MAX_MESSAGES} messages`,
+    );
+    expect(() =>
+      parseShareRequest(body({ messages: [{ role: "tool", content: "" }] })),
+    ).toThrow("invalid message");
+  });
+});
+
+describe("share", () => {
+  const share: SharedChat = {
+    id: "abc",
+    title: "Shared",
+    createdAt: 100,
+    messages: [
+      { role: "user", content: "hi", date: "", createdAt: 1 },
+      { role: "assistant", content: "hello", date: "" },
+    ],
+  };
+
+  test("expires", () => {
+    expect(isShareExpired(share)).toBe(false);
+    expect(isShareExpired({ expiresAt: 10 }, 9)).toBe(false);
+    expect(isShareExpired({ expiresAt: 10 }, 10)).toBe(true);
+  });
+
+  test("continues as an imported chat", () => {
+    const chat = toImportedChat(share);
+    expect(chat.source).toBe("share");
+    expect(chat.sourceId).toBe("abc");
+    expect(chat.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ["abc-0", undefined],
+      ["abc-1", "abc-0"],
+    ]);
+  });
+
+  test("links to the hash route", () => {
+    expect(getShareUrl("https://chat.example.com", "abc")).toBe(
+      "https://chat.example.com/#/share/abc",
+    );
+  });
+});
@@ -0,0 +1,34 @@
+/** @jest-environment node */
+import {
+  decryptPayload,
+  encryptPayload,
+  isEncryptedPayload,
+  SyncPassphraseError,
+} from "../app/utils/cloud/crypto";
+
+// a low iteration count keeps the test fast
+const ITERATIONS = 1000;
+
+describe("sync encryption", () => {
+  test("backups round trip with the passphrase", async () => {
+    const state = JSON.stringify({ "chat-next-web-store": { sessions: [] } });
+    const encrypted = await encryptPayload(state, "secret", ITERATIONS);
+
+    expect(encrypted).not.toContain("sessions");
+    expect(isEncryptedPayload(encrypted)).toBe(true);
+    expect(isEncryptedPayload(state)).toBe(false);
+    expect(await decryptPayload(encrypted, "secret")).toBe(state);
+
+    // a fresh salt and iv for every upload
+    expect(await encryptPayload(state, "secret", ITERATIONS)).not.toBe(
+      encrypted,
+    );
+  });
+
+  test("a wrong passphrase is reported", async () => {
+    const encrypted = await encryptPayload("{}", "secret", ITERATIONS);
+    await expect(decryptPayload(encrypted, "wrong")).rejects.toBeInstanceOf(
+      SyncPassphraseError,
+    );
+  });
+});
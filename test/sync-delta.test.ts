@@ -0,0 +1,98 @@
+import {
+  pullRemoteState,
+  pushLocalState,
+  sessionKey,
+  SYNC_LEGACY_KEY,
+  SYNC_MANIFEST_KEY,
+} from "../app/utils/sync-delta";
+import type { SyncClient } from "../app/utils/cloud";
+import type { SyncedAppState } from "../app/utils/sync";
+import type { ChatSession } from "../app/store/chat";
+
+function createMemoryClient() {
+  const objects = new Map<string, string>();
+  const reads: string[] = [];
+  const writes: string[] = [];
+  const client: SyncClient = {
+    async get(key) {
+      reads.push(key);
+      return objects.get(key) ?? "";
+    },
+    async set(key, value) {
+      writes.push(key);
+      objects.set(key, value);
+    },
+    async remove(key) {
+      objects.delete(key);
+    },
+    async check() {
+      return true;
+    },
+  };
+  return { client, objects, reads, writes };
+}
+
+const session = (id: string, lastUpdate = 1) =>
+  ({
+    id,
+    topic: id,
+    messages: [{ id: `${id}-1`, role: "user", content: id, date: "" }],
+    lastUpdate,
+  }) as unknown as ChatSession;
+
+const appState = (sessions: ChatSession[]) =>
+  ({
+    "chat-next-web-store": { sessions, currentSessionIndex: 0 },
+    "mask-store": { masks: {} },
+  }) as unknown as SyncedAppState;
+
+const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+describe("delta sync", () => {
+  test("only changed sessions are moved", async () => {
+    const { client, objects, reads, writes } = createMemoryClient();
+    const state = appState([session("a"), session("b")]);
+    let manifest = await pushLocalState(client, state);
+    expect(writes).toEqual([
+      sessionKey("a"),
+      sessionKey("b"),
+      SYNC_MANIFEST_KEY,
+    ]);
+    expect(objects.get(SYNC_MANIFEST_KEY)).not.toContain('"messages"');
+
+    // edit a, delete b, add c
+    writes.length = 0;
+    const next = appState([session("c"), session("a", 2)]);
+    manifest = await pushLocalState(client, next, manifest);
+    expect(writes).toEqual([
+      sessionKey("c"),
+      sessionKey("a"),
+      SYNC_MANIFEST_KEY,
+    ]);
+    expect(objects.has(sessionKey("b"))).toBe(false);
+
+    // a device with `next` as base only fetches the manifest
+    reads.length = 0;
+    const remote = await pullRemoteState(client, clone(next));
+    expect(reads).toEqual([SYNC_MANIFEST_KEY]);
+    expect(remote.state).toEqual(next);
+    expect(remote.manifest).toEqual(manifest);
+
+    // a device with an older base fetches what changed since
+    reads.length = 0;
+    await pullRemoteState(client, clone(state));
+    expect(reads.sort()).toEqual(
+      [SYNC_MANIFEST_KEY, sessionKey("a"), sessionKey("c")].sort(),
+    );
+  });
+
+  test("the full state of older versions is still read", async () => {
+    const { client, objects } = createMemoryClient();
+    const state = appState([session("a")]);
+    objects.set(SYNC_LEGACY_KEY, JSON.stringify(state));
+
+    const remote = await pullRemoteState(client);
+    expect(remote.state).toEqual(state);
+    expect(remote.manifest).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  applyRemoteSide,
+  createSyncMeta,
+  mergeMasks,
+  mergeSessions,
+  SyncConflict,
+} from "../app/utils/sync-merge";
+import type { ChatMessage, ChatSession } from "../app/store/chat";
+
+const message = (id: string, content = id) =>
+  ({ id, role: "user", content, date: "" }) as ChatMessage;
+
+const session = (id: string, messages: ChatMessage[], lastUpdate = 1) =>
+  ({
+    id,
+    topic: id,
+    messages,
+    branches: [],
+    lastUpdate,
+  }) as unknown as ChatSession;
+
+const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+describe("sync merge", () => {
+  test("deletions and edits of one side win over the base", () => {
+    const base = [
+      session("a", [message("1"), message("2")]),
+      session("b", [message("3")]),
+    ];
+    const local = clone(base);
+    local[0].messages.pop(); // delete message 2
+    const remote = clone(base).filter((s) => s.id !== "b"); // delete chat b
+    remote[0].messages[0].content = "edited";
+
+    const meta = createSyncMeta();
+    const conflicts: SyncConflict[] = [];
+    const merged = mergeSessions(base, local, remote, meta, conflicts, 10);
+
+    expect(conflicts).toHaveLength(0);
+    expect(merged.map((s) => s.id)).toEqual(["a"]);
+    expect(merged[0].messages).toEqual([message("1", "edited")]);
+    expect(meta.tombstones.session).toEqual({ b: 10 });
+    expect(meta.tombstones.message).toEqual({ "2": 10 });
+
+    // a device without the base drops the deleted records by the tombstones
+    const stale = clone(base);
+    const other = mergeSessions(undefined, stale, merged, meta, [], 20);
+    expect(other.map((s) => s.id)).toEqual(["a"]);
+    expect(other[0].messages.map((m: ChatMessage) => m.id)).toEqual(["1"]);
+  });
+
+  test("concurrent edits are conflicts until a side is picked", () => {
+    const base = [session("a", [message("1")])];
+    const local = clone(base);
+    local[0].messages[0].content = "local";
+    local[0].messages.push(message("2"));
+    const remote = clone(base);
+    remote[0].messages[0].content = "remote";
+
+    const conflicts: SyncConflict[] = [];
+    const merged = mergeSessions(
+      base,
+      local,
+      remote,
+      createSyncMeta(),
+      conflicts,
+    );
+    expect(conflicts).toMatchObject([
+      { kind: "message", id: "1", sessionId: "a" },
+    ]);
+    expect(merged[0].messages.map((m: ChatMessage) => m.content)).toEqual([
+      "local",
+      "2",
+    ]);
+
+    applyRemoteSide({ sessions: merged, masks: {}, prompts: {} }, conflicts[0]);
+    expect(merged[0].messages.map((m: ChatMessage) => m.content)).toEqual([
+      "remote",
+      "2",
+    ]);
+  });
+
+  test("messages moving to another branch are kept", () => {
+    const base = [session("a", [message("1"), message("2")])];
+    const local = clone(base);
+    local[0].branches = [local[0].messages.pop()!];
+    const remote = clone(base);
+    remote[0].messages.push(message("3"));
+
+    const meta = createSyncMeta();
+    const merged = mergeSessions(base, local, remote, meta, []);
+    expect(merged[0].messages.map((m: ChatMessage) => m.id)).toEqual([
+      "1",
+      "3",
+    ]);
+    expect(merged[0].branches.map((m: ChatMessage) => m.id)).toEqual(["2"]);
+    expect(meta.tombstones.message).toEqual({});
+  });
+
+  test("without a base the newer mask wins", () => {
+    const mask = { id: "m", name: "old", createdAt: 1 } as any;
+    const conflicts: SyncConflict[] = [];
+    const merged = mergeMasks(
+      undefined,
+      { m: mask },
+      { m: { ...mask, name: "new", updatedAt: 5 } },
+      createSyncMeta(),
+      conflicts,
+    );
+    expect(merged.m.name).toBe("new");
+    expect(conflicts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  getSyncBackoff,
+  reportSyncStatus,
+  SYNC_RETRY_BASE,
+  SYNC_RETRY_MAX,
+  useSyncStatus,
+  withSyncLock,
+} from "../app/utils/sync-scheduler";
+
+describe("sync scheduler", () => {
+  test("failed syncs back off exponentially", () => {
+    expect(getSyncBackoff(0)).toBe(0);
+    expect(getSyncBackoff(1)).toBe(SYNC_RETRY_BASE);
+    expect(getSyncBackoff(3)).toBe(SYNC_RETRY_BASE * 4);
+    expect(getSyncBackoff(20)).toBe(SYNC_RETRY_MAX);
+
+    reportSyncStatus(Error("offline"), 0);
+    reportSyncStatus(Error("offline"), 0);
+    expect(useSyncStatus.getState()).toMatchObject({
+      status: "error",
+      failures: 2,
+      retryAt: SYNC_RETRY_BASE * 2,
+      error: "offline",
+    });
+
+    reportSyncStatus("success");
+    expect(useSyncStatus.getState()).toMatchObject({
+      status: "success",
+      failures: 0,
+    });
+  });
+
+  test("a sync is skipped while another one holds the lock", async () => {
+    let release = () => {};
+    const running = withSyncLock(
+      () => new Promise<void>((resolve) => (release = resolve)),
+    );
+    // let the first sync take the lease
+    await new Promise((r) => setTimeout(r, 100));
+
+    const task = jest.fn(async () => {});
+    expect(await withSyncLock(task, false)).toBe(false);
+    expect(task).not.toHaveBeenCalled();
+
+    release();
+    expect(await running).toBe(true);
+    expect(await withSyncLock(task, false)).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
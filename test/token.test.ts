@@ -0,0 +1,34 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ESTIMATE_TOKENIZER,
+  estimateTokenLength,
+  getTokenizerName,
+  loadTokenizer,
+} from "../app/utils/token";
+
+describe("tokenizer registry", () => {
+  test("should pick the encoding of openai models", () => {
+    expect(getTokenizerName("gpt-4o-mini")).toBe("o200k_base");
+    expect(getTokenizerName("gpt-4-turbo")).toBe("cl100k_base");
+    expect(getTokenizerName("my-model", "OpenAI")).toBe("cl100k_base");
+  });
+
+  test("should fall back to the estimation for other models", () => {
+    expect(getTokenizerName("claude-3-5-sonnet", "Anthropic")).toBe(
+      ESTIMATE_TOKENIZER,
+    );
+  });
+
+  test("should count tokens with the bundled vocab", async () => {
+    const tokenizer = await loadTokenizer("o200k_base");
+    expect(tokenizer.count("hello world")).toBe(2);
+    expect(tokenizer.count("<|endoftext|>")).toBeGreaterThan(1);
+  });
+
+  test("should use the estimation for unknown tokenizers", async () => {
+    const tokenizer = await loadTokenizer("unknown");
+    expect(tokenizer.count("hello")).toBe(estimateTokenLength("hello"));
+  });
+});